@@ -0,0 +1,19 @@
+// Vercel entry point: every /api/* request is rewritten here (vercel.json)
+// and handled by the same Express app as the standalone server.
+//
+// dist/app.js is produced by `npm run build`. The function runtime can't
+// resolve the @shared path alias or extensionless ESM imports in server/, so
+// it loads the esbuild bundle instead of the TypeScript sources.
+import { createApp } from "../dist/app.js";
+
+// Built once per function instance and reused across invocations
+const appPromise = createApp();
+
+/**
+ * @param {import("@vercel/node").VercelRequest} req
+ * @param {import("@vercel/node").VercelResponse} res
+ */
+export default async function handler(req, res) {
+  const app = await appPromise;
+  app(req, res);
+}
@@ -1,35 +1,65 @@
-import { Switch, Route } from "wouter";
+import type { ComponentType } from "react";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { AuthProvider, useAuth } from "@/components/auth/auth-provider";
+import { AuthProvider, useAuth, useCan } from "@/components/auth/auth-provider";
 import { AdminLayout } from "@/components/layout/admin-layout";
 import Login from "@/pages/login";
 import Dashboard from "@/pages/dashboard";
 import Events from "@/pages/events";
+import EventCheckin from "@/pages/event-checkin";
 import Rewards from "@/pages/rewards";
 import Surveys from "@/pages/surveys";
 import Businesses from "@/pages/businesses";
+import Promotions from "@/pages/promotions";
+import Users from "@/pages/users";
+import AuditLog from "@/pages/audit-log";
+import Trash from "@/pages/trash";
 import Analytics from "@/pages/analytics";
 import SurveyAnalytics from "@/pages/survey-analytics";
 import GeographicAnalytics from "@/pages/geographic-analytics";
 import SalesAnalytics from "@/pages/sales-analytics";
 import NotFound from "@/pages/not-found";
+import type { Permission } from "@shared/permissions";
+import { TRASH_PERMISSIONS } from "@shared/trash";
+
+// Each page is open to roles holding any of its permissions
+const pages: { path: string; component: ComponentType<any>; permissions: Permission[] }[] = [
+  { path: "/", component: Dashboard, permissions: ["analytics:view"] },
+  { path: "/events", component: Events, permissions: ["events:view"] },
+  { path: "/events/:id/check-in", component: EventCheckin, permissions: ["engagement:record"] },
+  { path: "/rewards", component: Rewards, permissions: ["rewards:view"] },
+  { path: "/surveys", component: Surveys, permissions: ["surveys:view"] },
+  { path: "/surveys/:id/analytics", component: SurveyAnalytics, permissions: ["surveys:view"] },
+  { path: "/businesses", component: Businesses, permissions: ["businesses:view"] },
+  { path: "/promotions", component: Promotions, permissions: ["promotions:view"] },
+  { path: "/users", component: Users, permissions: ["users:view"] },
+  { path: "/audit-log", component: AuditLog, permissions: ["audit:view"] },
+  { path: "/trash", component: Trash, permissions: Object.values(TRASH_PERMISSIONS) },
+  { path: "/analytics", component: Analytics, permissions: ["analytics:view", "redemptions:view"] },
+  { path: "/analytics/geographic", component: GeographicAnalytics, permissions: ["analytics:view"] },
+  { path: "/analytics/sales", component: SalesAnalytics, permissions: ["analytics:view"] },
+];
 
 function AuthenticatedRoutes() {
+  const can = useCan();
+  const allowed = pages.filter((page) => can(...page.permissions));
+  // Roles without the dashboard land on their first page instead
+  const home = allowed.find((page) => !page.path.includes(":"));
+
   return (
     <AdminLayout>
       <Switch>
-        <Route path="/" component={Dashboard} />
-        <Route path="/events" component={Events} />
-        <Route path="/rewards" component={Rewards} />
-        <Route path="/surveys" component={Surveys} />
-        <Route path="/surveys/:id/analytics" component={SurveyAnalytics} />
-        <Route path="/businesses" component={Businesses} />
-        <Route path="/analytics" component={Analytics} />
-        <Route path="/analytics/geographic" component={GeographicAnalytics} />
-        <Route path="/analytics/sales" component={SalesAnalytics} />
+        {allowed.map((page) => (
+          <Route key={page.path} path={page.path} component={page.component} />
+        ))}
+        {home && home.path !== "/" && (
+          <Route path="/">
+            <Redirect to={home.path} />
+          </Route>
+        )}
         <Route component={NotFound} />
       </Switch>
     </AdminLayout>
@@ -0,0 +1,108 @@
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { lastDays, type RangeSelection } from "@/lib/analytics";
+import type { Granularity } from "@shared/schema";
+
+interface RangePickerProps {
+  value: RangeSelection;
+  onChange: (value: RangeSelection) => void;
+  showGranularity?: boolean;
+}
+
+const PRESETS = [
+  { value: "7", label: "Last 7 days", days: 7 },
+  { value: "30", label: "Last 30 days", days: 30 },
+  { value: "90", label: "Last 90 days", days: 90 },
+  { value: "180", label: "Last 6 months", days: 182 },
+  { value: "365", label: "Last year", days: 365 },
+];
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+export function RangePicker({
+  value,
+  onChange,
+  showGranularity = true,
+}: RangePickerProps) {
+  // A preset is selected only while the range still matches it exactly
+  const preset =
+    PRESETS.find((p) => {
+      const range = lastDays(p.days);
+      return range.from === value.from && range.to === value.to;
+    })?.value ?? "custom";
+
+  const handlePresetChange = (presetValue: string) => {
+    const match = PRESETS.find((p) => p.value === presetValue);
+    if (match) {
+      onChange({ ...value, ...lastDays(match.days) });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={preset} onValueChange={handlePresetChange}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRESETS.map((p) => (
+            <SelectItem key={p.value} value={p.value}>
+              {p.label}
+            </SelectItem>
+          ))}
+          <SelectItem value="custom" disabled>
+            Custom range
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="date"
+        className="w-40"
+        value={value.from}
+        max={value.to}
+        onChange={(e) =>
+          e.target.value && onChange({ ...value, from: e.target.value })
+        }
+      />
+      <span className="text-slate-500">to</span>
+      <Input
+        type="date"
+        className="w-40"
+        value={value.to}
+        min={value.from}
+        onChange={(e) =>
+          e.target.value && onChange({ ...value, to: e.target.value })
+        }
+      />
+      {showGranularity && (
+        <Select
+          value={value.granularity}
+          onValueChange={(granularity) =>
+            onChange({ ...value, granularity: granularity as Granularity })
+          }
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map((g) => (
+              <SelectItem key={g} value={g}>
+                {GRANULARITY_LABELS[g]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
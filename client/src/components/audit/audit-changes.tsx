@@ -0,0 +1,64 @@
+import type {
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+} from "@shared/schema";
+import { formatOrgDateTime } from "@shared/timezone";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  business: "Business",
+  event: "Event",
+  survey: "Survey",
+  reward_item: "Reward",
+  reward_redemption: "Redemption",
+  promotion: "Promotion",
+  user: "User",
+  receipt: "Receipt",
+};
+
+// "adjust_points" reads "Adjust points"
+export const auditActionLabel = (action: string) =>
+  action.charAt(0).toUpperCase() + action.slice(1).replace(/_/g, " ");
+
+// "pointThreshold" reads "Point threshold"
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") {
+    return ISO_DATE.test(value) ? formatOrgDateTime(value) : value;
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export const auditActor = (entry: AuditLogEntry) =>
+  entry.actorEmail || entry.actorId || "Unknown";
+
+// The fields an audit entry changed, each as before → after
+export function AuditChangeList({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    return <p className="text-sm text-slate-400">No field changes</p>;
+  }
+  return (
+    <dl className="space-y-1 text-sm">
+      {fields.map((field) => (
+        <div key={field} className="flex flex-wrap gap-x-2">
+          <dt className="font-medium text-slate-700">{fieldLabel(field)}:</dt>
+          <dd className="text-slate-600 break-all">
+            <span className="line-through text-slate-400">
+              {formatValue(changes[field].before)}
+            </span>{" "}
+            → {formatValue(changes[field].after)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { useCan } from "@/components/auth/auth-provider";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  AuditEntityType,
+  AuditLogEntry,
+  PaginatedResult,
+} from "@shared/schema";
+import { formatOrgDateTime } from "@shared/timezone";
+import {
+  AuditChangeList,
+  auditActionLabel,
+  auditActor,
+} from "./audit-changes";
+
+const PAGE_SIZE = 10;
+
+interface EntityHistoryProps {
+  entityType: AuditEntityType;
+  entityId: number | string;
+}
+
+// One entity's audit entries, newest first, for the History tab of its modal
+export function EntityHistory({ entityType, entityId }: EntityHistoryProps) {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<PaginatedResult<AuditLogEntry>>({
+    queryKey: ["/api/audit-log", entityType, String(entityId), page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        entityType,
+        entityId: String(entityId),
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+      });
+      const response = await apiRequest("GET", `/api/audit-log?${params}`);
+      return response.json();
+    },
+    // Every save adds an entry, so refetch whenever the tab is opened
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500 py-4">Loading history...</p>;
+  }
+  if (!data?.items.length) {
+    return <p className="text-sm text-slate-500 py-4">No recorded changes</p>;
+  }
+
+  return (
+    <div>
+      <ul className="divide-y divide-slate-100">
+        {data.items.map((entry) => (
+          <li key={entry.id} className="py-3 space-y-1">
+            <p className="text-sm text-slate-900">
+              <span className="font-medium">
+                {auditActionLabel(entry.action)}
+              </span>{" "}
+              by {auditActor(entry)}
+              <span className="text-slate-500">
+                {entry.createdAt && ` · ${formatOrgDateTime(entry.createdAt)}`}
+              </span>
+            </p>
+            <AuditChangeList changes={entry.changes} />
+          </li>
+        ))}
+      </ul>
+      <ListPagination
+        page={data.page}
+        pageSize={data.pageSize}
+        total={data.total}
+        onPageChange={setPage}
+      />
+    </div>
+  );
+}
+
+interface EntityHistoryTabsProps {
+  entityType: AuditEntityType;
+  entityId: number | string | undefined; // undefined while creating
+  children: ReactNode;
+}
+
+// Puts a modal's form under a Details tab beside the entity's History. New
+// entities, and users who can't view the audit log, get the form alone.
+export function EntityHistoryTabs({
+  entityType,
+  entityId,
+  children,
+}: EntityHistoryTabsProps) {
+  const canViewAudit = useCan()("audit:view");
+  if (entityId === undefined || !canViewAudit) return <>{children}</>;
+
+  return (
+    <Tabs defaultValue="details">
+      <TabsList>
+        <TabsTrigger value="details">Details</TabsTrigger>
+        <TabsTrigger value="history">History</TabsTrigger>
+      </TabsList>
+      {/* Kept mounted so unsaved edits survive a look at the history */}
+      <TabsContent
+        value="details"
+        forceMount
+        className="data-[state=inactive]:hidden"
+      >
+        {children}
+      </TabsContent>
+      <TabsContent value="history">
+        <EntityHistory entityType={entityType} entityId={entityId} />
+      </TabsContent>
+    </Tabs>
+  );
+}
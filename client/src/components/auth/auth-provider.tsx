@@ -1,17 +1,21 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { getAuthToken, removeAuthToken, getUserFromToken, isAuthenticated } from "@/lib/supabase";
+import { removeAuthToken, getUserFromToken, isAuthenticated } from "@/lib/supabase";
+import { apiRequest, onSessionEnded, queryClient, refreshAccessToken } from "@/lib/queryClient";
+import { can, type Permission } from "@shared/permissions";
 
 interface User {
   id: number;
   email: string;
   role: string;
+  businessId: number | null; // set for business owners
 }
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   login: (token: string, user: User) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -22,10 +26,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const checkAuth = () => {
-      if (isAuthenticated()) {
-        const userData = getUserFromToken();
-        setUser(userData);
+    // An expired access token only means the page sat idle: the refresh
+    // cookie may still hold a live session
+    const checkAuth = async () => {
+      if (isAuthenticated() || (await refreshAccessToken())) {
+        setUser(getUserFromToken());
       } else {
         removeAuthToken();
         setUser(null);
@@ -33,6 +38,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setIsLoading(false);
     };
 
+    onSessionEnded(() => setUser(null));
     checkAuth();
   }, []);
 
@@ -41,11 +47,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(userData);
   };
 
-  const logout = () => {
+  const clearSession = () => {
     removeAuthToken();
+    queryClient.clear();
     setUser(null);
   };
 
+  const logout = async () => {
+    // Sign out locally even if the server can't be reached
+    await fetch("/api/auth/logout", { method: "POST", credentials: "include" }).catch(() => {});
+    clearSession();
+  };
+
+  // Ends every session the user has, on this device and any other
+  const logoutEverywhere = async () => {
+    await apiRequest("POST", "/api/auth/logout-all");
+    clearSession();
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -53,6 +72,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isAuthenticated: !!user,
         login,
         logout,
+        logoutEverywhere,
         isLoading,
       }}
     >
@@ -68,3 +88,11 @@ export function useAuth() {
   }
   return context;
 }
+
+// Whether the signed-in user's role grants any of the permissions. The server
+// enforces the same rules; this only hides what it would refuse.
+export function useCan() {
+  const { user } = useAuth();
+  return (...permissions: Permission[]) =>
+    permissions.some((permission) => can(user?.role, permission));
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface ExportOption {
+  label: string;
+  resource: string;
+  params?: Record<string, string | number | undefined>;
+}
+
+interface ExportButtonProps {
+  options: ExportOption[];
+}
+
+const FORMATS = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel" },
+];
+
+// Downloads /api/export/:resource through apiRequest so the auth header is sent
+async function downloadExport(option: ExportOption, format: string) {
+  const params = new URLSearchParams({ format });
+  Object.entries(option.params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+
+  const response = await apiRequest(
+    "GET",
+    `/api/export/${option.resource}?${params}`
+  );
+  const blob = await response.blob();
+  const filename =
+    response.headers
+      .get("Content-Disposition")
+      ?.match(/filename="(.+)"/)?.[1] || `${option.resource}.${format}`;
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportButton({ options }: ExportButtonProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (option: ExportOption, format: string) => {
+    setIsExporting(true);
+    try {
+      await downloadExport(option, format);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option, index) => (
+          <div key={option.resource}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{option.label}</DropdownMenuLabel>
+            {FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onClick={() => handleExport(option, format.value)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -23,6 +23,14 @@ const pageTitles: Record<string, { title: string; subtitle: string }> = {
     title: "Businesses Management",
     subtitle: "Manage participating local businesses",
   },
+  "/promotions": {
+    title: "Promotions Management",
+    subtitle: "Manage business coupon codes and special offers",
+  },
+  "/users": {
+    title: "User Directory",
+    subtitle: "Manage patrons, roles and linked business accounts",
+  },
   "/analytics": {
     title: "Detailed Analytics",
     subtitle: "Comprehensive data analysis and insights",
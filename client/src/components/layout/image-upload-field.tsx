@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// A pending change to a record's image, applied after the record is saved
+export interface ImageSelection {
+  file: File | null;
+  remove: boolean;
+}
+
+export const NO_IMAGE_CHANGE: ImageSelection = { file: null, remove: false };
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB, matches the server limit
+
+// Uploads or removes the image through PUT/DELETE <basePath>/:id/image
+export async function saveImageSelection(
+  basePath: string,
+  id: number,
+  selection: ImageSelection
+) {
+  if (selection.file) {
+    const formData = new FormData();
+    formData.append("image", selection.file);
+    await apiRequest("PUT", `${basePath}/${id}/image`, formData);
+  } else if (selection.remove) {
+    await apiRequest("DELETE", `${basePath}/${id}/image`);
+  }
+}
+
+interface ImageUploadFieldProps {
+  id: string;
+  alt: string;
+  currentUrl?: string | null;
+  value: ImageSelection;
+  onChange: (value: ImageSelection) => void;
+}
+
+export function ImageUploadField({
+  id,
+  alt,
+  currentUrl,
+  value,
+  onChange,
+}: ImageUploadFieldProps) {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!value.file) {
+      setPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(value.file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [value.file]);
+
+  const shownUrl = preview ?? (value.remove ? null : currentUrl);
+
+  const handleSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Error",
+        description: "Please select an image file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast({
+        title: "Error",
+        description: "Image size must be less than 5MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onChange({ file, remove: false });
+  };
+
+  // Dropping a newly picked file falls back to the saved image, if any
+  const handleRemove = () =>
+    onChange(value.file ? NO_IMAGE_CHANGE : { file: null, remove: true });
+
+  if (shownUrl) {
+    return (
+      <div className="relative">
+        <img
+          src={shownUrl}
+          alt={alt}
+          className="w-full h-48 object-cover rounded-lg border"
+        />
+        <Button
+          type="button"
+          variant="destructive"
+          size="sm"
+          className="absolute top-2 right-2"
+          onClick={handleRemove}
+        >
+          Remove
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center">
+      <input
+        type="file"
+        accept="image/*"
+        onChange={handleSelect}
+        className="hidden"
+        id={id}
+      />
+      <label htmlFor={id} className="cursor-pointer">
+        <div className="space-y-2">
+          <div className="text-slate-500">
+            <p>Click to upload an image</p>
+            <p className="text-xs">PNG, JPG, GIF up to 5MB</p>
+          </div>
+        </div>
+      </label>
+    </div>
+  );
+}
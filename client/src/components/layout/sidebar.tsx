@@ -1,40 +1,75 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import { useAuth } from "@/components/auth/auth-provider";
+import { useAuth, useCan } from "@/components/auth/auth-provider";
 import {
   LayoutDashboard,
   Calendar,
   Gift,
   Vote,
   Store,
+  Tag,
+  Users,
   BarChart3,
   Building2,
+  History,
+  Trash2,
   LogOut,
+  MonitorOff,
   User,
 } from "lucide-react";
+import { ROLE_LABELS, type Permission } from "@shared/permissions";
+import { TRASH_PERMISSIONS } from "@shared/trash";
+import type { UserRole } from "@shared/schema";
 
-const navigation = [{ name: "Dashboard", href: "/", icon: LayoutDashboard }];
+type NavItem = {
+  name: string;
+  href: string;
+  icon: typeof LayoutDashboard;
+  permissions: Permission[];
+};
 
-const contentManagement = [
-  { name: "Events", href: "/events", icon: Calendar },
-  { name: "Rewards", href: "/rewards", icon: Gift },
-  { name: "Surveys", href: "/surveys", icon: Vote },
-  { name: "Businesses", href: "/businesses", icon: Store },
+const navigation: NavItem[] = [
+  { name: "Dashboard", href: "/", icon: LayoutDashboard, permissions: ["analytics:view"] },
 ];
 
-const analytics = [
-  { name: "Detailed Analytics", href: "/analytics", icon: BarChart3 },
+const contentManagement: NavItem[] = [
+  { name: "Events", href: "/events", icon: Calendar, permissions: ["events:view"] },
+  { name: "Rewards", href: "/rewards", icon: Gift, permissions: ["rewards:view"] },
+  { name: "Surveys", href: "/surveys", icon: Vote, permissions: ["surveys:view"] },
+  { name: "Businesses", href: "/businesses", icon: Store, permissions: ["businesses:view"] },
+  { name: "Promotions", href: "/promotions", icon: Tag, permissions: ["promotions:view"] },
+  { name: "Users", href: "/users", icon: Users, permissions: ["users:view"] },
+  { name: "Audit Log", href: "/audit-log", icon: History, permissions: ["audit:view"] },
+  { name: "Trash", href: "/trash", icon: Trash2, permissions: Object.values(TRASH_PERMISSIONS) },
+];
+
+const analytics: NavItem[] = [
+  {
+    name: "Detailed Analytics",
+    href: "/analytics",
+    icon: BarChart3,
+    permissions: ["analytics:view", "redemptions:view"],
+  },
   {
     name: "Geographic Analytics",
     href: "/analytics/geographic",
     icon: BarChart3,
+    permissions: ["analytics:view"],
+  },
+  {
+    name: "Sales Analytics",
+    href: "/analytics/sales",
+    icon: BarChart3,
+    permissions: ["analytics:view"],
   },
-  { name: "Sales Analytics", href: "/analytics/sales", icon: BarChart3 },
 ];
 
 export function Sidebar() {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, logoutEverywhere } = useAuth();
+  const can = useCan();
+  const allowed = (items: NavItem[]) =>
+    items.filter((item) => can(...item.permissions));
 
   return (
     <div className="fixed inset-y-0 left-0 w-64 bg-white border-r border-slate-200 shadow-sm">
@@ -51,7 +86,7 @@ export function Sidebar() {
       {/* Navigation */}
       <nav className="mt-6 px-3">
         <div className="space-y-1">
-          {navigation.map((item) => {
+          {allowed(navigation).map((item) => {
             const Icon = item.icon;
             return (
               <Link key={item.name} href={item.href}>
@@ -75,7 +110,7 @@ export function Sidebar() {
             <h3 className="px-3 text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
               Content Management
             </h3>
-            {contentManagement.map((item) => {
+            {allowed(contentManagement).map((item) => {
               const Icon = item.icon;
               return (
                 <Link key={item.name} href={item.href}>
@@ -100,7 +135,7 @@ export function Sidebar() {
             <h3 className="px-3 text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
               Analytics
             </h3>
-            {analytics.map((item) => {
+            {allowed(analytics).map((item) => {
               const Icon = item.icon;
               return (
                 <Link key={item.name} href={item.href}>
@@ -132,8 +167,17 @@ export function Sidebar() {
             <p className="text-sm font-medium text-slate-900 truncate">
               {user?.email}
             </p>
-            <p className="text-xs text-slate-500">Administrator</p>
+            <p className="text-xs text-slate-500">
+              {ROLE_LABELS[user?.role as UserRole] ?? "Administrator"}
+            </p>
           </div>
+          <button
+            onClick={logoutEverywhere}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+            title="Sign out on all devices"
+          >
+            <MonitorOff className="w-4 h-4" />
+          </button>
           <button
             onClick={logout}
             className="text-slate-400 hover:text-slate-600 transition-colors"
@@ -0,0 +1,136 @@
+import type { Business, Hotspot } from "@shared/schema";
+
+interface BusinessMapProps {
+  businesses: Business[];
+  hotspots?: Hotspot[];
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = 40;
+
+// Offline SVG map: plots business pins and hotspot circles on an
+// equirectangular projection fitted to the data, with no external tiles.
+export function BusinessMap({
+  businesses,
+  hotspots = [],
+  height = 400,
+}: BusinessMapProps) {
+  const pins = businesses.filter(
+    (b) => b.latitude != null && b.longitude != null
+  );
+  const points = [
+    ...pins.map((b) => ({ lat: b.latitude!, lng: b.longitude! })),
+    ...hotspots.map((h) => ({ lat: h.latitude, lng: h.longitude })),
+  ];
+
+  if (points.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center bg-slate-50 rounded-lg text-sm text-slate-500"
+        style={{ height }}
+      >
+        No businesses have coordinates yet
+      </div>
+    );
+  }
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+
+  // Longitude degrees shrink with latitude; correct so the map isn't stretched
+  const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxLng - minLng) * lngScale, 0.001);
+  const spanY = Math.max(maxLat - minLat, 0.001);
+  const scale = Math.min(
+    (WIDTH - PADDING * 2) / spanX,
+    (height - PADDING * 2) / spanY
+  );
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  const project = (lat: number, lng: number) => ({
+    x: offsetX + (lng - minLng) * lngScale * scale,
+    y: offsetY + (maxLat - lat) * scale,
+  });
+
+  const maxCheckins = Math.max(1, ...hotspots.map((h) => h.checkins));
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full rounded-lg bg-slate-50 border border-slate-200"
+      role="img"
+      aria-label="Map of business locations"
+    >
+      {/* Background grid */}
+      {Array.from({ length: 9 }, (_, i) => (
+        <line
+          key={`v-${i}`}
+          x1={(WIDTH / 8) * i}
+          y1={0}
+          x2={(WIDTH / 8) * i}
+          y2={height}
+          stroke="#e2e8f0"
+        />
+      ))}
+      {Array.from({ length: 6 }, (_, i) => (
+        <line
+          key={`h-${i}`}
+          x1={0}
+          y1={(height / 5) * i}
+          x2={WIDTH}
+          y2={(height / 5) * i}
+          stroke="#e2e8f0"
+        />
+      ))}
+
+      {/* Hotspots sized by check-in activity */}
+      {hotspots.map((hotspot, index) => {
+        const { x, y } = project(hotspot.latitude, hotspot.longitude);
+        const radius = 12 + (hotspot.checkins / maxCheckins) * 36;
+        return (
+          <circle
+            key={`hotspot-${index}`}
+            cx={x}
+            cy={y}
+            r={radius}
+            fill="hsl(var(--chart-1))"
+            fillOpacity={0.2}
+            stroke="hsl(var(--chart-1))"
+            strokeOpacity={0.5}
+          >
+            <title>
+              {hotspot.label}: {hotspot.checkins} check-ins,{" "}
+              {hotspot.businessCount} businesses
+            </title>
+          </circle>
+        );
+      })}
+
+      {/* Business pins */}
+      {pins.map((business) => {
+        const { x, y } = project(business.latitude!, business.longitude!);
+        return (
+          <g key={business.id} transform={`translate(${x}, ${y})`}>
+            <path
+              d="M0,0 C-6,-10 -8,-14 -8,-18 A8,8 0 1,1 8,-18 C8,-14 6,-10 0,0 Z"
+              fill={business.isFeatured ? "#9333ea" : "#2563eb"}
+              stroke="white"
+              strokeWidth={1.5}
+            />
+            <circle cx={0} cy={-18} r={3} fill="white" />
+            <title>
+              {business.name}
+              {business.address ? ` — ${business.address}` : ""}
+            </title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
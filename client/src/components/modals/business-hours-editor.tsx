@@ -0,0 +1,333 @@
+import { useEffect, useRef, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  emptyWeeklyHours,
+  parseBusinessHours,
+} from "@shared/business-hours";
+import {
+  WEEKDAYS,
+  type BusinessHours,
+  type HoursShift,
+  type Weekday,
+} from "@shared/schema";
+
+interface BusinessHoursEditorProps {
+  // businesses.hours text; empty when the business has no set hours
+  value: string | null | undefined;
+  onChange: (value: string) => void;
+}
+
+const DEFAULT_SHIFT: HoursShift = { open: "09:00", close: "17:00" };
+
+// Monday first reads more naturally in an editor than Date.getDay() order
+const EDITOR_DAYS: Weekday[] = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+function defaultHours(): BusinessHours {
+  const weekly = emptyWeeklyHours();
+  for (const day of EDITOR_DAYS.slice(0, 5)) weekly[day] = [DEFAULT_SHIFT];
+  return { weekly, exceptions: [] };
+}
+
+function ShiftInputs({
+  shift,
+  onChange,
+  onRemove,
+}: {
+  shift: HoursShift;
+  onChange: (shift: HoursShift) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="time"
+        className="w-32"
+        value={shift.open}
+        onChange={(e) => onChange({ ...shift, open: e.target.value })}
+      />
+      <span className="text-sm text-slate-500">to</span>
+      <Input
+        type="time"
+        className="w-32"
+        value={shift.close}
+        onChange={(e) => onChange({ ...shift, close: e.target.value })}
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+// Day-by-day editor for businesses.hours. Each day can have several shifts
+// (split hours) or none (closed); exceptions override specific dates.
+// Edits are kept locally so a half-typed time doesn't reset the editor; the
+// form schema reports anything still invalid on submit.
+export function BusinessHoursEditor({ value, onChange }: BusinessHoursEditorProps) {
+  const [hours, setHours] = useState(() => parseBusinessHours(value));
+  // Text hours being converted, kept on screen while the schedule is filled in
+  const [convertedText, setConvertedText] = useState<string | null>(null);
+  const emitted = useRef(value);
+
+  // Re-read when the form is reset to another business
+  useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value;
+      setHours(parseBusinessHours(value));
+      setConvertedText(null);
+    }
+  }, [value]);
+
+  const update = (next: BusinessHours | null) => {
+    const text = next ? JSON.stringify(next) : "";
+    emitted.current = text;
+    setHours(next);
+    onChange(text);
+  };
+
+  // Hours typed as free text before the editor existed can't be read as a
+  // schedule, and the form won't save them as they are. Show what was
+  // written so it can be copied into a schedule, or removed.
+  if (!hours && value && value.trim() !== "") {
+    return (
+      <div className="space-y-3 rounded-lg border border-amber-300 bg-amber-50 p-4">
+        <div>
+          <p className="text-sm font-medium text-amber-900">
+            These hours were entered as text and need converting to a schedule:
+          </p>
+          <p className="mt-1 whitespace-pre-wrap text-sm text-amber-800">
+            {value}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setConvertedText(value);
+              update(defaultHours());
+            }}
+          >
+            Convert to Schedule
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => update(null)}
+          >
+            Clear hours
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!hours) {
+    return (
+      <div className="rounded-lg border border-dashed p-4 flex items-center justify-between">
+        <p className="text-sm text-slate-600">
+          No set hours. The open/closed toggle below is shown as-is.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update(defaultHours())}
+        >
+          Set Hours
+        </Button>
+      </div>
+    );
+  }
+
+  const setDayShifts = (day: Weekday, shifts: HoursShift[]) =>
+    update({ ...hours, weekly: { ...hours.weekly, [day]: shifts } });
+
+  const setException = (
+    index: number,
+    exception: BusinessHours["exceptions"][number]
+  ) =>
+    update({
+      ...hours,
+      exceptions: hours.exceptions.map((e, i) => (i === index ? exception : e)),
+    });
+
+  const removeException = (index: number) =>
+    update({
+      ...hours,
+      exceptions: hours.exceptions.filter((_, i) => i !== index),
+    });
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      {convertedText && (
+        <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800 whitespace-pre-wrap">
+          Previous hours: {convertedText}
+        </p>
+      )}
+      <div className="space-y-3">
+        {EDITOR_DAYS.map((day) => {
+          const shifts = hours.weekly[day];
+          return (
+            <div key={day} className="flex items-start gap-4">
+              <div className="flex items-center gap-2 w-36 pt-2">
+                <Switch
+                  checked={shifts.length > 0}
+                  onCheckedChange={(open) =>
+                    setDayShifts(day, open ? [DEFAULT_SHIFT] : [])
+                  }
+                />
+                <span className="text-sm font-medium text-slate-700">
+                  {capitalize(day)}
+                </span>
+              </div>
+              {shifts.length === 0 ? (
+                <span className="text-sm text-slate-500 pt-2">Closed</span>
+              ) : (
+                <div className="space-y-2">
+                  {shifts.map((shift, index) => (
+                    <ShiftInputs
+                      key={index}
+                      shift={shift}
+                      onChange={(next) =>
+                        setDayShifts(
+                          day,
+                          shifts.map((s, i) => (i === index ? next : s))
+                        )
+                      }
+                      onRemove={() =>
+                        setDayShifts(
+                          day,
+                          shifts.filter((_, i) => i !== index)
+                        )
+                      }
+                    />
+                  ))}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setDayShifts(day, [...shifts, DEFAULT_SHIFT])
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add shift
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500">
+        A closing time earlier than the opening time runs past midnight.
+      </p>
+
+      <div className="space-y-3 border-t border-slate-200 pt-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-700">
+            Holiday &amp; special hours
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              update({
+                ...hours,
+                exceptions: [
+                  ...hours.exceptions,
+                  { date: "", shifts: [] },
+                ],
+              })
+            }
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Date
+          </Button>
+        </div>
+        {hours.exceptions.map((exception, index) => (
+          <div key={index} className="space-y-2 rounded-md bg-slate-50 p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-40"
+                value={exception.date}
+                onChange={(e) =>
+                  setException(index, { ...exception, date: e.target.value })
+                }
+              />
+              <Input
+                placeholder="Label (e.g. Thanksgiving)"
+                value={exception.label ?? ""}
+                onChange={(e) =>
+                  setException(index, { ...exception, label: e.target.value })
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeException(index)}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            {exception.shifts.length === 0 && (
+              <span className="text-sm text-slate-500">Closed all day</span>
+            )}
+            {exception.shifts.map((shift, shiftIndex) => (
+              <ShiftInputs
+                key={shiftIndex}
+                shift={shift}
+                onChange={(next) =>
+                  setException(index, {
+                    ...exception,
+                    shifts: exception.shifts.map((s, i) =>
+                      i === shiftIndex ? next : s
+                    ),
+                  })
+                }
+                onRemove={() =>
+                  setException(index, {
+                    ...exception,
+                    shifts: exception.shifts.filter((_, i) => i !== shiftIndex),
+                  })
+                }
+              />
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setException(index, {
+                  ...exception,
+                  shifts: [...exception.shifts, DEFAULT_SHIFT],
+                })
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add shift
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={() => update(null)}>
+          Clear hours
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { parseCsv } from "@/lib/csv";
+import {
+  BUSINESS_IMPORT_FIELDS,
+  type BusinessImportField,
+  type BusinessImportRequest,
+  type BusinessImportRowResult,
+  type BusinessImportSummary,
+} from "@shared/schema";
+
+interface BusinessImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Step = "upload" | "map" | "preview" | "done";
+type OnDuplicate = BusinessImportRequest["onDuplicate"];
+
+const FIELD_LABELS: Record<BusinessImportField, string> = {
+  name: "Name *",
+  category: "Category *",
+  description: "Description",
+  website: "Website",
+  phone: "Phone",
+  address: "Address",
+  latitude: "Latitude",
+  longitude: "Longitude",
+  hours: "Hours",
+  imageUrl: "Image URL",
+  isOpen: "Open",
+  isFeatured: "Featured",
+  waitTime: "Wait Time (min)",
+};
+
+const UNMAPPED = "none";
+
+const normalizeHeader = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Pre-select the CSV column whose header matches the field name or label
+function guessMapping(headers: string[]) {
+  const mapping = {} as Record<BusinessImportField, string>;
+  for (const field of BUSINESS_IMPORT_FIELDS) {
+    const candidates = [field, FIELD_LABELS[field]].map(normalizeHeader);
+    const index = headers.findIndex((h) =>
+      candidates.includes(normalizeHeader(h))
+    );
+    mapping[field] = index >= 0 ? index.toString() : UNMAPPED;
+  }
+  return mapping;
+}
+
+const ACTION_STYLES: Record<BusinessImportRowResult["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  skip: "bg-slate-100 text-slate-600",
+};
+
+export function BusinessImportModal({
+  isOpen,
+  onClose,
+}: BusinessImportModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>("upload");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState(() => guessMapping([]));
+  const [onDuplicate, setOnDuplicate] = useState<OnDuplicate>("skip");
+  const [preview, setPreview] = useState<BusinessImportRowResult[]>([]);
+  const [summary, setSummary] = useState<BusinessImportSummary | null>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setHeaders([]);
+    setCsvRows([]);
+    setPreview([]);
+    setSummary(null);
+    setOnDuplicate("skip");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const buildRequest = (): BusinessImportRequest => ({
+    onDuplicate,
+    rows: csvRows.map((cells) => {
+      const row: Record<string, string> = {};
+      for (const field of BUSINESS_IMPORT_FIELDS) {
+        if (mapping[field] !== UNMAPPED) {
+          row[field] = cells[parseInt(mapping[field])] ?? "";
+        }
+      }
+      return row;
+    }),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: BusinessImportRequest) => {
+      const response = await apiRequest(
+        "POST",
+        "/api/businesses/import/preview",
+        data
+      );
+      return (await response.json()) as BusinessImportRowResult[];
+    },
+    onSuccess: (rows) => {
+      setPreview(rows);
+      setStep("preview");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to preview import",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (data: BusinessImportRequest) => {
+      const response = await apiRequest(
+        "POST",
+        "/api/businesses/import",
+        data
+      );
+      return (await response.json()) as BusinessImportSummary;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
+      setSummary(result);
+      setStep("done");
+      toast({
+        title: "Success",
+        description: `Imported ${result.created + result.updated} businesses`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import businesses",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast({
+        title: "Error",
+        description: "The file has no data rows",
+        variant: "destructive",
+      });
+      return;
+    }
+    setHeaders(headerRow);
+    setCsvRows(dataRows);
+    setMapping(guessMapping(headerRow));
+    setStep("map");
+  };
+
+  const handlePreview = () => {
+    if (mapping.name === UNMAPPED || mapping.category === UNMAPPED) {
+      toast({
+        title: "Error",
+        description: "Map a column to both Name and Category",
+        variant: "destructive",
+      });
+      return;
+    }
+    previewMutation.mutate(buildRequest());
+  };
+
+  // Duplicates follow the chosen strategy; the server re-plans on commit
+  const rowAction = (row: BusinessImportRowResult) =>
+    row.existingId !== undefined ? onDuplicate : row.action;
+  const counts = preview.reduce(
+    (acc, row) => ({ ...acc, [rowAction(row)]: acc[rowAction(row)] + 1 }),
+    { create: 0, update: 0, skip: 0 }
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Businesses</DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Upload a CSV file with a header row. You'll map its columns to
+              business fields and review every row before anything is saved.
+            </p>
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              {csvRows.length} rows found. Choose which column fills each
+              field.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {BUSINESS_IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <label className="text-sm font-medium text-slate-700">
+                    {FIELD_LABELS[field]}
+                  </label>
+                  <Select
+                    value={mapping[field]}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-3 pt-4 border-t border-slate-200">
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={previewMutation.isPending}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {previewMutation.isPending ? "Validating..." : "Preview"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Badge className={ACTION_STYLES.create}>
+                  {counts.create} new
+                </Badge>
+                <Badge className={ACTION_STYLES.update}>
+                  {counts.update} update
+                </Badge>
+                <Badge className={ACTION_STYLES.skip}>
+                  {counts.skip} skipped
+                </Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-slate-600">
+                  Existing businesses:
+                </span>
+                <Select
+                  value={onDuplicate}
+                  onValueChange={(value) =>
+                    setOnDuplicate(value as OnDuplicate)
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip</SelectItem>
+                    <SelectItem value="update">Update</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-xs text-slate-500 uppercase sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2">Row</th>
+                    <th className="text-left px-3 py-2">Name</th>
+                    <th className="text-left px-3 py-2">Address</th>
+                    <th className="text-left px-3 py-2">Status</th>
+                    <th className="text-left px-3 py-2">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-2 text-slate-500">{row.row}</td>
+                      <td className="px-3 py-2 text-slate-900">
+                        {row.data?.name ?? "—"}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {row.data?.address ?? "—"}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge className={ACTION_STYLES[rowAction(row)]}>
+                          {rowAction(row)}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {row.errors?.length ? (
+                          <ul className="text-red-600 space-y-0.5">
+                            {row.errors.map((error, i) => (
+                              <li key={i}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : row.existingId !== undefined ? (
+                          <span className="text-slate-500">
+                            Matches existing business #{row.existingId}
+                          </span>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-slate-200">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(buildRequest())}
+                disabled={
+                  importMutation.isPending ||
+                  counts.create + counts.update === 0
+                }
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {importMutation.isPending
+                  ? "Importing..."
+                  : `Import ${counts.create + counts.update} Businesses`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && summary && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              {[
+                { label: "Created", value: summary.created },
+                { label: "Updated", value: summary.updated },
+                { label: "Skipped", value: summary.skipped },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-slate-500">{stat.label}</p>
+                  <p className="text-xl font-semibold text-slate-900">
+                    {stat.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end pt-4 border-t border-slate-200">
+              <Button onClick={handleClose}>Close</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
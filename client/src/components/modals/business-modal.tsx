@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -27,7 +27,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { EntityHistoryTabs } from "@/components/audit/entity-history";
 import { apiRequest } from "@/lib/queryClient";
+import { BusinessHoursEditor } from "@/components/modals/business-hours-editor";
+import {
+  ImageUploadField,
+  NO_IMAGE_CHANGE,
+  saveImageSelection,
+  type ImageSelection,
+} from "@/components/layout/image-upload-field";
 import { insertBusinessSchema } from "@shared/schema";
 import type { Business } from "@shared/schema";
 import { z } from "zod";
@@ -53,6 +61,7 @@ export function BusinessModal({
 }: BusinessModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [image, setImage] = useState<ImageSelection>(NO_IMAGE_CHANGE);
 
   const form = useForm<BusinessForm>({
     resolver: zodResolver(businessFormSchema),
@@ -66,7 +75,6 @@ export function BusinessModal({
       latitude: undefined,
       longitude: undefined,
       hours: "",
-      imageUrl: "",
       isOpen: true,
       isFeatured: false,
       waitTime: undefined,
@@ -76,7 +84,10 @@ export function BusinessModal({
 
   const createMutation = useMutation({
     mutationFn: async (data: BusinessForm) => {
-      return apiRequest("POST", "/api/businesses", data);
+      const response = await apiRequest("POST", "/api/businesses", data);
+      const created: Business = await response.json();
+      await saveImageSelection("/api/businesses", created.id, image);
+      return created;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
@@ -98,7 +109,13 @@ export function BusinessModal({
 
   const updateMutation = useMutation({
     mutationFn: async (data: BusinessForm) => {
-      return apiRequest("PUT", `/api/businesses/${business!.id}`, data);
+      const response = await apiRequest(
+        "PUT",
+        `/api/businesses/${business!.id}`,
+        data
+      );
+      await saveImageSelection("/api/businesses", business!.id, image);
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
@@ -130,7 +147,6 @@ export function BusinessModal({
         latitude: business.latitude || undefined,
         longitude: business.longitude || undefined,
         hours: business.hours || "",
-        imageUrl: business.imageUrl || "",
         isOpen: business.isOpen ?? true,
         isFeatured: business.isFeatured ?? false,
         waitTime: business.waitTime || undefined,
@@ -147,13 +163,13 @@ export function BusinessModal({
         latitude: undefined,
         longitude: undefined,
         hours: "",
-        imageUrl: "",
         isOpen: true,
         isFeatured: false,
         waitTime: undefined,
         ownerId: "",
       });
     }
+    setImage(NO_IMAGE_CHANGE);
   }, [business, form]);
 
   function onSubmit(data: BusinessForm) {
@@ -193,68 +209,90 @@ export function BusinessModal({
           </DialogTitle>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <FormField
-                control={form.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Business Name *
-                    </FormLabel>
-                    <FormControl>
-                      <Input placeholder="Stuart Coffee Shop" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="category"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Category *
-                    </FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
+        <EntityHistoryTabs entityType="business" entityId={business?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Business Name *
+                      </FormLabel>
                       <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
-                        </SelectTrigger>
+                        <Input placeholder="Stuart Coffee Shop" {...field} />
                       </FormControl>
-                      <SelectContent>
-                        {businessCategories.map((category) => (
-                          <SelectItem key={category} value={category}>
-                            {category}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Category *
+                      </FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {businessCategories.map((category) => (
+                            <SelectItem key={category} value={category}>
+                              {category}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Description
+                        </FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={3}
+                            placeholder="Describe your business..."
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="description"
+                  name="phone"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Description
+                        Phone Number
                       </FormLabel>
                       <FormControl>
-                        <Textarea
-                          rows={3}
-                          placeholder="Describe your business..."
+                        <Input
+                          placeholder="(555) 123-4567"
                           {...field}
                           value={field.value || ""}
                         />
@@ -263,60 +301,18 @@ export function BusinessModal({
                     </FormItem>
                   )}
                 />
-              </div>
-
-              <FormField
-                control={form.control}
-                name="phone"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Phone Number
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="(555) 123-4567"
-                        {...field}
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="website"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Website
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="https://example.com"
-                        {...field}
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="address"
+                  name="website"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Address
+                        Website
                       </FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="123 Main St, Stuart, FL 34994"
+                          placeholder="https://example.com"
                           {...field}
                           value={field.value || ""}
                         />
@@ -325,204 +321,219 @@ export function BusinessModal({
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <FormField
-                control={form.control}
-                name="latitude"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Latitude
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="any"
-                        placeholder="27.1972"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(
-                            parseFloat(e.target.value) || undefined
-                          )
-                        }
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <p className="text-xs text-slate-500">
-                      Decimal degrees (e.g., 27.1972 for Stuart, FL)
-                    </p>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="longitude"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Longitude
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="any"
-                        placeholder="-80.2528"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(
-                            parseFloat(e.target.value) || undefined
-                          )
-                        }
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <p className="text-xs text-slate-500">
-                      Decimal degrees (e.g., -80.2528 for Stuart, FL)
-                    </p>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Address
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="123 Main St, Stuart, FL 34994"
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
 
-              <FormField
-                control={form.control}
-                name="imageUrl"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Image URL
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="https://example.com/image.jpg"
-                        {...field}
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="waitTime"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Wait Time (minutes)
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        placeholder="15"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(parseInt(e.target.value) || undefined)
-                        }
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <FormField
+                  control={form.control}
+                  name="latitude"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Latitude
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          placeholder="27.1972"
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(
+                              parseFloat(e.target.value) || undefined
+                            )
+                          }
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <p className="text-xs text-slate-500">
+                        Decimal degrees (e.g., 27.1972 for Stuart, FL)
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="hours"
+                  name="longitude"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Business Hours (JSON format)
+                        Longitude
                       </FormLabel>
                       <FormControl>
-                        <Textarea
-                          rows={3}
-                          placeholder='{"monday":"9:00-17:00","tuesday":"9:00-17:00","wednesday":"9:00-17:00","thursday":"9:00-17:00","friday":"9:00-17:00","saturday":"10:00-16:00","sunday":"closed"}'
+                        <Input
+                          type="number"
+                          step="any"
+                          placeholder="-80.2528"
                           {...field}
+                          onChange={(e) =>
+                            field.onChange(
+                              parseFloat(e.target.value) || undefined
+                            )
+                          }
                           value={field.value || ""}
                         />
                       </FormControl>
+                      <p className="text-xs text-slate-500">
+                        Decimal degrees (e.g., -80.2528 for Stuart, FL)
+                      </p>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <FormField
-                control={form.control}
-                name="isOpen"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                    <div className="space-y-0.5">
-                      <FormLabel className="text-base">
-                        Currently Open
+                <FormField
+                  control={form.control}
+                  name="waitTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Wait Time (minutes)
                       </FormLabel>
-                      <div className="text-sm text-muted-foreground">
-                        Is this business currently open for customers?
-                      </div>
-                    </div>
-                    <FormControl>
-                      <input
-                        type="checkbox"
-                        checked={field.value ?? true}
-                        onChange={field.onChange}
-                        className="h-4 w-4"
-                      />
-                    </FormControl>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="15"
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(parseInt(e.target.value) || undefined)
+                          }
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="md:col-span-2">
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Business Image
+                    </FormLabel>
+                    <ImageUploadField
+                      id="business-image-upload"
+                      alt="Business"
+                      currentUrl={business?.imageUrl}
+                      value={image}
+                      onChange={setImage}
+                    />
                   </FormItem>
-                )}
-              />
+                </div>
 
-              <FormField
-                control={form.control}
-                name="isFeatured"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                    <div className="space-y-0.5">
-                      <FormLabel className="text-base">
-                        Featured Business
-                      </FormLabel>
-                      <div className="text-sm text-muted-foreground">
-                        Highlight this business as featured on the main app
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="hours"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Business Hours
+                        </FormLabel>
+                        <FormControl>
+                          <BusinessHoursEditor
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="isOpen"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">
+                          Currently Open
+                        </FormLabel>
+                        <div className="text-sm text-muted-foreground">
+                          Used only when no business hours are set
+                        </div>
                       </div>
-                    </div>
-                    <FormControl>
-                      <input
-                        type="checkbox"
-                        checked={field.value ?? false}
-                        onChange={field.onChange}
-                        className="h-4 w-4"
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
-            </div>
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          checked={field.value ?? true}
+                          onChange={field.onChange}
+                          className="h-4 w-4"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
 
-            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                {isLoading
-                  ? "Saving..."
-                  : business
-                  ? "Update Business"
-                  : "Create Business"}
-              </Button>
-            </div>
-          </form>
-        </Form>
+                <FormField
+                  control={form.control}
+                  name="isFeatured"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">
+                          Featured Business
+                        </FormLabel>
+                        <div className="text-sm text-muted-foreground">
+                          Highlight this business as featured on the main app
+                        </div>
+                      </div>
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          checked={field.value ?? false}
+                          onChange={field.onChange}
+                          className="h-4 w-4"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  {isLoading
+                    ? "Saving..."
+                    : business
+                    ? "Update Business"
+                    : "Create Business"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </EntityHistoryTabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ScanLine, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  matchesAttendee,
+  useEventAttendees,
+  useEventCheckin,
+} from "@/hooks/use-event-checkin";
+import { formatOrgDateTime } from "@shared/timezone";
+import type { Event } from "@shared/schema";
+
+interface EventAttendeesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  event: Event | null;
+}
+
+const formatDateTime = (value: Date | string | null) =>
+  value ? formatOrgDateTime(value) : "—";
+
+export function EventAttendeesModal({
+  isOpen,
+  onClose,
+  event,
+}: EventAttendeesModalProps) {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const eventId = event?.id ?? 0;
+
+  const { data: roster, isLoading } = useEventAttendees(
+    eventId,
+    isOpen && !!event
+  );
+
+  const checkin = useEventCheckin(eventId, {
+    onSuccess: (result) =>
+      toast({
+        title: "Success",
+        description: `${
+          result.attendee.userName || result.attendee.userEmail
+        } checked in (+${result.pointsAwarded} points)`,
+      }),
+    onError: (message) =>
+      toast({ title: "Error", description: message, variant: "destructive" }),
+  });
+
+  if (!event) return null;
+
+  const attendees =
+    roster?.attendees.filter((a) => matchesAttendee(a, searchTerm)) ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attendees · {event.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            {[
+              {
+                label: "RSVPs",
+                value:
+                  roster?.capacity != null
+                    ? `${roster.rsvpCount} / ${roster.capacity}`
+                    : roster?.rsvpCount ?? 0,
+              },
+              { label: "Waitlisted", value: roster?.waitlistCount ?? 0 },
+              { label: "Checked In", value: roster?.checkinCount ?? 0 },
+              {
+                label: "Check-in Rate",
+                value:
+                  roster?.checkinRate == null
+                    ? "—"
+                    : `${Math.round(roster.checkinRate * 100)}%`,
+              },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg border p-3">
+                <p className="text-xs text-slate-500">{stat.label}</p>
+                <p className="text-xl font-semibold text-slate-900">
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Link href={`/events/${event.id}/check-in`}>
+              <Button variant="outline">
+                <ScanLine className="w-4 h-4 mr-2" />
+                Door Check-in
+              </Button>
+            </Link>
+          </div>
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="text-left px-3 py-2">Attendee</th>
+                  <th className="text-left px-3 py-2">RSVP'd</th>
+                  <th className="text-left px-3 py-2">Checked In</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-6 text-center text-slate-500">
+                      Loading attendees...
+                    </td>
+                  </tr>
+                ) : attendees.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-6 text-center text-slate-500">
+                      {searchTerm ? "No matching attendees." : "No RSVPs yet."}
+                    </td>
+                  </tr>
+                ) : (
+                  attendees.map((attendee) => (
+                    <tr key={attendee.userId}>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-slate-900">
+                          {attendee.userName || attendee.userEmail || attendee.userId}
+                        </p>
+                        {attendee.userName && (
+                          <p className="text-xs text-slate-500">
+                            {attendee.userEmail}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {attendee.rsvpAt ? (
+                          <div className="flex items-center gap-2">
+                            {formatDateTime(attendee.rsvpAt)}
+                            {attendee.waitlistPosition !== null && (
+                              <Badge className="bg-slate-100 text-slate-700">
+                                Waitlist #{attendee.waitlistPosition}
+                              </Badge>
+                            )}
+                          </div>
+                        ) : (
+                          <Badge className="bg-amber-100 text-amber-800">
+                            No RSVP
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {attendee.checkedInAt ? (
+                          <Badge className="bg-green-100 text-green-800">
+                            {formatDateTime(attendee.checkedInAt)}
+                          </Badge>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {attendee.rsvpStatus === "confirmed" && !attendee.checkedInAt && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={checkin.isPending}
+                            onClick={() =>
+                              checkin.mutate({ userId: attendee.userId })
+                            }
+                          >
+                            Check In
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
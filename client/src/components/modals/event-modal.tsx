@@ -20,10 +20,35 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { getAuthToken } from "@/lib/supabase";
-import { insertEventSchema } from "@shared/schema";
-import type { Event } from "@shared/schema";
+import { EntityHistoryTabs } from "@/components/audit/entity-history";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
+import {
+  ImageUploadField,
+  NO_IMAGE_CHANGE,
+  type ImageSelection,
+} from "@/components/layout/image-upload-field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RecurrenceEditor } from "@/components/modals/recurrence-editor";
+import { describeRecurrence, parseRRule } from "@shared/recurrence";
+import {
+  isWallTime,
+  toOrgDateInputs,
+  toWallTime,
+  ORG_TIMEZONE,
+} from "@shared/timezone";
+import { insertEventSchema, recurrenceRuleSchema } from "@shared/schema";
+import type {
+  Event,
+  EventEditScope,
+  EventSeries,
+  RecurrenceRule,
+} from "@shared/schema";
 import { z } from "zod";
 
 const eventFormSchema = z.object({
@@ -32,9 +57,28 @@ const eventFormSchema = z.object({
   date: z.string().min(1, "Date is required"),
   time: z.string().min(1, "Time is required"),
   location: z.string().min(1, "Location is required"),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
   imageUrl: z.string().optional(),
   organizerId: z.string().optional(),
-});
+  checkinPoints: z.coerce
+    .number()
+    .int("Points must be a whole number")
+    .min(0, "Points cannot be negative"),
+  // Blank means unlimited
+  capacity: z
+    .string()
+    .optional()
+    .refine(
+      (value) => !value || /^[1-9]\d*$/.test(value),
+      "Capacity must be a whole number of at least 1"
+    ),
+  // datetime-local value (YYYY-MM-DDTHH:mm); blank closes RSVPs at the start
+  rsvpDeadline: z.string().optional(),
+}).refine(
+  (data) => !data.rsvpDeadline || data.rsvpDeadline <= `${data.date}T${data.time}`,
+  { message: "RSVP deadline must be before the event starts", path: ["rsvpDeadline"] }
+);
 
 type EventForm = z.infer<typeof eventFormSchema>;
 
@@ -49,13 +93,23 @@ interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
   event?: Event | null;
+  // The series `event` belongs to, if it recurs
+  series?: EventSeries | null;
 }
 
-export function EventModal({ isOpen, onClose, event }: EventModalProps) {
+export const EDIT_SCOPE_LABELS: Record<EventEditScope, string> = {
+  this: "This event",
+  following: "This and following events",
+  all: "All events in the series",
+};
+
+export function EventModal({ isOpen, onClose, event, series }: EventModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [image, setImage] = useState<ImageSelection>(NO_IMAGE_CHANGE);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [scope, setScope] = useState<EventEditScope>("this");
+  const seriesRule = parseRRule(series?.rrule);
 
   const form = useForm<EventForm>({
     resolver: zodResolver(eventFormSchema),
@@ -65,93 +119,62 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
       date: "",
       time: "",
       location: "",
+      latitude: undefined,
+      longitude: undefined,
       imageUrl: "",
       organizerId: undefined,
+      checkinPoints: 10,
+      capacity: "",
+      rsvpDeadline: "",
     },
   });
 
-  // Handle image file selection
-  const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Validate file type
-    if (!file.type.startsWith("image/")) {
-      toast({
-        title: "Error",
-        description: "Please select an image file",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Validate file size (5MB limit)
-    if (file.size > 5 * 1024 * 1024) {
-      toast({
-        title: "Error",
-        description: "Image size must be less than 5MB",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Create preview URL
-    const preview = URL.createObjectURL(file);
-    setSelectedImage(file);
-    setImagePreview(preview);
-  };
-
-  // Remove selected image
-  const handleRemoveImage = () => {
-    if (imagePreview) {
-      URL.revokeObjectURL(imagePreview);
-    }
-    setSelectedImage(null);
-    setImagePreview(null);
-  };
-
   const createMutation = useMutation({
     mutationFn: async (data: EventForm) => {
-      // Combine date and time into a single timestamp - treat as Eastern Time
-      const dateTimeString = `${data.date}T${data.time}:00`; // Local time format
-      const parsedDate = new Date(dateTimeString);
-
-      // Validate date
-      if (isNaN(parsedDate.getTime())) {
+      // Wall-clock time in the organization's timezone; the server converts
+      // it using the offset in effect on that date
+      const localDateTime = `${data.date}T${data.time}:00`;
+      if (!isWallTime(localDateTime)) {
         throw new Error("Invalid date and time combination");
       }
 
-      // Store as Eastern Time without UTC conversion
-      const easternTimeString = `${data.date}T${data.time}:00`;
-      console.log("Creating event with Eastern Time:", easternTimeString);
-
       // Create FormData for multipart upload
       const formData = new FormData();
       formData.append("name", data.name);
       formData.append("description", data.description || "");
-      formData.append("eventDate", easternTimeString);
+      formData.append("eventDate", localDateTime);
       formData.append("location", data.location);
+      if (data.latitude !== undefined && data.longitude !== undefined) {
+        formData.append("latitude", data.latitude.toString());
+        formData.append("longitude", data.longitude.toString());
+      }
       if (data.organizerId) {
         formData.append("organizerId", data.organizerId);
       }
+      formData.append("checkinPoints", data.checkinPoints.toString());
+      if (data.capacity) formData.append("capacity", data.capacity);
+      if (data.rsvpDeadline) {
+        formData.append("rsvpDeadline", `${data.rsvpDeadline}:00`);
+      }
+      if (recurrence) {
+        formData.append("recurrence", JSON.stringify(recurrence));
+      }
 
       // Add image file if selected
-      if (selectedImage) {
-        formData.append("image", selectedImage);
+      if (image.file) {
+        formData.append("image", image.file);
       }
 
-      const token = getAuthToken();
-      const response = await fetch("/api/events", {
+      const response = await authorizedFetch("/api/events", {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
         body: formData,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to create event");
+        throw new Error(
+          errorData.error || errorData.message || "Failed to create event"
+        );
       }
 
       return response.json();
@@ -162,15 +185,13 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
       queryClient.refetchQueries({ queryKey: ["/api/events"] });
       toast({
         title: "Success",
-        description: "Event created successfully",
+        description: recurrence
+          ? "Recurring event created successfully"
+          : "Event created successfully",
       });
 
-      // Clean up image preview
-      if (imagePreview) {
-        URL.revokeObjectURL(imagePreview);
-      }
-      setSelectedImage(null);
-      setImagePreview(null);
+      setImage(NO_IMAGE_CHANGE);
+      setRecurrence(null);
 
       onClose();
       form.reset();
@@ -189,31 +210,39 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
 
   const updateMutation = useMutation({
     mutationFn: async (data: EventForm) => {
-      // Combine date and time into a single timestamp - treat as Eastern Time
-      const dateTimeString = `${data.date}T${data.time}:00`; // Local time format
-      const parsedDate = new Date(dateTimeString);
-
-      // Validate date
-      if (isNaN(parsedDate.getTime())) {
+      // Wall-clock time in the organization's timezone; the server converts
+      // it using the offset in effect on that date
+      const localDateTime = `${data.date}T${data.time}:00`;
+      if (!isWallTime(localDateTime)) {
         throw new Error("Invalid date and time combination");
       }
 
-      // Store as Eastern Time without UTC conversion
-      const easternTimeString = `${data.date}T${data.time}:00`;
-      console.log("Updating event with Eastern Time:", easternTimeString);
-
-      const eventData = {
-        name: data.name,
-        description: data.description || null,
-        eventDate: easternTimeString, // Store as Eastern Time
-        location: data.location,
-        imageUrl: data.imageUrl || null,
-        organizerId: data.organizerId || null,
-      };
+      // Multipart so a replacement image can travel with the update;
+      // empty fields are stored as null
+      const formData = new FormData();
+      formData.append("name", data.name);
+      formData.append("description", data.description || "");
+      formData.append("eventDate", localDateTime);
+      formData.append("location", data.location);
+      formData.append("latitude", data.latitude?.toString() ?? "");
+      formData.append("longitude", data.longitude?.toString() ?? "");
+      formData.append("organizerId", data.organizerId || "");
+      formData.append("checkinPoints", data.checkinPoints.toString());
+      formData.append("capacity", data.capacity || "");
+      formData.append(
+        "rsvpDeadline",
+        data.rsvpDeadline ? `${data.rsvpDeadline}:00` : ""
+      );
+      if (image.file) {
+        formData.append("image", image.file);
+      } else if (image.remove) {
+        formData.append("removeImage", "true");
+      }
+
       const response = await apiRequest(
         "PUT",
-        `/api/events/${event!.id}`,
-        eventData
+        `/api/events/${event!.id}${event!.seriesId ? `?scope=${scope}` : ""}`,
+        formData
       );
       return response.json();
     },
@@ -226,12 +255,7 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
         description: "Event updated successfully",
       });
 
-      // Clean up image preview
-      if (imagePreview) {
-        URL.revokeObjectURL(imagePreview);
-      }
-      setSelectedImage(null);
-      setImagePreview(null);
+      setImage(NO_IMAGE_CHANGE);
 
       onClose();
       form.reset();
@@ -250,10 +274,9 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
 
   useEffect(() => {
     if (event) {
-      // Parse the stored date as Eastern Time (no timezone conversion)
-      const eventDateString = event.eventDate.toString();
-      const dateString = eventDateString.split("T")[0];
-      const timeString = eventDateString.split("T")[1].slice(0, 5);
+      const { date: dateString, time: timeString } = toOrgDateInputs(
+        event.eventDate
+      );
 
       form.reset({
         name: event.name,
@@ -261,16 +284,19 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
         date: dateString,
         time: timeString,
         location: event.location,
+        latitude: event.latitude ?? undefined,
+        longitude: event.longitude ?? undefined,
         imageUrl: event.imageUrl || "",
         organizerId: event.organizerId || undefined,
+        checkinPoints: event.checkinPoints,
+        capacity: event.capacity?.toString() ?? "",
+        rsvpDeadline: event.rsvpDeadline
+          ? toWallTime(new Date(event.rsvpDeadline)).slice(0, 16)
+          : "",
       });
 
-      // Clear image preview when editing existing event
-      if (imagePreview) {
-        URL.revokeObjectURL(imagePreview);
-      }
-      setSelectedImage(null);
-      setImagePreview(null);
+      setImage(NO_IMAGE_CHANGE);
+      setScope("this");
     } else {
       form.reset({
         name: "",
@@ -278,29 +304,32 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
         date: "",
         time: "",
         location: "",
+        latitude: undefined,
+        longitude: undefined,
         imageUrl: "",
         organizerId: undefined,
+        checkinPoints: 10,
+        capacity: "",
+        rsvpDeadline: "",
       });
 
-      // Clear image preview when creating new event
-      if (imagePreview) {
-        URL.revokeObjectURL(imagePreview);
-      }
-      setSelectedImage(null);
-      setImagePreview(null);
+      setImage(NO_IMAGE_CHANGE);
+      setRecurrence(null);
     }
   }, [event, form]);
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (imagePreview) {
-        URL.revokeObjectURL(imagePreview);
-      }
-    };
-  }, [imagePreview]);
-
   function onSubmit(data: EventForm) {
+    if (!event && recurrence) {
+      const rule = recurrenceRuleSchema.safeParse(recurrence);
+      if (!rule.success) {
+        toast({
+          title: "Error",
+          description: rule.error.errors[0]?.message ?? "Invalid repeat settings",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
     if (event) {
       updateMutation.mutate(data);
     } else {
@@ -309,6 +338,7 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
   }
 
   const isLoading = createMutation.isPending || updateMutation.isPending;
+  const [date, time] = form.watch(["date", "time"]);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -317,176 +347,314 @@ export function EventModal({ isOpen, onClose, event }: EventModalProps) {
           <DialogTitle>{event ? "Edit Event" : "Create New Event"}</DialogTitle>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="md:col-span-2">
+        <EntityHistoryTabs entityType="event" entityId={event?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Event Name *
+                        </FormLabel>
+                        <FormControl>
+                          <Input placeholder="Summer Jazz Festival" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Description
+                        </FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={4}
+                            placeholder="Annual outdoor jazz music celebration featuring local and regional artists..."
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <FormField
                   control={form.control}
-                  name="name"
+                  name="date"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Event Name *
+                        Date *
                       </FormLabel>
                       <FormControl>
-                        <Input placeholder="Summer Jazz Festival" {...field} />
+                        <Input type="date" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="description"
+                  name="time"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Description
+                        Time *
                       </FormLabel>
                       <FormControl>
-                        <Textarea
-                          rows={4}
-                          placeholder="Annual outdoor jazz music celebration featuring local and regional artists..."
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <p className="text-xs text-slate-500">
+                        {ORG_TIMEZONE.replace(/_/g, " ")} time
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Location *
+                        </FormLabel>
+                        <FormControl>
+                          <Input placeholder="Main Street Park" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="latitude"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Latitude
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          placeholder="27.1972"
                           {...field}
-                          value={field.value || ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              parseFloat(e.target.value) || undefined
+                            )
+                          }
+                          value={field.value ?? ""}
                         />
                       </FormControl>
+                      <p className="text-xs text-slate-500">
+                        Optional; places check-ins on the geographic map
+                      </p>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <FormField
-                control={form.control}
-                name="date"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Date *
-                    </FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <FormField
+                  control={form.control}
+                  name="longitude"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Longitude
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          placeholder="-80.2528"
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(
+                              parseFloat(e.target.value) || undefined
+                            )
+                          }
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <FormField
-                control={form.control}
-                name="time"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Time *
-                    </FormLabel>
-                    <FormControl>
-                      <Input type="time" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <FormField
+                  control={form.control}
+                  name="checkinPoints"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Check-in Points
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="1" {...field} />
+                      </FormControl>
+                      <p className="text-xs text-slate-500">
+                        Awarded to each attendee when they check in
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="location"
+                  name="capacity"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Location *
+                        Capacity
                       </FormLabel>
                       <FormControl>
-                        <Input placeholder="Main Street Park" {...field} />
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          placeholder="Unlimited"
+                          {...field}
+                        />
                       </FormControl>
+                      <p className="text-xs text-slate-500">
+                        RSVPs beyond capacity join a waitlist and are promoted
+                        when someone cancels
+                      </p>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="rsvpDeadline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        RSVP Deadline
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <p className="text-xs text-slate-500">
+                        Optional; RSVPs otherwise close when the event starts
+                        {!event && recurrence
+                          ? ". Each occurrence keeps the same lead time"
+                          : ""}
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="md:col-span-2">
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Event Image
+                    </FormLabel>
+                    <ImageUploadField
+                      id="event-image-upload"
+                      alt="Event"
+                      currentUrl={event?.imageUrl}
+                      value={image}
+                      onChange={setImage}
+                    />
+                    <p className="text-xs text-slate-500">
+                      Upload an image for your event. It is resized and stored
+                      with a thumbnail in a folder named with the event ID.
+                    </p>
+                  </FormItem>
+                </div>
+
+                {!event && (
+                  <div className="md:col-span-2">
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Repeat
+                      </FormLabel>
+                      <RecurrenceEditor
+                        value={recurrence}
+                        onChange={setRecurrence}
+                        start={date && time ? `${date}T${time}:00` : null}
+                      />
+                    </FormItem>
+                  </div>
+                )}
+
+                {event?.seriesId && (
+                  <div className="md:col-span-2">
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Apply Changes To
+                      </FormLabel>
+                      <Select
+                        value={scope}
+                        onValueChange={(value) => setScope(value as EventEditScope)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(EDIT_SCOPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-500">
+                        {seriesRule
+                          ? `Part of a series: ${describeRecurrence(seriesRule)}. `
+                          : "Part of a recurring series. "}
+                        A new date or time moves each selected occurrence the
+                        same way.
+                      </p>
+                    </FormItem>
+                  </div>
+                )}
               </div>
 
-              <div className="md:col-span-2">
-                <FormItem>
-                  <FormLabel className="text-sm font-medium text-slate-700">
-                    Event Image
-                  </FormLabel>
-                  <FormControl>
-                    <div className="space-y-4">
-                      {imagePreview ? (
-                        <div className="relative">
-                          <img
-                            src={imagePreview}
-                            alt="Event preview"
-                            className="w-full h-48 object-cover rounded-lg border"
-                          />
-                          <Button
-                            type="button"
-                            variant="destructive"
-                            size="sm"
-                            className="absolute top-2 right-2"
-                            onClick={handleRemoveImage}
-                          >
-                            Remove
-                          </Button>
-                        </div>
-                      ) : (
-                        <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center">
-                          <input
-                            type="file"
-                            accept="image/*"
-                            onChange={handleImageSelect}
-                            className="hidden"
-                            id="event-image-upload"
-                          />
-                          <label
-                            htmlFor="event-image-upload"
-                            className="cursor-pointer"
-                          >
-                            <div className="space-y-2">
-                              <div className="text-slate-500">
-                                <p>Click to upload an event image</p>
-                                <p className="text-xs">
-                                  PNG, JPG, GIF up to 5MB
-                                </p>
-                              </div>
-                            </div>
-                          </label>
-                        </div>
-                      )}
-                    </div>
-                  </FormControl>
-                  <p className="text-xs text-slate-500">
-                    Upload an image for your event. It will be stored in a
-                    folder named with the event ID.
-                  </p>
-                </FormItem>
+              <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  {isLoading
+                    ? "Saving..."
+                    : event
+                    ? "Update Event"
+                    : "Create Event"}
+                </Button>
               </div>
-            </div>
-
-            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                {isLoading
-                  ? "Saving..."
-                  : event
-                  ? "Update Event"
-                  : "Create Event"}
-              </Button>
-            </div>
-          </form>
-        </Form>
+            </form>
+          </Form>
+        </EntityHistoryTabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,406 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { insertPromotionSchema } from "@shared/schema";
+import type { Business, Promotion } from "@shared/schema";
+import { z } from "zod";
+
+const promotionFormSchema = insertPromotionSchema.extend({
+  businessId: z.coerce.number().min(1, "Business is required"),
+  expiresAt: z.string().optional(),
+  expiresTime: z.string().optional(),
+});
+
+type PromotionForm = z.infer<typeof promotionFormSchema>;
+
+interface PromotionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  promotion?: Promotion | null;
+}
+
+const emptyPromotion: PromotionForm = {
+  title: "",
+  description: "",
+  businessId: 0,
+  code: "",
+  discount: "",
+  expiresAt: "",
+  expiresTime: "23:59",
+  isActive: true,
+};
+
+export function PromotionModal({
+  isOpen,
+  onClose,
+  promotion,
+}: PromotionModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<PromotionForm>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: emptyPromotion,
+  });
+
+  const { data: businesses } = useQuery<Business[]>({
+    queryKey: ["/api/businesses", "all"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/businesses/all");
+      return response.json();
+    },
+  });
+
+  const toPayload = (data: PromotionForm) => {
+    // Combine the local date and time inputs into a single ISO timestamp
+    let expiresAt: string | null = null;
+    if (data.expiresAt) {
+      const parsedDate = new Date(
+        `${data.expiresAt}T${data.expiresTime || "23:59"}:00`
+      );
+      if (isNaN(parsedDate.getTime())) {
+        throw new Error("Invalid expiration date and time combination");
+      }
+      expiresAt = parsedDate.toISOString();
+    }
+
+    const { expiresTime, ...rest } = data;
+    return {
+      ...rest,
+      expiresAt,
+      description: data.description || null,
+      code: data.code || null,
+      discount: data.discount || null,
+    };
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: PromotionForm) => {
+      const response = await apiRequest(
+        "POST",
+        "/api/promotions",
+        toPayload(data)
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({
+        title: "Success",
+        description: "Promotion created successfully",
+      });
+      onClose();
+      form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create promotion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: PromotionForm) => {
+      const response = await apiRequest(
+        "PUT",
+        `/api/promotions/${promotion!.id}`,
+        toPayload(data)
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({
+        title: "Success",
+        description: "Promotion updated successfully",
+      });
+      onClose();
+      form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update promotion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (promotion) {
+      const expires = promotion.expiresAt
+        ? new Date(promotion.expiresAt)
+        : null;
+      const pad = (n: number) => n.toString().padStart(2, "0");
+
+      form.reset({
+        title: promotion.title,
+        description: promotion.description || "",
+        businessId: promotion.businessId,
+        code: promotion.code || "",
+        discount: promotion.discount || "",
+        expiresAt: expires
+          ? `${expires.getFullYear()}-${pad(expires.getMonth() + 1)}-${pad(
+              expires.getDate()
+            )}`
+          : "",
+        expiresTime: expires
+          ? `${pad(expires.getHours())}:${pad(expires.getMinutes())}`
+          : "23:59",
+        isActive: promotion.isActive ?? true,
+      });
+    } else {
+      form.reset(emptyPromotion);
+    }
+  }, [promotion, form]);
+
+  function onSubmit(data: PromotionForm) {
+    if (promotion) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  }
+
+  const isLoading = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {promotion ? "Edit Promotion" : "Create New Promotion"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Title *
+                    </FormLabel>
+                    <FormControl>
+                      <Input placeholder="Happy Hour Special" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="businessId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Business *
+                    </FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value ? field.value.toString() : undefined}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select business" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {businesses?.map((business) => (
+                          <SelectItem
+                            key={business.id}
+                            value={business.id.toString()}
+                          >
+                            {business.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="md:col-span-2">
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Description
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          placeholder="Describe the promotion..."
+                          {...field}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Coupon Code
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="MAINST20"
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Discount
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder='e.g. "20%" or "$10 off"'
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Expiration Date
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value || ""} />
+                    </FormControl>
+                    <p className="text-xs text-slate-500">
+                      Leave empty for a promotion that never expires
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expiresTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-slate-700">
+                      Expiration Time
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="time"
+                        {...field}
+                        value={field.value || "23:59"}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Active Promotion
+                      </FormLabel>
+                      <div className="text-sm text-muted-foreground">
+                        Show this promotion to patrons in the main app
+                      </div>
+                    </div>
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value ?? true}
+                        onChange={field.onChange}
+                        className="h-4 w-4"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isLoading
+                  ? "Saving..."
+                  : promotion
+                  ? "Update Promotion"
+                  : "Create Promotion"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
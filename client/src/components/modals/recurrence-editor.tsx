@@ -0,0 +1,216 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  describeRecurrence,
+  expandRecurrence,
+  resolveRecurrence,
+} from "@shared/recurrence";
+import {
+  MAX_SERIES_OCCURRENCES,
+  WEEKDAYS,
+  recurrenceRuleSchema,
+  type RecurrenceRule,
+} from "@shared/schema";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  // First occurrence as YYYY-MM-DDTHH:mm; the rule's defaults come from it
+  start: string | null;
+}
+
+const WEEK_OPTIONS = [
+  { value: 1, label: "1st" },
+  { value: 2, label: "2nd" },
+  { value: 3, label: "3rd" },
+  { value: 4, label: "4th" },
+  { value: -1, label: "Last" },
+];
+
+const DEFAULT_RULE: RecurrenceRule = { freq: "weekly", interval: 1, count: 8 };
+
+// Repeat settings for a new event: weekly on chosen days or monthly on the
+// nth weekday, ending on a date or after a number of occurrences. The preview
+// shows how many events will be created.
+export function RecurrenceEditor({ value, onChange, start }: RecurrenceEditorProps) {
+  const resolved = value && start ? resolveRecurrence(start, value) : value;
+
+  const setFreq = (freq: string) => {
+    if (freq === "none") return onChange(null);
+    const rule = value ?? DEFAULT_RULE;
+    onChange({
+      ...rule,
+      freq: freq as RecurrenceRule["freq"],
+      byWeekday: undefined,
+      weekOfMonth: undefined,
+    });
+  };
+
+  const toggleDay = (day: (typeof WEEKDAYS)[number]) => {
+    if (!value || !resolved) return;
+    const days = resolved.byWeekday ?? [];
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day];
+    onChange({ ...value, byWeekday: next.length > 0 ? next : undefined });
+  };
+
+  const parsed = value ? recurrenceRuleSchema.safeParse(value) : null;
+  const occurrences =
+    value && start && parsed?.success ? expandRecurrence(start, value).length : 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={value?.freq ?? "none"} onValueChange={setFreq}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-slate-600">every</span>
+            <Input
+              type="number"
+              min={1}
+              max={12}
+              className="w-20"
+              value={value.interval}
+              onChange={(e) =>
+                onChange({ ...value, interval: parseInt(e.target.value) || 1 })
+              }
+            />
+            <span className="text-sm text-slate-600">
+              {value.freq === "weekly" ? "week(s)" : "month(s)"}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {value?.freq === "weekly" && (
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((day) => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              variant={resolved?.byWeekday?.includes(day) ? "default" : "outline"}
+              onClick={() => toggleDay(day)}
+            >
+              {day.slice(0, 3).replace(/^./, (c) => c.toUpperCase())}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value?.freq === "monthly" && resolved && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-slate-600">on the</span>
+          <Select
+            value={String(resolved.weekOfMonth ?? 1)}
+            onValueChange={(week) =>
+              onChange({ ...value, weekOfMonth: parseInt(week) })
+            }
+          >
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={resolved.byWeekday?.[0] ?? WEEKDAYS[0]}
+            onValueChange={(day) =>
+              onChange({ ...value, byWeekday: [day as (typeof WEEKDAYS)[number]] })
+            }
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((day) => (
+                <SelectItem key={day} value={day}>
+                  {day.replace(/^./, (c) => c.toUpperCase())}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-slate-600">Ends</span>
+          <Select
+            value={value.until !== undefined ? "until" : "count"}
+            onValueChange={(ends) =>
+              onChange(
+                ends === "until"
+                  ? { ...value, count: undefined, until: start?.slice(0, 10) ?? "" }
+                  : { ...value, until: undefined, count: DEFAULT_RULE.count }
+              )
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">After</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+            </SelectContent>
+          </Select>
+          {value.until !== undefined ? (
+            <Input
+              type="date"
+              className="w-44"
+              value={value.until}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+            />
+          ) : (
+            <>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_SERIES_OCCURRENCES}
+                className="w-20"
+                value={value.count ?? ""}
+                onChange={(e) =>
+                  onChange({ ...value, count: parseInt(e.target.value) || 1 })
+                }
+              />
+              <span className="text-sm text-slate-600">occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-slate-500">
+          {!start
+            ? "Pick a date and time to preview the series."
+            : parsed?.success && resolved
+            ? `${describeRecurrence(resolved)} · creates ${occurrences} event${
+                occurrences === 1 ? "" : "s"
+              }${occurrences === MAX_SERIES_OCCURRENCES ? " (the maximum)" : ""}`
+            : parsed?.error?.errors[0]?.message}
+        </p>
+      )}
+    </div>
+  );
+}
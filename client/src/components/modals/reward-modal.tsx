@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -20,7 +20,14 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { EntityHistoryTabs } from "@/components/audit/entity-history";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  ImageUploadField,
+  NO_IMAGE_CHANGE,
+  saveImageSelection,
+  type ImageSelection,
+} from "@/components/layout/image-upload-field";
 import { insertRewardItemSchema } from "@shared/schema";
 import type { RewardItem } from "@shared/schema";
 import { z } from "zod";
@@ -45,6 +52,7 @@ interface RewardModalProps {
 export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [image, setImage] = useState<ImageSelection>(NO_IMAGE_CHANGE);
 
   const form = useForm<RewardForm>({
     resolver: zodResolver(rewardFormSchema),
@@ -57,7 +65,6 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
       maxRedemptions: undefined,
       isActive: true,
       businessId: undefined,
-      imageUrl: "",
     },
   });
 
@@ -87,7 +94,6 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
         maxRedemptions: data.maxRedemptions || null,
         description: data.description || null,
         businessId: data.businessId || null,
-        imageUrl: data.imageUrl || null,
       };
       // Remove expirationTime from the data sent to API
       delete rewardData.expirationTime;
@@ -96,7 +102,9 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
         "/api/reward-items",
         rewardData
       );
-      return response.json();
+      const created: RewardItem = await response.json();
+      await saveImageSelection("/api/reward-items", created.id, image);
+      return created;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/reward-items"] });
@@ -142,7 +150,6 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
         maxRedemptions: data.maxRedemptions || null,
         description: data.description || null,
         businessId: data.businessId || null,
-        imageUrl: data.imageUrl || null,
       };
       // Remove expirationTime from the data sent to API
       delete rewardData.expirationTime;
@@ -151,6 +158,7 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
         `/api/reward-items/${reward!.id}`,
         rewardData
       );
+      await saveImageSelection("/api/reward-items", reward!.id, image);
       return response.json();
     },
     onSuccess: () => {
@@ -192,7 +200,6 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
         maxRedemptions: reward.maxRedemptions || undefined,
         isActive: reward.isActive ?? true,
         businessId: reward.businessId || undefined,
-        imageUrl: reward.imageUrl || "",
       });
     } else {
       form.reset({
@@ -204,9 +211,9 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
         maxRedemptions: undefined,
         isActive: true,
         businessId: undefined,
-        imageUrl: "",
       });
     }
+    setImage(NO_IMAGE_CHANGE);
   }, [reward, form]);
 
   function onSubmit(data: RewardForm) {
@@ -221,48 +228,91 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {reward ? "Edit Reward" : "Create New Reward"}
           </DialogTitle>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="md:col-span-2">
+        <EntityHistoryTabs entityType="reward_item" entityId={reward?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Reward Name *
+                        </FormLabel>
+                        <FormControl>
+                          <Input placeholder="Free Coffee" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Description
+                        </FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={3}
+                            placeholder="Get a free coffee of your choice at Downtown Coffee Co."
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <FormField
                   control={form.control}
-                  name="name"
+                  name="pointThreshold"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Reward Name *
+                        Points Required *
                       </FormLabel>
                       <FormControl>
-                        <Input placeholder="Free Coffee" {...field} />
+                        <Input type="number" min="1" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="description"
+                  name="maxRedemptions"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Description
+                        Max Redemptions
                       </FormLabel>
                       <FormControl>
-                        <Textarea
-                          rows={3}
-                          placeholder="Get a free coffee of your choice at Downtown Coffee Co."
+                        <Input
+                          type="number"
+                          min="1"
+                          placeholder="Leave empty for unlimited"
                           {...field}
+                          onChange={(e) =>
+                            field.onChange(parseInt(e.target.value) || undefined)
+                          }
                           value={field.value || ""}
                         />
                       </FormControl>
@@ -270,149 +320,101 @@ export function RewardModal({ isOpen, onClose, reward }: RewardModalProps) {
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <FormField
-                control={form.control}
-                name="pointThreshold"
-                render={({ field }) => (
+                <div className="md:col-span-2">
                   <FormItem>
                     <FormLabel className="text-sm font-medium text-slate-700">
-                      Points Required *
+                      Reward Image
                     </FormLabel>
-                    <FormControl>
-                      <Input type="number" min="1" {...field} />
-                    </FormControl>
-                    <FormMessage />
+                    <ImageUploadField
+                      id="reward-image-upload"
+                      alt="Reward"
+                      currentUrl={reward?.imageUrl}
+                      value={image}
+                      onChange={setImage}
+                    />
                   </FormItem>
-                )}
-              />
+                </div>
 
-              <FormField
-                control={form.control}
-                name="maxRedemptions"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Max Redemptions
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        min="1"
-                        placeholder="Leave empty for unlimited"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(parseInt(e.target.value) || undefined)
-                        }
-                        value={field.value || ""}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                <FormField
+                  control={form.control}
+                  name="expirationDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Expiration Date
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} value={field.value || ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="imageUrl"
+                  name="expirationTime"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Image URL
+                        Expiration Time
                       </FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="https://example.com/reward-image.jpg"
+                          type="time"
                           {...field}
-                          value={field.value || ""}
+                          value={field.value || "23:59"}
                         />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
-
-              <FormField
-                control={form.control}
-                name="expirationDate"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Expiration Date
-                    </FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} value={field.value || ""} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
 
-              <FormField
-                control={form.control}
-                name="expirationTime"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Expiration Time
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="time"
-                        {...field}
-                        value={field.value || "23:59"}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="isActive"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                    <div className="space-y-0.5">
-                      <FormLabel className="text-base">Active Reward</FormLabel>
-                      <div className="text-sm text-muted-foreground">
-                        Make this reward available for redemption
+                <FormField
+                  control={form.control}
+                  name="isActive"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Active Reward</FormLabel>
+                        <div className="text-sm text-muted-foreground">
+                          Make this reward available for redemption
+                        </div>
                       </div>
-                    </div>
-                    <FormControl>
-                      <input
-                        type="checkbox"
-                        checked={field.value ?? true}
-                        onChange={field.onChange}
-                        className="h-4 w-4"
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
-            </div>
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          checked={field.value ?? true}
+                          onChange={field.onChange}
+                          className="h-4 w-4"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
 
-            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                {isLoading
-                  ? "Saving..."
-                  : reward
-                  ? "Update Reward"
-                  : "Create Reward"}
-              </Button>
-            </div>
-          </form>
-        </Form>
+              <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  {isLoading
+                    ? "Saving..."
+                    : reward
+                    ? "Update Reward"
+                    : "Create Reward"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </EntityHistoryTabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { formatOrgDateTime } from "@shared/timezone";
+import {
+  REDEMPTION_STATUSES,
+  type RedemptionDetail,
+  type RedemptionResolution,
+  type RedemptionStatus,
+  type RewardItem,
+} from "@shared/schema";
+
+interface RewardRedemptionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reward: RewardItem | null;
+}
+
+const STATUS_STYLES: Record<RedemptionStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  fulfilled: "bg-green-100 text-green-800",
+  void: "bg-gray-100 text-gray-800",
+};
+
+// Vouchers issued for one reward item. Pending vouchers are fulfilled when
+// the business hands the reward over, or voided to refund the points.
+export function RewardRedemptionsModal({
+  isOpen,
+  onClose,
+  reward,
+}: RewardRedemptionsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RedemptionStatus | "all">("pending");
+  const rewardItemId = reward?.id ?? 0;
+
+  const { data: redemptions, isLoading } = useQuery<RedemptionDetail[]>({
+    queryKey: ["/api/reward-redemptions", rewardItemId, status],
+    queryFn: async () => {
+      const params = new URLSearchParams({ rewardItemId: String(rewardItemId) });
+      if (status !== "all") params.set("status", status);
+      const response = await apiRequest(
+        "GET",
+        `/api/reward-redemptions?${params}`
+      );
+      return response.json();
+    },
+    enabled: isOpen && !!reward,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({
+      id,
+      resolution,
+    }: {
+      id: number;
+      resolution: RedemptionResolution;
+    }) => {
+      const response = await apiRequest(
+        "PATCH",
+        `/api/reward-redemptions/${id}`,
+        resolution
+      );
+      return response.json();
+    },
+    onSuccess: (_, { resolution }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reward-redemptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reward-items/stock"] });
+      toast({
+        title: "Success",
+        description:
+          resolution.status === "fulfilled"
+            ? "Voucher marked as fulfilled"
+            : "Voucher voided and points refunded",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update redemption"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleVoid = (redemption: RedemptionDetail) => {
+    const reason = prompt(
+      `Void this voucher and refund ${redemption.pointsRedeemed} points? Optionally enter a reason:`
+    );
+    if (reason === null) return;
+    resolveMutation.mutate({
+      id: redemption.id,
+      resolution: { status: "void", reason: reason || undefined },
+    });
+  };
+
+  if (!reward) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Redemptions · {reward.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select
+            value={status}
+            onValueChange={(value) =>
+              setStatus(value as RedemptionStatus | "all")
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {REDEMPTION_STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value.charAt(0).toUpperCase() + value.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="text-left px-3 py-2">Voucher</th>
+                  <th className="text-left px-3 py-2">User</th>
+                  <th className="text-left px-3 py-2">Redeemed</th>
+                  <th className="text-left px-3 py-2">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-slate-500">
+                      Loading redemptions...
+                    </td>
+                  </tr>
+                ) : !redemptions?.length ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-slate-500">
+                      No redemptions.
+                    </td>
+                  </tr>
+                ) : (
+                  redemptions.map((redemption) => (
+                    <tr key={redemption.id}>
+                      <td className="px-3 py-2 font-mono text-slate-900">
+                        #{redemption.id}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {redemption.userEmail || redemption.userId}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {redemption.createdAt
+                          ? formatOrgDateTime(redemption.createdAt)
+                          : "—"}
+                        <span className="text-slate-400">
+                          {" "}
+                          (-{redemption.pointsRedeemed})
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge
+                          className={
+                            STATUS_STYLES[redemption.status as RedemptionStatus]
+                          }
+                        >
+                          {redemption.status}
+                        </Badge>
+                        {redemption.status === "fulfilled" &&
+                          redemption.businessName && (
+                            <p className="text-xs text-slate-500 mt-1">
+                              at {redemption.businessName}
+                            </p>
+                          )}
+                        {redemption.voidReason && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            {redemption.voidReason}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right space-x-2 whitespace-nowrap">
+                        {redemption.status === "pending" && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={resolveMutation.isPending}
+                              onClick={() =>
+                                resolveMutation.mutate({
+                                  id: redemption.id,
+                                  resolution: {
+                                    status: "fulfilled",
+                                    businessId: reward.businessId ?? undefined,
+                                  },
+                                })
+                              }
+                            >
+                              Fulfill
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-600 hover:text-red-700"
+                              disabled={resolveMutation.isPending}
+                              onClick={() => handleVoid(redemption)}
+                            >
+                              Void
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SURVEY_CONDITION_OPERATORS_BY_TYPE,
+  SURVEY_END,
+  surveyAnswerChoices,
+  type SurveyCondition,
+  type SurveyConditionOperator,
+  type SurveyQuestionInput,
+  type SurveySkipRule,
+} from "@shared/schema";
+
+const OPERATOR_LABELS: Record<SurveyConditionOperator, string> = {
+  equals: "is",
+  not_equals: "is not",
+  includes: "includes",
+  at_least: "is at least",
+  at_most: "is at most",
+  answered: "is answered",
+};
+
+type ConditionTest = Pick<SurveyCondition, "operator" | "value">;
+
+const operatorsFor = (question: SurveyQuestionInput | undefined) =>
+  (question && SURVEY_CONDITION_OPERATORS_BY_TYPE[question.type]) || ["answered" as const];
+
+function defaultTest(question: SurveyQuestionInput | undefined): ConditionTest {
+  const operator = operatorsFor(question)[0];
+  const choices = question ? surveyAnswerChoices(question) : null;
+  return { operator, value: operator === "answered" ? "" : choices?.[0] ?? "" };
+}
+
+const questionLabel = (questions: SurveyQuestionInput[], index: number) =>
+  `Q${index + 1}${questions[index].question ? `: ${questions[index].question}` : ""}`;
+
+// Operator and value for a test on `question`'s answer. Choice questions pick
+// the value from their answers; free text is typed.
+function ConditionTestInputs({
+  test,
+  question,
+  onChange,
+}: {
+  test: ConditionTest;
+  question: SurveyQuestionInput | undefined;
+  onChange: (test: ConditionTest) => void;
+}) {
+  const choices = question ? surveyAnswerChoices(question) : null;
+
+  return (
+    <>
+      <Select
+        value={test.operator}
+        onValueChange={(operator) =>
+          onChange({ ...test, operator: operator as SurveyConditionOperator })
+        }
+      >
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operatorsFor(question).map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {test.operator !== "answered" &&
+        (choices ? (
+          <Select
+            value={test.value}
+            onValueChange={(value) => onChange({ ...test, value })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Answer" />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map((choice) => (
+                <SelectItem key={choice} value={choice}>
+                  {choice}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            className="w-40"
+            placeholder="Answer"
+            value={test.value}
+            onChange={(e) => onChange({ ...test, value: e.target.value })}
+          />
+        ))}
+    </>
+  );
+}
+
+interface DisplayLogicEditorProps {
+  value: SurveyCondition | undefined;
+  onChange: (value: SurveyCondition | undefined) => void;
+  questions: SurveyQuestionInput[];
+  index: number;
+}
+
+// "Show only if Q3 is Yes". Only earlier questions can be tested, so the
+// answer is known by the time the question would be shown.
+export function DisplayLogicEditor({
+  value,
+  onChange,
+  questions,
+  index,
+}: DisplayLogicEditorProps) {
+  const earlier = questions.slice(0, index);
+  const tested = value
+    ? questions.find((question) => question.id === value.questionId)
+    : undefined;
+
+  const pickQuestion = (questionId: string) =>
+    onChange({
+      questionId,
+      ...defaultTest(questions.find((question) => question.id === questionId)),
+    });
+
+  if (!value) {
+    return (
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-slate-600">Always shown</span>
+        {earlier.length > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => pickQuestion(earlier[earlier.length - 1].id!)}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add condition
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-slate-600">Show only if</span>
+      <Select value={value.questionId} onValueChange={pickQuestion}>
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Question" />
+        </SelectTrigger>
+        <SelectContent>
+          {earlier.map((question, i) => (
+            <SelectItem key={question.id} value={question.id!}>
+              {questionLabel(questions, i)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ConditionTestInputs
+        test={value}
+        question={tested}
+        onChange={(test) => onChange({ ...value, ...test })}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange(undefined)}
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface SkipLogicEditorProps {
+  value: SurveySkipRule[];
+  onChange: (value: SurveySkipRule[]) => void;
+  questions: SurveyQuestionInput[];
+  index: number;
+}
+
+// "If the answer is No, skip to Q7". Rules are checked in order and can only
+// jump forward or end the survey.
+export function SkipLogicEditor({
+  value,
+  onChange,
+  questions,
+  index,
+}: SkipLogicEditorProps) {
+  const question = questions[index];
+  const laterIndexes = questions
+    .map((_, i) => i)
+    .filter((i) => i > index + 1);
+
+  const update = (position: number, rule: SurveySkipRule) =>
+    onChange(value.map((r, i) => (i === position ? rule : r)));
+
+  return (
+    <div className="space-y-2">
+      {value.map((rule, position) => (
+        <div key={position} className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-slate-600">If the answer</span>
+          <ConditionTestInputs
+            test={rule}
+            question={question}
+            onChange={(test) => update(position, { ...rule, ...test })}
+          />
+          <span className="text-sm text-slate-600">skip to</span>
+          <Select
+            value={rule.to}
+            onValueChange={(to) => update(position, { ...rule, to })}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Question" />
+            </SelectTrigger>
+            <SelectContent>
+              {laterIndexes.map((i) => (
+                <SelectItem key={questions[i].id} value={questions[i].id!}>
+                  {questionLabel(questions, i)}
+                </SelectItem>
+              ))}
+              <SelectItem value={SURVEY_END}>End of survey</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(value.filter((_, i) => i !== position))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() =>
+          onChange([...value, { ...defaultTest(question), to: SURVEY_END }])
+        }
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add skip rule
+      </Button>
+    </div>
+  );
+}
@@ -2,9 +2,10 @@ import { useEffect, useState } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
-import { Plus, Trash2 } from "lucide-react";
+import { Eye, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
@@ -27,27 +28,102 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  DisplayLogicEditor,
+  SkipLogicEditor,
+} from "@/components/modals/survey-logic-editor";
+import { SurveyPreviewModal } from "@/components/modals/survey-preview-modal";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { insertSurveySchema } from "@shared/schema";
-import type { Survey, Business } from "@shared/schema";
+import { EntityHistoryTabs } from "@/components/audit/entity-history";
+import { apiErrorMessage, apiRequest, authorizedFetch } from "@/lib/queryClient";
+import {
+  SURVEY_PUBLISH_STATUSES,
+  SURVEY_QUESTION_TYPES,
+  insertSurveySchema,
+  surveyQuestionListSchema,
+} from "@shared/schema";
+import type {
+  Survey,
+  Business,
+  Event,
+  SurveyAudience,
+  SurveyPublishStatus,
+  SurveyQuestionInput,
+  SurveyVersionHistory,
+} from "@shared/schema";
+import {
+  DRAFT_QUESTION_ID_PREFIX,
+  parseSurveyQuestions,
+  surveySettingsProblem,
+} from "@shared/surveys";
+import { formatOrgDate, fromWallTime, toWallTime } from "@shared/timezone";
 import { z } from "zod";
-import { getAuthToken } from "@/lib/supabase";
 
-const questionSchema = z.object({
-  question: z.string().min(1, "Question text is required"),
-  type: z.enum(["text", "rating", "multiple_choice", "checkbox", "yes_no"]),
-  options: z.array(z.string()).optional(),
-});
+const surveyFormSchema = insertSurveySchema
+  .extend({
+    questions: surveyQuestionListSchema,
+    status: z.enum(SURVEY_PUBLISH_STATUSES),
+    // datetime-local values, in the organization's timezone
+    opensAt: z.string().optional(),
+    closesAt: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    const problem = surveySettingsProblem(data);
+    if (problem) {
+      ctx.addIssue({ code: "custom", path: [problem.field], message: problem.message });
+    }
+  });
 
-const surveyFormSchema = insertSurveySchema.extend({
-  questions: z
-    .array(questionSchema)
-    .min(1, "At least one question is required"),
+// New questions get a draft id so other questions' logic can refer to them
+const newQuestion = (): SurveyQuestionInput => ({
+  id: `${DRAFT_QUESTION_ID_PREFIX}${Math.random().toString(36).slice(2, 10)}`,
+  question: "",
+  type: "text",
+  options: [],
+  required: true,
+  skipRules: [],
 });
 
 type SurveyForm = z.infer<typeof surveyFormSchema>;
 
+const defaultValues = (): SurveyForm => ({
+  title: "",
+  description: "",
+  questions: [newQuestion()],
+  rewardPoints: 10,
+  status: "published",
+  opensAt: "",
+  closesAt: "",
+  maxResponses: null,
+  audience: "all",
+  audienceEventId: null,
+  audienceBusinessId: null,
+});
+
+const STATUS_LABELS: Record<SurveyPublishStatus, string> = {
+  draft: "Draft",
+  published: "Published",
+  closed: "Closed",
+};
+
+const AUDIENCE_LABELS: Record<SurveyAudience, string> = {
+  all: "All patrons",
+  event_attendees: "Attendees of an event",
+  business_customers: "Customers of a business",
+};
+
+// The schedule goes out as local wall time; the server reads it in the
+// organization's timezone
+const toPayload = ({ opensAt, closesAt, ...data }: SurveyForm) => ({
+  ...data,
+  opensAt: opensAt ? `${opensAt}:00` : null,
+  closesAt: closesAt ? `${closesAt}:00` : null,
+  maxResponses: data.maxResponses ?? null,
+});
+
+const previewTime = (value: string | undefined) =>
+  value ? fromWallTime(value) : null;
+
 interface SurveyModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -57,28 +133,46 @@ interface SurveyModalProps {
 export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const token = getAuthToken();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
 
-  const { data: businesses } = useQuery({
-    queryKey: ["/api/businesses"],
+  const { data: businesses } = useQuery<Business[]>({
+    queryKey: ["/api/businesses", "all"],
     queryFn: async () => {
-      const response = await fetch("/api/businesses", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authorizedFetch("/api/businesses/all");
       if (!response.ok) throw new Error("Failed to fetch businesses");
       return response.json();
     },
   });
 
+  // Questions with responses keep their type; see updateSurvey on the server
+  const { data: history } = useQuery<SurveyVersionHistory>({
+    queryKey: ["/api/surveys", survey?.id, "versions"],
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/surveys/${survey!.id}/versions`
+      );
+      return response.json();
+    },
+    enabled: isOpen && !!survey,
+  });
+  const answeredIds = new Set(history?.answeredQuestionIds);
+  const responseCount =
+    history?.versions.reduce((total, v) => total + v.responseCount, 0) ?? 0;
+
   const form = useForm<SurveyForm>({
     resolver: zodResolver(surveyFormSchema),
-    defaultValues: {
-      title: "",
-      description: "",
-      questions: [{ question: "", type: "text" }],
-      rewardPoints: 10,
-      isActive: true,
+    defaultValues: defaultValues(),
+  });
+  const audience = form.watch("audience");
+
+  const { data: events } = useQuery<Event[]>({
+    queryKey: ["/api/events", "all"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/events/all");
+      return response.json();
     },
+    enabled: isOpen && audience === "event_attendees",
   });
 
   const { fields, append, remove } = useFieldArray({
@@ -86,21 +180,11 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
     name: "questions",
   });
 
+  // Questions keep the ids the server gave them; the server swaps draft ids
+  // for the next unused ones, including where logic refers to them
   const createMutation = useMutation({
     mutationFn: async (data: SurveyForm) => {
-      // Transform questions to include IDs and convert to JSON string for database storage
-      const questionsWithIds = data.questions.map((q, index) => ({
-        id: index + 1,
-        question: q.question,
-        type: q.type,
-        options: q.options || [],
-      }));
-
-      const surveyData = {
-        ...data,
-        questions: JSON.stringify(questionsWithIds),
-      };
-      return apiRequest("POST", "/api/surveys", surveyData);
+      return apiRequest("POST", "/api/surveys", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
@@ -111,10 +195,10 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
       onClose();
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create survey",
+        description: apiErrorMessage(error, "Failed to create survey"),
         variant: "destructive",
       });
     },
@@ -122,19 +206,7 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
 
   const updateMutation = useMutation({
     mutationFn: async (data: SurveyForm) => {
-      // Transform questions to include IDs and convert to JSON string for database storage
-      const questionsWithIds = data.questions.map((q, index) => ({
-        id: index + 1,
-        question: q.question,
-        type: q.type,
-        options: q.options || [],
-      }));
-
-      const surveyData = {
-        ...data,
-        questions: JSON.stringify(questionsWithIds),
-      };
-      return apiRequest("PUT", `/api/surveys/${survey!.id}`, surveyData);
+      return apiRequest("PUT", `/api/surveys/${survey!.id}`, toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
@@ -145,10 +217,10 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
       onClose();
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update survey",
+        description: apiErrorMessage(error, "Failed to update survey"),
         variant: "destructive",
       });
     },
@@ -156,47 +228,37 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
 
   useEffect(() => {
     if (survey) {
-      let questions = [];
-      try {
-        const parsedQuestions =
-          typeof survey.questions === "string"
-            ? JSON.parse(survey.questions)
-            : Array.isArray(survey.questions)
-            ? survey.questions
-            : [];
-
-        questions = parsedQuestions.map((q: any) => ({
-          question: q.question || q.text || "",
-          type:
-            q.type === "text" ||
-            q.type === "rating" ||
-            q.type === "multiple_choice" ||
-            q.type === "checkbox" ||
-            q.type === "yes_no"
-              ? q.type
-              : "text",
-          options: q.options || [],
-        }));
-      } catch (e) {
-        questions = [{ question: "", type: "text" as const }];
-      }
+      const questions = parseSurveyQuestions(survey.questions).map(
+        (q): SurveyQuestionInput => ({
+          ...q,
+          type: (SURVEY_QUESTION_TYPES as readonly string[]).includes(q.type)
+            ? (q.type as SurveyQuestionInput["type"])
+            : "text",
+        })
+      );
+
+      const localTime = (date: Date | null) =>
+        date ? toWallTime(new Date(date)).slice(0, 16) : "";
 
       form.reset({
         title: survey.title,
         description: survey.description || "",
-        questions:
-          questions.length > 0 ? questions : [{ question: "", type: "text" }],
+        questions: questions.length > 0 ? questions : [newQuestion()],
         rewardPoints: survey.rewardPoints || 10,
-        isActive: survey.isActive ?? true,
+        // Older surveys were closed by clearing isActive
+        status:
+          survey.isActive === false && survey.status === "published"
+            ? "closed"
+            : (survey.status as SurveyPublishStatus),
+        opensAt: localTime(survey.opensAt),
+        closesAt: localTime(survey.closesAt),
+        maxResponses: survey.maxResponses,
+        audience: survey.audience as SurveyAudience,
+        audienceEventId: survey.audienceEventId,
+        audienceBusinessId: survey.audienceBusinessId,
       });
     } else {
-      form.reset({
-        title: "",
-        description: "",
-        questions: [{ question: "", type: "text" }],
-        rewardPoints: 10,
-        isActive: true,
-      });
+      form.reset(defaultValues());
     }
   }, [survey, form]);
 
@@ -209,9 +271,16 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
   }
 
   const addQuestion = () => {
-    append({ question: "", type: "text" });
+    append(newQuestion());
   };
 
+  const isTypeLocked = (index: number) => {
+    const id = form.watch(`questions.${index}.id`);
+    return !!id && answeredIds.has(id);
+  };
+
+  const questions = form.watch("questions");
+
   const isLoading = createMutation.isPending || updateMutation.isPending;
 
   return (
@@ -221,265 +290,587 @@ export function SurveyModal({ isOpen, onClose, survey }: SurveyModalProps) {
           <DialogTitle>
             {survey ? "Edit Survey" : "Create New Survey"}
           </DialogTitle>
+          {survey && history && (
+            <p className="text-sm text-slate-500">
+              Version {history.currentVersion} · {responseCount} response
+              {responseCount === 1 ? "" : "s"}. Changing questions saves a new
+              version; earlier responses stay with the questions they answered.
+            </p>
+          )}
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="md:col-span-2">
+        <EntityHistoryTabs entityType="survey" entityId={survey?.id}>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Survey Title *
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Customer Satisfaction Survey"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Description
+                        </FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={3}
+                            placeholder="Help us improve your experience at local businesses"
+                            {...field}
+                            value={field.value || ""}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <FormField
                   control={form.control}
-                  name="title"
+                  name="rewardPoints"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Survey Title *
+                        Reward Points
                       </FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Customer Satisfaction Survey"
+                          type="number"
+                          placeholder="10"
                           {...field}
+                          onChange={(e) =>
+                            field.onChange(parseInt(e.target.value) || 10)
+                          }
+                          value={field.value || 10}
                         />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <div className="md:col-span-2">
                 <FormField
                   control={form.control}
-                  name="description"
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Status
+                      </FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {SURVEY_PUBLISH_STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-slate-500">
+                        Published surveys take responses between the opening and
+                        closing times
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="opensAt"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel className="text-sm font-medium text-slate-700">
-                        Description
+                        Opens
                       </FormLabel>
                       <FormControl>
-                        <Textarea
-                          rows={3}
-                          placeholder="Help us improve your experience at local businesses"
-                          {...field}
-                          value={field.value || ""}
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="closesAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Closes
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxResponses"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Response Limit
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(parseInt(e.target.value) || null)
+                          }
                         />
                       </FormControl>
+                      <p className="text-xs text-slate-500">
+                        The survey closes once it has this many responses
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="audience"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-slate-700">
+                        Audience
+                      </FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(AUDIENCE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <FormField
-                control={form.control}
-                name="rewardPoints"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-sm font-medium text-slate-700">
-                      Reward Points
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        placeholder="10"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(parseInt(e.target.value) || 10)
-                        }
-                        value={field.value || 10}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+                {audience === "event_attendees" && (
+                  <FormField
+                    control={form.control}
+                    name="audienceEventId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Checked in to
+                        </FormLabel>
+                        <Select
+                          value={field.value ? String(field.value) : undefined}
+                          onValueChange={(value) => field.onChange(parseInt(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select event" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {events?.map((event) => (
+                              <SelectItem key={event.id} value={String(event.id)}>
+                                {event.name} · {formatOrgDate(event.eventDate)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-              />
-
-              <FormField
-                control={form.control}
-                name="isActive"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                    <div className="space-y-0.5">
-                      <FormLabel className="text-base">Active Survey</FormLabel>
-                      <div className="text-sm text-muted-foreground">
-                        Make this survey available to users
-                      </div>
-                    </div>
-                    <FormControl>
-                      <input
-                        type="checkbox"
-                        checked={field.value}
-                        onChange={field.onChange}
-                        className="h-4 w-4"
-                      />
-                    </FormControl>
-                  </FormItem>
+
+                {audience === "business_customers" && (
+                  <FormField
+                    control={form.control}
+                    name="audienceBusinessId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-slate-700">
+                          Redeemed a reward at
+                        </FormLabel>
+                        <Select
+                          value={field.value ? String(field.value) : undefined}
+                          onValueChange={(value) => field.onChange(parseInt(value))}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select business" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {businesses?.map((business) => (
+                              <SelectItem
+                                key={business.id}
+                                value={String(business.id)}
+                              >
+                                {business.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-              />
-            </div>
-
-            {/* Questions Section */}
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <h3 className="text-lg font-medium text-slate-900">
-                  Questions
-                </h3>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={addQuestion}
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Question
-                </Button>
               </div>
 
+              {/* Questions Section */}
               <div className="space-y-4">
-                {fields.map((field, index) => (
-                  <div
-                    key={field.id}
-                    className="border border-slate-200 rounded-lg p-4"
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-medium text-slate-900">
+                    Questions
+                  </h3>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addQuestion}
                   >
-                    <div className="flex items-center justify-between mb-4">
-                      <h4 className="font-medium text-slate-900">
-                        Question {index + 1}
-                      </h4>
-                      {fields.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => remove(index)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      )}
-                    </div>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Question
+                  </Button>
+                </div>
+
+                <div className="space-y-4">
+                  {fields.map((field, index) => (
+                    <div
+                      key={field.id}
+                      className="border border-slate-200 rounded-lg p-4"
+                    >
+                      <div className="flex items-center justify-between mb-4">
+                        <h4 className="font-medium text-slate-900">
+                          Question {index + 1}
+                        </h4>
+                        {fields.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => remove(index)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                          <FormField
+                            control={form.control}
+                            name={`questions.${index}.question`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-sm font-medium text-slate-700">
+                                  Question Text *
+                                </FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="How would you rate your experience?"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div className="md:col-span-2">
                         <FormField
                           control={form.control}
-                          name={`questions.${index}.question`}
+                          name={`questions.${index}.type`}
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-sm font-medium text-slate-700">
-                                Question Text *
+                                Question Type *
                               </FormLabel>
-                              <FormControl>
-                                <Input
-                                  placeholder="How would you rate your experience?"
-                                  {...field}
-                                />
-                              </FormControl>
+                              <Select
+                                onValueChange={(type) => {
+                                  field.onChange(type);
+                                  if (type !== "checkbox") {
+                                    form.setValue(`questions.${index}.minSelections`, undefined);
+                                    form.setValue(`questions.${index}.maxSelections`, undefined);
+                                  }
+                                }}
+                                defaultValue={field.value}
+                                disabled={isTypeLocked(index)}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select type" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="text">Text</SelectItem>
+                                  <SelectItem value="rating">
+                                    Rating Scale
+                                  </SelectItem>
+                                  <SelectItem value="multiple_choice">
+                                    Multiple Choice
+                                  </SelectItem>
+                                  <SelectItem value="checkbox">
+                                    Checkbox (Multiple Select)
+                                  </SelectItem>
+                                  <SelectItem value="yes_no">Yes/No</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              {isTypeLocked(index) && (
+                                <p className="text-xs text-slate-500">
+                                  Has responses, so the type is fixed
+                                </p>
+                              )}
                               <FormMessage />
                             </FormItem>
                           )}
                         />
                       </div>
 
-                      <FormField
-                        control={form.control}
-                        name={`questions.${index}.type`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel className="text-sm font-medium text-slate-700">
-                              Question Type *
-                            </FormLabel>
-                            <Select
-                              onValueChange={field.onChange}
-                              defaultValue={field.value}
-                            >
+                      {(form.watch(`questions.${index}.type`) ===
+                        "multiple_choice" ||
+                        form.watch(`questions.${index}.type`) === "checkbox") && (
+                        <div className="mt-4">
+                          <FormField
+                            control={form.control}
+                            name={`questions.${index}.options`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-sm font-medium text-slate-700">
+                                  Options (one per line)
+                                  {form.watch(`questions.${index}.type`) ===
+                                    "checkbox" && (
+                                    <span className="text-xs text-slate-500 ml-1">
+                                      (users can select multiple)
+                                    </span>
+                                  )}
+                                </FormLabel>
+                                <FormControl>
+                                  <textarea
+                                    rows={4}
+                                    className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                    placeholder="Option 1
+  Option 2
+  Option 3"
+                                    defaultValue={field.value?.join("\n") || ""}
+                                    onBlur={(e) => {
+                                      const options = e.target.value
+                                        .split("\n")
+                                        .filter((line) => line.trim() !== "");
+                                      field.onChange(options);
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
+
+                      <div className="mt-4 flex flex-wrap items-start gap-6">
+                        <FormField
+                          control={form.control}
+                          name={`questions.${index}.required`}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-2 space-y-0">
                               <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select type" />
-                                </SelectTrigger>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
                               </FormControl>
-                              <SelectContent>
-                                <SelectItem value="text">Text</SelectItem>
-                                <SelectItem value="rating">
-                                  Rating Scale
-                                </SelectItem>
-                                <SelectItem value="multiple_choice">
-                                  Multiple Choice
-                                </SelectItem>
-                                <SelectItem value="checkbox">
-                                  Checkbox (Multiple Select)
-                                </SelectItem>
-                                <SelectItem value="yes_no">Yes/No</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
+                              <FormLabel className="text-sm font-medium text-slate-700">
+                                Required
+                              </FormLabel>
+                            </FormItem>
+                          )}
+                        />
+
+                        {form.watch(`questions.${index}.type`) === "checkbox" && (
+                          <>
+                            <FormField
+                              control={form.control}
+                              name={`questions.${index}.minSelections`}
+                              render={({ field }) => (
+                                <FormItem className="flex items-center gap-2 space-y-0">
+                                  <FormLabel className="text-sm font-medium text-slate-700">
+                                    Min selections
+                                  </FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      className="w-20"
+                                      value={field.value ?? ""}
+                                      onChange={(e) =>
+                                        field.onChange(
+                                          parseInt(e.target.value) || undefined
+                                        )
+                                      }
+                                    />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`questions.${index}.maxSelections`}
+                              render={({ field }) => (
+                                <FormItem className="space-y-1">
+                                  <div className="flex items-center gap-2">
+                                    <FormLabel className="text-sm font-medium text-slate-700">
+                                      Max selections
+                                    </FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min={1}
+                                        className="w-20"
+                                        value={field.value ?? ""}
+                                        onChange={(e) =>
+                                          field.onChange(
+                                            parseInt(e.target.value) || undefined
+                                          )
+                                        }
+                                      />
+                                    </FormControl>
+                                  </div>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </>
                         )}
-                      />
-                    </div>
+                      </div>
 
-                    {(form.watch(`questions.${index}.type`) ===
-                      "multiple_choice" ||
-                      form.watch(`questions.${index}.type`) === "checkbox") && (
-                      <div className="mt-4">
+                      <div className="mt-4 space-y-2 border-t border-slate-100 pt-4">
                         <FormField
                           control={form.control}
-                          name={`questions.${index}.options`}
+                          name={`questions.${index}.showIf`}
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel className="text-sm font-medium text-slate-700">
-                                Options (one per line)
-                                {form.watch(`questions.${index}.type`) ===
-                                  "checkbox" && (
-                                  <span className="text-xs text-slate-500 ml-1">
-                                    (users can select multiple)
-                                  </span>
-                                )}
-                              </FormLabel>
-                              <FormControl>
-                                <textarea
-                                  rows={4}
-                                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                                  placeholder="Option 1
-Option 2
-Option 3"
-                                  defaultValue={field.value?.join("\n") || ""}
-                                  onBlur={(e) => {
-                                    const options = e.target.value
-                                      .split("\n")
-                                      .filter((line) => line.trim() !== "");
-                                    field.onChange(options);
-                                  }}
-                                />
-                              </FormControl>
+                              <DisplayLogicEditor
+                                value={field.value}
+                                onChange={field.onChange}
+                                questions={questions}
+                                index={index}
+                              />
                               <FormMessage />
                             </FormItem>
                           )}
                         />
+                        {index < fields.length - 1 && (
+                          <FormField
+                            control={form.control}
+                            name={`questions.${index}.skipRules`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <SkipLogicEditor
+                                  value={field.value}
+                                  onChange={field.onChange}
+                                  questions={questions}
+                                  index={index}
+                                />
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
                       </div>
-                    )}
-                  </div>
-                ))}
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
-
-            <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
-              <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                {isLoading
-                  ? "Saving..."
-                  : survey
-                  ? "Update Survey"
-                  : "Create Survey"}
-              </Button>
-            </div>
-          </form>
-        </Form>
+
+              <div className="flex items-center justify-end space-x-3 pt-4 border-t border-slate-200">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="mr-auto"
+                  onClick={() => setIsPreviewOpen(true)}
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Preview
+                </Button>
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  {isLoading
+                    ? "Saving..."
+                    : survey
+                    ? "Update Survey"
+                    : "Create Survey"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </EntityHistoryTabs>
+
+        <SurveyPreviewModal
+          isOpen={isPreviewOpen}
+          onClose={() => setIsPreviewOpen(false)}
+          survey={
+            isPreviewOpen
+              ? {
+                  title: form.getValues("title"),
+                  description: form.getValues("description") ?? null,
+                  rewardPoints: form.getValues("rewardPoints") ?? 0,
+                  questions: JSON.stringify(questions),
+                  status: form.getValues("status"),
+                  isActive: form.getValues("status") === "published",
+                  opensAt: previewTime(form.getValues("opensAt")),
+                  closesAt: previewTime(form.getValues("closesAt")),
+                  maxResponses: form.getValues("maxResponses") ?? null,
+                }
+              : null
+          }
+        />
       </DialogContent>
     </Dialog>
   );
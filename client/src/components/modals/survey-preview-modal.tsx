@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -5,107 +6,168 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
-import { Star, CheckCircle } from "lucide-react";
-import type { Survey } from "@shared/schema";
+import { SurveyStatusBadge } from "@/components/surveys/survey-status-badge";
+import { Star, CheckCircle, RotateCcw } from "lucide-react";
+import {
+  surveyAnswerChoices,
+  SURVEY_RATING_SCALE,
+  type Survey,
+  type SurveyAnswer,
+  type SurveyAnswers,
+  type SurveyQuestion,
+} from "@shared/schema";
+import {
+  checkSurveyAnswers,
+  parseSurveyQuestions,
+  surveyStatus,
+} from "@shared/surveys";
 
 interface SurveyPreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
-  survey: Survey | null;
+  // A saved survey, or the editor's unsaved values
+  survey: Pick<
+    Survey,
+    | "title"
+    | "description"
+    | "rewardPoints"
+    | "questions"
+    | "status"
+    | "isActive"
+    | "opensAt"
+    | "closesAt"
+    | "maxResponses"
+  > | null;
+}
+
+function selectionHint(question: SurveyQuestion) {
+  const { minSelections: min, maxSelections: max } = question;
+  if (min !== undefined && max !== undefined) {
+    return min === max ? `Select ${min}` : `Select ${min} to ${max}`;
+  }
+  if (min !== undefined) return `Select at least ${min}`;
+  if (max !== undefined) return `Select up to ${max}`;
+  return "Select all that apply";
 }
 
+// Answers the survey as a respondent would. Display and skip logic run as
+// answers change, so admins can walk each branch before publishing, and
+// submitting checks the answers the way the server will.
 export function SurveyPreviewModal({
   isOpen,
   onClose,
   survey,
 }: SurveyPreviewModalProps) {
+  const [answers, setAnswers] = useState<SurveyAnswers>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  // Start over each time the preview opens
+  useEffect(() => {
+    if (isOpen) {
+      setAnswers({});
+      setSubmitted(false);
+    }
+  }, [isOpen]);
+
   if (!survey) return null;
 
-  let questions = [];
-  try {
-    questions =
-      typeof survey.questions === "string"
-        ? JSON.parse(survey.questions)
-        : Array.isArray(survey.questions)
-        ? survey.questions
-        : [];
-  } catch (e) {
-    questions = [];
-  }
+  const questions = parseSurveyQuestions(survey.questions);
+  const { path, errors } = checkSurveyAnswers(questions, answers);
+  const hiddenCount = questions.length - path.length;
+  const isValid = Object.keys(errors).length === 0;
+
+  const setAnswer = (id: string, answer: SurveyAnswer) =>
+    setAnswers((previous) => ({ ...previous, [id]: answer }));
 
-  const renderQuestionPreview = (question: any, index: number) => {
+  const toggleOption = (id: string, option: string) => {
+    const selected = Array.isArray(answers[id]) ? (answers[id] as string[]) : [];
+    setAnswer(
+      id,
+      selected.includes(option)
+        ? selected.filter((value) => value !== option)
+        : [...selected, option]
+    );
+  };
+
+  const renderAnswerInput = (question: SurveyQuestion) => {
+    const answer = answers[question.id];
     switch (question.type) {
       case "rating":
         return (
-          <div className="space-y-2">
-            <p className="font-medium text-slate-900">{question.text}</p>
-            <div className="flex space-x-1">
-              {[1, 2, 3, 4, 5].map((star) => (
+          <div className="flex space-x-1">
+            {SURVEY_RATING_SCALE.map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setAnswer(question.id, star)}
+              >
                 <Star
-                  key={star}
-                  className="w-6 h-6 text-yellow-400 fill-current"
+                  className={`w-6 h-6 ${
+                    typeof answer === "number" && star <= answer
+                      ? "text-yellow-400 fill-current"
+                      : "text-slate-300"
+                  }`}
                 />
-              ))}
-            </div>
-          </div>
-        );
-
-      case "multiple_choice":
-        return (
-          <div className="space-y-2">
-            <p className="font-medium text-slate-900">{question.text}</p>
-            <div className="space-y-2">
-              {question.options?.map((option: string, optionIndex: number) => (
-                <div key={optionIndex} className="flex items-center space-x-2">
-                  <div className="w-4 h-4 border-2 border-slate-300 rounded-full"></div>
-                  <span className="text-slate-700">{option}</span>
-                </div>
-              ))}
-            </div>
+              </button>
+            ))}
           </div>
         );
 
       case "checkbox":
         return (
           <div className="space-y-2">
-            <p className="font-medium text-slate-900">{question.text}</p>
-            <p className="text-xs text-slate-500 mb-2">Select all that apply</p>
-            <div className="space-y-2">
-              {question.options?.map((option: string, optionIndex: number) => (
-                <div key={optionIndex} className="flex items-center space-x-2">
-                  <div className="w-4 h-4 border-2 border-slate-300 rounded-sm"></div>
-                  <span className="text-slate-700">{option}</span>
-                </div>
-              ))}
-            </div>
+            <p className="text-xs text-slate-500">{selectionHint(question)}</p>
+            {question.options.map((option) => (
+              <label
+                key={option}
+                className="flex items-center space-x-2 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={Array.isArray(answer) && answer.includes(option)}
+                  onChange={() => toggleOption(question.id, option)}
+                />
+                <span className="text-slate-700">{option}</span>
+              </label>
+            ))}
           </div>
         );
 
+      case "multiple_choice":
       case "yes_no":
         return (
-          <div className="space-y-2">
-            <p className="font-medium text-slate-900">{question.text}</p>
-            <div className="flex space-x-4">
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 border-2 border-slate-300 rounded-full"></div>
-                <span className="text-slate-700">Yes</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 border-2 border-slate-300 rounded-full"></div>
-                <span className="text-slate-700">No</span>
-              </div>
-            </div>
+          <div
+            className={
+              question.type === "yes_no" ? "flex space-x-4" : "space-y-2"
+            }
+          >
+            {surveyAnswerChoices(question)!.map((option) => (
+              <label
+                key={option}
+                className="flex items-center space-x-2 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name={`preview-${question.id}`}
+                  className="h-4 w-4"
+                  checked={answer === option}
+                  onChange={() => setAnswer(question.id, option)}
+                />
+                <span className="text-slate-700">{option}</span>
+              </label>
+            ))}
           </div>
         );
 
       default: // text
         return (
-          <div className="space-y-2">
-            <p className="font-medium text-slate-900">{question.text}</p>
-            <div className="w-full h-10 border-2 border-slate-200 rounded-md bg-slate-50"></div>
-          </div>
+          <Input
+            value={typeof answer === "string" ? answer : ""}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
         );
     }
   };
@@ -116,15 +178,7 @@ export function SurveyPreviewModal({
         <DialogHeader>
           <DialogTitle className="flex items-center justify-between">
             <span>Survey Preview: {survey.title}</span>
-            <Badge
-              className={
-                survey.isActive
-                  ? "bg-green-100 text-green-800"
-                  : "bg-gray-100 text-gray-800"
-              }
-            >
-              {survey.isActive ? "Active" : "Inactive"}
-            </Badge>
+            <SurveyStatusBadge status={surveyStatus(survey)} />
           </DialogTitle>
         </DialogHeader>
 
@@ -138,23 +192,59 @@ export function SurveyPreviewModal({
               )}
               <div className="flex items-center space-x-4 text-sm text-slate-500">
                 <span>Reward: {survey.rewardPoints} points</span>
-                <span>Questions: {questions.length}</span>
+                <span>
+                  Questions: {path.length} of {questions.length}
+                </span>
+                {hiddenCount > 0 && (
+                  <span>{hiddenCount} hidden by logic on this path</span>
+                )}
               </div>
             </CardHeader>
           </Card>
 
           {/* Questions */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-slate-900">Questions</h3>
-            {questions.map((question: any, index: number) => (
-              <Card key={index}>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900">
+                Questions
+              </h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setAnswers({});
+                  setSubmitted(false);
+                }}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Start over
+              </Button>
+            </div>
+            {path.map((question) => (
+              <Card key={question.id}>
                 <CardContent className="p-4">
                   <div className="flex items-start space-x-3">
                     <div className="flex-shrink-0 w-6 h-6 bg-blue-100 text-blue-800 rounded-full flex items-center justify-center text-sm font-medium">
-                      {index + 1}
+                      {questions.indexOf(question) + 1}
                     </div>
-                    <div className="flex-1">
-                      {renderQuestionPreview(question, index)}
+                    <div className="flex-1 space-y-2">
+                      <p className="font-medium text-slate-900">
+                        {question.question}
+                        {question.required ? (
+                          <span className="text-red-500"> *</span>
+                        ) : (
+                          <span className="text-xs font-normal text-slate-500">
+                            {" "}
+                            (optional)
+                          </span>
+                        )}
+                      </p>
+                      {renderAnswerInput(question)}
+                      {submitted && errors[question.id] && (
+                        <p className="text-sm text-red-600">
+                          {errors[question.id]}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -169,10 +259,15 @@ export function SurveyPreviewModal({
                 <div className="flex items-center space-x-2 text-slate-600">
                   <CheckCircle className="w-5 h-5 text-green-500" />
                   <span>
-                    Complete survey to earn {survey.rewardPoints} points
+                    {submitted && isValid
+                      ? `These answers would be accepted and earn ${survey.rewardPoints} points`
+                      : `Complete survey to earn ${survey.rewardPoints} points`}
                   </span>
                 </div>
-                <Button className="bg-blue-600 hover:bg-blue-700" disabled>
+                <Button
+                  className="bg-blue-600 hover:bg-blue-700"
+                  onClick={() => setSubmitted(true)}
+                >
                   Submit Survey (Preview)
                 </Button>
               </div>
@@ -0,0 +1,536 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCan } from "@/components/auth/auth-provider";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import {
+  USER_ROLES,
+  type ActiveSession,
+  type Business,
+  type PointsLedgerEntry,
+  type User,
+  type UserActivity,
+  type UserDirectoryEntry,
+  type UserRole,
+} from "@shared/schema";
+import { ROLE_LABELS } from "@shared/permissions";
+
+interface UserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user?: UserDirectoryEntry | null;
+}
+
+export function UserModal({ isOpen, onClose, user }: UserModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canManage = useCan()("users:manage");
+  const [role, setRole] = useState<UserRole>("patron");
+  const [businessId, setBusinessId] = useState<string>("none");
+  const [adjustmentPoints, setAdjustmentPoints] = useState("");
+  const [adjustmentReason, setAdjustmentReason] = useState("");
+
+  const { data: detail } = useQuery<User & { activity: UserActivity }>({
+    queryKey: ["/api/users", user?.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/users/${user!.id}`);
+      return response.json();
+    },
+    enabled: isOpen && !!user,
+  });
+
+  const { data: ledger } = useQuery<PointsLedgerEntry[]>({
+    queryKey: ["/api/users", user?.id, "ledger"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/users/${user!.id}/ledger`);
+      return response.json();
+    },
+    enabled: isOpen && !!user,
+  });
+
+  const { data: businesses } = useQuery<Business[]>({
+    queryKey: ["/api/businesses", "all"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/businesses/all");
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (user) {
+      setRole(user.role as UserRole);
+      setBusinessId(user.businessId ? user.businessId.toString() : "none");
+    }
+  }, [user]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: {
+      role?: UserRole;
+      businessId?: number | null;
+      isSuspended?: boolean;
+    }) => {
+      const response = await apiRequest("PUT", `/api/users/${user!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Success",
+        description: "User updated successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const adjustmentMutation = useMutation({
+    mutationFn: async (data: { points: number; reason: string }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/users/${user!.id}/points/adjustments`,
+        data
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setAdjustmentPoints("");
+      setAdjustmentReason("");
+      toast({
+        title: "Success",
+        description: "Points adjusted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to adjust points",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: sessions } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/users", user?.id, "sessions"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/users/${user!.id}/sessions`);
+      return response.json();
+    },
+    enabled: isOpen && !!user && canManage,
+  });
+
+  // Ends one session, or every session when sid is omitted
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sid?: string) => {
+      await apiRequest(
+        "DELETE",
+        sid
+          ? `/api/users/${user!.id}/sessions/${sid}`
+          : `/api/users/${user!.id}/sessions`
+      );
+    },
+    onSuccess: (_, sid) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/users", user?.id, "sessions"],
+      });
+      toast({
+        title: "Success",
+        description: sid ? "Session ended" : "User signed out everywhere",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to end session"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdjustPoints = () => {
+    const points = parseInt(adjustmentPoints);
+    if (!points || adjustmentReason.trim().length < 3) {
+      toast({
+        title: "Error",
+        description: "Enter a non-zero point amount and a reason",
+        variant: "destructive",
+      });
+      return;
+    }
+    adjustmentMutation.mutate({ points, reason: adjustmentReason.trim() });
+  };
+
+  const handleSaveRole = () => {
+    updateMutation.mutate({
+      role,
+      businessId:
+        role === "business" && businessId !== "none"
+          ? parseInt(businessId)
+          : null,
+    });
+  };
+
+  const handleToggleSuspended = () => {
+    const action = user?.isSuspended ? "reinstate" : "suspend";
+    if (confirm(`Are you sure you want to ${action} this user?`)) {
+      updateMutation.mutate({ isSuspended: !user?.isSuspended });
+      onClose();
+    }
+  };
+
+  const { data: checkinCode } = useQuery<{ payload: string; qrCode: string }>({
+    queryKey: ["/api/users", user?.id, "checkin-code"],
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/users/${user!.id}/checkin-code`
+      );
+      return response.json();
+    },
+    enabled: isOpen && !!user,
+  });
+
+  if (!user) return null;
+
+  const displayName =
+    [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+    user.email ||
+    user.id;
+  const activity = detail?.activity;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{displayName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "Points Balance", value: user.pointsBalance },
+              { label: "RSVPs", value: user.rsvpCount },
+              { label: "Check-ins", value: user.checkinCount },
+              { label: "Redemptions", value: user.redemptionCount },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg border p-3">
+                <p className="text-xs text-slate-500">{stat.label}</p>
+                <p className="text-xl font-semibold text-slate-900">
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Door check-in code */}
+          {checkinCode && (
+            <div className="rounded-lg border p-4 flex items-center gap-4">
+              <img
+                src={checkinCode.qrCode}
+                alt="Check-in QR code"
+                className="w-28 h-28"
+              />
+              <div className="space-y-1">
+                <h3 className="font-medium text-slate-900">Check-in Code</h3>
+                <p className="text-sm text-slate-600">
+                  Door staff scan this code to check {displayName} in to any
+                  event they've RSVP'd to.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Role management */}
+          <div className="rounded-lg border p-4 space-y-4">
+            <h3 className="font-medium text-slate-900">Role & Business</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-slate-700">
+                  Role
+                </label>
+                <Select
+                  value={role}
+                  onValueChange={(value) => setRole(value as UserRole)}
+                  disabled={!canManage}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ROLE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {role === "business" && (
+                <div>
+                  <label className="text-sm font-medium text-slate-700">
+                    Linked Business
+                  </label>
+                  <Select
+                    value={businessId}
+                    onValueChange={setBusinessId}
+                    disabled={!canManage}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select business" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No business</SelectItem>
+                      {businesses?.map((business) => (
+                        <SelectItem
+                          key={business.id}
+                          value={business.id.toString()}
+                        >
+                          {business.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {canManage && (
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleSaveRole}
+                  disabled={updateMutation.isPending}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  {updateMutation.isPending ? "Saving..." : "Save Role"}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Admin app sign-ins */}
+          {canManage && (
+            <div className="rounded-lg border p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium text-slate-900">Active Sessions</h3>
+                {!!sessions?.length && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => revokeSessionMutation.mutate(undefined)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Sign out everywhere
+                  </Button>
+                )}
+              </div>
+              <ul className="divide-y divide-slate-100 text-sm">
+                {sessions?.length ? (
+                  sessions.map((session) => (
+                    <li
+                      key={session.sid}
+                      className="py-2 flex items-center justify-between gap-4"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-slate-900 truncate">
+                          {session.userAgent || "Unknown device"}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {session.ip || "Unknown IP"} · signed in{" "}
+                          {new Date(session.createdAt).toLocaleString()} · last
+                          active {new Date(session.lastUsedAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeSessionMutation.mutate(session.sid)}
+                        disabled={revokeSessionMutation.isPending}
+                      >
+                        End
+                      </Button>
+                    </li>
+                  ))
+                ) : (
+                  <li className="py-2 text-slate-400">
+                    Not signed in to the admin app
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          {/* Activity */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <h3 className="font-medium text-slate-900 mb-2">RSVPs</h3>
+              <ul className="space-y-1 text-sm text-slate-600">
+                {activity?.rsvps.length ? (
+                  activity.rsvps.map((rsvp, i) => (
+                    <li key={i}>{rsvp.eventName || "Unknown Event"}</li>
+                  ))
+                ) : (
+                  <li className="text-slate-400">None</li>
+                )}
+              </ul>
+            </div>
+            <div>
+              <h3 className="font-medium text-slate-900 mb-2">Check-ins</h3>
+              <ul className="space-y-1 text-sm text-slate-600">
+                {activity?.checkins.length ? (
+                  activity.checkins.map((checkin, i) => (
+                    <li key={i}>{checkin.eventName || "Unknown Event"}</li>
+                  ))
+                ) : (
+                  <li className="text-slate-400">None</li>
+                )}
+              </ul>
+            </div>
+            <div>
+              <h3 className="font-medium text-slate-900 mb-2">Redemptions</h3>
+              <ul className="space-y-1 text-sm text-slate-600">
+                {activity?.redemptions.length ? (
+                  activity.redemptions.map((redemption, i) => (
+                    <li key={i}>
+                      {redemption.rewardItemName || "Unknown Reward"}{" "}
+                      <span className="text-slate-400">
+                        {redemption.status === "void"
+                          ? "(void, refunded)"
+                          : `(-${redemption.pointsRedeemed})`}
+                      </span>
+                    </li>
+                  ))
+                ) : (
+                  <li className="text-slate-400">None</li>
+                )}
+              </ul>
+            </div>
+          </div>
+
+          {/* Points ledger */}
+          <div className="rounded-lg border p-4 space-y-4">
+            <h3 className="font-medium text-slate-900">Points Ledger</h3>
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="text-left py-1">Date</th>
+                    <th className="text-left py-1">Source</th>
+                    <th className="text-left py-1">Description</th>
+                    <th className="text-right py-1">Points</th>
+                    <th className="text-right py-1">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {ledger?.length ? (
+                    // Newest first for display; running balance is computed oldest first
+                    [...ledger].reverse().map((entry) => (
+                      <tr key={entry.id}>
+                        <td className="py-1 text-slate-600">
+                          {entry.createdAt
+                            ? new Date(entry.createdAt).toLocaleDateString()
+                            : "—"}
+                        </td>
+                        <td className="py-1 text-slate-600">{entry.source}</td>
+                        <td className="py-1 text-slate-600">
+                          {entry.description}
+                        </td>
+                        <td
+                          className={`py-1 text-right font-medium ${
+                            entry.points < 0 ? "text-red-600" : "text-green-600"
+                          }`}
+                        >
+                          {entry.points > 0 ? `+${entry.points}` : entry.points}
+                        </td>
+                        <td className="py-1 text-right text-slate-900">
+                          {entry.runningBalance}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={5} className="py-2 text-slate-400">
+                        No point history
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {canManage && (
+              <div className="flex items-center gap-3">
+                <Input
+                  type="number"
+                  placeholder="+/- points"
+                  value={adjustmentPoints}
+                  onChange={(e) => setAdjustmentPoints(e.target.value)}
+                  className="w-32"
+                />
+                <Input
+                  placeholder="Reason (required)"
+                  value={adjustmentReason}
+                  onChange={(e) => setAdjustmentReason(e.target.value)}
+                />
+                <Button
+                  onClick={handleAdjustPoints}
+                  disabled={adjustmentMutation.isPending}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Adjust
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-4 border-t border-slate-200">
+            <Badge
+              className={
+                user.isSuspended
+                  ? "bg-red-100 text-red-800"
+                  : "bg-green-100 text-green-800"
+              }
+            >
+              {user.isSuspended ? "Suspended" : "Active"}
+            </Badge>
+            <div className="flex items-center space-x-3">
+              {canManage && (
+                <Button
+                  variant="outline"
+                  onClick={handleToggleSuspended}
+                  disabled={updateMutation.isPending}
+                  className={user.isSuspended ? "" : "text-red-600"}
+                >
+                  {user.isSuspended ? "Reinstate User" : "Suspend User"}
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
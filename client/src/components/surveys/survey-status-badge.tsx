@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import type { SurveyStatus } from "@shared/schema";
+
+const STATUS_STYLES: Record<SurveyStatus, string> = {
+  draft: "bg-slate-100 text-slate-700",
+  scheduled: "bg-blue-100 text-blue-800",
+  active: "bg-green-100 text-green-800",
+  closed: "bg-gray-100 text-gray-800",
+};
+
+export function SurveyStatusBadge({ status }: { status: SurveyStatus }) {
+  return (
+    <Badge className={STATUS_STYLES[status]}>
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </Badge>
+  );
+}
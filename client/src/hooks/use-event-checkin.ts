@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type {
+  EventAttendee,
+  EventAttendeeRoster,
+  EventCheckinRequest,
+  EventCheckinResult,
+} from "@shared/schema";
+
+export function useEventAttendees(eventId: number, enabled = true) {
+  return useQuery<EventAttendeeRoster>({
+    queryKey: ["/api/events", eventId, "attendees"],
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/events/${eventId}/attendees`
+      );
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+export const matchesAttendee = (attendee: EventAttendee, term: string) =>
+  [attendee.userName, attendee.userEmail].some((value) =>
+    value?.toLowerCase().includes(term.trim().toLowerCase())
+  );
+
+// Checks an attendee in by user id or scanned QR payload and refreshes the
+// event's roster. Callers show the outcome; onError receives a readable reason.
+export function useEventCheckin(
+  eventId: number,
+  callbacks: {
+    onSuccess?: (result: EventCheckinResult) => void;
+    onError?: (message: string) => void;
+  } = {}
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: EventCheckinRequest) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/events/${eventId}/checkins`,
+        request
+      );
+      return (await response.json()) as EventCheckinResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/events", eventId, "attendees"],
+      });
+      callbacks.onSuccess?.(result);
+    },
+    onError: (error: Error) => {
+      callbacks.onError?.(apiErrorMessage(error, "Check-in failed"));
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Granularity, PeriodComparison } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+
+// Date range as picked in the UI: inclusive YYYY-MM-DD days
+export type RangeSelection = {
+  from: string;
+  to: string;
+  granularity: Granularity;
+};
+
+export const toDateInput = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+};
+
+// The last `days` days including today
+export const lastDays = (days: number) => {
+  const from = new Date();
+  from.setDate(from.getDate() - (days - 1));
+  return { from: toDateInput(from), to: toDateInput(new Date()) };
+};
+
+// Default analytics range: the last 30 days including today
+export const defaultDateRange = (): RangeSelection => ({
+  ...lastDays(30),
+  granularity: "day",
+});
+
+export const formatHour = (hour: number) => {
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  return `${hour12} ${hour < 12 ? "AM" : "PM"}`;
+};
+
+// Percent change from previous to current, or null when there is no baseline
+export const percentChange = (current: number, previous: number) =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 100) : null;
+
+// Query parameters for a range, as accepted by the analytics and export APIs
+export const rangeParams = (range: RangeSelection) => {
+  // Range is inclusive of the "to" day, so the exclusive end is the next midnight
+  const end = new Date(`${range.to}T00:00`);
+  end.setDate(end.getDate() + 1);
+  return new URLSearchParams({
+    from: new Date(`${range.from}T00:00`).toISOString(),
+    to: end.toISOString(),
+    granularity: range.granularity,
+  });
+};
+
+// Fetches an analytics endpoint for the selected range
+export function useRangeQuery<T>(url: string, range: RangeSelection, enabled = true) {
+  return useQuery<T>({
+    enabled,
+    queryKey: [url, range.from, range.to, range.granularity],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${url}?${rangeParams(range)}`);
+      return response.json();
+    },
+  });
+}
+
+// Fetches an analytics endpoint for the selected range and the period before it
+export function useComparisonQuery<T>(url: string, range: RangeSelection) {
+  return useQuery<PeriodComparison<T>>({
+    queryKey: [url, range.from, range.to, range.granularity, "previous"],
+    queryFn: async () => {
+      const params = rangeParams(range);
+      params.set("compare", "previous");
+      const response = await apiRequest("GET", `${url}?${params}`);
+      return response.json();
+    },
+  });
+}
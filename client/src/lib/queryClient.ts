@@ -1,5 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
-import { getAuthToken } from "./supabase";
+import { getAuthToken, removeAuthToken, setAuthToken } from "./supabase";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -8,27 +8,92 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "<status>: <json body>"; the server's reason for
+// display, or `fallback` when the body has none
+export function apiErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.error || parsed.message || body;
+  } catch {
+    return body || fallback;
+  }
+}
+
+let sessionEnded: () => void = () => {};
+
+// Called when the session can no longer be refreshed, so the app can show the
+// login screen
+export function onSessionEnded(handler: () => void) {
+  sessionEnded = handler;
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+// Trades the refresh cookie for a new access token. Concurrent callers share
+// one request: the server rotates the cookie on every refresh.
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = fetch("/api/auth/refresh", { method: "POST", credentials: "include" })
+      .then(async (res) => {
+        if (!res.ok) return false;
+        const { token } = await res.json();
+        setAuthToken(token);
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// fetch with the access token. A 401 means it expired or was revoked: the
+// token is refreshed once and the request retried, and if that isn't possible
+// the user is signed out.
+export async function authorizedFetch(
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const token = getAuthToken();
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const res = await send();
+  if (res.status !== 401 || url.startsWith("/api/auth/")) {
+    return res;
+  }
+  if (await refreshAccessToken()) {
+    return send();
+  }
+  removeAuthToken();
+  sessionEnded();
+  return res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const token = getAuthToken();
   const headers: Record<string, string> = {};
+  // FormData is sent as multipart; the browser sets the boundary header
+  const isFormData = data instanceof FormData;
   
-  if (data) {
+  if (data && !isFormData) {
     headers["Content-Type"] = "application/json";
   }
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
 
-  const res = await fetch(url, {
+  const res = await authorizedFetch(url, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
   });
 
   await throwIfResNotOk(res);
@@ -41,17 +106,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = getAuthToken();
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-      credentials: "include",
-    });
+    const res = await authorizedFetch(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
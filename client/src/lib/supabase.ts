@@ -29,7 +29,12 @@ export const getUserFromToken = () => {
   
   try {
     const payload = JSON.parse(atob(token.split('.')[1]));
-    return { id: payload.id, email: payload.email, role: payload.role };
+    return {
+      id: payload.id,
+      email: payload.email,
+      role: payload.role,
+      businessId: payload.businessId ?? null,
+    };
   } catch {
     return null;
   }
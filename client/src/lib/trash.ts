@@ -0,0 +1,20 @@
+import type { DeleteImpact } from "@shared/schema";
+import { describeDependents } from "@shared/trash";
+import { apiRequest } from "./queryClient";
+
+export async function fetchDeleteImpact(path: string): Promise<DeleteImpact> {
+  const response = await apiRequest("GET", `${path}/delete-impact`);
+  return response.json();
+}
+
+// Asks before moving an entity to the trash, saying what refers to it: "This
+// event has 42 RSVPs and 30 check-ins." `path` is the entity's API path, such
+// as /api/events/7. The question is still asked if the impact can't be read.
+export async function confirmMoveToTrash(path: string, noun: string): Promise<boolean> {
+  const impact = await fetchDeleteImpact(path).catch(() => null);
+  const lines = [`Move this ${noun} to the trash? You can restore it from the Trash page.`];
+  if (impact?.dependents.length) {
+    lines.push(`This ${noun} has ${describeDependents(impact.dependents)}.`);
+  }
+  return confirm(lines.join("\n\n"));
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { RangePicker } from "@/components/analytics/range-picker";
+import { ListPagination } from "@/components/layout/list-pagination";
+import {
+  AUDIT_ENTITY_LABELS,
+  AuditChangeList,
+  auditActionLabel,
+  auditActor,
+} from "@/components/audit/audit-changes";
+import { apiRequest } from "@/lib/queryClient";
+import { defaultDateRange, rangeParams, type RangeSelection } from "@/lib/analytics";
+import {
+  AUDIT_ENTITY_TYPES,
+  type AuditActor,
+  type AuditEntityType,
+  type AuditLogEntry,
+  type PaginatedResult,
+} from "@shared/schema";
+import { formatOrgDateTime } from "@shared/timezone";
+
+const PAGE_SIZE = 50;
+
+export default function AuditLog() {
+  const [range, setRange] = useState<RangeSelection>(defaultDateRange);
+  const [actorFilter, setActorFilter] = useState("all");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const { data: actors } = useQuery<AuditActor[]>({
+    queryKey: ["/api/audit-log/actors"],
+  });
+
+  const { data, isLoading } = useQuery<PaginatedResult<AuditLogEntry>>({
+    queryKey: ["/api/audit-log", range.from, range.to, actorFilter, entityFilter, page],
+    queryFn: async () => {
+      const params = rangeParams(range);
+      params.delete("granularity");
+      params.set("page", page.toString());
+      params.set("pageSize", PAGE_SIZE.toString());
+      if (actorFilter !== "all") params.set("actorId", actorFilter);
+      if (entityFilter !== "all") params.set("entityType", entityFilter);
+      const response = await apiRequest("GET", `/api/audit-log?${params}`);
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const entries = data?.items || [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-2xl font-bold text-slate-900">Audit Log</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={actorFilter}
+            onChange={(e) => {
+              setActorFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Users</option>
+            {actors?.map((actor) => (
+              <option key={actor.actorId} value={actor.actorId}>
+                {actor.actorEmail || actor.actorId}
+              </option>
+            ))}
+          </select>
+          <select
+            value={entityFilter}
+            onChange={(e) => {
+              setEntityFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Records</option>
+            {AUDIT_ENTITY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {AUDIT_ENTITY_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <RangePicker
+            value={range}
+            onChange={(value) => {
+              setRange(value);
+              setPage(1);
+            }}
+            showGranularity={false}
+          />
+        </div>
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Record
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Changes
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">
+                    Loading audit log...
+                  </td>
+                </tr>
+              ) : entries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">
+                    <History className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+                    No changes recorded for these filters.
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => (
+                  <tr key={entry.id} className="align-top hover:bg-slate-50">
+                    <td className="px-6 py-4 text-sm text-slate-600 whitespace-nowrap">
+                      {entry.createdAt ? formatOrgDateTime(entry.createdAt) : "—"}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900">
+                      {auditActor(entry)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <Badge className="bg-slate-100 text-slate-800">
+                        {auditActionLabel(entry.action)}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900 whitespace-nowrap">
+                      {AUDIT_ENTITY_LABELS[entry.entityType as AuditEntityType] ??
+                        entry.entityType}
+                      {entry.entityId && (
+                        <span className="text-slate-500"> #{entry.entityId}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 max-w-xl">
+                      <AuditChangeList changes={entry.changes} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={setPage}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import {
   Search,
   Star,
@@ -9,35 +14,81 @@ import {
   Calendar,
   Plus,
   Trash2,
+  Upload,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ExportButton } from "@/components/layout/export-button";
+import { useCan } from "@/components/auth/auth-provider";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { BusinessModal } from "@/components/modals/business-modal";
-import { getAuthToken } from "@/lib/supabase";
+import { BusinessImportModal } from "@/components/modals/business-import-modal";
+import { ListPagination } from "@/components/layout/list-pagination";
 import { apiRequest } from "@/lib/queryClient";
-import type { Business } from "@shared/schema";
+import { confirmMoveToTrash } from "@/lib/trash";
+import { formatTimeOfDay } from "@shared/business-hours";
+import type {
+  Business,
+  BusinessWithStatus,
+  OpenStatus,
+  PaginatedResult,
+} from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+// "Open now · Closes at 5 PM" / "Closed · Opens Tue 9 AM"
+function describeOpenStatus(status: OpenStatus) {
+  if (status.isOpen) {
+    return status.closesAt
+      ? `Open now · Closes at ${formatTimeOfDay(status.closesAt)}`
+      : "Open now";
+  }
+  if (status.nextOpen) {
+    const day = status.nextOpen.weekday.slice(0, 1).toUpperCase() + status.nextOpen.weekday.slice(1, 3);
+    return `Closed · Opens ${day} ${formatTimeOfDay(status.nextOpen.time)}`;
+  }
+  return "Closed";
+}
 
 export default function Businesses() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("All Categories");
+  const [sort, setSort] = useState("");
+  const [page, setPage] = useState(1);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(
     null
   );
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const token = getAuthToken();
+  const can = useCan();
 
-  const { data: businesses, isLoading } = useQuery({
-    queryKey: ["/api/businesses"],
+  const { data, isLoading } = useQuery<PaginatedResult<BusinessWithStatus>>({
+    queryKey: ["/api/businesses", searchTerm, selectedCategory, sort, page],
     queryFn: async () => {
-      const response = await fetch("/api/businesses", {
-        headers: { Authorization: `Bearer ${token}` },
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
       });
-      if (!response.ok) throw new Error("Failed to fetch businesses");
+      if (searchTerm) params.set("q", searchTerm);
+      if (selectedCategory !== "All Categories") {
+        params.set("category", selectedCategory);
+      }
+      if (sort) params.set("sort", sort);
+      const response = await apiRequest("GET", `/api/businesses?${params}`);
+      return response.json();
+    },
+    // Keeps the grid (and the search box) on screen while the next page loads
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: businessCategories } = useQuery<string[]>({
+    queryKey: ["/api/businesses", "categories"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/businesses/categories");
       return response.json();
     },
   });
@@ -48,9 +99,10 @@ export default function Businesses() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Business deleted successfully",
+        description: "Business moved to the trash",
       });
     },
     onError: () => {
@@ -68,7 +120,7 @@ export default function Businesses() {
   };
 
   const handleDelete = async (id: number) => {
-    if (confirm("Are you sure you want to delete this business?")) {
+    if (await confirmMoveToTrash(`/api/businesses/${id}`, "business")) {
       deleteMutation.mutate(id);
     }
   };
@@ -78,25 +130,8 @@ export default function Businesses() {
     setIsModalOpen(true);
   };
 
-  const filteredBusinesses =
-    businesses?.filter((business: Business) => {
-      const matchesSearch =
-        business.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        business.address?.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory =
-        selectedCategory === "All Categories" ||
-        business.category === selectedCategory;
-      return matchesSearch && matchesCategory;
-    }) || [];
-
-  const categories: string[] = [
-    "All Categories",
-    ...(Array.from(
-      new Set(
-        businesses?.map((b: Business) => b.category).filter(Boolean) || []
-      )
-    ) as string[]),
-  ];
+  const businesses = data?.items || [];
+  const categories = ["All Categories", ...(businessCategories || [])];
 
   if (isLoading) {
     return <div>Loading businesses...</div>;
@@ -109,26 +144,58 @@ export default function Businesses() {
           Businesses Management
         </h2>
         <div className="flex items-center space-x-3">
-          <Button
-            onClick={handleCreate}
-            className="bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Business
-          </Button>
+          {can("exports:download") && (
+            <ExportButton
+              options={[
+                {
+                  label: "Businesses",
+                  resource: "businesses",
+                  params: {
+                    q: searchTerm,
+                    category:
+                      selectedCategory === "All Categories"
+                        ? undefined
+                        : selectedCategory,
+                    sort,
+                  },
+                },
+              ]}
+            />
+          )}
+          {can("businesses:manage") && (
+            <>
+              <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+              <Button
+                onClick={handleCreate}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Business
+              </Button>
+            </>
+          )}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
             <Input
               type="text"
               placeholder="Search businesses..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
               className="pl-10"
             />
           </div>
           <select
             value={selectedCategory}
-            onChange={(e) => setSelectedCategory(e.target.value)}
+            onChange={(e) => {
+              setSelectedCategory(e.target.value);
+              setPage(1);
+            }}
             className="px-3 py-2 border border-slate-300 rounded-lg"
           >
             {categories.map((category: string) => (
@@ -137,12 +204,24 @@ export default function Businesses() {
               </option>
             ))}
           </select>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="">{searchTerm ? "Best match" : "Newest first"}</option>
+            <option value="name">Name A–Z</option>
+            <option value="category">Category</option>
+          </select>
         </div>
       </div>
 
       {/* Businesses Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredBusinesses.length === 0 ? (
+        {businesses.length === 0 ? (
           <div className="col-span-full text-center py-12">
             <MapPin className="w-12 h-12 text-slate-400 mx-auto mb-4" />
             <p className="text-slate-500">
@@ -150,7 +229,7 @@ export default function Businesses() {
             </p>
           </div>
         ) : (
-          filteredBusinesses.map((business: Business) => (
+          businesses.map((business) => (
             <Card key={business.id} className="overflow-hidden">
               {business.imageUrl && (
                 <img
@@ -171,22 +250,26 @@ export default function Businesses() {
                     </p>
                   </div>
                   <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEdit(business)}
-                      className="text-slate-600 hover:bg-slate-100 rounded-lg"
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(business.id)}
-                      className="text-red-600 hover:bg-red-100 rounded-lg"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {can("businesses:edit") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(business)}
+                        className="text-slate-600 hover:bg-slate-100 rounded-lg"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {can("businesses:manage") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(business.id)}
+                        className="text-red-600 hover:bg-red-100 rounded-lg"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
 
@@ -211,12 +294,12 @@ export default function Businesses() {
                   <div className="flex items-center space-x-2">
                     <Badge
                       className={
-                        business.isOpen
+                        business.openStatus.isOpen
                           ? "bg-green-100 text-green-800"
                           : "bg-gray-100 text-gray-800"
                       }
                     >
-                      {business.isOpen ? "Open" : "Closed"}
+                      {describeOpenStatus(business.openStatus)}
                     </Badge>
                   </div>
                   <Button
@@ -233,6 +316,20 @@ export default function Businesses() {
         )}
       </div>
 
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={setPage}
+        />
+      )}
+
+      <BusinessImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+
       <BusinessModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
@@ -1,6 +1,7 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { getAuthToken } from "@/lib/supabase";
+import { authorizedFetch } from "@/lib/queryClient";
 import {
   MapPin,
   Calendar,
@@ -26,6 +27,18 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import { RangePicker } from "@/components/analytics/range-picker";
+import {
+  defaultDateRange,
+  percentChange,
+  useComparisonQuery,
+  useRangeQuery,
+} from "@/lib/analytics";
+import type {
+  DashboardStats,
+  EventCheckinCount,
+  RsvpTrend,
+} from "@shared/schema";
 
 const chartConfig = {
   checkins: {
@@ -39,47 +52,26 @@ const chartConfig = {
 } satisfies ChartConfig;
 
 export default function Dashboard() {
-  const token = getAuthToken();
 
-  const { data: stats, isLoading: statsLoading } = useQuery({
-    queryKey: ["/api/dashboard/stats"],
-    queryFn: async () => {
-      const response = await fetch("/api/dashboard/stats", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) throw new Error("Failed to fetch stats");
-      return response.json();
-    },
-  });
+  const [range, setRange] = useState(defaultDateRange);
 
-  const { data: checkinData } = useQuery({
-    queryKey: ["/api/analytics/checkins-by-event"],
-    queryFn: async () => {
-      const response = await fetch("/api/analytics/checkins-by-event", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) throw new Error("Failed to fetch checkin data");
-      return response.json();
-    },
-  });
+  const { data: stats, isLoading: statsLoading } =
+    useComparisonQuery<DashboardStats>("/api/dashboard/stats", range);
 
-  const { data: rsvpData } = useQuery({
-    queryKey: ["/api/analytics/event-rsvp-trends"],
-    queryFn: async () => {
-      const response = await fetch("/api/analytics/event-rsvp-trends", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!response.ok) throw new Error("Failed to fetch RSVP data");
-      return response.json();
-    },
-  });
+  const { data: checkinData } = useRangeQuery<EventCheckinCount[]>(
+    "/api/analytics/checkins-by-event",
+    range
+  );
+
+  const { data: rsvpData } = useRangeQuery<RsvpTrend[]>(
+    "/api/analytics/event-rsvp-trends",
+    range
+  );
 
   const { data: recentActivity } = useQuery({
     queryKey: ["/api/dashboard/recent-activity"],
     queryFn: async () => {
-      const response = await fetch("/api/dashboard/recent-activity", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authorizedFetch("/api/dashboard/recent-activity");
       if (!response.ok) throw new Error("Failed to fetch recent activity");
       return response.json();
     },
@@ -133,36 +125,49 @@ export default function Dashboard() {
     }
   };
 
+  // "+12% from previous period", or a plain count when there is no baseline
+  const describeChange = (key: keyof DashboardStats) => {
+    const current = stats?.current[key] || 0;
+    const previous = stats?.previous[key] || 0;
+    const change = percentChange(current, previous);
+    if (change === null) {
+      return {
+        change: `${previous} in previous period`,
+        trend: current > 0 ? "up" : "flat",
+      };
+    }
+    return {
+      change: `${change > 0 ? "+" : ""}${change}% from previous period`,
+      trend: change > 0 ? "up" : change < 0 ? "down" : "flat",
+    };
+  };
+
   const statCards = [
     {
       title: "Total Check-ins",
-      value: stats?.totalCheckins || 0,
-      change: "+12% from last month",
-      trend: "up",
+      value: stats?.current.totalCheckins || 0,
+      ...describeChange("totalCheckins"),
       icon: MapPin,
       color: "blue",
     },
     {
       title: "Active Events",
-      value: stats?.activeEvents || 0,
-      change: "+3 this week",
-      trend: "up",
+      value: stats?.current.activeEvents || 0,
+      ...describeChange("activeEvents"),
       icon: Calendar,
       color: "emerald",
     },
     {
       title: "Survey Responses",
-      value: stats?.surveyResponses || 0,
-      change: "-2% from last month",
-      trend: "down",
+      value: stats?.current.surveyResponses || 0,
+      ...describeChange("surveyResponses"),
       icon: Vote,
       color: "amber",
     },
     {
       title: "Rewards Redeemed",
-      value: stats?.rewardsRedeemed || 0,
-      change: "+18% from last month",
-      trend: "up",
+      value: stats?.current.rewardsRedeemed || 0,
+      ...describeChange("rewardsRedeemed"),
       icon: Gift,
       color: "purple",
     },
@@ -192,6 +197,10 @@ export default function Dashboard() {
 
   return (
     <div>
+      <div className="flex justify-end mb-6">
+        <RangePicker value={range} onChange={setRange} />
+      </div>
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {statCards.map((stat) => {
@@ -239,11 +248,6 @@ export default function Dashboard() {
             <CardTitle className="text-lg font-semibold text-slate-900">
               Check-ins by Event
             </CardTitle>
-            <select className="text-sm border border-slate-300 rounded-lg px-3 py-1">
-              <option>Last 30 days</option>
-              <option>Last 90 days</option>
-              <option>Last year</option>
-            </select>
           </CardHeader>
           <CardContent>
             <ChartContainer config={chartConfig} className="h-64">
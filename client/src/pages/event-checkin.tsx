@@ -0,0 +1,328 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Camera,
+  CameraOff,
+  CheckCircle2,
+  Search,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { authorizedFetch } from "@/lib/queryClient";
+import {
+  matchesAttendee,
+  useEventAttendees,
+  useEventCheckin,
+} from "@/hooks/use-event-checkin";
+import type { Event } from "@shared/schema";
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM lib
+// doesn't ship yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => BarcodeDetectorLike;
+
+const BarcodeDetector = (
+  window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }
+).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 500;
+
+type ScanOutcome =
+  | { kind: "success"; name: string; points: number }
+  | { kind: "error"; message: string };
+
+export default function EventCheckin() {
+  const { id } = useParams();
+  const eventId = Number(id);
+  const [, setLocation] = useLocation();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [payload, setPayload] = useState("");
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScan = useRef<string | null>(null);
+
+  const { data: event } = useQuery<Event>({
+    queryKey: [`/api/events/${eventId}`],
+    queryFn: async () => {
+      const response = await authorizedFetch(`/api/events/${eventId}`);
+      if (!response.ok) throw new Error("Failed to fetch event");
+      return response.json();
+    },
+    enabled: !!eventId,
+  });
+
+  const { data: roster, isLoading } = useEventAttendees(eventId, !!eventId);
+
+  const checkin = useEventCheckin(eventId, {
+    onSuccess: (result) =>
+      setOutcome({
+        kind: "success",
+        name:
+          result.attendee.userName ||
+          result.attendee.userEmail ||
+          result.attendee.userId,
+        points: result.pointsAwarded,
+      }),
+    onError: (message) => setOutcome({ kind: "error", message }),
+  });
+
+  const submitPayload = (value: string) => {
+    const qrPayload = value.trim();
+    if (!qrPayload || checkin.isPending) return;
+    setPayload("");
+    checkin.mutate({ qrPayload });
+  };
+
+  // Poll the camera feed for QR codes while scanning is on. The same code is
+  // ignored until a different one is seen, so a badge held in front of the
+  // camera isn't submitted repeatedly.
+  useEffect(() => {
+    if (!cameraOn || !BarcodeDetector) return;
+
+    const detector = new BarcodeDetector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const [code] = await detector.detect(video);
+        if (code && code.rawValue !== lastScan.current) {
+          lastScan.current = code.rawValue;
+          submitPayload(code.rawValue);
+        }
+      } catch {
+        // Frames can fail to decode while the camera warms up
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play();
+        }
+        setCameraError(null);
+        scan();
+      })
+      .catch(() => {
+        setCameraError("Camera access was denied or is unavailable");
+        setCameraOn(false);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+      lastScan.current = null;
+    };
+  }, [cameraOn]);
+
+  const attendees =
+    roster?.attendees.filter((a) => matchesAttendee(a, searchTerm)) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <Button
+          onClick={() => setLocation("/events")}
+          variant="ghost"
+          size="sm"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Events
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">
+            Door Check-in{event ? ` · ${event.name}` : ""}
+          </h1>
+          <p className="text-slate-600">
+            {roster
+              ? `${roster.checkinCount} of ${roster.rsvpCount} RSVPs checked in`
+              : "Loading roster..."}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Scan Check-in Code</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {BarcodeDetector ? (
+              <div className="space-y-3">
+                <div
+                  className={`rounded-lg overflow-hidden bg-slate-900 aspect-video ${
+                    cameraOn ? "" : "hidden"
+                  }`}
+                >
+                  <video
+                    ref={videoRef}
+                    className="w-full h-full object-cover"
+                    muted
+                    playsInline
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setCameraOn((on) => !on)}
+                >
+                  {cameraOn ? (
+                    <CameraOff className="w-4 h-4 mr-2" />
+                  ) : (
+                    <Camera className="w-4 h-4 mr-2" />
+                  )}
+                  {cameraOn ? "Stop Camera" : "Scan with Camera"}
+                </Button>
+                {cameraError && (
+                  <p className="text-sm text-red-600">{cameraError}</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">
+                Camera scanning isn't supported in this browser. Use a
+                handheld scanner or paste the code below.
+              </p>
+            )}
+
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitPayload(payload);
+              }}
+            >
+              <Input
+                autoFocus
+                placeholder="Scan or paste a check-in code..."
+                value={payload}
+                onChange={(e) => setPayload(e.target.value)}
+              />
+              <Button
+                type="submit"
+                disabled={!payload.trim() || checkin.isPending}
+              >
+                Check In
+              </Button>
+            </form>
+
+            {outcome?.kind === "success" && (
+              <div className="flex items-center gap-3 rounded-lg bg-green-50 border border-green-200 p-4">
+                <CheckCircle2 className="w-6 h-6 text-green-600" />
+                <div>
+                  <p className="font-medium text-green-900">{outcome.name}</p>
+                  <p className="text-sm text-green-700">
+                    Checked in · +{outcome.points} points
+                  </p>
+                </div>
+              </div>
+            )}
+            {outcome?.kind === "error" && (
+              <div className="flex items-center gap-3 rounded-lg bg-red-50 border border-red-200 p-4">
+                <XCircle className="w-6 h-6 text-red-600" />
+                <p className="text-sm text-red-800">{outcome.message}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Guest List</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <div className="divide-y divide-slate-100 max-h-[60vh] overflow-y-auto">
+              {isLoading ? (
+                <p className="py-6 text-center text-slate-500">
+                  Loading attendees...
+                </p>
+              ) : attendees.length === 0 ? (
+                <p className="py-6 text-center text-slate-500">
+                  {searchTerm ? "No matching attendees." : "No RSVPs yet."}
+                </p>
+              ) : (
+                attendees.map((attendee) => (
+                  <div
+                    key={attendee.userId}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        {attendee.userName ||
+                          attendee.userEmail ||
+                          attendee.userId}
+                      </p>
+                      {attendee.userName && (
+                        <p className="text-xs text-slate-500">
+                          {attendee.userEmail}
+                        </p>
+                      )}
+                    </div>
+                    {attendee.checkedInAt ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        Checked In
+                      </Badge>
+                    ) : attendee.waitlistPosition !== null ? (
+                      <Badge className="bg-slate-100 text-slate-700">
+                        Waitlist #{attendee.waitlistPosition}
+                      </Badge>
+                    ) : attendee.rsvpAt ? (
+                      <Button
+                        size="sm"
+                        disabled={checkin.isPending}
+                        onClick={() =>
+                          checkin.mutate({ userId: attendee.userId })
+                        }
+                      >
+                        Check In
+                      </Button>
+                    ) : (
+                      <Badge className="bg-amber-100 text-amber-800">
+                        No RSVP
+                      </Badge>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
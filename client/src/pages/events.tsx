@@ -1,57 +1,134 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Edit, Trash2, Search } from "lucide-react";
+import { Fragment, useState } from "react";
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Search,
+  Users,
+  Repeat,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ExportButton } from "@/components/layout/export-button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { EventModal } from "@/components/modals/event-modal";
-import { getAuthToken } from "@/lib/supabase";
-import { apiRequest } from "@/lib/queryClient";
-import type { Event } from "@shared/schema";
+import {
+  EDIT_SCOPE_LABELS,
+  EventModal,
+} from "@/components/modals/event-modal";
+import { EventAttendeesModal } from "@/components/modals/event-attendees-modal";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
+import { confirmMoveToTrash, fetchDeleteImpact } from "@/lib/trash";
+import { describeRecurrence, parseRRule } from "@shared/recurrence";
+import { describeDependents } from "@shared/trash";
+import {
+  formatOrgDate,
+  formatOrgDateTime,
+  formatOrgTime,
+  orgDateOf,
+} from "@shared/timezone";
+import type {
+  DeleteImpact,
+  Event,
+  EventEditScope,
+  EventRsvpCounts,
+  EventSeries,
+  PaginatedResult,
+} from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+interface EventGroup {
+  seriesId: number | null;
+  occurrences: Event[]; // newest first, like the events list
+}
 
 export default function Events() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+  const [attendeesEvent, setAttendeesEvent] = useState<Event | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Event | null>(null);
+  const [expandedSeries, setExpandedSeries] = useState<Set<number>>(new Set());
   const [searchTerm, setSearchTerm] = useState("");
+  const [timeframe, setTimeframe] = useState("all");
+  const [sort, setSort] = useState("");
+  const [page, setPage] = useState(1);
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const token = getAuthToken();
 
-  const { data: events, isLoading } = useQuery({
-    queryKey: ["/api/events"],
+  const { data, isLoading } = useQuery<PaginatedResult<Event>>({
+    queryKey: ["/api/events", searchTerm, timeframe, sort, page],
     queryFn: async () => {
-      const response = await fetch("/api/events", {
-        headers: { Authorization: `Bearer ${token}` },
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
       });
-      if (!response.ok) throw new Error("Failed to fetch events");
+      if (searchTerm) params.set("q", searchTerm);
+      if (timeframe !== "all") params.set("when", timeframe);
+      if (sort) params.set("sort", sort);
+      const response = await apiRequest("GET", `/api/events?${params}`);
       return response.json();
     },
+    // Keeps the table (and the search box) on screen while the next page loads
+    placeholderData: keepPreviousData,
   });
 
-  const { data: rsvpCounts } = useQuery({
+  const { data: rsvpCounts } = useQuery<EventRsvpCounts[]>({
     queryKey: ["/api/events/rsvp-counts"],
     queryFn: async () => {
-      const response = await fetch("/api/events/rsvp-counts", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authorizedFetch("/api/events/rsvp-counts");
       if (!response.ok) throw new Error("Failed to fetch RSVP counts");
       return response.json();
     },
   });
 
+  const { data: series } = useQuery<EventSeries[]>({
+    queryKey: ["/api/events", "series"],
+    queryFn: async () => {
+      const response = await authorizedFetch("/api/events/series");
+      if (!response.ok) throw new Error("Failed to fetch event series");
+      return response.json();
+    },
+  });
+
+  const seriesById = new Map(series?.map((s) => [s.id, s]));
+
+  const { data: deleteTargetImpact } = useQuery<DeleteImpact>({
+    queryKey: ["/api/events", deleteTarget?.id, "delete-impact"],
+    queryFn: () => fetchDeleteImpact(`/api/events/${deleteTarget!.id}`),
+    enabled: !!deleteTarget,
+    staleTime: 0,
+  });
+
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/events/${id}`);
+    mutationFn: async ({ id, scope }: { id: number; scope: EventEditScope }) => {
+      await apiRequest("DELETE", `/api/events/${id}?scope=${scope}`);
     },
     onSuccess: () => {
       // Force refetch of events data
       queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       queryClient.refetchQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Event deleted successfully",
+        description: "Moved to the trash",
       });
     },
     onError: () => {
@@ -68,9 +145,12 @@ export default function Events() {
     setIsModalOpen(true);
   };
 
-  const handleDelete = async (id: number) => {
-    if (confirm("Are you sure you want to delete this event?")) {
-      deleteMutation.mutate(id);
+  // Occurrences of a series ask which dates to delete instead
+  const handleDelete = async (event: Event) => {
+    if (event.seriesId !== null) {
+      setDeleteTarget(event);
+    } else if (await confirmMoveToTrash(`/api/events/${event.id}`, "event")) {
+      deleteMutation.mutate({ id: event.id, scope: "this" });
     }
   };
 
@@ -79,28 +159,12 @@ export default function Events() {
     setIsModalOpen(true);
   };
 
-  const filteredEvents =
-    events?.filter(
-      (event: Event) =>
-        event.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        event.location?.toLowerCase().includes(searchTerm.toLowerCase())
-    ) || [];
+  const events = data?.items || [];
 
+  // Compares calendar days in the organization's timezone
   const getEventStatus = (eventDate: string) => {
-    const now = new Date();
-
-    // Parse the stored date as Eastern Time (no timezone conversion)
-    const eventDateString = eventDate.toString();
-    const [datePart] = eventDateString.split("T");
-    const [year, month, day] = datePart.split("-");
-    const eventDay = new Date(
-      parseInt(year),
-      parseInt(month) - 1,
-      parseInt(day)
-    );
-
-    // Reset time to start of day for date comparison
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const eventDay = orgDateOf(eventDate);
+    const today = orgDateOf(new Date());
 
     if (eventDay < today) {
       return "Past";
@@ -124,10 +188,220 @@ export default function Events() {
     }
   };
 
-  const getRsvpCount = (eventId: number) => {
-    if (!rsvpCounts) return 0;
-    const rsvpData = rsvpCounts.find((item: any) => item.eventId === eventId);
-    return rsvpData ? rsvpData.rsvpCount : 0;
+  const getRsvpCounts = (eventId: number) =>
+    rsvpCounts?.find((item) => item.eventId === eventId) ?? {
+      eventId,
+      confirmedCount: 0,
+      waitlistedCount: 0,
+    };
+
+  // Confirmed RSVPs against capacity, with the waitlist underneath
+  const renderRsvpCell = (event: Event) => {
+    const { confirmedCount, waitlistedCount } = getRsvpCounts(event.id);
+    if (event.capacity === null) {
+      return (
+        <span className="text-sm font-medium text-slate-900">
+          {confirmedCount}
+        </span>
+      );
+    }
+    const utilisation = Math.min(100, (confirmedCount / event.capacity) * 100);
+    return (
+      <div className="w-28 space-y-1">
+        <p className="text-sm">
+          <span className="font-medium text-slate-900">{confirmedCount}</span>
+          <span className="text-slate-500"> / {event.capacity}</span>
+        </p>
+        <Progress value={utilisation} className="h-1.5" />
+        {waitlistedCount > 0 && (
+          <p className="text-xs text-amber-700">+{waitlistedCount} waitlisted</p>
+        )}
+      </div>
+    );
+  };
+
+  // Occurrences of a series on this page are listed together under one row,
+  // at the position of the first of them
+  const eventGroups: EventGroup[] = [];
+  for (const event of events) {
+    const group =
+      event.seriesId !== null
+        ? eventGroups.find((g) => g.seriesId === event.seriesId)
+        : undefined;
+    if (group) {
+      group.occurrences.push(event);
+    } else {
+      eventGroups.push({ seriesId: event.seriesId, occurrences: [event] });
+    }
+  }
+
+  const toggleSeries = (seriesId: number) =>
+    setExpandedSeries((current) => {
+      const next = new Set(current);
+      if (next.has(seriesId)) next.delete(seriesId);
+      else next.add(seriesId);
+      return next;
+    });
+
+  const renderEventRow = (event: Event, nested = false) => (
+    <tr
+      key={event.id}
+      className={nested ? "bg-slate-50/50 hover:bg-slate-50" : "hover:bg-slate-50"}
+    >
+      <td className={nested ? "py-4 pl-14 pr-6" : "px-6 py-4"}>
+        <div className="flex items-center space-x-3">
+          {event.imageUrl && (
+            <img
+              src={event.thumbnailUrl || event.imageUrl}
+              alt={event.name}
+              className="w-12 h-12 rounded-lg object-cover"
+            />
+          )}
+          <div>
+            <p className="font-medium text-slate-900">
+              {event.name}
+            </p>
+            <p className="text-sm text-slate-500 line-clamp-1">
+              {event.description}
+            </p>
+          </div>
+        </div>
+      </td>
+      <td className="px-6 py-4">
+        <p className="text-sm text-slate-900">
+          {formatOrgDate(event.eventDate)}
+        </p>
+        <p className="text-sm text-slate-500">
+          {formatOrgTime(event.eventDate)}
+        </p>
+      </td>
+      <td className="px-6 py-4">
+        <p className="text-sm text-slate-900">{event.location}</p>
+      </td>
+      <td className="px-6 py-4">{renderRsvpCell(event)}</td>
+      <td className="px-6 py-4">
+        {(() => {
+          const status = getEventStatus(
+            event.eventDate.toString()
+          );
+          return (
+            <Badge className={getStatusColor(status)}>
+              {status}
+            </Badge>
+          );
+        })()}
+      </td>
+      <td className="px-6 py-4">
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setAttendeesEvent(event)}
+            className="text-slate-600 hover:text-slate-700"
+            title="Attendees"
+          >
+            <Users className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleEdit(event)}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDelete(event)}
+            className="text-red-600 hover:text-red-700"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </td>
+    </tr>
+  );
+
+  const renderSeriesRows = (group: EventGroup) => {
+    const seriesId = group.seriesId!;
+    const rule = parseRRule(seriesById.get(seriesId)?.rrule);
+    const occurrences = [...group.occurrences].reverse();
+    const upcoming = occurrences.filter(
+      (e) => getEventStatus(e.eventDate.toString()) !== "Past"
+    );
+    const next = upcoming[0];
+    const expanded = expandedSeries.has(seriesId);
+    const totalRsvps = occurrences.reduce(
+      (total, e) => total + getRsvpCounts(e.id).confirmedCount,
+      0
+    );
+    const totalWaitlisted = occurrences.reduce(
+      (total, e) => total + getRsvpCounts(e.id).waitlistedCount,
+      0
+    );
+
+    return (
+      <Fragment key={`series-${seriesId}`}>
+        <tr
+          className="hover:bg-slate-50 cursor-pointer"
+          onClick={() => toggleSeries(seriesId)}
+        >
+          <td className="px-6 py-4">
+            <div className="flex items-center space-x-3">
+              {expanded ? (
+                <ChevronDown className="w-4 h-4 text-slate-400" />
+              ) : (
+                <ChevronRight className="w-4 h-4 text-slate-400" />
+              )}
+              <div>
+                <p className="font-medium text-slate-900">
+                  {occurrences[occurrences.length - 1].name}
+                </p>
+                <p className="text-sm text-slate-500 flex items-center gap-1">
+                  <Repeat className="w-3 h-3" />
+                  {rule ? describeRecurrence(rule) : "Recurring"}
+                </p>
+              </div>
+            </div>
+          </td>
+          <td className="px-6 py-4">
+            <p className="text-sm text-slate-900">
+              {occurrences.length} occurrence
+              {occurrences.length === 1 ? "" : "s"}
+            </p>
+            <p className="text-sm text-slate-500">
+              {next
+                ? `Next: ${formatOrgDateTime(next.eventDate)}`
+                : "No upcoming dates"}
+            </p>
+          </td>
+          <td className="px-6 py-4">
+            <p className="text-sm text-slate-900">
+              {occurrences[occurrences.length - 1].location}
+            </p>
+          </td>
+          <td className="px-6 py-4">
+            <span className="text-sm font-medium text-slate-900">
+              {totalRsvps}
+            </span>
+            <span className="text-xs text-slate-500"> total</span>
+            {totalWaitlisted > 0 && (
+              <p className="text-xs text-amber-700">
+                +{totalWaitlisted} waitlisted
+              </p>
+            )}
+          </td>
+          <td className="px-6 py-4">
+            <Badge className={getStatusColor(next ? "Upcoming" : "Past")}>
+              {next ? `${upcoming.length} upcoming` : "Past"}
+            </Badge>
+          </td>
+          <td className="px-6 py-4"></td>
+        </tr>
+        {expanded && occurrences.map((event) => renderEventRow(event, true))}
+      </Fragment>
+    );
   };
 
   if (isLoading) {
@@ -138,13 +412,29 @@ export default function Events() {
     <div>
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-slate-900">Events Management</h2>
-        <Button
-          onClick={handleCreate}
-          className="bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Create Event
-        </Button>
+        <div className="flex items-center space-x-3">
+          <ExportButton
+            options={[
+              {
+                label: "Events",
+                resource: "events",
+                params: {
+                  q: searchTerm,
+                  when: timeframe === "all" ? undefined : timeframe,
+                  sort,
+                },
+              },
+              { label: "RSVPs", resource: "rsvps" },
+            ]}
+          />
+          <Button
+            onClick={handleCreate}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Create Event
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -156,15 +446,36 @@ export default function Events() {
               type="text"
               placeholder="Search events..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
               className="pl-10"
             />
           </div>
-          <select className="px-3 py-2 border border-slate-300 rounded-lg">
-            <option>All Status</option>
-            <option>Upcoming</option>
-            <option>Ongoing</option>
-            <option>Completed</option>
+          <select
+            value={timeframe}
+            onChange={(e) => {
+              setTimeframe(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Status</option>
+            <option value="upcoming">Upcoming</option>
+            <option value="past">Past</option>
+          </select>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="">{searchTerm ? "Best match" : "Latest date first"}</option>
+            <option value="eventDate">Earliest date first</option>
+            <option value="name">Name A–Z</option>
           </select>
           <select className="px-3 py-2 border border-slate-300 rounded-lg">
             <option>All Locations</option>
@@ -202,7 +513,7 @@ export default function Events() {
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200">
-              {filteredEvents.length === 0 ? (
+              {events.length === 0 ? (
                 <tr>
                   <td
                     colSpan={6}
@@ -213,117 +524,82 @@ export default function Events() {
                   </td>
                 </tr>
               ) : (
-                filteredEvents.map((event: Event) => (
-                  <tr key={event.id} className="hover:bg-slate-50">
-                    <td className="px-6 py-4">
-                      <div className="flex items-center space-x-3">
-                        {event.imageUrl && (
-                          <img
-                            src={event.imageUrl}
-                            alt={event.name}
-                            className="w-12 h-12 rounded-lg object-cover"
-                          />
-                        )}
-                        <div>
-                          <p className="font-medium text-slate-900">
-                            {event.name}
-                          </p>
-                          <p className="text-sm text-slate-500 line-clamp-1">
-                            {event.description}
-                          </p>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <p className="text-sm text-slate-900">
-                        {(() => {
-                          // Parse the stored date as Eastern Time (no timezone conversion)
-                          const eventDateString = event.eventDate.toString();
-                          const [datePart, timePart] =
-                            eventDateString.split("T");
-                          const [year, month, day] = datePart.split("-");
-                          const localDate = new Date(
-                            parseInt(year),
-                            parseInt(month) - 1,
-                            parseInt(day)
-                          );
-                          return localDate.toLocaleDateString("en-US");
-                        })()}
-                      </p>
-                      <p className="text-sm text-slate-500">
-                        {(() => {
-                          // Parse the stored time as Eastern Time (no timezone conversion)
-                          const eventDateString = event.eventDate.toString();
-                          const [datePart, timePart] =
-                            eventDateString.split("T");
-                          if (timePart) {
-                            const [hours, minutes] = timePart.split(":");
-                            const hour24 = parseInt(hours);
-                            const hour12 =
-                              hour24 === 0
-                                ? 12
-                                : hour24 > 12
-                                ? hour24 - 12
-                                : hour24;
-                            const ampm = hour24 >= 12 ? "PM" : "AM";
-                            return `${hour12}:${minutes} ${ampm}`;
-                          }
-                          return "";
-                        })()}
-                      </p>
-                    </td>
-                    <td className="px-6 py-4">
-                      <p className="text-sm text-slate-900">{event.location}</p>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className="text-sm font-medium text-slate-900">
-                        {getRsvpCount(event.id)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4">
-                      {(() => {
-                        const status = getEventStatus(
-                          event.eventDate.toString()
-                        );
-                        return (
-                          <Badge className={getStatusColor(status)}>
-                            {status}
-                          </Badge>
-                        );
-                      })()}
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(event)}
-                          className="text-blue-600 hover:text-blue-700"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(event.id)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
+                eventGroups.map((group) =>
+                  group.occurrences.length === 1 && !group.seriesId
+                    ? renderEventRow(group.occurrences[0])
+                    : renderSeriesRows(group)
+                )
               )}
             </tbody>
           </table>
         </div>
       </Card>
 
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={setPage}
+        />
+      )}
+
       <EventModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         event={selectedEvent}
+        series={
+          selectedEvent?.seriesId
+            ? seriesById.get(selectedEvent.seriesId)
+            : null
+        }
+      />
+
+      <Dialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete recurring event</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-slate-600">
+            {deleteTarget?.name} repeats. Which dates should be moved to the
+            trash? You can restore them from the Trash page.
+          </p>
+          {!!deleteTargetImpact?.dependents.length && (
+            <p className="text-sm text-slate-600">
+              This date has {describeDependents(deleteTargetImpact.dependents)}.
+            </p>
+          )}
+          <div className="flex flex-col gap-2">
+            {Object.entries(EDIT_SCOPE_LABELS).map(([scope, label]) => (
+              <Button
+                key={scope}
+                variant={scope === "this" ? "outline" : "destructive"}
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  deleteMutation.mutate({
+                    id: deleteTarget!.id,
+                    scope: scope as EventEditScope,
+                  });
+                  setDeleteTarget(null);
+                }}
+              >
+                {label}
+              </Button>
+            ))}
+            <Button variant="ghost" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <EventAttendeesModal
+        isOpen={!!attendeesEvent}
+        onClose={() => setAttendeesEvent(null)}
+        event={attendeesEvent}
       />
     </div>
   );
@@ -1,10 +1,11 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import {
   MapPin,
   Users,
   TrendingUp,
-  Clock,
+  CalendarDays,
   Navigation,
   Activity,
   BarChart3,
@@ -19,8 +20,6 @@ import {
 import {
   Bar,
   BarChart,
-  Line,
-  LineChart,
   Area,
   AreaChart,
   Pie,
@@ -30,20 +29,32 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import { BusinessMap } from "@/components/maps/business-map";
+import { apiRequest } from "@/lib/queryClient";
+import { RangePicker } from "@/components/analytics/range-picker";
+import {
+  defaultDateRange,
+  formatHour,
+  useRangeQuery,
+  type RangeSelection,
+} from "@/lib/analytics";
+import type {
+  Business,
+  Hotspot,
+  HourlyCheckins,
+  VisitorOrigin,
+  WeekdayCheckins,
+} from "@shared/schema";
 
 const chartConfig = {
-  visitors: {
-    label: "Visitors",
+  checkins: {
+    label: "Check-ins",
     color: "hsl(var(--chart-1))",
   },
-  footTraffic: {
-    label: "Foot Traffic",
+  visitors: {
+    label: "Visitors",
     color: "hsl(var(--chart-2))",
   },
-  dwellTime: {
-    label: "Dwell Time",
-    color: "hsl(var(--chart-3))",
-  },
 } satisfies ChartConfig;
 
 const COLORS = [
@@ -54,63 +65,115 @@ const COLORS = [
   "hsl(var(--chart-5))",
 ];
 
-// Mock data for demonstration
-const hourlyTrafficData = [
-  { hour: "6 AM", visitors: 12, footTraffic: 8 },
-  { hour: "7 AM", visitors: 28, footTraffic: 22 },
-  { hour: "8 AM", visitors: 45, footTraffic: 38 },
-  { hour: "9 AM", visitors: 67, footTraffic: 58 },
-  { hour: "10 AM", visitors: 89, footTraffic: 76 },
-  { hour: "11 AM", visitors: 112, footTraffic: 98 },
-  { hour: "12 PM", visitors: 156, footTraffic: 134 },
-  { hour: "1 PM", visitors: 178, footTraffic: 152 },
-  { hour: "2 PM", visitors: 134, footTraffic: 118 },
-  { hour: "3 PM", visitors: 145, footTraffic: 128 },
-  { hour: "4 PM", visitors: 167, footTraffic: 142 },
-  { hour: "5 PM", visitors: 189, footTraffic: 165 },
-  { hour: "6 PM", visitors: 201, footTraffic: 178 },
-  { hour: "7 PM", visitors: 156, footTraffic: 138 },
-  { hour: "8 PM", visitors: 98, footTraffic: 87 },
-  { hour: "9 PM", visitors: 67, footTraffic: 58 },
-];
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-const weeklyTrendData = [
-  { day: "Mon", visitors: 1245, dwellTime: 28 },
-  { day: "Tue", visitors: 1156, dwellTime: 32 },
-  { day: "Wed", visitors: 1389, dwellTime: 35 },
-  { day: "Thu", visitors: 1567, dwellTime: 38 },
-  { day: "Fri", visitors: 2134, dwellTime: 45 },
-  { day: "Sat", visitors: 2567, dwellTime: 52 },
-  { day: "Sun", visitors: 1876, dwellTime: 41 },
-];
-
-const visitorOriginData = [
-  { name: "Local (Stuart)", value: 45, fill: COLORS[0] },
-  { name: "Martin County", value: 28, fill: COLORS[1] },
-  { name: "Palm Beach County", value: 15, fill: COLORS[2] },
-  { name: "St. Lucie County", value: 8, fill: COLORS[3] },
-  { name: "Other Florida", value: 4, fill: COLORS[4] },
-];
+// Pie slices beyond this are folded into "Other"
+const MAX_ORIGINS = 5;
 
-const hotspotData = [
-  { location: "Flagler Avenue", visitors: 2456, avgDwell: "42 min" },
-  { location: "Osceola Street", visitors: 1876, avgDwell: "38 min" },
-  { location: "Colorado Avenue", visitors: 1654, avgDwell: "35 min" },
-  { location: "Seminole Street", visitors: 1432, avgDwell: "31 min" },
-  { location: "St. Lucie Avenue", visitors: 1234, avgDwell: "28 min" },
-];
+const useGeographicQuery = <T,>(path: string, range: RangeSelection) =>
+  useRangeQuery<T>(`/api/analytics/geographic/${path}`, range);
 
 export default function GeographicAnalytics() {
+  const [range, setRange] = useState(defaultDateRange);
+
+  const { data: hourly } = useGeographicQuery<HourlyCheckins[]>(
+    "hourly",
+    range
+  );
+  const { data: weekday } = useGeographicQuery<WeekdayCheckins[]>(
+    "weekday",
+    range
+  );
+  const { data: origins } = useGeographicQuery<VisitorOrigin[]>(
+    "origins",
+    range
+  );
+  const { data: hotspots } = useGeographicQuery<Hotspot[]>("hotspots", range);
+
+  const { data: businesses } = useQuery<Business[]>({
+    queryKey: ["/api/businesses", "all"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/businesses/all");
+      return response.json();
+    },
+  });
+
+  // The API only returns buckets with activity; fill the gaps with zeros
+  const hourlyTrafficData = Array.from({ length: 24 }, (_, hour) => {
+    const row = hourly?.find((r) => r.hour === hour);
+    return {
+      hour: formatHour(hour),
+      checkins: row?.checkins || 0,
+      visitors: row?.visitors || 0,
+    };
+  });
+  const weeklyTrendData = WEEKDAY_LABELS.map((day, index) => {
+    const row = weekday?.find((r) => r.weekday === index);
+    return {
+      day,
+      checkins: row?.checkins || 0,
+      visitors: row?.visitors || 0,
+    };
+  });
+
+  // Each patron has a single ZIP, so per-ZIP visitor counts sum to the total
+  const totalVisitors = (origins || []).reduce((sum, o) => sum + o.visitors, 0);
+  const totalCheckins = (hourly || []).reduce((sum, h) => sum + h.checkins, 0);
+  const visitorOriginData = [
+    ...(origins || []).slice(0, MAX_ORIGINS),
+    ...((origins || []).length > MAX_ORIGINS
+      ? [
+          {
+            zipCode: "Other",
+            visitors: (origins || [])
+              .slice(MAX_ORIGINS)
+              .reduce((sum, o) => sum + o.visitors, 0),
+          },
+        ]
+      : []),
+  ].map((origin, index) => ({
+    name: origin.zipCode,
+    value:
+      totalVisitors > 0
+        ? Math.round((origin.visitors / totalVisitors) * 100)
+        : 0,
+    visitors: origin.visitors,
+    fill: COLORS[index % COLORS.length],
+  }));
+
+  const hotspotData = hotspots || [];
+  const topHotspot = hotspotData[0];
+  const peakHour = (hourly || []).reduce<HourlyCheckins | null>(
+    (peak, row) => (!peak || row.checkins > peak.checkins ? row : peak),
+    null
+  );
+  const busiestDay = (weekday || []).reduce<WeekdayCheckins | null>(
+    (peak, row) => (!peak || row.checkins > peak.checkins ? row : peak),
+    null
+  );
+  const quietestDay = weeklyTrendData.reduce((low, row) =>
+    row.checkins < low.checkins ? row : low
+  );
+  const knownOrigins = (origins || []).filter((o) => o.zipCode !== "Unknown");
+  const knownVisitors = knownOrigins.reduce((sum, o) => sum + o.visitors, 0);
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-slate-900">
-          Geographic Analytics
-        </h1>
-        <p className="text-slate-600">
-          Foot traffic patterns and visitor geographic data
-        </p>
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">
+            Geographic Analytics
+          </h1>
+          <p className="text-slate-600">
+            Foot traffic patterns and visitor geographic data
+          </p>
+        </div>
+        <RangePicker
+          value={range}
+          onChange={setRange}
+          showGranularity={false}
+        />
       </div>
 
       {/* Overview Stats */}
@@ -120,12 +183,13 @@ export default function GeographicAnalytics() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-slate-600">
-                  Daily Visitors
+                  Check-ins
+                </p>
+                <p className="text-2xl font-bold text-slate-900">
+                  {totalCheckins.toLocaleString()}
                 </p>
-                <p className="text-2xl font-bold text-slate-900">2,847</p>
-                <p className="text-sm text-green-600 flex items-center gap-1 mt-1">
-                  <TrendingUp className="w-3 h-3" />
-                  +12% from yesterday
+                <p className="text-sm text-slate-600 mt-1">
+                  {totalVisitors.toLocaleString()} unique visitors
                 </p>
               </div>
               <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
@@ -140,16 +204,17 @@ export default function GeographicAnalytics() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-slate-600">
-                  Avg. Dwell Time
+                  Busiest Day
+                </p>
+                <p className="text-2xl font-bold text-slate-900">
+                  {busiestDay ? WEEKDAY_LABELS[busiestDay.weekday] : "—"}
                 </p>
-                <p className="text-2xl font-bold text-slate-900">38 min</p>
-                <p className="text-sm text-green-600 flex items-center gap-1 mt-1">
-                  <TrendingUp className="w-3 h-3" />
-                  +5 min from last week
+                <p className="text-sm text-slate-600 mt-1">
+                  {busiestDay ? `${busiestDay.checkins} check-ins` : "No data"}
                 </p>
               </div>
               <div className="w-12 h-12 bg-emerald-100 rounded-xl flex items-center justify-center">
-                <Clock className="w-6 h-6 text-emerald-600" />
+                <CalendarDays className="w-6 h-6 text-emerald-600" />
               </div>
             </div>
           </CardContent>
@@ -160,8 +225,12 @@ export default function GeographicAnalytics() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-slate-600">Peak Hour</p>
-                <p className="text-2xl font-bold text-slate-900">6 PM</p>
-                <p className="text-sm text-slate-600 mt-1">201 visitors</p>
+                <p className="text-2xl font-bold text-slate-900">
+                  {peakHour ? formatHour(peakHour.hour) : "—"}
+                </p>
+                <p className="text-sm text-slate-600 mt-1">
+                  {peakHour ? `${peakHour.checkins} check-ins` : "No data"}
+                </p>
               </div>
               <div className="w-12 h-12 bg-amber-100 rounded-xl flex items-center justify-center">
                 <Activity className="w-6 h-6 text-amber-600" />
@@ -177,8 +246,14 @@ export default function GeographicAnalytics() {
                 <p className="text-sm font-medium text-slate-600">
                   Top Hotspot
                 </p>
-                <p className="text-2xl font-bold text-slate-900">Flagler Ave</p>
-                <p className="text-sm text-slate-600 mt-1">2,456 visitors</p>
+                <p className="text-2xl font-bold text-slate-900 truncate">
+                  {topHotspot?.label || "—"}
+                </p>
+                <p className="text-sm text-slate-600 mt-1">
+                  {topHotspot
+                    ? `${topHotspot.checkins.toLocaleString()} check-ins`
+                    : "No data"}
+                </p>
               </div>
               <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
                 <MapPin className="w-6 h-6 text-purple-600" />
@@ -188,6 +263,19 @@ export default function GeographicAnalytics() {
         </Card>
       </div>
 
+      {/* Map */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Map className="w-5 h-5" />
+            Business Locations
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BusinessMap businesses={businesses || []} hotspots={hotspotData} />
+        </CardContent>
+      </Card>
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Hourly Traffic Pattern */}
@@ -207,18 +295,16 @@ export default function GeographicAnalytics() {
                   <ChartTooltip content={<ChartTooltipContent />} />
                   <Area
                     type="monotone"
-                    dataKey="visitors"
-                    stackId="1"
-                    stroke="var(--color-visitors)"
-                    fill="var(--color-visitors)"
+                    dataKey="checkins"
+                    stroke="var(--color-checkins)"
+                    fill="var(--color-checkins)"
                     fillOpacity={0.6}
                   />
                   <Area
                     type="monotone"
-                    dataKey="footTraffic"
-                    stackId="1"
-                    stroke="var(--color-footTraffic)"
-                    fill="var(--color-footTraffic)"
+                    dataKey="visitors"
+                    stroke="var(--color-visitors)"
+                    fill="var(--color-visitors)"
                     fillOpacity={0.6}
                   />
                 </AreaChart>
@@ -238,25 +324,13 @@ export default function GeographicAnalytics() {
           <CardContent>
             <ChartContainer config={chartConfig} className="h-80">
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={weeklyTrendData}>
+                <BarChart data={weeklyTrendData}>
                   <XAxis dataKey="day" />
-                  <YAxis yAxisId="left" />
-                  <YAxis yAxisId="right" orientation="right" />
+                  <YAxis />
                   <ChartTooltip content={<ChartTooltipContent />} />
-                  <Bar
-                    yAxisId="left"
-                    dataKey="visitors"
-                    fill="var(--color-visitors)"
-                    opacity={0.7}
-                  />
-                  <Line
-                    yAxisId="right"
-                    type="monotone"
-                    dataKey="dwellTime"
-                    stroke="var(--color-dwellTime)"
-                    strokeWidth={3}
-                  />
-                </LineChart>
+                  <Bar dataKey="checkins" fill="var(--color-checkins)" />
+                  <Bar dataKey="visitors" fill="var(--color-visitors)" />
+                </BarChart>
               </ResponsiveContainer>
             </ChartContainer>
           </CardContent>
@@ -314,6 +388,11 @@ export default function GeographicAnalytics() {
                     <span className="text-sm font-medium">{item.value}%</span>
                   </div>
                 ))}
+                {visitorOriginData.length === 0 && (
+                  <p className="text-sm text-slate-500">
+                    No check-ins in this range
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -329,7 +408,7 @@ export default function GeographicAnalytics() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {hotspotData.map((hotspot, index) => (
+              {hotspotData.slice(0, 5).map((hotspot, index) => (
                 <div
                   key={index}
                   className="flex items-center justify-between p-4 bg-slate-50 rounded-lg"
@@ -342,21 +421,27 @@ export default function GeographicAnalytics() {
                     </div>
                     <div>
                       <p className="font-medium text-slate-900">
-                        {hotspot.location}
+                        {hotspot.label}
                       </p>
                       <p className="text-sm text-slate-500">
-                        Avg. dwell: {hotspot.avgDwell}
+                        {hotspot.businessCount}{" "}
+                        {hotspot.businessCount === 1 ? "business" : "businesses"}
                       </p>
                     </div>
                   </div>
                   <div className="text-right">
                     <p className="font-bold text-slate-900">
-                      {hotspot.visitors.toLocaleString()}
+                      {hotspot.checkins.toLocaleString()}
                     </p>
-                    <p className="text-sm text-slate-500">visitors</p>
+                    <p className="text-sm text-slate-500">check-ins</p>
                   </div>
                 </div>
               ))}
+              {hotspotData.length === 0 && (
+                <p className="text-sm text-slate-500">
+                  No businesses have coordinates yet
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -374,15 +459,19 @@ export default function GeographicAnalytics() {
                 Peak Traffic Days
               </h4>
               <p className="text-sm text-blue-700">
-                Fridays and Saturdays see 40% more foot traffic than weekdays
+                {busiestDay
+                  ? `${WEEKDAY_LABELS[busiestDay.weekday]} is the busiest day; ${quietestDay.day} is the quietest`
+                  : "No check-ins in this range"}
               </p>
             </div>
             <div className="text-center p-4 bg-emerald-50 rounded-lg">
               <h4 className="font-semibold text-emerald-900 mb-2">
-                Visitor Retention
+                Hotspot Concentration
               </h4>
               <p className="text-sm text-emerald-700">
-                68% of visitors stay longer than 30 minutes in the downtown area
+                {topHotspot && totalCheckins > 0
+                  ? `${Math.round((topHotspot.checkins / totalCheckins) * 100)}% of check-ins happen around ${topHotspot.label}`
+                  : "Not enough located check-ins yet"}
               </p>
             </div>
             <div className="text-center p-4 bg-amber-50 rounded-lg">
@@ -390,7 +479,9 @@ export default function GeographicAnalytics() {
                 Geographic Reach
               </h4>
               <p className="text-sm text-amber-700">
-                Downtown Stuart attracts visitors from a 50-mile radius
+                {knownOrigins.length > 0
+                  ? `Visitors came from ${knownOrigins.length} ZIP codes (${knownVisitors} of ${totalVisitors} patrons shared one)`
+                  : "No patrons have shared a ZIP code yet"}
               </p>
             </div>
           </div>
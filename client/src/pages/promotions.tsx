@@ -0,0 +1,419 @@
+import { useState } from "react";
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { Plus, Edit, Trash2, Tag, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { PromotionModal } from "@/components/modals/promotion-modal";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  Business,
+  PaginatedResult,
+  Promotion,
+  PromotionStatus,
+} from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+export default function Promotions() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(
+    null
+  );
+  const [businessFilter, setBusinessFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sort, setSort] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<PaginatedResult<Promotion>>({
+    queryKey: [
+      "/api/promotions",
+      businessFilter,
+      statusFilter,
+      searchTerm,
+      sort,
+      page,
+    ],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+      });
+      if (businessFilter !== "all") params.set("businessId", businessFilter);
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (searchTerm) params.set("q", searchTerm);
+      if (sort) params.set("sort", sort);
+      const response = await apiRequest("GET", `/api/promotions?${params}`);
+      return response.json();
+    },
+    // Keeps the table (and the search box) on screen while the next page loads
+    placeholderData: keepPreviousData,
+  });
+
+  const promotions = data?.items || [];
+
+  const { data: businesses } = useQuery<Business[]>({
+    queryKey: ["/api/businesses", "all"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/businesses/all");
+      return response.json();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/promotions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({
+        title: "Success",
+        description: "Promotion deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete promotion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkStatusMutation = useMutation({
+    mutationFn: async (isActive: boolean) => {
+      await apiRequest("POST", "/api/promotions/bulk-status", {
+        ids: selectedIds,
+        isActive,
+      });
+    },
+    onSuccess: (_data, isActive) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({
+        title: "Success",
+        description: `${selectedIds.length} promotion(s) ${
+          isActive ? "activated" : "deactivated"
+        }`,
+      });
+      setSelectedIds([]);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update promotions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (promotion: Promotion) => {
+    setSelectedPromotion(promotion);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (confirm("Are you sure you want to delete this promotion?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleCreate = () => {
+    setSelectedPromotion(null);
+    setIsModalOpen(true);
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+    );
+  };
+
+  // Selection covers the page on screen; changing page or filters clears it
+  const changePage = (next: number) => {
+    setPage(next);
+    setSelectedIds([]);
+  };
+
+  const toggleAll = () => {
+    const allIds = promotions.map((p) => p.id);
+    setSelectedIds(selectedIds.length === allIds.length ? [] : allIds);
+  };
+
+  const getBusinessName = (businessId: number) =>
+    businesses?.find((b) => b.id === businessId)?.name || "Unknown Business";
+
+  const getPromotionStatus = (promotion: Promotion): PromotionStatus => {
+    if (promotion.expiresAt && new Date(promotion.expiresAt) <= new Date()) {
+      return "expired";
+    }
+    return promotion.isActive ? "active" : "inactive";
+  };
+
+  const getStatusColor = (status: PromotionStatus) => {
+    switch (status) {
+      case "active":
+        return "bg-green-100 text-green-800";
+      case "expired":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  if (isLoading) {
+    return <div>Loading promotions...</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-slate-900">
+          Promotions Management
+        </h2>
+        <Button
+          onClick={handleCreate}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Create Promotion
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="p-4 mb-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <Input
+              type="text"
+              placeholder="Search promotions..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                changePage(1);
+              }}
+              className="pl-10"
+            />
+          </div>
+          <select
+            value={businessFilter}
+            onChange={(e) => {
+              setBusinessFilter(e.target.value);
+              changePage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Businesses</option>
+            {businesses?.map((business) => (
+              <option key={business.id} value={business.id}>
+                {business.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              changePage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Status</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+            <option value="expired">Expired</option>
+          </select>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              changePage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="">{searchTerm ? "Best match" : "Newest first"}</option>
+            <option value="title">Title A–Z</option>
+            <option value="expiresAt">Expiring soonest</option>
+          </select>
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-2 ml-auto">
+              <span className="text-sm text-slate-600">
+                {selectedIds.length} selected
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={bulkStatusMutation.isPending}
+                onClick={() => bulkStatusMutation.mutate(true)}
+              >
+                Activate
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={bulkStatusMutation.isPending}
+                onClick={() => bulkStatusMutation.mutate(false)}
+              >
+                Deactivate
+              </Button>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Promotions Table */}
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={
+                      !!promotions.length &&
+                      selectedIds.length === promotions.length
+                    }
+                    onChange={toggleAll}
+                  />
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Promotion
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Business
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Code / Discount
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Expires
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {promotions.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="px-6 py-8 text-center text-slate-500"
+                  >
+                    <Tag className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+                    {searchTerm || businessFilter !== "all" || statusFilter !== "all"
+                      ? "No promotions match these filters."
+                      : "No promotions found."}
+                  </td>
+                </tr>
+              ) : (
+                promotions.map((promotion) => {
+                  const status = getPromotionStatus(promotion);
+                  return (
+                    <tr key={promotion.id} className="hover:bg-slate-50">
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={selectedIds.includes(promotion.id)}
+                          onChange={() => toggleSelected(promotion.id)}
+                        />
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="font-medium text-slate-900">
+                          {promotion.title}
+                        </p>
+                        <p className="text-sm text-slate-500 line-clamp-1">
+                          {promotion.description}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm text-slate-900">
+                          {getBusinessName(promotion.businessId)}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm font-mono text-slate-900">
+                          {promotion.code || "—"}
+                        </p>
+                        <p className="text-sm text-slate-500">
+                          {promotion.discount}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm text-slate-900">
+                          {promotion.expiresAt
+                            ? new Date(promotion.expiresAt).toLocaleString(
+                                "en-US"
+                              )
+                            : "Never"}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4">
+                        <Badge className={getStatusColor(status)}>
+                          {status.charAt(0).toUpperCase() + status.slice(1)}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(promotion)}
+                            className="text-blue-600 hover:text-blue-700"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(promotion.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={changePage}
+        />
+      )}
+
+      <PromotionModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        promotion={selectedPromotion}
+      />
+    </div>
+  );
+}
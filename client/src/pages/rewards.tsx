@@ -1,5 +1,10 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import {
   Plus,
   Edit,
@@ -7,38 +12,79 @@ import {
   Coffee,
   Gift as GiftIcon,
   Utensils,
+  Search,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ExportButton } from "@/components/layout/export-button";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { Input } from "@/components/ui/input";
+import { useCan } from "@/components/auth/auth-provider";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { RewardModal } from "@/components/modals/reward-modal";
+import { RewardRedemptionsModal } from "@/components/modals/reward-redemptions-modal";
 import { apiRequest } from "@/lib/queryClient";
-import type { RewardItem } from "@shared/schema";
+import { confirmMoveToTrash } from "@/lib/trash";
+import type {
+  PaginatedResult,
+  RewardItem,
+  RewardItemStock,
+} from "@shared/schema";
+
+const PAGE_SIZE = 24;
 
 export default function Rewards() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedReward, setSelectedReward] = useState<RewardItem | null>(null);
+  const [redemptionsReward, setRedemptionsReward] =
+    useState<RewardItem | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sort, setSort] = useState("");
+  const [page, setPage] = useState(1);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const can = useCan();
+
+  const { data, isLoading } = useQuery<PaginatedResult<RewardItem>>({
+    queryKey: ["/api/reward-items", searchTerm, sort, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+      });
+      if (searchTerm) params.set("q", searchTerm);
+      if (sort) params.set("sort", sort);
+      const response = await apiRequest("GET", `/api/reward-items?${params}`);
+      return response.json();
+    },
+    // Keeps the grid (and the search box) on screen while the next page loads
+    placeholderData: keepPreviousData,
+  });
 
-  const { data: rewards, isLoading } = useQuery({
-    queryKey: ["/api/reward-items"],
+  const rewards = data?.items || [];
+
+  const { data: stock } = useQuery<RewardItemStock[]>({
+    queryKey: ["/api/reward-items/stock"],
     queryFn: async () => {
-      const response = await apiRequest("GET", "/api/reward-items");
+      const response = await apiRequest("GET", "/api/reward-items/stock");
       return response.json();
     },
   });
 
+  const getStock = (rewardItemId: number) =>
+    stock?.find((item) => item.rewardItemId === rewardItemId);
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/reward-items/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/reward-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Reward item deleted successfully",
+        description: "Reward moved to the trash",
       });
     },
     onError: () => {
@@ -56,7 +102,7 @@ export default function Rewards() {
   };
 
   const handleDelete = async (id: number) => {
-    if (confirm("Are you sure you want to delete this reward?")) {
+    if (await confirmMoveToTrash(`/api/reward-items/${id}`, "reward")) {
       deleteMutation.mutate(id);
     }
   };
@@ -84,27 +130,76 @@ export default function Rewards() {
         <h2 className="text-2xl font-bold text-slate-900">
           Rewards Management
         </h2>
-        <Button
-          onClick={handleCreate}
-          className="bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Create Reward
-        </Button>
+        <div className="flex items-center space-x-3">
+          {can("exports:download") && (
+            <ExportButton
+              options={[
+                {
+                  label: "Rewards",
+                  resource: "rewards",
+                  params: { q: searchTerm, sort },
+                },
+                { label: "Redemptions", resource: "redemptions" },
+              ]}
+            />
+          )}
+          <Button
+            onClick={handleCreate}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Create Reward
+          </Button>
+        </div>
       </div>
 
+      {/* Filters */}
+      <Card className="p-4 mb-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <Input
+              type="text"
+              placeholder="Search rewards..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
+              className="pl-10"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="">{searchTerm ? "Best match" : "Newest first"}</option>
+            <option value="name">Name A–Z</option>
+            <option value="pointThreshold">Fewest points first</option>
+            <option value="-pointThreshold">Most points first</option>
+          </select>
+        </div>
+      </Card>
+
       {/* Rewards Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {rewards?.length === 0 ? (
+        {rewards.length === 0 ? (
           <div className="col-span-full text-center py-12">
             <GiftIcon className="w-12 h-12 text-slate-400 mx-auto mb-4" />
             <p className="text-slate-500">
-              No rewards found. Create your first reward to get started.
+              {searchTerm
+                ? "No rewards match this search."
+                : "No rewards found. Create your first reward to get started."}
             </p>
           </div>
         ) : (
-          rewards?.map((reward: RewardItem) => {
+          rewards.map((reward) => {
             const IconComponent = getRewardIcon(reward.name);
+            const itemStock = getStock(reward.id);
             return (
               <Card key={reward.id} className="overflow-hidden">
                 <CardContent className="p-6">
@@ -147,9 +242,31 @@ export default function Rewards() {
                       </span>
                     </div>
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-slate-600">Max Redemptions:</span>
+                      <span className="text-slate-600">Redeemed:</span>
                       <span className="font-medium text-slate-900">
-                        {reward.maxRedemptions || "Unlimited"}
+                        {itemStock?.redemptionCount ?? 0}
+                        {itemStock?.pendingCount ? (
+                          <span className="text-amber-700 font-normal">
+                            {" "}
+                            ({itemStock.pendingCount} pending)
+                          </span>
+                        ) : null}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-600">Remaining:</span>
+                      <span
+                        className={`font-medium ${
+                          itemStock?.remaining === 0
+                            ? "text-red-600"
+                            : "text-slate-900"
+                        }`}
+                      >
+                        {reward.maxRedemptions === null
+                          ? "Unlimited"
+                          : `${itemStock?.remaining ?? reward.maxRedemptions} of ${
+                              reward.maxRedemptions
+                            }`}
                       </span>
                     </div>
                     {reward.expirationDate && (
@@ -175,9 +292,10 @@ export default function Rewards() {
                     <Button
                       variant="ghost"
                       size="sm"
+                      onClick={() => setRedemptionsReward(reward)}
                       className="text-blue-600 hover:text-blue-700"
                     >
-                      View Analytics
+                      View Redemptions
                     </Button>
                   </div>
                 </CardContent>
@@ -187,11 +305,26 @@ export default function Rewards() {
         )}
       </div>
 
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={setPage}
+        />
+      )}
+
       <RewardModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         reward={selectedReward}
       />
+
+      <RewardRedemptionsModal
+        isOpen={!!redemptionsReward}
+        onClose={() => setRedemptionsReward(null)}
+        reward={redemptionsReward}
+      />
     </div>
   );
 }
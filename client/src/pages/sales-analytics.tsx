@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -30,6 +31,22 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import { RangePicker } from "@/components/analytics/range-picker";
+import {
+  defaultDateRange,
+  formatHour,
+  useRangeQuery,
+  type RangeSelection,
+} from "@/lib/analytics";
+import type {
+  BusinessRevenue,
+  CategoryRevenue,
+  DailyRevenue,
+  HourlySpending,
+  PaymentMethod,
+  PaymentMethodRevenue,
+  SalesSummary,
+} from "@shared/schema";
 
 const chartConfig = {
   revenue: {
@@ -54,84 +71,86 @@ const COLORS = [
   "hsl(var(--chart-5))",
 ];
 
-// Mock data for demonstration
-const dailyRevenueData = [
-  { date: "Jan 1", revenue: 12450, transactions: 89, avgSpend: 139.89 },
-  { date: "Jan 2", revenue: 15670, transactions: 112, avgSpend: 139.91 },
-  { date: "Jan 3", revenue: 18920, transactions: 134, avgSpend: 141.19 },
-  { date: "Jan 4", revenue: 16780, transactions: 118, avgSpend: 142.2 },
-  { date: "Jan 5", revenue: 21340, transactions: 156, avgSpend: 136.79 },
-  { date: "Jan 6", revenue: 28560, transactions: 198, avgSpend: 144.24 },
-  { date: "Jan 7", revenue: 25890, transactions: 178, avgSpend: 145.45 },
-];
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  credit_card: "Credit Card",
+  debit_card: "Debit Card",
+  cash: "Cash",
+  mobile_pay: "Mobile Pay",
+  other: "Other",
+};
 
-const categoryRevenueData = [
-  { name: "Dining & Restaurants", value: 45, revenue: 156780, fill: COLORS[0] },
-  { name: "Retail & Shopping", value: 28, revenue: 97650, fill: COLORS[1] },
-  { name: "Entertainment", value: 15, revenue: 52340, fill: COLORS[2] },
-  { name: "Services", value: 8, revenue: 27890, fill: COLORS[3] },
-  { name: "Other", value: 4, revenue: 13940, fill: COLORS[4] },
-];
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
 
-const topBusinessesData = [
-  {
-    name: "Flagler Grill",
-    revenue: 28450,
-    transactions: 234,
-    category: "Dining",
-  },
-  {
-    name: "Stuart Hardware",
-    revenue: 24670,
-    transactions: 189,
-    category: "Retail",
-  },
-  {
-    name: "Coffee Culture",
-    revenue: 18920,
-    transactions: 456,
-    category: "Dining",
-  },
-  { name: "Boutique 27", revenue: 16780, transactions: 98, category: "Retail" },
-  {
-    name: "Stuart Theater",
-    revenue: 15340,
-    transactions: 167,
-    category: "Entertainment",
-  },
-];
+const useSalesQuery = <T,>(path: string, range: RangeSelection) =>
+  useRangeQuery<T>(`/api/analytics/sales/${path}`, range);
 
-const paymentMethodData = [
-  { method: "Credit Card", percentage: 52, amount: 182340 },
-  { method: "Debit Card", percentage: 28, amount: 98120 },
-  { method: "Cash", percentage: 15, amount: 52560 },
-  { method: "Mobile Pay", percentage: 5, amount: 17540 },
-];
+export default function SalesAnalytics() {
+  const [range, setRange] = useState(defaultDateRange);
 
-const hourlySpendingData = [
-  { hour: "9 AM", avgSpend: 45.2, transactions: 12 },
-  { hour: "10 AM", avgSpend: 67.8, transactions: 28 },
-  { hour: "11 AM", avgSpend: 89.4, transactions: 45 },
-  { hour: "12 PM", avgSpend: 124.6, transactions: 89 },
-  { hour: "1 PM", avgSpend: 156.8, transactions: 112 },
-  { hour: "2 PM", avgSpend: 98.2, transactions: 67 },
-  { hour: "3 PM", avgSpend: 112.4, transactions: 78 },
-  { hour: "4 PM", avgSpend: 134.6, transactions: 94 },
-  { hour: "5 PM", avgSpend: 167.8, transactions: 123 },
-  { hour: "6 PM", avgSpend: 189.2, transactions: 145 },
-  { hour: "7 PM", avgSpend: 145.6, transactions: 98 },
-  { hour: "8 PM", avgSpend: 98.4, transactions: 56 },
-];
+  const { data: summary } = useSalesQuery<SalesSummary>("summary", range);
+  const { data: dailyRevenue } = useSalesQuery<DailyRevenue[]>("daily", range);
+  const { data: categoryRevenue } = useSalesQuery<CategoryRevenue[]>(
+    "categories",
+    range
+  );
+  const { data: topBusinesses } = useSalesQuery<BusinessRevenue[]>(
+    "businesses",
+    range
+  );
+  const { data: paymentMethods } = useSalesQuery<PaymentMethodRevenue[]>(
+    "payment-methods",
+    range
+  );
+  const { data: hourlySpending } = useSalesQuery<HourlySpending[]>(
+    "hourly",
+    range
+  );
+
+  const totalRevenue = summary?.totalRevenue || 0;
+  const percentOf = (amount: number) =>
+    totalRevenue > 0 ? Math.round((amount / totalRevenue) * 100) : 0;
+
+  const dailyRevenueData = dailyRevenue || [];
+  const hourlySpendingData = (hourlySpending || []).map((row) => ({
+    ...row,
+    hour: formatHour(row.hour),
+  }));
+  const categoryRevenueData = (categoryRevenue || []).map((row, index) => ({
+    name: row.category,
+    value: percentOf(row.revenue),
+    revenue: row.revenue,
+    fill: COLORS[index % COLORS.length],
+  }));
+  const topBusinessesData = topBusinesses || [];
+  const paymentMethodData = (paymentMethods || []).map((row) => ({
+    method: PAYMENT_METHOD_LABELS[row.method] || row.method,
+    percentage: percentOf(row.amount),
+    amount: row.amount,
+  }));
+
+  const peakHour = (hourlySpending || []).reduce<HourlySpending | null>(
+    (peak, row) => (!peak || row.avgSpend > peak.avgSpend ? row : peak),
+    null
+  );
+  const topCategory = categoryRevenueData[0];
+  const topPaymentMethod = paymentMethodData[0];
 
-export default function SalesAnalytics() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-slate-900">Sales Analytics</h1>
-        <p className="text-slate-600">
-          Revenue, spending patterns, and business performance data
-        </p>
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Sales Analytics</h1>
+          <p className="text-slate-600">
+            Revenue, spending patterns, and business performance data
+          </p>
+        </div>
+        <RangePicker
+          value={range}
+          onChange={setRange}
+          showGranularity
+        />
       </div>
 
       {/* Overview Stats */}
@@ -143,10 +162,11 @@ export default function SalesAnalytics() {
                 <p className="text-sm font-medium text-slate-600">
                   Total Revenue
                 </p>
-                <p className="text-2xl font-bold text-slate-900">$348,600</p>
-                <p className="text-sm text-green-600 flex items-center gap-1 mt-1">
-                  <TrendingUp className="w-3 h-3" />
-                  +18% from last month
+                <p className="text-2xl font-bold text-slate-900">
+                  {formatCurrency(totalRevenue)}
+                </p>
+                <p className="text-sm text-slate-600 mt-1">
+                  In selected range
                 </p>
               </div>
               <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center">
@@ -163,10 +183,11 @@ export default function SalesAnalytics() {
                 <p className="text-sm font-medium text-slate-600">
                   Transactions
                 </p>
-                <p className="text-2xl font-bold text-slate-900">2,847</p>
-                <p className="text-sm text-green-600 flex items-center gap-1 mt-1">
-                  <TrendingUp className="w-3 h-3" />
-                  +12% from last month
+                <p className="text-2xl font-bold text-slate-900">
+                  {(summary?.transactions || 0).toLocaleString()}
+                </p>
+                <p className="text-sm text-slate-600 mt-1">
+                  Receipts submitted
                 </p>
               </div>
               <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
@@ -183,11 +204,10 @@ export default function SalesAnalytics() {
                 <p className="text-sm font-medium text-slate-600">
                   Avg. Transaction
                 </p>
-                <p className="text-2xl font-bold text-slate-900">$122.45</p>
-                <p className="text-sm text-green-600 flex items-center gap-1 mt-1">
-                  <TrendingUp className="w-3 h-3" />
-                  +5% from last month
+                <p className="text-2xl font-bold text-slate-900">
+                  {formatCurrency(summary?.avgTransaction || 0)}
                 </p>
+                <p className="text-sm text-slate-600 mt-1">Per receipt</p>
               </div>
               <div className="w-12 h-12 bg-emerald-100 rounded-xl flex items-center justify-center">
                 <ShoppingBag className="w-6 h-6 text-emerald-600" />
@@ -203,7 +223,9 @@ export default function SalesAnalytics() {
                 <p className="text-sm font-medium text-slate-600">
                   Active Businesses
                 </p>
-                <p className="text-2xl font-bold text-slate-900">47</p>
+                <p className="text-2xl font-bold text-slate-900">
+                  {summary?.activeBusinesses || 0}
+                </p>
                 <p className="text-sm text-slate-600 mt-1">Processing sales</p>
               </div>
               <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
@@ -216,12 +238,12 @@ export default function SalesAnalytics() {
 
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Daily Revenue Trend */}
+        {/* Revenue Trend */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <BarChart3 className="w-5 h-5" />
-              Daily Revenue Trend
+              Revenue Trend
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -330,7 +352,7 @@ export default function SalesAnalytics() {
                     </div>
                     <div className="text-right">
                       <div className="text-sm font-medium">
-                        ${item.revenue.toLocaleString()}
+                        {formatCurrency(item.revenue)}
                       </div>
                       <div className="text-xs text-slate-500">
                         {item.value}%
@@ -353,9 +375,14 @@ export default function SalesAnalytics() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {topBusinessesData.length === 0 && (
+                <p className="text-sm text-slate-500">
+                  No sales recorded in this range
+                </p>
+              )}
               {topBusinessesData.map((business, index) => (
                 <div
-                  key={index}
+                  key={business.businessId}
                   className="flex items-center justify-between p-4 bg-slate-50 rounded-lg"
                 >
                   <div className="flex items-center gap-3">
@@ -380,7 +407,7 @@ export default function SalesAnalytics() {
                   </div>
                   <div className="text-right">
                     <p className="font-bold text-slate-900">
-                      ${business.revenue.toLocaleString()}
+                      {formatCurrency(business.revenue)}
                     </p>
                     <p className="text-sm text-slate-500">revenue</p>
                   </div>
@@ -421,8 +448,8 @@ export default function SalesAnalytics() {
                     <span className="text-sm font-medium text-slate-900 w-12 text-right">
                       {method.percentage}%
                     </span>
-                    <span className="text-sm text-slate-500 w-20 text-right">
-                      ${method.amount.toLocaleString()}
+                    <span className="text-sm text-slate-500 w-24 text-right">
+                      {formatCurrency(method.amount)}
                     </span>
                   </div>
                 </div>
@@ -443,8 +470,9 @@ export default function SalesAnalytics() {
                   Peak Sales Hours
                 </h4>
                 <p className="text-sm text-green-700">
-                  6-7 PM generates the highest average transaction value at
-                  $189.20
+                  {peakHour
+                    ? `${formatHour(peakHour.hour)} generates the highest average transaction value at ${formatCurrency(peakHour.avgSpend)}`
+                    : "No sales recorded in this range"}
                 </p>
               </div>
               <div className="p-4 bg-blue-50 rounded-lg">
@@ -452,7 +480,9 @@ export default function SalesAnalytics() {
                   Category Performance
                 </h4>
                 <p className="text-sm text-blue-700">
-                  Dining & Restaurants account for 45% of total downtown revenue
+                  {topCategory
+                    ? `${topCategory.name} accounts for ${topCategory.value}% of total downtown revenue`
+                    : "No sales recorded in this range"}
                 </p>
               </div>
               <div className="p-4 bg-purple-50 rounded-lg">
@@ -460,7 +490,9 @@ export default function SalesAnalytics() {
                   Payment Trends
                 </h4>
                 <p className="text-sm text-purple-700">
-                  Credit card usage increased 15% this month, cash decreased 8%
+                  {topPaymentMethod
+                    ? `${topPaymentMethod.method} is the most used payment method at ${topPaymentMethod.percentage}% of revenue`
+                    : "No sales recorded in this range"}
                 </p>
               </div>
             </div>
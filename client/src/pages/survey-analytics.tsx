@@ -12,9 +12,11 @@ import {
   Download,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ExportButton } from "@/components/layout/export-button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { getAuthToken } from "@/lib/supabase";
+import { SurveyStatusBadge } from "@/components/surveys/survey-status-badge";
+import { authorizedFetch } from "@/lib/queryClient";
 import {
   ChartContainer,
   ChartConfig,
@@ -31,6 +33,7 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
+import { surveyStatus } from "@shared/surveys";
 
 const chartConfig = {
   responses: {
@@ -50,7 +53,6 @@ const COLORS = [
 export default function SurveyAnalytics() {
   const { id } = useParams();
   const [, setLocation] = useLocation();
-  const token = getAuthToken();
 
   const navigate = (path: string) => setLocation(path);
 
@@ -61,9 +63,7 @@ export default function SurveyAnalytics() {
   } = useQuery({
     queryKey: [`/api/surveys/${id}/analytics`],
     queryFn: async () => {
-      const response = await fetch(`/api/surveys/${id}/analytics`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authorizedFetch(`/api/surveys/${id}/analytics`);
       if (!response.ok) throw new Error("Failed to fetch survey analytics");
       return response.json();
     },
@@ -267,12 +267,15 @@ export default function SurveyAnalytics() {
     csvContent += `Total Responses: ${analytics.totalResponses}\n`;
     csvContent += `Questions: ${analytics.questionAnalytics.length}\n`;
     csvContent += `Points Reward: ${analytics.survey.rewardPoints}\n`;
-    csvContent += `Status: ${
-      analytics.survey.isActive ? "Active" : "Inactive"
-    }\n\n`;
+    csvContent += `Status: ${surveyStatus(
+      analytics.survey,
+      analytics.totalResponses
+    )}\n\n`;
 
     analytics.questionAnalytics.forEach((question: any, index: number) => {
-      csvContent += `\nQuestion ${question.questionId}: ${question.questionText}\n`;
+      csvContent += `\nQuestion ${index + 1}: ${question.questionText}${
+        question.retired ? " (removed)" : ""
+      }\n`;
       csvContent += `Type: ${getQuestionTypeLabel(question.questionType)}\n`;
 
       if (
@@ -368,6 +371,15 @@ export default function SurveyAnalytics() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <ExportButton
+            options={[
+              {
+                label: "Responses",
+                resource: "survey-responses",
+                params: { surveyId: id },
+              },
+            ]}
+          />
           <Button
             onClick={downloadAnalytics}
             variant="outline"
@@ -377,15 +389,9 @@ export default function SurveyAnalytics() {
             <Download className="w-4 h-4 mr-2" />
             Download Report
           </Button>
-          <Badge
-            className={
-              analytics.survey.isActive
-                ? "bg-green-100 text-green-800"
-                : "bg-gray-100 text-gray-800"
-            }
-          >
-            {analytics.survey.isActive ? "Active" : "Inactive"}
-          </Badge>
+          <SurveyStatusBadge
+            status={surveyStatus(analytics.survey, analytics.totalResponses)}
+          />
         </div>
       </div>
 
@@ -435,7 +441,7 @@ export default function SurveyAnalytics() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-lg">
                 {getQuestionIcon(question.questionType)}
-                <span className="text-slate-600">Q{question.questionId}.</span>
+                <span className="text-slate-600">Q{index + 1}.</span>
                 {question.questionText}
               </CardTitle>
               <div className="flex items-center gap-2">
@@ -447,6 +453,11 @@ export default function SurveyAnalytics() {
                     {question.options.length} options
                   </Badge>
                 )}
+                {question.retired && (
+                  <Badge className="bg-gray-100 text-gray-800">
+                    Removed in a later version
+                  </Badge>
+                )}
               </div>
             </CardHeader>
             <CardContent>{renderQuestionAnalytics(question)}</CardContent>
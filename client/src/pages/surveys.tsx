@@ -1,56 +1,106 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
 import {
   Plus,
   Edit,
   Trash2,
   BarChart3,
-  Building,
+  Users,
   List,
   PieChart,
   Eye,
+  Clock,
+  Search,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ExportButton } from "@/components/layout/export-button";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { SurveyStatusBadge } from "@/components/surveys/survey-status-badge";
 import { useToast } from "@/hooks/use-toast";
 import { SurveyModal } from "@/components/modals/survey-modal";
 import { SurveyPreviewModal } from "@/components/modals/survey-preview-modal";
-import { getAuthToken } from "@/lib/supabase";
 import { apiRequest } from "@/lib/queryClient";
-import type { Survey } from "@shared/schema";
+import { confirmMoveToTrash } from "@/lib/trash";
+import { surveyStatus } from "@shared/surveys";
+import {
+  SURVEY_AUDIENCES,
+  type PaginatedResult,
+  type Survey,
+  type SurveyAudience,
+  type SurveyListItem,
+  type SurveyStatus,
+} from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+const AUDIENCE_LABELS: Record<SurveyAudience, string> = {
+  all: "All patrons",
+  event_attendees: "Event attendees",
+  business_customers: "Business customers",
+};
+
+// "Opens in 3 days", "Closes in about 5 hours"
+function timeRemaining(survey: Survey, status: SurveyStatus) {
+  if (status === "scheduled" && survey.opensAt) {
+    return `Opens in ${formatDistanceToNow(new Date(survey.opensAt))}`;
+  }
+  if (status === "active" && survey.closesAt) {
+    return `Closes in ${formatDistanceToNow(new Date(survey.closesAt))}`;
+  }
+  return null;
+}
 
 export default function Surveys() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [selectedSurvey, setSelectedSurvey] = useState<Survey | null>(null);
   const [previewSurvey, setPreviewSurvey] = useState<Survey | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [audienceFilter, setAudienceFilter] = useState("all");
+  const [sort, setSort] = useState("");
+  const [page, setPage] = useState(1);
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const token = getAuthToken();
   const [, setLocation] = useLocation();
 
-  const { data: surveys, isLoading } = useQuery({
-    queryKey: ["/api/surveys"],
+  const { data, isLoading } = useQuery<PaginatedResult<SurveyListItem>>({
+    queryKey: ["/api/surveys", searchTerm, audienceFilter, sort, page],
     queryFn: async () => {
-      const response = await fetch("/api/surveys", {
-        headers: { Authorization: `Bearer ${token}` },
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
       });
-      if (!response.ok) throw new Error("Failed to fetch surveys");
+      if (searchTerm) params.set("q", searchTerm);
+      if (audienceFilter !== "all") params.set("audience", audienceFilter);
+      if (sort) params.set("sort", sort);
+      const response = await apiRequest("GET", `/api/surveys?${params}`);
       return response.json();
     },
+    // Keeps the list (and the search box) on screen while the next page loads
+    placeholderData: keepPreviousData,
   });
 
+  const surveys = data?.items || [];
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/surveys/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Survey deleted successfully",
+        description: "Survey moved to the trash",
       });
     },
     onError: () => {
@@ -68,7 +118,7 @@ export default function Surveys() {
   };
 
   const handleDelete = async (id: number) => {
-    if (confirm("Are you sure you want to delete this survey?")) {
+    if (await confirmMoveToTrash(`/api/surveys/${id}`, "survey")) {
       deleteMutation.mutate(id);
     }
   };
@@ -97,175 +147,256 @@ export default function Surveys() {
         <h2 className="text-2xl font-bold text-slate-900">
           Surveys Management
         </h2>
-        <Button
-          onClick={handleCreate}
-          className="bg-blue-600 hover:bg-blue-700"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Create Survey
-        </Button>
+        <div className="flex items-center space-x-3">
+          <ExportButton
+            options={[
+              {
+                label: "Surveys",
+                resource: "surveys",
+                params: {
+                  q: searchTerm,
+                  audience: audienceFilter === "all" ? undefined : audienceFilter,
+                  sort,
+                },
+              },
+              { label: "All Responses", resource: "survey-responses" },
+            ]}
+          />
+          <Button
+            onClick={handleCreate}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Create Survey
+          </Button>
+        </div>
       </div>
 
+      {/* Filters */}
+      <Card className="p-4 mb-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <Input
+              type="text"
+              placeholder="Search surveys..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
+              className="pl-10"
+            />
+          </div>
+          <select
+            value={audienceFilter}
+            onChange={(e) => {
+              setAudienceFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Audiences</option>
+            {SURVEY_AUDIENCES.map((audience) => (
+              <option key={audience} value={audience}>
+                {AUDIENCE_LABELS[audience]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="">{searchTerm ? "Best match" : "Newest first"}</option>
+            <option value="title">Title A–Z</option>
+            <option value="createdAt">Oldest first</option>
+          </select>
+        </div>
+      </Card>
+
       {/* Surveys List */}
       <div className="space-y-6">
-        {surveys?.length === 0 ? (
+        {surveys.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
               <BarChart3 className="w-12 h-12 text-slate-400 mx-auto mb-4" />
               <p className="text-slate-500">
-                No surveys found. Create your first survey to get started.
+                {searchTerm || audienceFilter !== "all"
+                  ? "No surveys match these filters."
+                  : "No surveys found. Create your first survey to get started."}
               </p>
             </CardContent>
           </Card>
         ) : (
-          surveys?.map((survey: Survey) => (
-            <Card key={survey.id}>
-              <CardContent className="p-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div>
-                    <h3 className="text-lg font-semibold text-slate-900 mb-2">
-                      {survey.title}
-                    </h3>
-                    <p className="text-sm text-slate-600">
-                      {survey.description}
-                    </p>
-                    <div className="flex items-center space-x-4 mt-3">
-                      <span className="text-sm text-slate-500 flex items-center">
-                        <Building className="w-4 h-4 mr-1" />
-                        Business: All Businesses
-                      </span>
-                      <span className="text-sm text-slate-500 flex items-center">
-                        <List className="w-4 h-4 mr-1" />
-                        {(() => {
-                          try {
-                            const questions =
-                              typeof survey.questions === "string"
-                                ? JSON.parse(survey.questions)
-                                : Array.isArray(survey.questions)
-                                ? survey.questions
-                                : [];
-                            return questions.length;
-                          } catch (e) {
-                            return 0;
-                          }
-                        })()}{" "}
-                        questions
-                      </span>
-                      <span className="text-sm text-slate-500 flex items-center">
-                        <PieChart className="w-4 h-4 mr-1" />0 responses
-                      </span>
+          surveys.map((survey) => {
+            const status = surveyStatus(survey, survey.responseCount);
+            const remaining = timeRemaining(survey, status);
+            return (
+              <Card key={survey.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-slate-900 mb-2">
+                        {survey.title}
+                      </h3>
+                      <p className="text-sm text-slate-600">
+                        {survey.description}
+                      </p>
+                      <div className="flex items-center space-x-4 mt-3">
+                        <span className="text-sm text-slate-500 flex items-center">
+                          <Users className="w-4 h-4 mr-1" />
+                          Audience:{" "}
+                          {AUDIENCE_LABELS[survey.audience as SurveyAudience] ??
+                            survey.audience}
+                        </span>
+                        <span className="text-sm text-slate-500 flex items-center">
+                          <List className="w-4 h-4 mr-1" />
+                          {(() => {
+                            try {
+                              const questions =
+                                typeof survey.questions === "string"
+                                  ? JSON.parse(survey.questions)
+                                  : Array.isArray(survey.questions)
+                                  ? survey.questions
+                                  : [];
+                              return questions.length;
+                            } catch (e) {
+                              return 0;
+                            }
+                          })()}{" "}
+                          questions
+                        </span>
+                        <span className="text-sm text-slate-500 flex items-center">
+                          <PieChart className="w-4 h-4 mr-1" />
+                          {survey.responseCount}
+                          {survey.maxResponses !== null &&
+                            ` / ${survey.maxResponses}`}{" "}
+                          responses
+                        </span>
+                        {remaining && (
+                          <span className="text-sm text-slate-500 flex items-center">
+                            <Clock className="w-4 h-4 mr-1" />
+                            {remaining}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <SurveyStatusBadge status={status} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleAnalytics(survey)}
+                        className="text-blue-600 hover:text-blue-700"
+                        title="View Analytics"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(survey)}
+                        className="text-slate-600 hover:text-slate-700"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(survey.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Badge
-                      className={
-                        survey.isActive
-                          ? "bg-green-100 text-green-800"
-                          : "bg-gray-100 text-gray-800"
-                      }
-                    >
-                      {survey.isActive ? "Active" : "Inactive"}
-                    </Badge>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleAnalytics(survey)}
-                      className="text-blue-600 hover:text-blue-700"
-                      title="View Analytics"
-                    >
-                      <BarChart3 className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEdit(survey)}
-                      className="text-slate-600 hover:text-slate-700"
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(survey.id)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
 
-                {/* Survey Questions Preview */}
-                <div className="border-t border-slate-200 pt-4">
-                  <h4 className="text-sm font-medium text-slate-900 mb-3">
-                    Questions Preview:
-                  </h4>
-                  <div className="space-y-2">
-                    {(() => {
-                      let questions = [];
-                      try {
-                        questions =
-                          typeof survey.questions === "string"
-                            ? JSON.parse(survey.questions)
-                            : Array.isArray(survey.questions)
-                            ? survey.questions
-                            : [];
-                      } catch (e) {
-                        questions = [];
-                      }
+                  {/* Survey Questions Preview */}
+                  <div className="border-t border-slate-200 pt-4">
+                    <h4 className="text-sm font-medium text-slate-900 mb-3">
+                      Questions Preview:
+                    </h4>
+                    <div className="space-y-2">
+                      {(() => {
+                        let questions = [];
+                        try {
+                          questions =
+                            typeof survey.questions === "string"
+                              ? JSON.parse(survey.questions)
+                              : Array.isArray(survey.questions)
+                              ? survey.questions
+                              : [];
+                        } catch (e) {
+                          questions = [];
+                        }
 
-                      return questions.length > 0 ? (
-                        <>
-                          {questions
-                            .slice(0, 3)
-                            .map((question: any, index: number) => (
-                              <div key={index} className="text-sm">
-                                <span className="text-slate-600">
-                                  {index + 1}.
-                                </span>
-                                <span className="text-slate-900 ml-2">
-                                  {question.text ||
-                                    question.question ||
-                                    "Question text"}{" "}
-                                  ({question.type || "text"})
-                                </span>
-                              </div>
-                            ))}
-                          {questions.length > 3 && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="text-blue-600 hover:text-blue-700 mt-2"
-                              onClick={() => handlePreview(survey)}
-                            >
-                              View all {questions.length} questions →
-                            </Button>
-                          )}
-                          {questions.length <= 3 && questions.length > 0 && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="text-blue-600 hover:text-blue-700 mt-2"
-                              onClick={() => handlePreview(survey)}
-                            >
-                              <Eye className="w-4 h-4 mr-1" />
-                              Preview Survey
-                            </Button>
-                          )}
-                        </>
-                      ) : (
-                        <div className="text-sm text-slate-500">
-                          No questions configured
-                        </div>
-                      );
-                    })()}
+                        return questions.length > 0 ? (
+                          <>
+                            {questions
+                              .slice(0, 3)
+                              .map((question: any, index: number) => (
+                                <div key={index} className="text-sm">
+                                  <span className="text-slate-600">
+                                    {index + 1}.
+                                  </span>
+                                  <span className="text-slate-900 ml-2">
+                                    {question.text ||
+                                      question.question ||
+                                      "Question text"}{" "}
+                                    ({question.type || "text"})
+                                  </span>
+                                </div>
+                              ))}
+                            {questions.length > 3 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-blue-600 hover:text-blue-700 mt-2"
+                                onClick={() => handlePreview(survey)}
+                              >
+                                View all {questions.length} questions →
+                              </Button>
+                            )}
+                            {questions.length <= 3 && questions.length > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-blue-600 hover:text-blue-700 mt-2"
+                                onClick={() => handlePreview(survey)}
+                              >
+                                <Eye className="w-4 h-4 mr-1" />
+                                Preview Survey
+                              </Button>
+                            )}
+                          </>
+                        ) : (
+                          <div className="text-sm text-slate-500">
+                            No questions configured
+                          </div>
+                        );
+                      })()}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))
+                </CardContent>
+              </Card>
+              );
+          })
         )}
       </div>
 
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={setPage}
+        />
+      )}
+
       <SurveyModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCan } from "@/components/auth/auth-provider";
+import { AUDIT_ENTITY_LABELS } from "@/components/audit/audit-changes";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { fetchDeleteImpact } from "@/lib/trash";
+import { TRASH_ENTITY_TYPES, type TrashEntityType, type TrashItem } from "@shared/schema";
+import { TRASH_PERMISSIONS, describeDependents } from "@shared/trash";
+import { formatOrgDateTime } from "@shared/timezone";
+
+// The API collection each entity type lives under; its list query is
+// refreshed when an item comes back
+const TRASH_PATHS: Record<TrashEntityType, string> = {
+  business: "/api/businesses",
+  event: "/api/events",
+  survey: "/api/surveys",
+  reward_item: "/api/reward-items",
+};
+
+const itemPath = (item: TrashItem) => `${TRASH_PATHS[item.entityType]}/${item.id}`;
+
+export default function Trash() {
+  const [typeFilter, setTypeFilter] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const can = useCan();
+  const entityTypes = TRASH_ENTITY_TYPES.filter((type) => can(TRASH_PERMISSIONS[type]));
+
+  const { data: items, isLoading } = useQuery<TrashItem[]>({
+    queryKey: ["/api/trash"],
+    staleTime: 0,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest("POST", `${itemPath(item)}/restore`);
+    },
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: [TRASH_PATHS[item.entityType]] });
+      toast({
+        title: "Success",
+        description: `${item.name} restored`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to restore"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest("DELETE", `${itemPath(item)}/permanent`);
+    },
+    onSuccess: (_, item) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Success",
+        description: `${item.name} deleted permanently`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete permanently"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Items with history that must be kept (check-ins, responses, receipts...)
+  // can only be restored; otherwise say what goes with them before deleting
+  const handlePurge = async (item: TrashItem) => {
+    const label = AUDIT_ENTITY_LABELS[item.entityType].toLowerCase();
+    let impact;
+    try {
+      impact = await fetchDeleteImpact(itemPath(item));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error as Error, "Failed to check what deleting would affect"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const byRule = (rule: string) =>
+      impact.dependents.filter((dependent) => dependent.onPurge === rule);
+    if (!impact.canPurge) {
+      toast({
+        title: "Can't delete permanently",
+        description: `This ${label} has ${describeDependents(byRule("block"))}. It can be restored, but not deleted.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const lines = [`Delete "${item.name}" permanently? This can't be undone.`];
+    if (byRule("delete").length) {
+      lines.push(`Its ${describeDependents(byRule("delete"))} will be deleted too.`);
+    }
+    if (byRule("unlink").length) {
+      lines.push(`Its ${describeDependents(byRule("unlink"))} will no longer refer to it.`);
+    }
+    if (confirm(lines.join("\n\n"))) {
+      purgeMutation.mutate(item);
+    }
+  };
+
+  const filtered = (items || []).filter(
+    (item) => typeFilter === "all" || item.entityType === typeFilter
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Trash</h2>
+          <p className="text-sm text-slate-500">
+            Deleted records stay here until they're restored or deleted permanently.
+          </p>
+        </div>
+        {entityTypes.length > 1 && (
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Records</option>
+            {entityTypes.map((type) => (
+              <option key={type} value={type}>
+                {AUDIT_ENTITY_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Deleted
+                </th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-slate-500">
+                    Loading trash...
+                  </td>
+                </tr>
+              ) : filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-slate-500">
+                    <Trash2 className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+                    The trash is empty.
+                  </td>
+                </tr>
+              ) : (
+                filtered.map((item) => (
+                  <tr key={`${item.entityType}-${item.id}`} className="hover:bg-slate-50">
+                    <td className="px-6 py-4 text-sm font-medium text-slate-900">
+                      {item.name}
+                    </td>
+                    <td className="px-6 py-4">
+                      <Badge className="bg-slate-100 text-slate-800">
+                        {AUDIT_ENTITY_LABELS[item.entityType]}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 whitespace-nowrap">
+                      {formatOrgDateTime(item.deletedAt)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={restoreMutation.isPending}
+                          onClick={() => restoreMutation.mutate(item)}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={purgeMutation.isPending}
+                          onClick={() => handlePurge(item)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Delete permanently
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, Users as UsersIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { UserModal } from "@/components/modals/user-modal";
+import { ListPagination } from "@/components/layout/list-pagination";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  USER_ROLES,
+  type PaginatedResult,
+  type UserDirectoryEntry,
+  type UserRole,
+} from "@shared/schema";
+import { ROLE_LABELS } from "@shared/permissions";
+
+const PAGE_SIZE = 25;
+
+export default function Users() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [sort, setSort] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<PaginatedResult<UserDirectoryEntry>>({
+    queryKey: ["/api/users", searchTerm, roleFilter, sort, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+      });
+      if (searchTerm) params.set("q", searchTerm);
+      if (roleFilter !== "all") params.set("role", roleFilter);
+      if (sort) params.set("sort", sort);
+      const response = await apiRequest("GET", `/api/users?${params}`);
+      return response.json();
+    },
+  });
+
+  const users = data?.items || [];
+  const selectedUser = users.find((u) => u.id === selectedUserId) || null;
+
+  const getRoleColor = (role: string) => {
+    switch (role) {
+      case "admin":
+        return "bg-purple-100 text-purple-800";
+      case "staff":
+      case "event_coordinator":
+        return "bg-amber-100 text-amber-800";
+      case "business":
+        return "bg-blue-100 text-blue-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-slate-900">User Directory</h2>
+        <div className="flex items-center space-x-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <Input
+              type="text"
+              placeholder="Search by name or email..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
+              className="pl-10"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => {
+              setRoleFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="all">All Roles</option>
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            <option value="">Newest first</option>
+            <option value="lastName">Last name A–Z</option>
+            <option value="email">Email A–Z</option>
+          </select>
+        </div>
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Points
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  RSVPs
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Check-ins
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Redemptions
+                </th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {isLoading ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="px-6 py-8 text-center text-slate-500"
+                  >
+                    Loading users...
+                  </td>
+                </tr>
+              ) : users.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="px-6 py-8 text-center text-slate-500"
+                  >
+                    <UsersIcon className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+                    No users found. {searchTerm && "Try adjusting your search."}
+                  </td>
+                </tr>
+              ) : (
+                users.map((user) => (
+                  <tr key={user.id} className="hover:bg-slate-50">
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-slate-900">
+                        {[user.firstName, user.lastName]
+                          .filter(Boolean)
+                          .join(" ") || "—"}
+                      </p>
+                      <p className="text-sm text-slate-500">{user.email}</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <Badge className={getRoleColor(user.role)}>
+                          {ROLE_LABELS[user.role as UserRole] ?? user.role}
+                        </Badge>
+                        {user.isSuspended && (
+                          <Badge className="bg-red-100 text-red-800">
+                            Suspended
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium text-slate-900">
+                      {user.pointsBalance}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900">
+                      {user.rsvpCount}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900">
+                      {user.checkinCount}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900">
+                      {user.redemptionCount}
+                    </td>
+                    <td className="px-6 py-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedUserId(user.id)}
+                        className="text-blue-600 hover:text-blue-700"
+                      >
+                        Manage
+                      </Button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {data && (
+        <ListPagination
+          page={data.page}
+          pageSize={data.pageSize}
+          total={data.total}
+          onPageChange={setPage}
+        />
+      )}
+
+      <UserModal
+        isOpen={!!selectedUser}
+        onClose={() => setSelectedUserId(null)}
+        user={selectedUser}
+      />
+    </div>
+  );
+}
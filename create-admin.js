@@ -28,14 +28,18 @@ async function createAdminUser() {
   const adminPassword = 'admin123!'; // Change this to a secure password
   
   try {
-    // Step 1: Create user in Supabase Auth with admin role in metadata
+    // Step 1: Create user in Supabase Auth with admin role in app_metadata
     console.log('Step 1: Creating user in Supabase Auth with admin role...');
     const { data: authData, error: authError } = await supabase.auth.admin.createUser({
       email: adminEmail,
       password: adminPassword,
       email_confirm: true, // Auto-confirm email
+      // The server only trusts app_metadata for the role; users can edit
+      // their own user_metadata
+      app_metadata: {
+        role: 'admin'
+      },
       user_metadata: {
-        role: 'admin',
         first_name: 'Admin',
         last_name: 'User'
       }
@@ -49,7 +53,7 @@ async function createAdminUser() {
     console.log('✅ Admin user created successfully!');
     console.log('📧 Email:', adminEmail);
     console.log('🔑 Password:', adminPassword);
-    console.log('👤 Role:', authData.user.user_metadata.role);
+    console.log('👤 Role:', authData.user.app_metadata.role);
     console.log('👤 User ID:', authData.user.id);
     console.log('');
     console.log('🎉 You can now log in to your admin panel!');
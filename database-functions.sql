@@ -90,4 +90,141 @@ $$ LANGUAGE plpgsql;
 -- CREATE TRIGGER event_date_conversion
 --     BEFORE INSERT OR UPDATE ON events
 --     FOR EACH ROW
---     EXECUTE FUNCTION convert_event_date();
\ No newline at end of file
+--     EXECUTE FUNCTION convert_event_date();
+-- Event capacity for RSVPs written straight to Supabase (e.g. by the mobile
+-- app) rather than through POST /api/events/:id/rsvps. Mirrors the API:
+-- RSVPs close at rsvp_deadline (or the event start), RSVPs beyond capacity
+-- are waitlisted, and deleting an RSVP promotes the longest-waiting one.
+CREATE OR REPLACE FUNCTION apply_event_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    ev events%ROWTYPE;
+    confirmed_count INTEGER;
+BEGIN
+    SELECT * INTO ev FROM events WHERE id = NEW.event_id FOR UPDATE;
+    IF NOW() > COALESCE(ev.rsvp_deadline, ev.event_date) THEN
+        RAISE EXCEPTION 'RSVPs for event % have closed', NEW.event_id;
+    END IF;
+
+    SELECT COUNT(*) INTO confirmed_count
+    FROM event_rsvps
+    WHERE event_id = NEW.event_id AND status = 'confirmed';
+    NEW.status := CASE
+        WHEN ev.capacity IS NULL OR confirmed_count < ev.capacity THEN 'confirmed'
+        ELSE 'waitlisted'
+    END;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION promote_event_waitlist()
+RETURNS TRIGGER AS $$
+DECLARE
+    ev events%ROWTYPE;
+    confirmed_count INTEGER;
+BEGIN
+    SELECT * INTO ev FROM events WHERE id = OLD.event_id FOR UPDATE;
+    IF NOT FOUND OR OLD.status <> 'confirmed' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COUNT(*) INTO confirmed_count
+    FROM event_rsvps
+    WHERE event_id = OLD.event_id AND status = 'confirmed';
+    UPDATE event_rsvps
+    SET status = 'confirmed', promoted_at = NOW()
+    WHERE id IN (
+        SELECT id FROM event_rsvps
+        WHERE event_id = OLD.event_id AND status = 'waitlisted'
+        ORDER BY created_at, id
+        LIMIT CASE WHEN ev.capacity IS NULL THEN NULL ELSE GREATEST(ev.capacity - confirmed_count, 0) END
+    );
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Example triggers (uncomment to enforce capacity on direct inserts)
+-- CREATE TRIGGER event_rsvp_capacity
+--     BEFORE INSERT ON event_rsvps
+--     FOR EACH ROW
+--     EXECUTE FUNCTION apply_event_capacity();
+-- CREATE TRIGGER event_rsvp_promotion
+--     AFTER DELETE ON event_rsvps
+--     FOR EACH ROW
+--     EXECUTE FUNCTION promote_event_waitlist();
+
+-- Survey responses written straight to Supabase don't say which version of
+-- the survey they answered; stamp them with the survey's current version.
+CREATE OR REPLACE FUNCTION stamp_survey_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.survey_version IS NULL THEN
+        SELECT current_version INTO NEW.survey_version FROM surveys WHERE id = NEW.survey_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Example trigger (uncomment to version direct inserts)
+-- CREATE TRIGGER survey_response_version
+--     BEFORE INSERT ON survey_responses
+--     FOR EACH ROW
+--     EXECUTE FUNCTION stamp_survey_version();
+
+-- The admin API accepts one survey response per user; reject repeats
+-- written straight to Supabase too.
+CREATE OR REPLACE FUNCTION reject_duplicate_survey_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM survey_responses
+        WHERE survey_id = NEW.survey_id AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'User % has already responded to survey %', NEW.user_id, NEW.survey_id
+            USING ERRCODE = 'unique_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Example trigger (uncomment to reject duplicate direct inserts)
+-- CREATE TRIGGER survey_response_once
+--     BEFORE INSERT ON survey_responses
+--     FOR EACH ROW
+--     EXECUTE FUNCTION reject_duplicate_survey_response();
+
+-- Survey responses written straight to Supabase skip the admin API's checks
+-- that the survey is published and open; this rejects those too and closes
+-- the survey once its response limit is reached.
+CREATE OR REPLACE FUNCTION check_survey_open()
+RETURNS TRIGGER AS $$
+DECLARE
+    s surveys%ROWTYPE;
+    response_count INTEGER;
+BEGIN
+    SELECT * INTO s FROM surveys WHERE id = NEW.survey_id FOR UPDATE;
+    IF s.status <> 'published' OR NOT COALESCE(s.is_active, TRUE)
+        OR (s.opens_at IS NOT NULL AND s.opens_at > NOW())
+        OR (s.closes_at IS NOT NULL AND s.closes_at <= NOW()) THEN
+        RAISE EXCEPTION 'Survey % is not accepting responses', NEW.survey_id;
+    END IF;
+
+    IF s.max_responses IS NOT NULL THEN
+        SELECT COUNT(*) INTO response_count FROM survey_responses WHERE survey_id = NEW.survey_id;
+        IF response_count >= s.max_responses THEN
+            RAISE EXCEPTION 'Survey % has reached its response limit', NEW.survey_id;
+        END IF;
+        IF response_count + 1 >= s.max_responses THEN
+            UPDATE surveys SET status = 'closed', is_active = FALSE, updated_at = NOW()
+            WHERE id = NEW.survey_id;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Example trigger (uncomment to check direct inserts)
+-- CREATE TRIGGER survey_response_open
+--     BEFORE INSERT ON survey_responses
+--     FOR EACH ROW
+--     EXECUTE FUNCTION check_survey_open();
@@ -0,0 +1,71 @@
+import express, { type Express, type Request, Response, NextFunction } from "express";
+import { registerRoutes } from "./routes";
+
+// Builds the API: body parsing, CORS, request logging, routes and the JSON
+// error handler. The standalone server (server/index.ts) and the Vercel
+// function (api/index.js) both run this same app.
+export async function createApp(log: (message: string) => void = console.log): Promise<Express> {
+  const app = express();
+  // Business imports post up to 5000 CSV rows (businessImportRequestSchema),
+  // far past the default 100kb. Mounted first so the general parser below
+  // sees an already-parsed body and leaves it alone.
+  app.use("/api/businesses/import", express.json({ limit: "5mb" }));
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  app.use("/api", (req, res, next) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    if (req.method === "OPTIONS") {
+      return res.status(200).end();
+    }
+    next();
+  });
+
+  app.use((req, res, next) => {
+    const start = Date.now();
+    const path = req.path;
+    let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+    const originalResJson = res.json;
+    res.json = function (bodyJson, ...args) {
+      capturedJsonResponse = bodyJson;
+      return originalResJson.apply(res, [bodyJson, ...args]);
+    };
+
+    res.on("finish", () => {
+      const duration = Date.now() - start;
+      if (path.startsWith("/api")) {
+        let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+        if (capturedJsonResponse) {
+          logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        }
+
+        if (logLine.length > 80) {
+          logLine = logLine.slice(0, 79) + "…";
+        }
+
+        log(logLine);
+      }
+    });
+
+    next();
+  });
+
+  await registerRoutes(app);
+
+  // Logged rather than rethrown so one failed request can't take down a
+  // serverless instance
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    const message = err.message || "Internal Server Error";
+
+    console.error(err);
+    if (!res.headersSent) {
+      res.status(status).json({ message });
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,104 @@
+import type { Response, NextFunction } from "express";
+import type { AuditChanges, AuditEntityType } from "@shared/schema";
+import { storage } from "./storage";
+
+// Every admin mutation in server/routes.ts runs through audit(), which records
+// who made it, to which entity, and the fields it changed. Sign-in and
+// sign-out aren't audited: they change sessions, not data.
+
+// Reads an entity's current row, so a request can be diffed by reading it
+// before and after. Entities without one record the response body instead.
+const loaders: Partial<Record<AuditEntityType, (id: string) => Promise<object | undefined>>> = {
+  business: id => storage.getBusiness(parseInt(id)),
+  event: id => storage.getEvent(parseInt(id)),
+  survey: id => storage.getSurvey(parseInt(id)),
+  reward_item: id => storage.getRewardItem(parseInt(id)),
+  promotion: id => storage.getPromotion(parseInt(id)),
+  user: id => storage.getUser(id),
+};
+
+// Bookkeeping and derived fields that would otherwise appear in every diff
+const IGNORED_FIELDS = new Set(["updatedAt", "openStatus"]);
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+// Fields whose values differ between two versions of a row. Values are
+// compared as JSON, so dates and nested objects compare by content.
+export function diffRecords(before: object | null, after: object | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = Object.keys(previous).concat(Object.keys(next).filter(field => !(field in previous)));
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: before ? from : null, after: after ? to : null };
+    }
+  }
+  return changes;
+}
+
+interface AuditOptions {
+  // Defaults to create, update or delete by HTTP method
+  action?: string;
+  // Ids of the entities the request changes; defaults to the :id param. With
+  // none, the response body is recorded as a new entity.
+  ids?: (req: any) => string[];
+  // Record the response body rather than diffing the entity, for routes that
+  // act on an entity without editing it, such as an RSVP to an event
+  recordResponse?: boolean;
+}
+
+// Middleware recording a successful request in the audit log. Runs after
+// authenticateToken and the permission guard; failures to write the log are
+// reported but never fail the request.
+export function audit(entityType: AuditEntityType, options: AuditOptions = {}) {
+  const load = options.recordResponse ? undefined : loaders[entityType];
+  const read = async (id: string) => (load && (await load(id).catch(() => undefined))) ?? null;
+
+  return async (req: any, res: Response, next: NextFunction) => {
+    const ids: string[] = options.ids ? options.ids(req) : req.params.id ? [req.params.id] : [];
+    const before = await Promise.all(ids.map(read));
+
+    let body: unknown;
+    const json = res.json.bind(res);
+    res.json = (data: unknown) => {
+      body = data;
+      return json(data);
+    };
+
+    res.on("finish", () => {
+      if (res.statusCode >= 400) return;
+      const response = body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+
+      const changed = ids.length > 0
+        ? Promise.all(ids.map(async (id, i) => ({
+          entityId: id,
+          changes: diffRecords(before[i], load ? await read(id) : response),
+        })))
+        : Promise.resolve([{
+          entityId: response?.id != null ? String(response.id) : null,
+          changes: diffRecords(null, response),
+        }]);
+
+      changed
+        .then(entries => storage.createAuditLogEntries(entries.map(entry => ({
+          actorId: req.user?.id ?? null,
+          actorEmail: req.user?.email ?? null,
+          action: options.action ?? METHOD_ACTIONS[req.method],
+          entityType,
+          ...entry,
+        }))))
+        .catch(error => console.error("Audit log error:", error));
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import type { Request, Response, NextFunction } from "express";
+import { storage, SessionError } from "./storage";
+
+// Sign-in is a session row plus two tokens: a short-lived access token (a JWT
+// naming the session, sent as a Bearer header) and a refresh token
+// ("<sid>.<secret>" in an httpOnly cookie) that is swapped for a new one on
+// every refresh. Deleting the session signs out both at once.
+
+const ACCESS_TOKEN_TTL = "15m";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // extended on every refresh
+const REFRESH_COOKIE = "sms_refresh";
+
+function jwtSecret(): string {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production");
+  }
+  return "your-secret-key";
+}
+
+// Read at startup so a production deploy without a secret fails immediately
+export const JWT_SECRET = jwtSecret();
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: string;
+  businessId: number | null;
+  sid: string;
+}
+
+const hashToken = (secret: string) => crypto.createHash("sha256").update(secret).digest("hex");
+
+const newRefreshSecret = () => crypto.randomBytes(32).toString("base64url");
+
+const signAccessToken = ({ id, email, role, businessId, sid }: AuthUser) =>
+  jwt.sign({ id, email, role, businessId, sid }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+function setRefreshCookie(res: Response, sid: string, secret: string) {
+  res.cookie(REFRESH_COOKIE, `${sid}.${secret}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+    maxAge: SESSION_TTL_MS,
+  });
+}
+
+export function clearRefreshCookie(res: Response) {
+  res.clearCookie(REFRESH_COOKIE, { path: "/api/auth" });
+}
+
+// The refresh token from the request's cookie, if it has a well-formed one
+export function readRefreshToken(req: Request): { sid: string; secret: string } | null {
+  const cookie = (req.headers.cookie || "")
+    .split(";")
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${REFRESH_COOKIE}=`));
+  if (!cookie) return null;
+  const [sid, secret] = decodeURIComponent(cookie.slice(REFRESH_COOKIE.length + 1)).split(".");
+  return sid && secret ? { sid, secret } : null;
+}
+
+// Opens a session for a user who has just proven their password, sets the
+// refresh cookie and returns the first access token
+export async function startSession(req: Request, res: Response, user: Omit<AuthUser, "sid">): Promise<string> {
+  const sid = crypto.randomUUID();
+  const secret = newRefreshSecret();
+  const now = new Date().toISOString();
+  await storage.createSession(sid, user.id, {
+    email: user.email,
+    role: user.role,
+    businessId: user.businessId,
+    tokenHash: hashToken(secret),
+    previousTokenHash: null,
+    rotatedAt: null,
+    userAgent: req.get("user-agent") ?? null,
+    ip: req.ip ?? null,
+    createdAt: now,
+    lastUsedAt: now,
+  }, new Date(Date.now() + SESSION_TTL_MS));
+  setRefreshCookie(res, sid, secret);
+  return signAccessToken({ ...user, sid });
+}
+
+// Trades the refresh cookie for a new access token and rotates the cookie.
+// Throws SessionError when there is no live session to refresh.
+export async function refreshSession(req: Request, res: Response): Promise<{ token: string; user: AuthUser }> {
+  const presented = readRefreshToken(req);
+  if (!presented) {
+    throw new SessionError("Not signed in");
+  }
+  const secret = newRefreshSecret();
+  const session = await storage.rotateSessionToken(
+    presented.sid,
+    hashToken(presented.secret),
+    hashToken(secret),
+    new Date(Date.now() + SESSION_TTL_MS),
+  );
+  if (session.rotated) setRefreshCookie(res, presented.sid, secret);
+
+  const { email, role, businessId } = session.data;
+  const user: AuthUser = { id: session.userId!, email, role, businessId, sid: session.sid };
+  return { token: signAccessToken(user), user };
+}
+
+// Middleware to verify the access token and that its session is still signed
+// in. Every failure is a 401, which the client answers by refreshing.
+export async function authenticateToken(req: any, res: any, next: NextFunction) {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return res.status(401).json({ message: 'Access token required' });
+  }
+
+  let user: AuthUser;
+  try {
+    user = jwt.verify(token, JWT_SECRET) as AuthUser;
+  } catch {
+    return res.status(401).json({ message: 'Invalid or expired token' });
+  }
+
+  try {
+    if (!user.sid || !(await storage.getSession(user.sid))) {
+      return res.status(401).json({ message: 'Session has been signed out' });
+    }
+  } catch (error) {
+    return next(error);
+  }
+  req.user = user;
+  next();
+}
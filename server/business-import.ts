@@ -0,0 +1,49 @@
+import {
+  businessImportRowSchema,
+  type Business,
+  type BusinessImportRequest,
+  type BusinessImportRowResult,
+} from "@shared/schema";
+
+// Businesses are considered the same when name and address match,
+// ignoring case and repeated whitespace
+function duplicateKey(name: string, address: string | null | undefined): string {
+  const normalize = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+  return `${normalize(name)}|${normalize(address ?? "")}`;
+}
+
+// Validates each row and decides whether it creates a business, updates an
+// existing one, or is skipped. Used for both the preview and the commit so
+// the two always agree.
+export function planBusinessImport(
+  request: BusinessImportRequest,
+  existing: Business[],
+): BusinessImportRowResult[] {
+  const existingByKey = new Map(existing.map(b => [duplicateKey(b.name, b.address), b.id]));
+  const seenInFile = new Map<string, number>();
+
+  return request.rows.map((raw, index) => {
+    const row = index + 1;
+    const parsed = businessImportRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      return {
+        row,
+        action: "skip",
+        errors: parsed.error.errors.map(e => (e.path.length ? `${e.path.join(".")}: ${e.message}` : e.message)),
+      };
+    }
+
+    const key = duplicateKey(parsed.data.name, parsed.data.address);
+    const firstRow = seenInFile.get(key);
+    if (firstRow !== undefined) {
+      return { row, action: "skip", data: parsed.data, errors: [`Duplicate of row ${firstRow} in this file`] };
+    }
+    seenInFile.set(key, row);
+
+    const existingId = existingByKey.get(key);
+    if (existingId !== undefined) {
+      return { row, action: request.onDuplicate, data: parsed.data, existingId };
+    }
+    return { row, action: "create", data: parsed.data };
+  });
+}
@@ -0,0 +1,362 @@
+import type { Response } from "express";
+import { once } from "events";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { storage, type RowBatch } from "./storage";
+import {
+  MAX_PAGE_SIZE,
+  businessListQuerySchema,
+  eventListQuerySchema,
+  rewardItemListQuerySchema,
+  surveyListQuerySchema,
+  type AnalyticsRange,
+  type SurveyResponseDetail,
+} from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { mergeSurveyVersions, parseSurveyQuestions, surveyStatus } from "@shared/surveys";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+type CellValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+// Rows are read from storage as the file is written, never all at once
+export interface ExportTable {
+  sheetName: string;
+  headers: string[];
+  rows: AsyncIterable<CellValue[]>;
+}
+
+async function* mapRows<T>(rows: AsyncIterable<T>, cells: (row: T) => CellValue[]): AsyncGenerator<CellValue[]> {
+  for await (const row of rows) {
+    yield cells(row);
+  }
+}
+
+// Rows come first so T is inferred from them and columns are checked against it
+function toTable<T>(sheetName: string, rows: AsyncIterable<T>, columns: ExportColumn<T>[]): ExportTable {
+  return {
+    sheetName,
+    headers: columns.map(c => c.header),
+    rows: mapRows(rows, row => columns.map(c => c.value(row))),
+  };
+}
+
+// Reads a query one batch of rows at a time until it runs out
+async function* everyBatch<T>(read: (batch: RowBatch) => Promise<T[]>): AsyncGenerator<T> {
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const rows = await read({ limit: MAX_PAGE_SIZE, offset });
+    for (const row of rows) {
+      yield row;
+    }
+    if (rows.length < MAX_PAGE_SIZE) return;
+  }
+}
+
+// The list endpoints' page parameters for a batch
+const listPage = (batch: RowBatch) => ({ page: batch.offset / batch.limit + 1, pageSize: batch.limit });
+
+interface ExportResource {
+  // Needed on top of exports:download; exports are never business-scoped
+  permission: Permission;
+  // Analytics exports always apply a date range (defaulting like the
+  // analytics endpoints); list exports only filter by date when asked to
+  alwaysRanged?: boolean;
+  // Validates the query string, throwing a ZodError, and returns what builds
+  // the table so bad filters are refused before the download starts
+  prepare: (query: unknown, range?: AnalyticsRange) => () => Promise<ExportTable>;
+}
+
+function defineExport<F>(definition: {
+  permission: Permission;
+  alwaysRanged?: boolean;
+  filters: z.ZodType<F, z.ZodTypeDef, unknown>;
+  build: (filters: F, range?: AnalyticsRange) => Promise<ExportTable> | ExportTable;
+}): ExportResource {
+  return {
+    permission: definition.permission,
+    alwaysRanged: definition.alwaysRanged,
+    prepare: (query, range) => {
+      const filters = definition.filters.parse(query);
+      return async () => definition.build(filters, range);
+    },
+  };
+}
+
+// List exports take the same filters and sort as their list endpoint and
+// page through it themselves
+const listFilters = <S extends z.AnyZodObject>(schema: S) => schema.omit({ page: true, pageSize: true });
+
+const noFilters = z.object({});
+
+// Spreadsheet apps execute cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeCsv(res: Response, table: ExportTable) {
+  const writeLine = async (cells: CellValue[]) => {
+    // Wait for the client to catch up rather than buffering the whole file
+    if (!res.write(cells.map(csvCell).join(",") + "\r\n")) {
+      await once(res, "drain");
+    }
+  };
+  // BOM so Excel opens the file as UTF-8
+  res.write("\ufeff");
+  await writeLine(table.headers);
+  for await (const row of table.rows) {
+    await writeLine(row);
+  }
+  res.end();
+}
+
+async function writeXlsx(res: Response, table: ExportTable) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+  const sheet = workbook.addWorksheet(table.sheetName);
+  sheet.columns = table.headers.map(header => ({ header, width: Math.max(12, header.length + 2) }));
+  for await (const row of table.rows) {
+    sheet.addRow(row.map(cell => cell ?? null)).commit();
+  }
+  sheet.commit();
+  await workbook.commit();
+}
+
+// Writes table to the response as a downloadable file, row by row
+export async function sendExport(res: Response, filename: string, format: ExportFormat, table: ExportTable) {
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    await writeCsv(res, table);
+  } else {
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    await writeXlsx(res, table);
+  }
+}
+
+function parseJson(value: string | null): any {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function answerText(answer: unknown): CellValue {
+  if (Array.isArray(answer)) return answer.join(", ");
+  if (answer !== null && typeof answer === "object") return JSON.stringify(answer);
+  return answer as CellValue;
+}
+
+type AnsweredResponse = SurveyResponseDetail & { answers: Record<string, unknown> };
+
+async function* withAnswers(rows: AsyncIterable<SurveyResponseDetail>): AsyncGenerator<AnsweredResponse> {
+  for await (const row of rows) {
+    yield { ...row, answers: parseJson(row.responses) ?? {} };
+  }
+}
+
+// Survey responses with one column per question. Answers are keyed by
+// question id; exporting a single survey gives every question it has asked,
+// across versions, a column headed with its text. Mixed surveys use "Q<id>".
+async function surveyResponsesTable(
+  filters: { surveyId?: number },
+  range?: AnalyticsRange
+): Promise<ExportTable> {
+  const responses = () =>
+    withAnswers(everyBatch(batch => storage.getSurveyResponses({ surveyId: filters.surveyId, range, batch })));
+
+  let columns: { key: string; header: string }[] = [];
+  if (filters.surveyId !== undefined) {
+    const history = await storage.getSurveyVersionHistory(filters.surveyId);
+    const questions = mergeSurveyVersions(
+      (history?.versions ?? []).map(v => ({ version: v.version, questions: parseSurveyQuestions(v.questions) }))
+    );
+    columns = questions.map(q => ({ key: q.id, header: q.question || `Q${q.id}` }));
+  }
+
+  // The header row needs every answered question, so the responses are read
+  // once for their keys before they're read again for the rows
+  const known = new Set(columns.map(column => column.key));
+  const extraKeys = new Set<string>();
+  for await (const response of responses()) {
+    Object.keys(response.answers).forEach(key => known.has(key) || extraKeys.add(key));
+  }
+  const sortedExtras = Array.from(extraKeys).sort((a, b) => Number(a) - Number(b) || a.localeCompare(b));
+  columns.push(...sortedExtras.map(key => ({ key, header: `Q${key}` })));
+
+  return toTable("Survey Responses", responses(), [
+    { header: "Response ID", value: r => r.id },
+    { header: "Survey", value: r => r.surveyTitle },
+    { header: "Survey Version", value: r => r.surveyVersion ?? 1 },
+    { header: "User Email", value: r => r.userEmail },
+    { header: "Points Earned", value: r => r.pointsEarned },
+    { header: "Submitted At", value: r => r.createdAt },
+    ...columns.map(({ key, header }) => ({
+      header,
+      value: (r: AnsweredResponse) => answerText(r.answers[key]),
+    })),
+  ]);
+}
+
+// Analytics series are short and come back whole
+async function* fromArray<T>(rows: Promise<T[]>): AsyncGenerator<T> {
+  for (const row of await rows) {
+    yield row;
+  }
+}
+
+export const exportResources: Record<string, ExportResource> = {
+  events: defineExport({
+    permission: "events:view",
+    filters: listFilters(eventListQuerySchema),
+    build: (filters) =>
+      toTable("Events", everyBatch(async batch => (await storage.listEvents({ ...filters, ...listPage(batch) })).items), [
+        { header: "ID", value: e => e.id },
+        { header: "Name", value: e => e.name },
+        { header: "Date", value: e => e.eventDate },
+        { header: "Location", value: e => e.location },
+        { header: "Description", value: e => e.description },
+        { header: "Created At", value: e => e.createdAt },
+      ]),
+  }),
+  rsvps: defineExport({
+    permission: "events:view",
+    filters: z.object({ eventId: z.coerce.number().int().positive().optional() }),
+    build: ({ eventId }, range) =>
+      toTable("RSVPs", everyBatch(batch => storage.getEventRsvps({ eventId, range, batch })), [
+        { header: "ID", value: r => r.id },
+        { header: "Event", value: r => r.eventName },
+        { header: "Event Date", value: r => r.eventDate },
+        { header: "User Name", value: r => r.userName },
+        { header: "User Email", value: r => r.userEmail },
+        { header: "Status", value: r => r.status },
+        { header: "RSVP'd At", value: r => r.createdAt },
+      ]),
+  }),
+  surveys: defineExport({
+    permission: "surveys:view",
+    filters: listFilters(surveyListQuerySchema),
+    build: (filters) =>
+      toTable("Surveys", everyBatch(async batch => (await storage.listSurveys({ ...filters, ...listPage(batch) })).items), [
+        { header: "ID", value: s => s.id },
+        { header: "Title", value: s => s.title },
+        { header: "Description", value: s => s.description },
+        { header: "Questions", value: s => parseSurveyQuestions(s.questions).length },
+        { header: "Version", value: s => s.currentVersion },
+        { header: "Reward Points", value: s => s.rewardPoints },
+        { header: "Status", value: s => surveyStatus(s, s.responseCount) },
+        { header: "Opens At", value: s => s.opensAt },
+        { header: "Closes At", value: s => s.closesAt },
+        { header: "Responses", value: s => s.responseCount },
+        { header: "Response Limit", value: s => s.maxResponses },
+        { header: "Audience", value: s => s.audience },
+        { header: "Created At", value: s => s.createdAt },
+      ]),
+  }),
+  "survey-responses": defineExport({
+    permission: "surveys:view",
+    filters: z.object({ surveyId: z.coerce.number().int().positive().optional() }),
+    build: surveyResponsesTable,
+  }),
+  rewards: defineExport({
+    permission: "rewards:view",
+    filters: listFilters(rewardItemListQuerySchema),
+    build: (filters) =>
+      toTable("Rewards", everyBatch(async batch => (await storage.listRewardItems({ ...filters, ...listPage(batch) })).items), [
+        { header: "ID", value: r => r.id },
+        { header: "Name", value: r => r.name },
+        { header: "Description", value: r => r.description },
+        { header: "Point Threshold", value: r => r.pointThreshold },
+        { header: "Business ID", value: r => r.businessId },
+        { header: "Active", value: r => r.isActive },
+        { header: "Expiration Date", value: r => r.expirationDate },
+        { header: "Max Redemptions", value: r => r.maxRedemptions },
+      ]),
+  }),
+  redemptions: defineExport({
+    permission: "redemptions:view",
+    filters: noFilters,
+    build: (_filters, range) =>
+      toTable("Redemptions", everyBatch(batch => storage.getRewardRedemptions({ range, batch })), [
+        { header: "ID", value: r => r.id },
+        { header: "Reward", value: r => r.rewardItemName },
+        { header: "Points Redeemed", value: r => r.pointsRedeemed },
+        { header: "Business", value: r => r.businessName },
+        { header: "User Email", value: r => r.userEmail },
+        { header: "Redeemed At", value: r => r.createdAt },
+        { header: "Status", value: r => r.status },
+        { header: "Resolved At", value: r => r.resolvedAt },
+        { header: "Void Reason", value: r => r.voidReason },
+      ]),
+  }),
+  businesses: defineExport({
+    permission: "businesses:view",
+    filters: listFilters(businessListQuerySchema),
+    build: (filters) =>
+      toTable("Businesses", everyBatch(async batch => (await storage.listBusinesses({ ...filters, ...listPage(batch) })).items), [
+        { header: "ID", value: b => b.id },
+        { header: "Name", value: b => b.name },
+        { header: "Category", value: b => b.category },
+        { header: "Address", value: b => b.address },
+        { header: "Phone", value: b => b.phone },
+        { header: "Website", value: b => b.website },
+        { header: "Latitude", value: b => b.latitude },
+        { header: "Longitude", value: b => b.longitude },
+        { header: "Featured", value: b => b.isFeatured },
+        { header: "Open", value: b => b.isOpen },
+      ]),
+  }),
+  "checkins-by-event": defineExport({
+    permission: "analytics:view",
+    alwaysRanged: true,
+    filters: noFilters,
+    build: (_filters, range) =>
+      toTable("Check-ins by Event", fromArray(storage.getCheckinsByEvent(range!)), [
+        { header: "Event", value: r => r.eventName },
+        { header: "Check-ins", value: r => r.checkins },
+      ]),
+  }),
+  "event-rsvp-trends": defineExport({
+    permission: "analytics:view",
+    alwaysRanged: true,
+    filters: noFilters,
+    build: (_filters, range) =>
+      toTable("RSVP Trends", fromArray(storage.getEventRsvpTrends(range!)), [
+        { header: "Period Start", value: r => r.date },
+        { header: "RSVPs", value: r => r.rsvps },
+      ]),
+  }),
+  "reward-redemption-trends": defineExport({
+    permission: "redemptions:view",
+    alwaysRanged: true,
+    filters: noFilters,
+    build: (_filters, range) =>
+      toTable("Redemption Trends", fromArray(storage.getRewardRedemptionTrends(range!)), [
+        { header: "Period Start", value: r => r.date },
+        { header: "Redemptions", value: r => r.redemptions },
+      ]),
+  }),
+  "survey-response-distribution": defineExport({
+    permission: "analytics:view",
+    alwaysRanged: true,
+    filters: noFilters,
+    build: (_filters, range) =>
+      toTable("Survey Responses", fromArray(storage.getSurveyResponseDistribution(range!)), [
+        { header: "Survey", value: r => r.surveyTitle },
+        { header: "Responses", value: r => r.responses },
+      ]),
+  }),
+};
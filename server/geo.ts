@@ -0,0 +1,50 @@
+// Geographic helpers for hotspot analytics
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Great-circle distance between two points in meters
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+export interface Cluster<T extends GeoPoint> extends GeoPoint {
+  members: T[];
+}
+
+// Greedy single-pass clustering: each point joins the first cluster whose
+// centroid is within radiusMeters, otherwise it starts a new cluster.
+export function clusterPoints<T extends GeoPoint>(points: T[], radiusMeters: number): Cluster<T>[] {
+  const clusters: Cluster<T>[] = [];
+
+  for (const point of points) {
+    const cluster = clusters.find((c) => distanceMeters(c, point) <= radiusMeters);
+    if (cluster) {
+      cluster.members.push(point);
+      const n = cluster.members.length;
+      cluster.latitude += (point.latitude - cluster.latitude) / n;
+      cluster.longitude += (point.longitude - cluster.longitude) / n;
+    } else {
+      clusters.push({ latitude: point.latitude, longitude: point.longitude, members: [point] });
+    }
+  }
+
+  return clusters;
+}
+
+// Street name from an address like "123 SW Flagler Ave, Stuart, FL 34994"
+export function streetFromAddress(address: string | null): string | null {
+  if (!address) return null;
+  const street = address.split(",")[0].trim().replace(/^\d+[A-Za-z]?\s+/, "");
+  return street || null;
+}
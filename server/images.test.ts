@@ -0,0 +1,117 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+
+// images.ts builds the Supabase-backed service on import, which needs
+// credentials even though these tests only use the local adapter
+process.env.SUPABASE_URL ||= "http://localhost:54321";
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= "test";
+const { InvalidImageError, createImageService, localAdapter } = await import("./images");
+
+const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+describe("localAdapter", () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "images-test-"));
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test("uploads under the bucket directory and serves from the base URL", async () => {
+    const adapter = localAdapter(root);
+    await adapter.upload("event_images", "7/photo.webp", Buffer.from("data"), "image/webp");
+
+    assert.equal(await fs.readFile(path.join(root, "event_images", "7", "photo.webp"), "utf8"), "data");
+    assert.equal(adapter.publicUrl("event_images", "7/photo.webp"), "/uploads/event_images/7/photo.webp");
+  });
+
+  test("never overwrites an existing file", async () => {
+    const adapter = localAdapter(root);
+    await adapter.upload("event_images", "7/once.webp", Buffer.from("first"), "image/webp");
+
+    await assert.rejects(adapter.upload("event_images", "7/once.webp", Buffer.from("second"), "image/webp"));
+    assert.equal(await fs.readFile(path.join(root, "event_images", "7", "once.webp"), "utf8"), "first");
+  });
+
+  test("removes files, ignoring ones already gone", async () => {
+    const adapter = localAdapter(root);
+    await adapter.upload("business_images", "3/logo.webp", Buffer.from("logo"), "image/webp");
+
+    await adapter.remove("business_images", ["3/logo.webp", "3/missing.webp"]);
+    assert.equal(await exists(path.join(root, "business_images", "3", "logo.webp")), false);
+  });
+
+  test("maps its own URLs back to paths", () => {
+    const adapter = localAdapter(root, "https://cdn.example.com/files");
+    const url = adapter.publicUrl("event_images", "7/photo.webp");
+
+    assert.equal(adapter.pathFromUrl("event_images", url), "7/photo.webp");
+    assert.equal(adapter.pathFromUrl("business_images", url), null);
+    assert.equal(adapter.pathFromUrl("event_images", "https://elsewhere.example.com/7/photo.webp"), null);
+  });
+
+  test("refuses URLs that would resolve outside the bucket", () => {
+    const adapter = localAdapter(root);
+
+    for (const url of [
+      "/uploads/event_images/../business_images/3/logo.webp",
+      "/uploads/event_images/7/../../../etc/passwd",
+      "/uploads/event_images/..",
+      "/uploads/event_images//etc/passwd",
+    ]) {
+      assert.equal(adapter.pathFromUrl("event_images", url), null, url);
+    }
+  });
+});
+
+describe("createImageService with the local adapter", () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "images-test-"));
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const samplePng = () =>
+    sharp({ create: { width: 2000, height: 1000, channels: 3, background: "#336699" } }).png().toBuffer();
+
+  test("saves a resized image and a square thumbnail", async () => {
+    const service = createImageService(localAdapter(root));
+    const image = await service.save("events", 7, await samplePng());
+
+    assert.match(image.imageUrl!, /^\/uploads\/event_images\/7\/[0-9a-f-]+\.webp$/);
+    assert.match(image.thumbnailUrl!, /^\/uploads\/event_images\/7\/[0-9a-f-]+\.thumb\.webp$/);
+
+    const full = await sharp(path.join(root, image.imageUrl!.replace("/uploads/", ""))).metadata();
+    const thumbnail = await sharp(path.join(root, image.thumbnailUrl!.replace("/uploads/", ""))).metadata();
+    assert.deepEqual([full.format, full.width, full.height], ["webp", 1600, 800]);
+    assert.deepEqual([thumbnail.width, thumbnail.height], [320, 320]);
+  });
+
+  test("deletes both stored files and leaves foreign URLs alone", async () => {
+    const service = createImageService(localAdapter(root));
+    const image = await service.save("rewardItems", 2, await samplePng());
+
+    await service.remove("rewardItems", { ...image });
+    assert.equal(await exists(path.join(root, image.imageUrl!.replace("/uploads/", ""))), false);
+    assert.equal(await exists(path.join(root, image.thumbnailUrl!.replace("/uploads/", ""))), false);
+
+    // Nothing to resolve, so nothing to do
+    await service.remove("rewardItems", { imageUrl: "https://example.com/pasted.jpg", thumbnailUrl: null });
+  });
+
+  test("rejects data that isn't an image", async () => {
+    const service = createImageService(localAdapter(root));
+    await assert.rejects(service.save("events", 7, Buffer.from("not an image")), InvalidImageError);
+  });
+});
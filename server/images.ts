@@ -0,0 +1,216 @@
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import multer from "multer";
+import { v4 as uuidv4 } from "uuid";
+import type { Request, Response, NextFunction } from "express";
+import { supabase } from "./supabase";
+
+// Where an image belongs; each owner type has its own bucket
+export const IMAGE_BUCKETS = {
+  events: "event_images",
+  businesses: "business_images",
+  rewardItems: "reward_item_images",
+} as const;
+
+export type ImageOwner = keyof typeof IMAGE_BUCKETS;
+
+export type StoredImage = {
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+};
+
+// Storage backend for processed images. Paths are relative to the bucket.
+export interface ImageStorageAdapter {
+  upload(bucket: string, filePath: string, data: Buffer, contentType: string): Promise<void>;
+  remove(bucket: string, filePaths: string[]): Promise<void>;
+  publicUrl(bucket: string, filePath: string): string;
+  // Inverse of publicUrl; null for URLs this adapter didn't produce
+  pathFromUrl(bucket: string, url: string): string | null;
+}
+
+export function supabaseAdapter(): ImageStorageAdapter {
+  const publicPrefix = (bucket: string) =>
+    supabase.storage.from(bucket).getPublicUrl("").data.publicUrl.replace(/\/?$/, "/");
+
+  return {
+    async upload(bucket, filePath, data, contentType) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(filePath, data, { contentType, upsert: false });
+      if (error) throw error;
+    },
+    async remove(bucket, filePaths) {
+      const { error } = await supabase.storage.from(bucket).remove(filePaths);
+      if (error) throw error;
+    },
+    publicUrl(bucket, filePath) {
+      return supabase.storage.from(bucket).getPublicUrl(filePath).data.publicUrl;
+    },
+    pathFromUrl(bucket, url) {
+      return url.startsWith(publicPrefix(bucket)) ? url.slice(publicPrefix(bucket).length) : null;
+    },
+  };
+}
+
+// Writes images under rootDir/<bucket>/ and serves them from baseUrl. Used
+// for local development and tests.
+export function localAdapter(rootDir: string, baseUrl = "/uploads"): ImageStorageAdapter {
+  const prefix = (bucket: string) => `${baseUrl}/${bucket}/`;
+
+  return {
+    async upload(bucket, filePath, data) {
+      const target = path.join(rootDir, bucket, filePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data, { flag: "wx" });
+    },
+    async remove(bucket, filePaths) {
+      await Promise.all(
+        filePaths.map(filePath => fs.rm(path.join(rootDir, bucket, filePath), { force: true }))
+      );
+    },
+    publicUrl(bucket, filePath) {
+      return prefix(bucket) + filePath;
+    },
+    pathFromUrl(bucket, url) {
+      if (!url.startsWith(prefix(bucket))) return null;
+      const filePath = url.slice(prefix(bucket).length);
+      // Never resolve outside the bucket directory
+      const normalized = path.normalize(filePath);
+      return normalized.startsWith("..") || path.isAbsolute(normalized) ? null : filePath;
+    },
+  };
+}
+
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_SIZE = 320;
+
+export class InvalidImageError extends Error {}
+
+// Normalizes orientation and produces a bounded WebP plus a square thumbnail
+async function processImage(data: Buffer) {
+  try {
+    const image = sharp(data).rotate();
+    const [full, thumbnail] = await Promise.all([
+      image
+        .clone()
+        .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 82 })
+        .toBuffer(),
+      image
+        .clone()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+        .webp({ quality: 75 })
+        .toBuffer(),
+    ]);
+    return { full, thumbnail };
+  } catch (error) {
+    throw new InvalidImageError(error instanceof Error ? error.message : "Unreadable image");
+  }
+}
+
+export function createImageService(adapter: ImageStorageAdapter) {
+  return {
+    // Resizes and stores an uploaded image in <ownerId>/ of the owner's bucket
+    async save(owner: ImageOwner, ownerId: number, data: Buffer): Promise<StoredImage> {
+      const bucket = IMAGE_BUCKETS[owner];
+      const { full, thumbnail } = await processImage(data);
+      const name = uuidv4();
+      const imagePath = `${ownerId}/${name}.webp`;
+      const thumbnailPath = `${ownerId}/${name}.thumb.webp`;
+
+      await adapter.upload(bucket, imagePath, full, "image/webp");
+      try {
+        await adapter.upload(bucket, thumbnailPath, thumbnail, "image/webp");
+      } catch (error) {
+        await adapter.remove(bucket, [imagePath]).catch(() => {});
+        throw error;
+      }
+
+      return {
+        imageUrl: adapter.publicUrl(bucket, imagePath),
+        thumbnailUrl: adapter.publicUrl(bucket, thumbnailPath),
+      };
+    },
+
+    // Swaps a record's image for a new upload (or none when data is null).
+    // `apply` persists the new URLs; the old objects are deleted only after it
+    // succeeds, and the new ones are cleaned up if it fails.
+    async replace<T>(
+      owner: ImageOwner,
+      ownerId: number,
+      data: Buffer | null,
+      current: Partial<StoredImage>,
+      apply: (image: StoredImage) => Promise<T>,
+    ): Promise<T> {
+      const image = data ? await this.save(owner, ownerId, data) : { imageUrl: null, thumbnailUrl: null };
+      let result: T;
+      try {
+        result = await apply(image);
+      } catch (error) {
+        await this.remove(owner, image);
+        throw error;
+      }
+      await this.remove(owner, current);
+      return result;
+    },
+
+    // Deletes previously stored objects. URLs pasted by hand or belonging to
+    // another bucket are left alone. Failures are logged rather than thrown
+    // because the database row has already moved on.
+    async remove(owner: ImageOwner, image: Partial<StoredImage>): Promise<void> {
+      const bucket = IMAGE_BUCKETS[owner];
+      const filePaths = [image.imageUrl, image.thumbnailUrl]
+        .map(url => (url ? adapter.pathFromUrl(bucket, url) : null))
+        .filter((filePath): filePath is string => filePath !== null);
+      if (filePaths.length === 0) return;
+
+      try {
+        await adapter.remove(bucket, filePaths);
+      } catch (error) {
+        console.error(`Failed to delete images from ${bucket}:`, error);
+      }
+    },
+  };
+}
+
+export type ImageService = ReturnType<typeof createImageService>;
+
+// IMAGE_STORAGE=local keeps uploads on disk (IMAGE_UPLOAD_DIR, default ./uploads)
+export const localImageDir =
+  process.env.IMAGE_STORAGE === "local"
+    ? path.resolve(process.env.IMAGE_UPLOAD_DIR || "uploads")
+    : null;
+
+export const images = createImageService(
+  localImageDir ? localAdapter(localImageDir) : supabaseAdapter()
+);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    // Only allow image files
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'));
+    }
+  },
+});
+
+// Accepts an optional multipart "image" field and answers 400 for files
+// that are too large or not images
+export function uploadImage(req: Request, res: Response, next: NextFunction) {
+  upload.single("image")(req, res, (err: unknown) => {
+    if (err) {
+      return res.status(400).json({
+        message: "Invalid image",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    next();
+  });
+}
@@ -1,50 +1,269 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { z } from "zod";
-import { storage } from "./storage";
-import { insertBusinessSchema, insertEventSchema, insertSurveySchema, insertRewardItemSchema } from "@shared/schema";
+import { storage, CheckinError, RsvpError, RedemptionError, SurveyError, SessionError, TrashError } from "./storage";
+import { authenticateToken, clearRefreshCookie, readRefreshToken, refreshSession, startSession } from "./auth";
+import { audit } from "./audit";
+import { insertBusinessSchema, businessImportRequestSchema, insertEventSchema, eventCheckinSchema, eventRsvpRequestSchema, recurrenceRuleSchema, eventEditScopeSchema, insertSurveySchema, surveyResponseRequestSchema, insertRewardItemSchema, redemptionResolutionSchema, REDEMPTION_STATUSES, insertPromotionSchema, updateUserAdminSchema, pointsAdjustmentSchema, insertReceiptSchema, AUDIT_ENTITY_TYPES, TRASH_ENTITY_TYPES, businessListQuerySchema, eventListQuerySchema, surveyListQuerySchema, rewardItemListQuerySchema, promotionListQuerySchema, userListQuerySchema, type AuditEntityType, type TrashEntityType, type RedemptionStatus, type DateRange, type AnalyticsRange, type Granularity, type PeriodComparison } from "@shared/schema";
 import { supabase } from "./supabase";
-import jwt from "jsonwebtoken";
+import { planBusinessImport } from "./business-import";
+import { EXPORT_FORMATS, exportResources, sendExport, type ExportFormat, type ExportTable } from "./export";
+import { images, localImageDir, uploadImage, InvalidImageError, type ImageOwner, type StoredImage } from "./images";
+import { createCheckinCode, verifyCheckinPayload } from "./checkin-codes";
+import { expandRecurrence, formatRRule, resolveRecurrence, shiftWallTime } from "@shared/recurrence";
+import { toWallTime } from "@shared/timezone";
+import { businessScope, can, canSignIn, type Permission } from "@shared/permissions";
+import { TRASH_PERMISSIONS } from "@shared/trash";
 import postgres from "postgres";
-import multer from "multer";
-import { v4 as uuidv4 } from "uuid";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+// Runs after authenticateToken; refuses roles without the permission
+function requirePermission(permission: Permission) {
+  return (req: any, res: any, next: any) => {
+    if (!can(req.user?.role, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    next();
+  };
+}
+
+// The business the signed-in user is confined to, or undefined when they see
+// every business. Storage filters take undefined as "no filter".
+function scopedBusinessId(req: any): number | undefined {
+  return businessScope(req.user) ?? undefined;
+}
+
+// Whether a row belonging to businessId is visible to the signed-in user.
+// Out-of-scope rows are answered with 404 so their existence isn't revealed.
+function inScope(req: any, businessId: number | null | undefined): boolean {
+  const scope = scopedBusinessId(req);
+  return scope === undefined || businessId === scope;
+}
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+// Parse ?from=&to= ISO timestamps (to is exclusive); defaults to the last 30 days
+function parseDateRange(query: any): DateRange {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error("Invalid date range");
+  }
+  if (from >= to) {
+    throw new Error("'from' must be before 'to'");
+  }
+  return { from, to };
+}
+
+const GRANULARITIES: Granularity[] = ["day", "week", "month"];
+
+// Date range plus ?granularity=day|week|month for time-series buckets (default day)
+function parseAnalyticsRange(query: any): AnalyticsRange {
+  const granularity = query.granularity || "day";
+  if (!GRANULARITIES.includes(granularity)) {
+    throw new Error(`'granularity' must be one of ${GRANULARITIES.join(", ")}`);
+  }
+  return { ...parseDateRange(query), granularity };
+}
+
+// The period of equal length immediately before range
+function previousPeriod(range: AnalyticsRange): AnalyticsRange {
+  const length = range.to.getTime() - range.from.getTime();
+  return { ...range, from: new Date(range.from.getTime() - length), to: range.from };
+}
+
+// Registers GET endpoints under prefix that each take ?from=&to=&granularity=.
+// With ?compare=previous the response is a PeriodComparison against the
+// preceding period instead of the bare result. Endpoints receive the caller's
+// business scope alongside the range.
+function registerRangeEndpoints(
+  app: Express,
+  prefix: string,
+  permission: Permission,
+  endpoints: Record<string, (range: AnalyticsRange, businessId: number | undefined) => Promise<unknown>>,
+) {
+  for (const [path, fetchData] of Object.entries(endpoints)) {
+    app.get(`${prefix}/${path}`, authenticateToken, requirePermission(permission), async (req, res) => {
+      let range: AnalyticsRange;
+      try {
+        range = parseAnalyticsRange(req.query);
+        if (req.query.compare && req.query.compare !== "previous") {
+          throw new Error("'compare' must be 'previous'");
+        }
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid date range" });
+      }
+      try {
+        if (req.query.compare === "previous") {
+          const previousRange = previousPeriod(range);
+          const businessId = scopedBusinessId(req);
+          const [current, previous] = await Promise.all([
+            fetchData(range, businessId),
+            fetchData(previousRange, businessId),
+          ]);
+          const comparison: PeriodComparison<unknown> = {
+            current,
+            previous,
+            previousRange: { from: previousRange.from, to: previousRange.to },
+          };
+          return res.json(comparison);
+        }
+        const data = await fetchData(range, scopedBusinessId(req));
+        res.json(data);
+      } catch (error) {
+        console.error(`Analytics ${prefix}/${path} error:`, error);
+        res.status(500).json({ message: "Failed to fetch analytics" });
+      }
+    });
+  }
+}
+
+// Multipart bodies arrive as strings; coerce the event fields the schema
+// expects as numbers or nulls. Only fields present in the form are returned.
+function eventFieldsFromForm(body: Record<string, string>) {
+  const fields: Record<string, unknown> = { ...body };
+  for (const key of ["latitude", "longitude"]) {
+    if (key in body) fields[key] = body[key] ? parseFloat(body[key]) : null;
+  }
+  if ("checkinPoints" in body) fields.checkinPoints = parseInt(body.checkinPoints);
+  if ("capacity" in body) fields.capacity = body.capacity ? parseInt(body.capacity) : null;
+  for (const key of ["description", "organizerId", "rsvpDeadline"]) {
+    if (key in body) fields[key] = body[key] || null;
+  }
+  return fields;
+}
+
+// Occurrences of a series share one stored image. Returns the image to delete
+// once the events in `replacing` stop using it: nothing while any other event,
+// including one in the trash, still points at it.
+async function releasableEventImage(image: Partial<StoredImage>, replacing: number[]): Promise<Partial<StoredImage>> {
+  if (!image.imageUrl) return image;
+  const inUse = (await storage.getEvents({ includeTrashed: true })).some(
+    event => event.imageUrl === image.imageUrl && !replacing.includes(event.id)
+  );
+  return inUse ? {} : image;
+}
+
+// PUT <basePath>/:id/image uploads a replacement image (multipart "image");
+// DELETE removes it. Old objects are deleted from storage either way. Records
+// with a businessId are only reachable within the caller's business scope.
+function registerImageEndpoints<T extends Partial<StoredImage>>(
+  app: Express,
+  basePath: string,
+  owner: ImageOwner,
+  entityType: AuditEntityType,
+  label: string,
+  permission: Permission,
+  record: {
+    get: (id: number) => Promise<T | undefined>;
+    update: (id: number, image: StoredImage) => Promise<unknown>;
+    businessId?: (record: T) => number | null;
   },
-  fileFilter: (req, file, cb) => {
-    // Only allow image files
-    if (file.mimetype.startsWith('image/')) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed'));
+) {
+  const replace = (remove: boolean) => async (req: any, res: any) => {
+    try {
+      const id = parseInt(req.params.id);
+      const current = await record.get(id);
+      if (!current || (record.businessId && !inScope(req, record.businessId(current)))) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      if (!remove && !req.file) {
+        return res.status(400).json({ message: "Invalid image", error: "No image file provided" });
+      }
+      const data = remove ? null : req.file.buffer;
+      res.json(await images.replace(owner, id, data, current, image => record.update(id, image)));
+    } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: "Invalid image", error: error.message });
+      }
+      console.error(`${label} image error:`, error);
+      res.status(500).json({ message: remove ? "Failed to remove image" : "Failed to upload image" });
     }
-  },
-});
+  };
+
+  app.put(`${basePath}/:id/image`, authenticateToken, requirePermission(permission), audit(entityType, { action: "upload_image" }), uploadImage, replace(false));
+  app.delete(`${basePath}/:id/image`, authenticateToken, requirePermission(permission), audit(entityType, { action: "remove_image" }), replace(true));
+}
 
-// Middleware to verify JWT token
-function authenticateToken(req: any, res: any, next: any) {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+const TRASH_IMAGE_OWNERS: Partial<Record<TrashEntityType, ImageOwner>> = {
+  business: "businesses",
+  event: "events",
+  reward_item: "rewardItems",
+};
 
-  if (!token) {
-    return res.status(401).json({ message: 'Access token required' });
-  }
+// GET <basePath>/:id/delete-impact lists what deleting the entity would affect;
+// POST <basePath>/:id/restore takes it out of the trash and DELETE
+// <basePath>/:id/permanent deletes it for good, removing its stored images.
+// With scoped, business owners only reach entities of their own business.
+function registerTrashEndpoints(
+  app: Express,
+  basePath: string,
+  entityType: TrashEntityType,
+  label: string,
+  scoped = false,
+) {
+  const permission = TRASH_PERMISSIONS[entityType];
+  const scope = (req: any) => (scoped ? scopedBusinessId(req) : undefined);
+
+  app.get(`${basePath}/:id/delete-impact`, authenticateToken, requirePermission(permission), async (req, res) => {
+    try {
+      const impact = await storage.getDeleteImpact(entityType, parseInt(req.params.id), scope(req));
+      if (!impact) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      res.json(impact);
+    } catch (error) {
+      console.error(`${label} delete impact error:`, error);
+      res.status(500).json({ message: "Failed to check what deleting would affect" });
+    }
+  });
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
-      return res.status(403).json({ message: 'Invalid token' });
+  app.post(`${basePath}/:id/restore`, authenticateToken, requirePermission(permission), audit(entityType, { action: "restore" }), async (req, res) => {
+    try {
+      if (!(await storage.restoreFromTrash(entityType, parseInt(req.params.id), scope(req)))) {
+        return res.status(404).json({ message: `${label} not found in the trash` });
+      }
+      res.json({ message: `${label} restored` });
+    } catch (error) {
+      console.error(`${label} restore error:`, error);
+      res.status(500).json({ message: `Failed to restore ${label.toLowerCase()}` });
+    }
+  });
+
+  app.delete(`${basePath}/:id/permanent`, authenticateToken, requirePermission(permission), audit(entityType, { action: "purge" }), async (req, res) => {
+    try {
+      const purged = await storage.purgeFromTrash(entityType, parseInt(req.params.id), scope(req));
+      const owner = TRASH_IMAGE_OWNERS[entityType];
+      if (owner && "imageUrl" in purged) {
+        await images.remove(owner, entityType === "event" ? await releasableEventImage(purged, []) : purged);
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof TrashError) {
+        return res.status(error.status).json({ message: `Failed to delete ${label.toLowerCase()}`, error: error.message });
+      }
+      console.error(`${label} purge error:`, error);
+      res.status(500).json({ message: `Failed to delete ${label.toLowerCase()}` });
     }
-    req.user = user;
-    next();
   });
 }
 
 export async function registerRoutes(app: Express): Promise<void> {
+  app.get("/api/health", (req, res) => {
+    res.json({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      environment: {
+        nodeVersion: process.version,
+        hasSupabaseUrl: !!process.env.SUPABASE_URL,
+        hasSupabaseKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
+        hasDatabaseUrl: !!process.env.DATABASE_URL,
+        hasJwtSecret: !!process.env.JWT_SECRET
+      }
+    });
+  });
+
+  // Uploads kept on disk by the local image storage adapter
+  if (localImageDir) {
+    app.use("/uploads", express.static(localImageDir));
+  }
+
   // Authentication routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -71,24 +290,35 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Step 2: Check user role from Supabase user metadata
-      console.log('Step 2: Checking user role from metadata...');
-      const userRole = authData.user.user_metadata?.role || authData.user.app_metadata?.role;
-      console.log('User role from metadata:', userRole);
+      // Step 2: Check the user's role. The users row is the source of truth;
+      // app_metadata (only writable with the service key) covers accounts
+      // without one. Never user_metadata: any account can rewrite its own.
+      console.log('Step 2: Checking user role...');
+      const profile = await storage.getUser(authData.user.id);
+      const userRole = profile?.role ?? authData.user.app_metadata?.role;
+      console.log('User role:', userRole);
       
-      if (userRole !== "admin") {
-        console.log('❌ User does not have admin role');
+      if (!canSignIn(userRole)) {
+        console.log('❌ User role has no admin app access');
         return res.status(403).json({ message: "Admin access required" });
       }
 
-      console.log('✅ User has admin role - granting access');
+      // Business owners are confined to the business linked on their users row
+      const businessId = profile?.businessId ?? null;
+      if (userRole === "business" && businessId === null) {
+        console.log('❌ Business owner has no linked business');
+        return res.status(403).json({ message: "No business is linked to this account" });
+      }
+
+      console.log(`✅ User has ${userRole} role - granting access`);
 
-      // Step 3: Create JWT token for admin user
-      const token = jwt.sign({
+      // Step 3: Start a session; the refresh token goes out as a cookie
+      const token = await startSession(req, res, {
         id: authData.user.id,
-        email: authData.user.email,
-        role: userRole
-      }, JWT_SECRET, { expiresIn: '24h' });
+        email: authData.user.email!,
+        role: userRole,
+        businessId
+      });
       
       res.json({
         token,
@@ -96,6 +326,7 @@ export async function registerRoutes(app: Express): Promise<void> {
           id: authData.user.id,
           email: authData.user.email,
           role: userRole,
+          businessId,
           firstName: authData.user.user_metadata?.first_name || 'Admin',
           lastName: authData.user.user_metadata?.last_name || 'User'
         }
@@ -106,54 +337,183 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  // Dashboard analytics
-  app.get("/api/dashboard/stats", authenticateToken, async (req, res) => {
+  // Sign-in for the patron app. Unlike /api/auth/login any account may use
+  // it: the token reaches the routes that act for the signed-in user, such as
+  // /api/me/checkin-code, survey responses and reward redemption, plus
+  // whatever the account's role allows.
+  app.post("/api/auth/patron-login", async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const { email, password } = req.body;
+      const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+      if (authError || !authData.user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      // The role comes from the users row: Supabase lets any account rewrite
+      // its own user_metadata, so that can't be trusted with permissions
+      const profile = await storage.getUser(authData.user.id);
+      const user = {
+        id: authData.user.id,
+        email: authData.user.email!,
+        role: profile?.role ?? "patron",
+        businessId: profile?.businessId ?? null,
+      };
+      const token = await startSession(req, res, user);
+
+      res.json({
+        token,
+        user: {
+          ...user,
+          firstName: profile?.firstName ?? authData.user.user_metadata?.first_name ?? null,
+          lastName: profile?.lastName ?? authData.user.user_metadata?.last_name ?? null,
+        },
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+      console.error("Patron login error:", error);
+      res.status(500).json({ message: "Login failed" });
     }
   });
 
+  // Swaps the refresh cookie for a new access token (and a new cookie)
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { token, user } = await refreshSession(req, res);
+      res.json({ token, user: { id: user.id, email: user.email, role: user.role, businessId: user.businessId } });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        clearRefreshCookie(res);
+        return res.status(error.status).json({ message: "Session expired", error: error.message });
+      }
+      console.error("Token refresh error:", error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
 
-  app.get("/api/analytics/event-rsvp-trends", authenticateToken, async (req, res) => {
+  // Ends the session behind the refresh cookie. Works with an expired access
+  // token, so signing out always succeeds.
+  app.post("/api/auth/logout", async (req, res) => {
     try {
-      const data = await storage.getEventRsvpTrends();
-      res.json(data);
+      const presented = readRefreshToken(req);
+      if (presented) await storage.deleteSession(presented.sid);
+      clearRefreshCookie(res);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch RSVP trends" });
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Failed to sign out" });
     }
   });
 
-  app.get("/api/analytics/reward-redemption-trends", authenticateToken, async (req, res) => {
+  // Ends every session of the signed-in user, this one included
+  app.post("/api/auth/logout-all", authenticateToken, async (req, res) => {
     try {
-      const data = await storage.getRewardRedemptionTrends();
-      res.json(data);
+      const ended = await storage.deleteUserSessions((req as any).user.id);
+      clearRefreshCookie(res);
+      res.json({ ended });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch redemption trends" });
+      console.error("Logout everywhere error:", error);
+      res.status(500).json({ message: "Failed to sign out everywhere" });
     }
   });
 
-  app.get("/api/analytics/survey-response-distribution", authenticateToken, async (req, res) => {
+  // Dashboard analytics
+  registerRangeEndpoints(app, "/api/dashboard", "analytics:view", {
+    stats: (range) => storage.getDashboardStats(range),
+  });
+
+  registerRangeEndpoints(app, "/api/analytics", "analytics:view", {
+    "event-rsvp-trends": (range) => storage.getEventRsvpTrends(range),
+    "survey-response-distribution": (range) => storage.getSurveyResponseDistribution(range),
+    "checkins-by-event": (range) => storage.getCheckinsByEvent(range),
+  });
+
+  // Business owners see the trend for their own reward items
+  registerRangeEndpoints(app, "/api/analytics", "redemptions:view", {
+    "reward-redemption-trends": (range, businessId) => storage.getRewardRedemptionTrends(range, businessId),
+  });
+
+  // Sales analytics
+  registerRangeEndpoints(app, "/api/analytics/sales", "analytics:view", {
+    summary: (range) => storage.getSalesSummary(range),
+    daily: (range) => storage.getDailyRevenue(range),
+    categories: (range) => storage.getRevenueByCategory(range),
+    businesses: (range) => storage.getTopBusinessesByRevenue(range),
+    "payment-methods": (range) => storage.getRevenueByPaymentMethod(range),
+    hourly: (range) => storage.getHourlySpending(range),
+  });
+
+  // Geographic analytics
+  registerRangeEndpoints(app, "/api/analytics/geographic", "analytics:view", {
+    hourly: (range) => storage.getCheckinsByHour(range),
+    weekday: (range) => storage.getCheckinsByWeekday(range),
+    origins: (range) => storage.getVisitorOrigins(range),
+    hotspots: (range) => storage.getHotspots(range),
+  });
+
+  // Spreadsheet exports
+  app.get("/api/export/:resource", authenticateToken, requirePermission("exports:download"), async (req, res) => {
+    const resource = exportResources[req.params.resource];
+    if (!resource) {
+      return res.status(404).json({ message: `Unknown export resource: ${req.params.resource}` });
+    }
+    if (!can((req as any).user.role, resource.permission)) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+
+    const format = (req.query.format || "csv") as ExportFormat;
+    let buildTable: () => Promise<ExportTable>;
     try {
-      const data = await storage.getSurveyResponseDistribution();
-      res.json(data);
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw new Error(`'format' must be one of ${EXPORT_FORMATS.join(", ")}`);
+      }
+      const range = resource.alwaysRanged || req.query.from || req.query.to
+        ? parseAnalyticsRange(req.query)
+        : undefined;
+      buildTable = resource.prepare(req.query, range);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch survey data" });
+      const message = error instanceof z.ZodError
+        ? error.errors.map(e => e.message).join(", ")
+        : error instanceof Error ? error.message : String(error);
+      return res.status(400).json({ message: "Invalid export request", error: message });
+    }
+
+    try {
+      const table = await buildTable();
+      const date = new Date().toISOString().slice(0, 10);
+      await sendExport(res, `${req.params.resource}-${date}`, format, table);
+    } catch (error) {
+      console.error(`Export ${req.params.resource} error:`, error);
+      // Headers are already gone once streaming has started
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: "Failed to export data" });
+      }
     }
   });
 
-  app.get("/api/analytics/checkins-by-event", authenticateToken, async (req, res) => {
+  app.post("/api/receipts", authenticateToken, requirePermission("receipts:create"), audit("receipt"), async (req, res) => {
     try {
-      const data = await storage.getCheckinsByEvent();
-      res.json(data);
+      const receiptData = insertReceiptSchema.parse(req.body);
+      const business = await storage.getBusiness(receiptData.businessId);
+      if (!business) {
+        return res.status(400).json({ message: "Invalid receipt data", error: "Business not found" });
+      }
+      const receipt = await storage.createReceipt(receiptData);
+      res.status(201).json(receipt);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch checkins by event data" });
+      console.error('Receipt create error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: "Invalid receipt data", error: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid receipt data", error: String(error) });
+      }
     }
   });
 
-  app.get("/api/dashboard/recent-activity", authenticateToken, async (req, res) => {
+  app.get("/api/dashboard/recent-activity", authenticateToken, requirePermission("analytics:view"), async (req, res) => {
     try {
       const data = await storage.getRecentActivity();
       res.json(data);
@@ -162,7 +522,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/surveys/:id/analytics", authenticateToken, async (req, res) => {
+  app.get("/api/surveys/:id/analytics", authenticateToken, requirePermission("surveys:view"), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
       if (isNaN(surveyId)) {
@@ -180,7 +540,17 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.get("/api/events/rsvp-counts", authenticateToken, async (req, res) => {
+  app.get("/api/events/series", authenticateToken, requirePermission("events:view"), async (req, res) => {
+    try {
+      const series = await storage.getEventSeries();
+      res.json(series);
+    } catch (error) {
+      console.error("Event series error:", error);
+      res.status(500).json({ message: "Failed to fetch event series" });
+    }
+  });
+
+  app.get("/api/events/rsvp-counts", authenticateToken, requirePermission("events:view"), async (req, res) => {
     try {
       const data = await storage.getEventRsvpCounts();
       res.json(data);
@@ -193,20 +563,219 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Users routes
+  app.get("/api/users", authenticateToken, requirePermission("users:view"), async (req, res) => {
+    try {
+      const result = await storage.getUsers(userListQuerySchema.parse(req.query));
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", error: error.errors.map(e => e.message).join(", ") });
+      }
+      console.error("Users fetch error:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/users/:id", authenticateToken, requirePermission("users:view"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const activity = await storage.getUserActivity(user.id);
+      res.json({ ...user, activity });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.put("/api/users/:id", authenticateToken, requirePermission("users:manage"), audit("user"), async (req, res) => {
+    try {
+      const userData = updateUserAdminSchema.parse(req.body);
+
+      if (userData.businessId) {
+        const business = await storage.getBusiness(userData.businessId);
+        if (!business) {
+          return res.status(400).json({ message: "Invalid user data", error: "Business not found" });
+        }
+      }
+
+      // Check the local row first so a missing user can't leave Supabase Auth
+      // changed and the users table not
+      const before = await storage.getUser(req.params.id);
+      if (!before) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Mirror the role to Supabase app_metadata, which users can't edit
+      // themselves, for anything reading it from the Supabase session
+      const { data: authUser, error: getError } = await supabase.auth.admin.getUserById(req.params.id);
+      if (getError || !authUser.user) {
+        return res.status(404).json({ message: "User not found in Supabase Auth" });
+      }
+      const { error: authError } = await supabase.auth.admin.updateUserById(req.params.id, {
+        ...(userData.role ? { app_metadata: { ...authUser.user.app_metadata, role: userData.role } } : {}),
+        ...(userData.isSuspended !== undefined ? { ban_duration: userData.isSuspended ? "876000h" : "none" } : {}),
+      });
+      if (authError) {
+        console.error("Supabase user sync error:", authError);
+        return res.status(502).json({ message: "Failed to sync user with Supabase Auth", error: authError.message });
+      }
+
+      const user = await storage.updateUser(req.params.id, userData);
+      // Open sessions carry the old role and business; sign the user out so
+      // the change applies from their next login
+      if (user.isSuspended || user.role !== before.role || user.businessId !== before.businessId) {
+        await storage.deleteUserSessions(req.params.id);
+      }
+      res.json(user);
+    } catch (error) {
+      console.error('User update error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: "Invalid user data", error: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid user data", error: String(error) });
+      }
+    }
+  });
+
+  // Where the user is signed in to the admin app
+  app.get("/api/users/:id/sessions", authenticateToken, requirePermission("users:manage"), async (req, res) => {
+    try {
+      res.json(await storage.getUserSessions(req.params.id));
+    } catch (error) {
+      console.error("User sessions error:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions", authenticateToken, requirePermission("users:manage"), audit("user", { action: "end_sessions", recordResponse: true }), async (req, res) => {
+    try {
+      const ended = await storage.deleteUserSessions(req.params.id);
+      res.json({ ended });
+    } catch (error) {
+      console.error("Revoke sessions error:", error);
+      res.status(500).json({ message: "Failed to sign out user" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions/:sid", authenticateToken, requirePermission("users:manage"), audit("user", { action: "end_session", recordResponse: true }), async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.sid);
+      if (!session || session.userId !== req.params.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await storage.deleteSession(session.sid);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Failed to end session" });
+    }
+  });
+
+  // Signed QR code a patron shows at the door; the payload is the same for every event
+  app.get("/api/users/:id/checkin-code", authenticateToken, requirePermission("users:view"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await createCheckinCode(user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create check-in code" });
+    }
+  });
+
+  // The signed-in user's own check-in code, for the patron app
+  app.get("/api/me/checkin-code", authenticateToken, async (req, res) => {
+    try {
+      res.json(await createCheckinCode((req as any).user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create check-in code" });
+    }
+  });
+
+  // Points ledger routes
+  app.get("/api/users/:id/points", authenticateToken, requirePermission("users:view"), async (req, res) => {
+    try {
+      const balance = await storage.getUserPointsBalance(req.params.id);
+      res.json(balance);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch points balance" });
+    }
+  });
+
+  app.get("/api/users/:id/ledger", authenticateToken, requirePermission("users:view"), async (req, res) => {
+    try {
+      const ledger = await storage.getUserPointsLedger(req.params.id);
+      res.json(ledger);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch points ledger" });
+    }
+  });
+
+  // Surveys the user can answer now: open, targeted at them and unanswered
+  app.get("/api/users/:id/surveys", authenticateToken, requirePermission("users:view"), async (req, res) => {
+    try {
+      const surveys = await storage.getAvailableSurveys(req.params.id);
+      res.json(surveys);
+    } catch (error) {
+      console.error('Available surveys error:', error);
+      res.status(500).json({ message: "Failed to fetch available surveys" });
+    }
+  });
+
+  app.post("/api/users/:id/points/adjustments", authenticateToken, requirePermission("users:manage"), audit("user", { action: "adjust_points", recordResponse: true }), async (req, res) => {
+    try {
+      const { points, reason } = pointsAdjustmentSchema.parse(req.body);
+      const reward = await storage.createPointsAdjustment(req.params.id, points, reason, (req as any).user?.email);
+      res.status(201).json(reward);
+    } catch (error) {
+      console.error('Points adjustment error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: "Invalid points adjustment", error: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid points adjustment", error: String(error) });
+      }
+    }
+  });
+
   // Businesses routes
-  app.get("/api/businesses", authenticateToken, async (req, res) => {
+  app.get("/api/businesses", authenticateToken, requirePermission("businesses:view"), async (req, res) => {
+    try {
+      const query = businessListQuerySchema.parse(req.query);
+      res.json(await storage.listBusinesses(query, scopedBusinessId(req)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", error: error.errors.map(e => e.message).join(", ") });
+      }
+      res.status(500).json({ message: "Failed to fetch businesses" });
+    }
+  });
+
+  // Every business, unpaginated, for pickers and the map
+  app.get("/api/businesses/all", authenticateToken, requirePermission("businesses:view"), async (req, res) => {
     try {
       const businesses = await storage.getBusinesses();
-      res.json(businesses);
+      res.json(businesses.filter(business => inScope(req, business.id)));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch businesses" });
     }
   });
 
-  app.get("/api/businesses/:id", authenticateToken, async (req, res) => {
+  app.get("/api/businesses/categories", authenticateToken, requirePermission("businesses:view"), async (req, res) => {
+    try {
+      res.json(await storage.getBusinessCategories());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch business categories" });
+    }
+  });
+
+  app.get("/api/businesses/:id", authenticateToken, requirePermission("businesses:view"), async (req, res) => {
     try {
       const business = await storage.getBusiness(parseInt(req.params.id));
-      if (!business) {
+      if (!business || !inScope(req, business.id)) {
         return res.status(404).json({ message: "Business not found" });
       }
       res.json(business);
@@ -215,7 +784,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/businesses", authenticateToken, async (req, res) => {
+  app.post("/api/businesses", authenticateToken, requirePermission("businesses:manage"), audit("business"), async (req, res) => {
     try {
       const businessData = insertBusinessSchema.parse(req.body);
       const business = await storage.createBusiness(businessData);
@@ -225,8 +794,42 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/businesses/:id", authenticateToken, async (req, res) => {
+  // Bulk CSV import: preview validates and classifies rows without writing;
+  // the commit re-plans against current data and applies it in one transaction
+  app.post("/api/businesses/import/preview", authenticateToken, requirePermission("businesses:manage"), async (req, res) => {
     try {
+      const request = businessImportRequestSchema.parse(req.body);
+      const plan = planBusinessImport(request, await storage.getBusinesses());
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import data", error: error.errors.map(e => e.message).join(", ") });
+      }
+      console.error('Business import preview error:', error);
+      res.status(500).json({ message: "Failed to preview import" });
+    }
+  });
+
+  app.post("/api/businesses/import", authenticateToken, requirePermission("businesses:manage"), audit("business", { action: "import" }), async (req, res) => {
+    try {
+      const request = businessImportRequestSchema.parse(req.body);
+      const plan = planBusinessImport(request, await storage.getBusinesses());
+      const summary = await storage.importBusinesses(plan);
+      res.status(201).json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import data", error: error.errors.map(e => e.message).join(", ") });
+      }
+      console.error('Business import error:', error);
+      res.status(500).json({ message: "Failed to import businesses", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/businesses/:id", authenticateToken, requirePermission("businesses:edit"), audit("business"), async (req, res) => {
+    try {
+      if (!inScope(req, parseInt(req.params.id)) || !(await storage.getBusiness(parseInt(req.params.id)))) {
+        return res.status(404).json({ message: "Business not found" });
+      }
       const businessData = insertBusinessSchema.partial().parse(req.body);
       const business = await storage.updateBusiness(parseInt(req.params.id), businessData);
       res.json(business);
@@ -235,7 +838,8 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/businesses/:id", authenticateToken, async (req, res) => {
+  // Moves the business to the trash; its image stays until it's deleted permanently
+  app.delete("/api/businesses/:id", authenticateToken, requirePermission("businesses:manage"), audit("business"), async (req, res) => {
     try {
       await storage.deleteBusiness(parseInt(req.params.id));
       res.status(204).send();
@@ -244,17 +848,36 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  registerImageEndpoints(app, "/api/businesses", "businesses", "business", "Business", "businesses:edit", {
+    get: id => storage.getBusiness(id),
+    update: (id, image) => storage.updateBusiness(id, image),
+    businessId: business => business.id,
+  });
+
+  registerTrashEndpoints(app, "/api/businesses", "business", "Business", true);
+
   // Events routes
-  app.get("/api/events", authenticateToken, async (req, res) => {
+  app.get("/api/events", authenticateToken, requirePermission("events:view"), async (req, res) => {
     try {
-      const events = await storage.getEvents();
-      res.json(events);
+      res.json(await storage.listEvents(eventListQuerySchema.parse(req.query)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", error: error.errors.map(e => e.message).join(", ") });
+      }
+      res.status(500).json({ message: "Failed to fetch events" });
+    }
+  });
+
+  // Every event, unpaginated, for pickers
+  app.get("/api/events/all", authenticateToken, requirePermission("events:view"), async (req, res) => {
+    try {
+      res.json(await storage.getEvents());
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch events" });
     }
   });
 
-  app.get("/api/events/:id", authenticateToken, async (req, res) => {
+  app.get("/api/events/:id", authenticateToken, requirePermission("events:view"), async (req, res) => {
     try {
       const event = await storage.getEvent(parseInt(req.params.id));
       if (!event) {
@@ -266,7 +889,74 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/events", authenticateToken, upload.single('image'), async (req, res) => {
+  app.get("/api/events/:id/attendees", authenticateToken, requirePermission("events:view"), async (req, res) => {
+    try {
+      const roster = await storage.getEventAttendees(parseInt(req.params.id));
+      if (!roster) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(roster);
+    } catch (error) {
+      console.error('Event attendees error:', error);
+      res.status(500).json({ message: "Failed to fetch attendees" });
+    }
+  });
+
+  // RSVPs past capacity join the waitlist; the response's status says which
+  app.post("/api/events/:id/rsvps", authenticateToken, requirePermission("engagement:record"), audit("event", { action: "rsvp", recordResponse: true }), async (req, res) => {
+    try {
+      const { userId } = eventRsvpRequestSchema.parse(req.body);
+      const rsvp = await storage.rsvpToEvent(parseInt(req.params.id), userId);
+      res.status(201).json(rsvp);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid RSVP", error: error.errors.map(e => e.message).join(", ") });
+      }
+      if (error instanceof RsvpError) {
+        return res.status(error.status).json({ message: "RSVP failed", error: error.message });
+      }
+      console.error('Event RSVP error:', error);
+      res.status(500).json({ message: "Failed to RSVP" });
+    }
+  });
+
+  // Cancelling a confirmed RSVP promotes the next waitlisted one
+  app.delete("/api/events/:id/rsvps/:userId", authenticateToken, requirePermission("engagement:record"), audit("event", { action: "cancel_rsvp", recordResponse: true }), async (req, res) => {
+    try {
+      const result = await storage.cancelEventRsvp(parseInt(req.params.id), req.params.userId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof RsvpError) {
+        return res.status(error.status).json({ message: "Failed to cancel RSVP", error: error.message });
+      }
+      console.error('Cancel RSVP error:', error);
+      res.status(500).json({ message: "Failed to cancel RSVP" });
+    }
+  });
+
+  // Door check-in by attendee (manual) or by scanned QR payload
+  app.post("/api/events/:id/checkins", authenticateToken, requirePermission("engagement:record"), audit("event", { action: "checkin", recordResponse: true }), async (req, res) => {
+    try {
+      const request = eventCheckinSchema.parse(req.body);
+      const userId = request.qrPayload ? verifyCheckinPayload(request.qrPayload) : request.userId!;
+      if (!userId) {
+        return res.status(400).json({ message: "Check-in failed", error: "This QR code is not a valid check-in code" });
+      }
+      const result = await storage.checkInToEvent(parseInt(req.params.id), userId);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid check-in", error: error.errors.map(e => e.message).join(", ") });
+      }
+      if (error instanceof CheckinError) {
+        return res.status(error.status).json({ message: "Check-in failed", error: error.message });
+      }
+      console.error('Event check-in error:', error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
+  app.post("/api/events", authenticateToken, requirePermission("events:manage"), audit("event"), uploadImage, async (req, res) => {
     try {
       console.log('=== EVENT CREATE REQUEST ===');
       console.log('Request body:', JSON.stringify(req.body, null, 2));
@@ -278,12 +968,8 @@ export async function registerRoutes(app: Express): Promise<void> {
       console.log('User from token:', (req as any).user);
       console.log('Authentication successful for user:', (req as any).user?.email);
       
-      // Validate the eventDate field specifically
       if (req.body.eventDate) {
         console.log('Event date received:', req.body.eventDate);
-        const testDate = new Date(req.body.eventDate);
-        console.log('Parsed date valid:', !isNaN(testDate.getTime()));
-        console.log('ISO string format:', testDate.toISOString());
       }
       
       // Use schema validation exactly like UPDATE route does
@@ -292,7 +978,12 @@ export async function registerRoutes(app: Express): Promise<void> {
         description: req.body.description || null,
         eventDate: req.body.eventDate, // Let schema handle the conversion
         location: req.body.location,
+        latitude: req.body.latitude ? parseFloat(req.body.latitude) : null,
+        longitude: req.body.longitude ? parseFloat(req.body.longitude) : null,
         organizerId: req.body.organizerId || null,
+        checkinPoints: req.body.checkinPoints ? parseInt(req.body.checkinPoints) : undefined,
+        capacity: req.body.capacity ? parseInt(req.body.capacity) : null,
+        rsvpDeadline: req.body.rsvpDeadline || null,
         imageUrl: null // Will be updated after image upload
       };
       
@@ -300,64 +991,50 @@ export async function registerRoutes(app: Express): Promise<void> {
       const eventData = insertEventSchema.parse(eventDataWithoutImage);
       console.log('✅ Schema validation passed');
       console.log('Parsed event data:', JSON.stringify(eventData, null, 2));
-      
-      // Step 1: Create event in database first
-      const event = await storage.createEvent(eventData);
-      console.log('✅ Database insert successful');
-      console.log('Created event with ID:', event.id);
 
-      // Step 2: If there's an image, upload it to folder named with event ID
+      // A recurrence rule (JSON, multipart-safe) expands into one event per
+      // occurrence linked by a series
+      let event;
+      if (req.body.recurrence) {
+        const rule = recurrenceRuleSchema.parse(JSON.parse(req.body.recurrence));
+        const start = toWallTime(eventData.eventDate);
+        const dates = expandRecurrence(start, rule);
+        if (dates.length === 0) {
+          return res.status(400).json({ message: "Invalid event data", error: "The recurrence rule has no occurrences" });
+        }
+        // Each occurrence's RSVP deadline keeps the first one's lead time
+        const deadline = eventData.rsvpDeadline ? toWallTime(eventData.rsvpDeadline) : null;
+        const occurrences = dates.map(eventDate => insertEventSchema.parse({
+          ...eventDataWithoutImage,
+          eventDate,
+          rsvpDeadline: deadline && shiftWallTime(eventDate, start, deadline),
+        }));
+        [event] = await storage.createEventSeries(formatRRule(resolveRecurrence(start, rule)), occurrences);
+        console.log(`✅ Created series ${event.seriesId} with ${occurrences.length} occurrences`);
+      } else {
+        // Step 1: Create event in database first
+        event = await storage.createEvent(eventData);
+        console.log('✅ Database insert successful');
+        console.log('Created event with ID:', event.id);
+      }
+
+      // Step 2: If there's an image, resize it and store it in a folder named
+      // with the (first) event ID; a series shares it across occurrences
       if (req.file) {
         try {
-          console.log('Uploading image to event folder...');
-          
-          // Generate filename with extension
-          const fileExtension = req.file.originalname.split('.').pop();
-          const fileName = `${uuidv4()}.${fileExtension}`;
-          const filePath = `${event.id}/${fileName}`;
-
-          console.log('Uploading to Supabase storage:', filePath);
-
-          // Upload to Supabase Storage in event-specific folder
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('event_images')
-            .upload(filePath, req.file.buffer, {
-              contentType: req.file.mimetype,
-              upsert: false
-            });
-
-          if (uploadError) {
-            console.error('Supabase storage error:', uploadError);
-            // Return event without image if upload fails
-            return res.status(201).json({
-              ...event,
-              uploadWarning: "Event created but image upload failed: " + uploadError.message
-            });
-          }
-
-          console.log('Upload successful:', uploadData);
-
-          // Get the public URL
-          const { data: urlData } = supabase.storage
-            .from('event_images')
-            .getPublicUrl(filePath);
-
-          console.log('Public URL generated:', urlData.publicUrl);
-
-          // Step 3: Update event with image URL
-          const updatedEvent = await storage.updateEvent(event.id, {
-            imageUrl: urlData.publicUrl
-          });
-
+          const created = event;
+          const [updatedEvent] = await images.replace("events", created.id, req.file.buffer, {}, image =>
+            storage.updateEventOccurrences(created.id, image, "all")
+          );
           console.log('✅ Event updated with image URL');
           return res.status(201).json(updatedEvent);
-
         } catch (imageError) {
           console.error('Error handling image upload:', imageError);
           // Return event without image if upload fails
           return res.status(201).json({
             ...event,
-            uploadWarning: "Event created but image upload failed"
+            uploadWarning: "Event created but image upload failed: " +
+              (imageError instanceof Error ? imageError.message : String(imageError))
           });
         }
       }
@@ -389,27 +1066,42 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/events/:id", authenticateToken, async (req, res) => {
+  // Accepts JSON, or multipart with an optional "image" file; removeImage=true clears the image.
+  // For a recurring event, ?scope=this|following|all picks the occurrences changed.
+  app.put("/api/events/:id", authenticateToken, requirePermission("events:manage"), audit("event"), uploadImage, async (req, res) => {
     try {
       console.log('=== EVENT UPDATE REQUEST ===');
       console.log('Event ID:', req.params.id);
       console.log('Request body:', JSON.stringify(req.body, null, 2));
       console.log('User from token:', (req as any).user?.email);
       
-      // Validate the eventDate field specifically
       if (req.body.eventDate) {
         console.log('Event date received:', req.body.eventDate);
-        const testDate = new Date(req.body.eventDate);
-        console.log('Parsed date valid:', !isNaN(testDate.getTime()));
-        console.log('ISO string format:', testDate.toISOString());
       }
       
-      const eventData = insertEventSchema.partial().parse(req.body);
+      const id = parseInt(req.params.id);
+      const existing = await storage.getEvent(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const scope = eventEditScopeSchema.parse(req.query.scope);
+      const body = req.is("multipart/form-data") ? eventFieldsFromForm(req.body) : req.body;
+      const eventData = insertEventSchema.partial().parse(body);
       console.log('✅ Schema validation passed');
       console.log('Parsed event data:', JSON.stringify(eventData, null, 2));
       
-      const event = await storage.updateEvent(parseInt(req.params.id), eventData);
-      console.log('✅ Database update successful');
+      let updated = await storage.updateEventOccurrences(id, eventData, scope);
+      console.log(`✅ Database update successful (${updated.length} occurrence(s))`);
+
+      const removeImage = body.removeImage === true || body.removeImage === "true";
+      if (req.file || removeImage) {
+        const replaced = await releasableEventImage(existing, updated.map(e => e.id));
+        updated = await images.replace("events", id, req.file?.buffer ?? null, replaced, image =>
+          storage.updateEventOccurrences(id, image, scope)
+        );
+      }
+      const event = updated.find(e => e.id === id);
       console.log('Updated event:', JSON.stringify(event, null, 2));
       
       res.json(event);
@@ -438,27 +1130,44 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/events/:id", authenticateToken, async (req, res) => {
+  registerImageEndpoints(app, "/api/events", "events", "event", "Event", "events:manage", {
+    get: async id => {
+      const event = await storage.getEvent(id);
+      return event && releasableEventImage(event, [id]);
+    },
+    update: (id, image) => storage.updateEvent(id, image),
+  });
+
+  // ?scope=this|following|all moves occurrences of a recurring event to the trash
+  app.delete("/api/events/:id", authenticateToken, requirePermission("events:manage"), audit("event"), async (req, res) => {
     try {
-      await storage.deleteEvent(parseInt(req.params.id));
+      const scope = eventEditScopeSchema.parse(req.query.scope);
+      await storage.deleteEventOccurrences(parseInt(req.params.id), scope);
       res.status(204).send();
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid scope", error: error.errors.map(e => e.message).join(", ") });
+      }
       res.status(500).json({ message: "Failed to delete event" });
     }
   });
 
+  registerTrashEndpoints(app, "/api/events", "event", "Event");
+
 
   // Surveys routes
-  app.get("/api/surveys", authenticateToken, async (req, res) => {
+  app.get("/api/surveys", authenticateToken, requirePermission("surveys:view"), async (req, res) => {
     try {
-      const surveys = await storage.getSurveys();
-      res.json(surveys);
+      res.json(await storage.listSurveys(surveyListQuerySchema.parse(req.query)));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", error: error.errors.map(e => e.message).join(", ") });
+      }
       res.status(500).json({ message: "Failed to fetch surveys" });
     }
   });
 
-  app.get("/api/surveys/:id", authenticateToken, async (req, res) => {
+  app.get("/api/surveys/:id", authenticateToken, requirePermission("surveys:view"), async (req, res) => {
     try {
       const survey = await storage.getSurvey(parseInt(req.params.id));
       if (!survey) {
@@ -470,7 +1179,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/surveys", authenticateToken, async (req, res) => {
+  app.post("/api/surveys", authenticateToken, requirePermission("surveys:manage"), audit("survey"), async (req, res) => {
     try {
       console.log('=== SURVEY CREATE REQUEST ===');
       console.log('Request body:', JSON.stringify(req.body, null, 2));
@@ -492,7 +1201,44 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/surveys/:id", authenticateToken, async (req, res) => {
+  // Every version of the survey's questions, and which questions have responses
+  app.get("/api/surveys/:id/versions", authenticateToken, requirePermission("surveys:view"), async (req, res) => {
+    try {
+      const history = await storage.getSurveyVersionHistory(parseInt(req.params.id));
+      if (!history) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      console.error('Survey versions error:', error);
+      res.status(500).json({ message: "Failed to fetch survey versions" });
+    }
+  });
+
+  const submitSurveyResponse = (surveyId: (req: any) => string, userId: (req: any) => string) => async (req: any, res: any) => {
+    try {
+      const { answers } = surveyResponseRequestSchema.parse(req.body);
+      const response = await storage.submitSurveyResponse(parseInt(surveyId(req)), userId(req), answers);
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid survey response", error: error.errors.map(e => e.message).join(", ") });
+      }
+      if (error instanceof SurveyError) {
+        return res.status(error.status).json({ message: "Survey response rejected", error: error.message });
+      }
+      console.error('Survey response error:', error);
+      res.status(500).json({ message: "Failed to submit survey response" });
+    }
+  };
+
+  // The signed-in user answering for themselves, e.g. from the patron app
+  app.post("/api/surveys/:id/responses", authenticateToken, audit("survey", { action: "respond", recordResponse: true }), submitSurveyResponse(req => req.params.id, req => req.user.id));
+
+  // Staff entering a patron's answers on their behalf, e.g. from a paper form
+  app.post("/api/users/:id/surveys/:surveyId/responses", authenticateToken, requirePermission("engagement:record"), audit("survey", { action: "respond", ids: req => [req.params.surveyId], recordResponse: true }), submitSurveyResponse(req => req.params.surveyId, req => req.params.id));
+
+  app.put("/api/surveys/:id", authenticateToken, requirePermission("surveys:manage"), audit("survey"), async (req, res) => {
     try {
       console.log('=== SURVEY UPDATE REQUEST ===');
       console.log('Survey ID:', req.params.id);
@@ -507,7 +1253,9 @@ export async function registerRoutes(app: Express): Promise<void> {
       res.json(survey);
     } catch (error) {
       console.error('Survey update error:', error);
-      if (error instanceof Error) {
+      if (error instanceof SurveyError) {
+        res.status(error.status).json({ message: "Invalid survey data", error: error.message });
+      } else if (error instanceof Error) {
         res.status(400).json({ message: "Invalid survey data", error: error.message });
       } else {
         res.status(400).json({ message: "Invalid survey data", error: String(error) });
@@ -515,7 +1263,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/surveys/:id", authenticateToken, async (req, res) => {
+  app.delete("/api/surveys/:id", authenticateToken, requirePermission("surveys:manage"), audit("survey"), async (req, res) => {
     try {
       await storage.deleteSurvey(parseInt(req.params.id));
       res.status(204).send();
@@ -524,27 +1272,39 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  registerTrashEndpoints(app, "/api/surveys", "survey", "Survey");
+
   // Reward Items routes
-  app.get("/api/reward-items", authenticateToken, async (req, res) => {
+  app.get("/api/reward-items", authenticateToken, requirePermission("rewards:view"), async (req, res) => {
     try {
-      console.log('=== REWARD ITEMS GET REQUEST ===');
-      console.log('Fetching reward items from Supabase database...');
-      
-      const rewardItems = await storage.getRewardItems();
-      console.log('Retrieved reward items count:', rewardItems.length);
-      console.log('Reward items data:', JSON.stringify(rewardItems, null, 2));
-      
-      res.json(rewardItems);
+      const query = rewardItemListQuerySchema.parse(req.query);
+      if (query.businessId !== undefined && !inScope(req, query.businessId)) {
+        return res.json({ items: [], total: 0, page: query.page, pageSize: query.pageSize });
+      }
+      res.json(await storage.listRewardItems({ ...query, businessId: query.businessId ?? scopedBusinessId(req) }));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", error: error.errors.map(e => e.message).join(", ") });
+      }
       console.error('❌ Failed to fetch reward items:', error);
       res.status(500).json({ message: "Failed to fetch reward items" });
     }
   });
 
-  app.get("/api/reward-items/:id", authenticateToken, async (req, res) => {
+  // Redemption counts and remaining stock per item
+  app.get("/api/reward-items/stock", authenticateToken, requirePermission("rewards:view"), async (req, res) => {
+    try {
+      res.json(await storage.getRewardItemStock({ businessId: scopedBusinessId(req) }));
+    } catch (error) {
+      console.error('Reward item stock error:', error);
+      res.status(500).json({ message: "Failed to fetch reward stock" });
+    }
+  });
+
+  app.get("/api/reward-items/:id", authenticateToken, requirePermission("rewards:view"), async (req, res) => {
     try {
       const rewardItem = await storage.getRewardItem(parseInt(req.params.id));
-      if (!rewardItem) {
+      if (!rewardItem || !inScope(req, rewardItem.businessId)) {
         return res.status(404).json({ message: "Reward item not found" });
       }
       res.json(rewardItem);
@@ -553,13 +1313,17 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.post("/api/reward-items", authenticateToken, async (req, res) => {
+  app.post("/api/reward-items", authenticateToken, requirePermission("rewards:manage"), audit("reward_item"), async (req, res) => {
     try {
       console.log('=== REWARD ITEM CREATE REQUEST ===');
       console.log('Request body:', JSON.stringify(req.body, null, 2));
       console.log('Database URL being used:', process.env.DATABASE_URL?.substring(0, 50) + '...');
       
-      const rewardItemData = insertRewardItemSchema.parse(req.body);
+      // Business owners can only offer rewards at their own business
+      const rewardItemData = {
+        ...insertRewardItemSchema.parse(req.body),
+        ...(scopedBusinessId(req) !== undefined ? { businessId: scopedBusinessId(req) } : {}),
+      };
       console.log('Parsed reward item data:', JSON.stringify(rewardItemData, null, 2));
       
       const rewardItem = await storage.createRewardItem(rewardItemData);
@@ -577,12 +1341,17 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.put("/api/reward-items/:id", authenticateToken, async (req, res) => {
+  app.put("/api/reward-items/:id", authenticateToken, requirePermission("rewards:manage"), audit("reward_item"), async (req, res) => {
     try {
       console.log('=== REWARD ITEM UPDATE REQUEST ===');
       console.log('Reward item ID:', req.params.id);
       console.log('Request body:', JSON.stringify(req.body, null, 2));
       console.log('User from token:', (req as any).user?.email);
+
+      const existing = await storage.getRewardItem(parseInt(req.params.id));
+      if (!existing || !inScope(req, existing.businessId)) {
+        return res.status(404).json({ message: "Reward item not found" });
+      }
       
       // Validate the expirationDate field specifically
       if (req.body.expirationDate) {
@@ -592,7 +1361,10 @@ export async function registerRoutes(app: Express): Promise<void> {
         console.log('ISO string format:', testDate.toISOString());
       }
       
-      const rewardItemData = insertRewardItemSchema.partial().parse(req.body);
+      const rewardItemData = {
+        ...insertRewardItemSchema.partial().parse(req.body),
+        ...(scopedBusinessId(req) !== undefined ? { businessId: scopedBusinessId(req) } : {}),
+      };
       console.log('✅ Schema validation passed');
       console.log('Parsed reward item data:', JSON.stringify(rewardItemData, null, 2));
       
@@ -626,8 +1398,12 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  app.delete("/api/reward-items/:id", authenticateToken, async (req, res) => {
+  app.delete("/api/reward-items/:id", authenticateToken, requirePermission("rewards:manage"), audit("reward_item"), async (req, res) => {
     try {
+      const rewardItem = await storage.getRewardItem(parseInt(req.params.id));
+      if (rewardItem && !inScope(req, rewardItem.businessId)) {
+        return res.status(404).json({ message: "Reward item not found" });
+      }
       await storage.deleteRewardItem(parseInt(req.params.id));
       res.status(204).send();
     } catch (error) {
@@ -635,8 +1411,227 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Spends the signed-in user's points on a pending voucher for the item.
+  // Points are only ever spent by their owner, so there's no staff variant.
+  app.post("/api/reward-items/:id/redeem", authenticateToken, audit("reward_item", { action: "redeem", recordResponse: true }), async (req, res) => {
+    try {
+      const redemption = await storage.redeemRewardItem(parseInt(req.params.id), (req as any).user.id);
+      res.status(201).json(redemption);
+    } catch (error) {
+      if (error instanceof RedemptionError) {
+        return res.status(error.status).json({ message: "Redemption failed", error: error.message });
+      }
+      console.error('Reward redemption error:', error);
+      res.status(500).json({ message: "Failed to redeem reward" });
+    }
+  });
+
+  // ?rewardItemId= and ?status=pending|fulfilled|void narrow the list
+  app.get("/api/reward-redemptions", authenticateToken, requirePermission("redemptions:view"), async (req, res) => {
+    const rewardItemId = req.query.rewardItemId ? parseInt(req.query.rewardItemId as string) : undefined;
+    if (rewardItemId !== undefined && isNaN(rewardItemId)) {
+      return res.status(400).json({ message: "Invalid reward item ID" });
+    }
+    const status = req.query.status as RedemptionStatus | undefined;
+    if (status !== undefined && !REDEMPTION_STATUSES.includes(status)) {
+      return res.status(400).json({ message: `'status' must be one of ${REDEMPTION_STATUSES.join(", ")}` });
+    }
+    try {
+      res.json(await storage.getRewardRedemptions({ rewardItemId, businessId: scopedBusinessId(req), status }));
+    } catch (error) {
+      console.error('Reward redemptions error:', error);
+      res.status(500).json({ message: "Failed to fetch redemptions" });
+    }
+  });
+
+  // A business confirms a pending voucher ({ status: "fulfilled", businessId })
+  // or it is voided ({ status: "void", reason }), which refunds the points.
+  // Business owners resolve vouchers for their own reward items only.
+  app.patch("/api/reward-redemptions/:id", authenticateToken, requirePermission("redemptions:resolve"), audit("reward_redemption", { action: "resolve" }), async (req, res) => {
+    try {
+      const resolution = redemptionResolutionSchema.parse(req.body);
+      const redemption = await storage.resolveRedemption(parseInt(req.params.id), resolution, scopedBusinessId(req));
+      res.json(redemption);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid redemption update", error: error.errors.map(e => e.message).join(", ") });
+      }
+      if (error instanceof RedemptionError) {
+        return res.status(error.status).json({ message: "Failed to update redemption", error: error.message });
+      }
+      console.error('Resolve redemption error:', error);
+      res.status(500).json({ message: "Failed to update redemption" });
+    }
+  });
+
+  registerImageEndpoints(app, "/api/reward-items", "rewardItems", "reward_item", "Reward item", "rewards:manage", {
+    get: id => storage.getRewardItem(id),
+    update: (id, image) => storage.updateRewardItem(id, image),
+    businessId: item => item.businessId,
+  });
+
+  registerTrashEndpoints(app, "/api/reward-items", "reward_item", "Reward item", true);
+
+  // Promotions routes
+  app.get("/api/promotions", authenticateToken, requirePermission("promotions:view"), async (req, res) => {
+    try {
+      const query = promotionListQuerySchema.parse(req.query);
+      if (query.businessId !== undefined && !inScope(req, query.businessId)) {
+        return res.json({ items: [], total: 0, page: query.page, pageSize: query.pageSize });
+      }
+      res.json(await storage.listPromotions({ ...query, businessId: query.businessId ?? scopedBusinessId(req) }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", error: error.errors.map(e => e.message).join(", ") });
+      }
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  app.get("/api/promotions/:id", authenticateToken, requirePermission("promotions:view"), async (req, res) => {
+    try {
+      const promotion = await storage.getPromotion(parseInt(req.params.id));
+      if (!promotion || !inScope(req, promotion.businessId)) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      res.json(promotion);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch promotion" });
+    }
+  });
+
+  app.post("/api/promotions", authenticateToken, requirePermission("promotions:manage"), audit("promotion"), async (req, res) => {
+    try {
+      const promotionData = insertPromotionSchema.parse(req.body);
+      const business = await storage.getBusiness(promotionData.businessId);
+      if (!business || !inScope(req, business.id)) {
+        return res.status(400).json({ message: "Invalid promotion data", error: "Business not found" });
+      }
+      const promotion = await storage.createPromotion(promotionData);
+      res.status(201).json(promotion);
+    } catch (error) {
+      console.error('Promotion create error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: "Invalid promotion data", error: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid promotion data", error: String(error) });
+      }
+    }
+  });
+
+  // Bulk activate/deactivate promotions
+  app.post("/api/promotions/bulk-status", authenticateToken, requirePermission("promotions:manage"), audit("promotion", { action: "bulk_status", ids: req => Array.isArray(req.body?.ids) ? req.body.ids.map(String) : [] }), async (req, res) => {
+    try {
+      const { ids, isActive } = z.object({
+        ids: z.array(z.number().int()).min(1),
+        isActive: z.boolean(),
+      }).parse(req.body);
+      if (scopedBusinessId(req) !== undefined) {
+        const own = new Set((await storage.getPromotions({ businessId: scopedBusinessId(req) })).map(p => p.id));
+        if (!ids.every(id => own.has(id))) {
+          return res.status(404).json({ message: "Promotion not found" });
+        }
+      }
+      const promotions = await storage.setPromotionsActive(ids, isActive);
+      res.json(promotions);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(400).json({ message: "Invalid bulk status data", error: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid bulk status data", error: String(error) });
+      }
+    }
+  });
+
+  app.put("/api/promotions/:id", authenticateToken, requirePermission("promotions:manage"), audit("promotion"), async (req, res) => {
+    try {
+      const existing = await storage.getPromotion(parseInt(req.params.id));
+      if (!existing || !inScope(req, existing.businessId)) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      const promotionData = insertPromotionSchema.partial().parse(req.body);
+      if (promotionData.businessId !== undefined && !inScope(req, promotionData.businessId)) {
+        return res.status(400).json({ message: "Invalid promotion data", error: "Business not found" });
+      }
+      const promotion = await storage.updatePromotion(parseInt(req.params.id), promotionData);
+      res.json(promotion);
+    } catch (error) {
+      console.error('Promotion update error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: "Invalid promotion data", error: error.message });
+      } else {
+        res.status(400).json({ message: "Invalid promotion data", error: String(error) });
+      }
+    }
+  });
+
+  app.delete("/api/promotions/:id", authenticateToken, requirePermission("promotions:manage"), audit("promotion"), async (req, res) => {
+    try {
+      const promotion = await storage.getPromotion(parseInt(req.params.id));
+      if (promotion && !inScope(req, promotion.businessId)) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      await storage.deletePromotion(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
+  // Audit log routes. ?entityType=&entityId= gives one entity's history;
+  // ?actorId= and ?from=&to= (to is exclusive) narrow the log.
+  app.get("/api/audit-log", authenticateToken, requirePermission("audit:view"), async (req, res) => {
+    const entityType = req.query.entityType as AuditEntityType | undefined;
+    if (entityType !== undefined && !AUDIT_ENTITY_TYPES.includes(entityType)) {
+      return res.status(400).json({ message: `'entityType' must be one of ${AUDIT_ENTITY_TYPES.join(", ")}` });
+    }
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+    try {
+      const result = await storage.getAuditLog({
+        actorId: (req.query.actorId as string) || undefined,
+        entityType,
+        entityId: (req.query.entityId as string) || undefined,
+        from,
+        to,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        pageSize: req.query.pageSize ? parseInt(req.query.pageSize as string) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Audit log error:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/audit-log/actors", authenticateToken, requirePermission("audit:view"), async (req, res) => {
+    try {
+      res.json(await storage.getAuditActors());
+    } catch (error) {
+      console.error("Audit actors error:", error);
+      res.status(500).json({ message: "Failed to fetch audit log users" });
+    }
+  });
+
+  // Everything in the trash the user could restore, most recently deleted first
+  app.get("/api/trash", authenticateToken, async (req: any, res) => {
+    const entityTypes = TRASH_ENTITY_TYPES.filter(type => can(req.user?.role, TRASH_PERMISSIONS[type]));
+    if (entityTypes.length === 0) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    try {
+      res.json(await storage.getTrash({ entityTypes, businessId: scopedBusinessId(req) }));
+    } catch (error) {
+      console.error("Trash error:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
   // Test endpoint to debug reward items table
-  app.get("/api/test/reward-items-raw", authenticateToken, async (req, res) => {
+  app.get("/api/test/reward-items-raw", authenticateToken, requirePermission("analytics:view"), async (req, res) => {
     try {
       console.log('=== RAW DATABASE QUERY TEST ===');
       console.log('Database URL:', process.env.DATABASE_URL?.substring(0, 50) + '...');
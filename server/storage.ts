@@ -2,38 +2,137 @@ import { config } from "dotenv";
 config();
 
 import { drizzle } from "drizzle-orm/postgres-js";
+import type { PgColumn, PgSelect, PgTable } from "drizzle-orm/pg-core";
 import postgres from "postgres";
 import {
   users,
   businesses,
   events,
+  eventSeries,
   rewards,
   rewardItems,
   surveys,
+  surveyVersions,
   checkins,
   surveyResponses,
   rewardRedemptions,
   eventRsvps,
   promotions,
+  receipts,
+  sessions,
+  auditLog,
+  type SessionData,
+  type StoredSession,
+  type ActiveSession,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogFilters,
+  type AuditActor,
+  type TrashEntityType,
+  type TrashItem,
+  type DeleteDependent,
+  type DeleteImpact,
   type User,
   type InsertUser,
+  type UpdateUserAdmin,
+  type UserRole,
+  type UserDirectoryEntry,
+  type UserActivity,
+  type PaginatedResult,
+  type PointsBalance,
+  type PointsLedgerEntry,
+  type RewardSource,
+  type Receipt,
+  type InsertReceipt,
+  type DateRange,
+  type AnalyticsRange,
+  type Granularity,
+  type DashboardStats,
+  type RsvpTrend,
+  type RedemptionTrend,
+  type SurveyResponseCount,
+  type EventCheckinCount,
+  type EventRsvpDetail,
+  type EventAttendee,
+  type EventAttendeeRoster,
+  type EventCheckinResult,
+  type EventRsvpCounts,
+  type RsvpCancellation,
+  type RsvpStatus,
+  type RedemptionDetail,
+  type SurveyResponseDetail,
+  type BusinessImportRowResult,
+  type BusinessImportSummary,
+  type SalesSummary,
+  type DailyRevenue,
+  type CategoryRevenue,
+  type BusinessRevenue,
+  type PaymentMethodRevenue,
+  type HourlySpending,
+  type HourlyCheckins,
+  type WeekdayCheckins,
+  type VisitorOrigin,
+  type Hotspot,
   type Business,
   type InsertBusiness,
+  type BusinessWithStatus,
+  type OpenStatus,
   type Event,
   type InsertEvent,
+  type EventSeries,
+  type EventEditScope,
   type Reward,
   type InsertReward,
   type RewardItem,
   type InsertRewardItem,
+  type RewardItemStock,
+  type RedemptionResolution,
+  type RedemptionStatus,
   type Survey,
   type InsertSurvey,
+  type SurveyVersion,
+  type SurveyVersionHistory,
+  type SurveyListItem,
+  type SurveyQuestionAnalytics,
   type Checkin,
   type SurveyResponse,
+  type SurveyAnswers,
   type RewardRedemption,
   type EventRsvp,
   type Promotion,
+  type InsertPromotion,
+  type PromotionStatus,
+  type ListSort,
+  type BusinessListQuery,
+  type EventListQuery,
+  type EventTimeframe,
+  type SurveyListQuery,
+  type RewardItemListQuery,
+  type PromotionListQuery,
+  type UserListQuery,
+  type BusinessSortField,
+  type EventSortField,
+  type SurveySortField,
+  type RewardItemSortField,
+  type PromotionSortField,
+  type UserSortField,
+  searchDocument,
 } from "@shared/schema";
-import { eq, desc, count, sql } from "drizzle-orm";
+import { getOpenStatus, parseBusinessHours } from "@shared/business-hours";
+import { shiftOccurrence } from "@shared/recurrence";
+import { describeDependents } from "@shared/trash";
+import {
+  assignQuestionIds,
+  checkSurveyAnswers,
+  isDraftQuestionId,
+  mergeSurveyVersions,
+  parseSurveyQuestions,
+  surveySettingsProblem,
+  surveyStatus,
+} from "@shared/surveys";
+import { ORG_TIMEZONE, formatOrgDateTime, fromWallTime, orgDateOf } from "@shared/timezone";
+import { eq, ne, and, or, asc, desc, count, sql, gt, gte, lt, lte, isNull, isNotNull, inArray, notInArray, exists, ilike, countDistinct, type SQL, type AnyColumn } from "drizzle-orm";
+import { clusterPoints, distanceMeters, streetFromAddress } from "./geo";
 
 // Initialize Supabase database connection
 if (!process.env.DATABASE_URL) {
@@ -45,63 +144,564 @@ const db = drizzle(queryClient);
 
 console.log('🔄 Connecting to Supabase database for Stuart Main Street Admin Hub');
 
+// Timestamps are stored as UTC wall time; convert to organization local time.
+// The zone is inlined rather than bound so the same expression can appear in
+// both SELECT and GROUP BY.
+function localTime(column: AnyColumn) {
+  return sql`((${column} AT TIME ZONE 'UTC') AT TIME ZONE '${sql.raw(ORG_TIMEZONE)}')`;
+}
+
+// The occurrences an edit or delete of `event` applies to. One-off events
+// only ever match themselves; trashed occurrences are left out of a series.
+function occurrencesInScope(event: Event, scope: EventEditScope): SQL {
+  if (event.seriesId === null || scope === "this") {
+    return eq(events.id, event.id);
+  }
+  const inSeries = and(eq(events.seriesId, event.seriesId), isNull(events.deletedAt))!;
+  return scope === "all" ? inSeries : and(inSeries, gte(events.eventDate, event.eventDate))!;
+}
+
+// isOpen follows the business's hours when it has any; otherwise the
+// manually toggled flag stands
+function withOpenStatus(business: Business, now: Date): BusinessWithStatus {
+  const hours = parseBusinessHours(business.hours);
+  if (!hours) {
+    const openStatus: OpenStatus = {
+      isOpen: business.isOpen ?? false,
+      source: "manual",
+      closesAt: null,
+      nextOpen: null,
+    };
+    return { ...business, openStatus };
+  }
+  const openStatus = getOpenStatus(hours, now, ORG_TIMEZONE);
+  return { ...business, isOpen: openStatus.isOpen, openStatus };
+}
+
+const GRANULARITY_UNITS: Record<Granularity, string> = {
+  day: "day",
+  week: "week",
+  month: "month",
+};
+
+// Local start date (YYYY-MM-DD) of the day/week/month bucket containing column
+function periodStart(column: AnyColumn, granularity: Granularity) {
+  const unit = GRANULARITY_UNITS[granularity];
+  return sql<string>`TO_CHAR(DATE_TRUNC('${sql.raw(unit)}', ${localTime(column)}), 'YYYY-MM-DD')`;
+}
+
+function inRange(column: AnyColumn, range: DateRange): SQL {
+  return and(gte(column, range.from), lt(column, range.to))!;
+}
+
+// A window of rows for callers that read a long result a piece at a time
+export interface RowBatch {
+  limit: number;
+  offset: number;
+}
+
+function inBatch<T extends PgSelect>(query: T, batch?: RowBatch): T {
+  return batch ? query.limit(batch.limit).offset(batch.offset) : query;
+}
+
+type TextSearch = { match: SQL; rank: SQL };
+
+// Full-text match of q against searchDocument(columns), plus its rank. Every
+// word matches as a prefix, so "coff sho" finds "Coffee Shop" while it's being
+// typed. Undefined when q has no words to search for.
+function textSearch(q: string | undefined, ...columns: AnyColumn[]): TextSearch | undefined {
+  const words = q?.toLowerCase().match(/[0-9a-z\u00c0-\u024f]+/g);
+  if (!words) return undefined;
+  const query = sql`to_tsquery('english', ${words.map(word => `${word}:*`).join(" & ")})`;
+  const document = searchDocument(...columns);
+  return { match: sql`${document} @@ ${query}`, rank: sql`ts_rank(${document}, ${query})` };
+}
+
+// ORDER BY for a list page: the requested sort, otherwise best search matches
+// first, otherwise the list's usual order. The id breaks ties so rows can't
+// move between pages.
+function listOrder<F extends string>(
+  sort: ListSort<F> | undefined,
+  columns: Record<F, AnyColumn>,
+  search: TextSearch | undefined,
+  fallback: SQL,
+  id: AnyColumn,
+): SQL[] {
+  if (sort) {
+    const column = columns[sort.field];
+    return [sort.direction === "desc" ? desc(column) : asc(column), asc(id)];
+  }
+  return search ? [desc(search.rank), fallback, asc(id)] : [fallback, asc(id)];
+}
+
+async function countRows(table: PgTable, where: SQL | undefined): Promise<number> {
+  const [{ total }] = await db.select({ total: count() }).from(table).where(where);
+  return total;
+}
+
+const businessSortColumns: Record<BusinessSortField, AnyColumn> = {
+  name: businesses.name,
+  category: businesses.category,
+  createdAt: businesses.createdAt,
+};
+
+const eventSortColumns: Record<EventSortField, AnyColumn> = {
+  eventDate: events.eventDate,
+  name: events.name,
+  createdAt: events.createdAt,
+};
+
+const surveySortColumns: Record<SurveySortField, AnyColumn> = {
+  title: surveys.title,
+  createdAt: surveys.createdAt,
+};
+
+const rewardItemSortColumns: Record<RewardItemSortField, AnyColumn> = {
+  name: rewardItems.name,
+  pointThreshold: rewardItems.pointThreshold,
+  createdAt: rewardItems.createdAt,
+};
+
+const promotionSortColumns: Record<PromotionSortField, AnyColumn> = {
+  title: promotions.title,
+  expiresAt: promotions.expiresAt,
+  createdAt: promotions.createdAt,
+};
+
+const userSortColumns: Record<UserSortField, AnyColumn> = {
+  email: users.email,
+  lastName: users.lastName,
+  createdAt: users.createdAt,
+};
+
+// Filters shared by the business list and the businesses export; id confines
+// the list to one business
+function businessFilters(filters: { q?: string; category?: string; id?: number }) {
+  const search = textSearch(filters.q, businesses.name, businesses.description, businesses.address, businesses.category);
+  const where = and(
+    isNull(businesses.deletedAt),
+    search?.match,
+    filters.category ? eq(businesses.category, filters.category) : undefined,
+    filters.id !== undefined ? eq(businesses.id, filters.id) : undefined,
+  );
+  return { where, search };
+}
+
+// Upcoming events include the ones earlier today, as the events page shows
+// them under Today rather than Past
+function eventFilters(filters: { q?: string; when?: EventTimeframe; includeTrashed?: boolean }) {
+  const search = textSearch(filters.q, events.name, events.description, events.location);
+  const startOfToday = fromWallTime(`${orgDateOf(new Date())}T00:00:00`);
+  const where = and(
+    filters.includeTrashed ? undefined : isNull(events.deletedAt),
+    search?.match,
+    filters.when === "upcoming" ? gte(events.eventDate, startOfToday) : undefined,
+    filters.when === "past" ? lt(events.eventDate, startOfToday) : undefined,
+  );
+  return { where, search };
+}
+
+function promotionFilters(filters: { q?: string; businessId?: number; status?: PromotionStatus }) {
+  const search = textSearch(filters.q, promotions.title, promotions.description);
+  // A promotion with no expiresAt never expires
+  const notExpired = or(isNull(promotions.expiresAt), gt(promotions.expiresAt, sql`NOW()`));
+  const where = and(
+    search?.match,
+    filters.businessId !== undefined ? eq(promotions.businessId, filters.businessId) : undefined,
+    filters.status === "active" ? and(eq(promotions.isActive, true), notExpired) : undefined,
+    filters.status === "expired" ? lte(promotions.expiresAt, sql`NOW()`) : undefined,
+    filters.status === "inactive" ? eq(promotions.isActive, false) : undefined,
+  );
+  return { where, search };
+}
+
+// Businesses within this distance of each other form one hotspot
+const HOTSPOT_RADIUS_METERS = 150;
+
+// Voided redemptions are refunded, so they neither spend points nor use stock
+const liveRedemption = ne(rewardRedemptions.status, "void");
+
+// Points balance for a user: earned reward points minus points spent on redemptions
+function pointsBalanceSql(userId: typeof users.id | string) {
+  return sql<number>`(
+    COALESCE((SELECT SUM(${rewards.points}) FROM ${rewards} WHERE ${rewards.userId} = ${userId}), 0)
+    - COALESCE((SELECT SUM(${rewardRedemptions.pointsRedeemed}) FROM ${rewardRedemptions} WHERE ${rewardRedemptions.userId} = ${userId} AND ${liveRedemption}), 0)
+  )::int`;
+}
+
+// A survey edit that would corrupt existing responses, or a response the
+// survey can't accept; status is the HTTP status routes answer with
+export class SurveyError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409) {
+    super(message);
+  }
+}
+
+// Surveys created before versioning have no version rows; their current
+// questions stand in as the only version
+function surveyVersionList(survey: Survey, rows: SurveyVersion[]) {
+  if (rows.length > 0) {
+    return rows.map(row => ({ version: row.version, questions: parseSurveyQuestions(row.questions) }));
+  }
+  return [{ version: survey.currentVersion, questions: parseSurveyQuestions(survey.questions) }];
+}
+
+// Ids of questions with at least one non-empty answer
+async function answeredQuestionIds(tx: Transaction | typeof db, surveyId: number): Promise<Set<string>> {
+  const rows = await tx
+    .select({ responses: surveyResponses.responses })
+    .from(surveyResponses)
+    .where(eq(surveyResponses.surveyId, surveyId));
+  const answered = new Set<string>();
+  for (const row of rows) {
+    let answers: Record<string, unknown> | null = null;
+    try {
+      answers = row.responses ? JSON.parse(row.responses) : null;
+    } catch {
+      // Unreadable responses can't be attributed to any question
+    }
+    for (const [id, answer] of Object.entries(answers ?? {})) {
+      if (answer !== null && answer !== "" && !(Array.isArray(answer) && answer.length === 0)) {
+        answered.add(id);
+      }
+    }
+  }
+  return answered;
+}
+
+async function surveyResponseCounts(tx: Transaction | typeof db): Promise<Map<number, number>> {
+  const rows = await tx
+    .select({ surveyId: surveyResponses.surveyId, responseCount: count() })
+    .from(surveyResponses)
+    .groupBy(surveyResponses.surveyId);
+  return new Map(rows.map(row => [row.surveyId, row.responseCount]));
+}
+
+// Surveys whose audience includes the user: everyone, patrons checked in to
+// the audience event, or patrons with a reward fulfilled at the audience
+// business
+function inSurveyAudience(userId: string): SQL {
+  return or(
+    eq(surveys.audience, "all"),
+    and(
+      eq(surveys.audience, "event_attendees"),
+      exists(
+        db.select({ id: checkins.id }).from(checkins)
+          .where(and(eq(checkins.eventId, surveys.audienceEventId), eq(checkins.userId, userId)))
+      )
+    ),
+    and(
+      eq(surveys.audience, "business_customers"),
+      exists(
+        db.select({ id: rewardRedemptions.id }).from(rewardRedemptions)
+          .where(and(
+            eq(rewardRedemptions.businessId, surveys.audienceBusinessId),
+            eq(rewardRedemptions.userId, userId),
+            eq(rewardRedemptions.status, "fulfilled")
+          ))
+      )
+    )
+  )!;
+}
+
+type SurveySettings = Pick<Survey, "opensAt" | "closesAt" | "audience" | "audienceEventId" | "audienceBusinessId">;
+
+// Checks a survey's schedule and audience as they will be saved, and drops
+// the audience target the rule doesn't use
+async function checkSurveySettings(tx: Transaction, settings: SurveySettings) {
+  const problem = surveySettingsProblem(settings);
+  if (problem) {
+    throw new SurveyError(problem.message, 400);
+  }
+  if (settings.audience === "event_attendees") {
+    const [event] = await tx
+      .select({ id: events.id })
+      .from(events)
+      .where(and(eq(events.id, settings.audienceEventId!), isNull(events.deletedAt)));
+    if (!event) {
+      throw new SurveyError(`Event ${settings.audienceEventId} not found`, 400);
+    }
+  }
+  if (settings.audience === "business_customers") {
+    const [business] = await tx
+      .select({ id: businesses.id })
+      .from(businesses)
+      .where(and(eq(businesses.id, settings.audienceBusinessId!), isNull(businesses.deletedAt)));
+    if (!business) {
+      throw new SurveyError(`Business ${settings.audienceBusinessId} not found`, 400);
+    }
+  }
+  return {
+    audienceEventId: settings.audience === "event_attendees" ? settings.audienceEventId : null,
+    audienceBusinessId: settings.audience === "business_customers" ? settings.audienceBusinessId : null,
+  };
+}
+
+// A redemption or voucher change that isn't allowed; status is the HTTP
+// status routes answer with
+export class RedemptionError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409) {
+    super(message);
+  }
+}
+
+// A check-in that can't happen; status is the HTTP status routes answer with
+export class CheckinError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409) {
+    super(message);
+  }
+}
+
+// An RSVP that can't be taken or cancelled; status is the HTTP status routes answer with
+export class RsvpError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409) {
+    super(message);
+  }
+}
+
+// A refresh that can't be honoured; the client has to sign in again
+export class SessionError extends Error {
+  constructor(message: string, public status: 401 = 401) {
+    super(message);
+  }
+}
+
+// A restore or permanent delete that can't happen; status is the HTTP status routes answer with
+export class TrashError extends Error {
+  constructor(message: string, public status: 404 | 409) {
+    super(message);
+  }
+}
+
+// How long the refresh token a session just rotated away from stays usable, so
+// two tabs refreshing at once don't look like a stolen token
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+const storedSession = ({ sess, ...row }: typeof sessions.$inferSelect): StoredSession => ({
+  ...row,
+  data: JSON.parse(sess) as SessionData,
+});
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Confirms waitlisted RSVPs, oldest first, while the event has free seats.
+// Callers hold the event row lock so concurrent RSVPs can't overfill it.
+async function promoteWaitlist(tx: Transaction, event: Event): Promise<EventRsvp[]> {
+  let seats: number | undefined;
+  if (event.capacity !== null) {
+    const [{ confirmed }] = await tx
+      .select({ confirmed: count() })
+      .from(eventRsvps)
+      .where(and(eq(eventRsvps.eventId, event.id), eq(eventRsvps.status, "confirmed")));
+    seats = event.capacity - confirmed;
+    if (seats <= 0) return [];
+  }
+
+  let next = tx
+    .select({ id: eventRsvps.id })
+    .from(eventRsvps)
+    .where(and(eq(eventRsvps.eventId, event.id), eq(eventRsvps.status, "waitlisted")))
+    .orderBy(eventRsvps.createdAt, eventRsvps.id)
+    .$dynamic();
+  if (seats !== undefined) next = next.limit(seats);
+  const ids = (await next).map(row => row.id);
+  if (ids.length === 0) return [];
+
+  return await tx
+    .update(eventRsvps)
+    .set({ status: "confirmed", promotedAt: new Date() })
+    .where(inArray(eventRsvps.id, ids))
+    .returning();
+}
+
+// The table behind each entity that deletes to the trash, the column naming
+// a row, and for entities a business owner manages, the business it belongs to
+type TrashTable = {
+  table: PgTable;
+  id: PgColumn;
+  deletedAt: PgColumn;
+  name: PgColumn;
+  businessId?: PgColumn;
+};
+
+const TRASH_TABLES: Record<TrashEntityType, TrashTable> = {
+  business: { table: businesses, id: businesses.id, deletedAt: businesses.deletedAt, name: businesses.name, businessId: businesses.id },
+  event: { table: events, id: events.id, deletedAt: events.deletedAt, name: events.name },
+  survey: { table: surveys, id: surveys.id, deletedAt: surveys.deletedAt, name: surveys.title },
+  reward_item: { table: rewardItems, id: rewardItems.id, deletedAt: rewardItems.deletedAt, name: rewardItems.name, businessId: rewardItems.businessId },
+};
+
+type DependentRule = Omit<DeleteDependent, "count"> & { table: PgTable; column: PgColumn };
+
+// Rows referring to each entity in the trash. Points, sales and responses are
+// history, so they block a permanent delete; the rest goes with the entity or
+// stops pointing at it.
+const DEPENDENT_RULES: Record<TrashEntityType, DependentRule[]> = {
+  business: [
+    { noun: "reward item", onPurge: "block", table: rewardItems, column: rewardItems.businessId },
+    { noun: "receipt", onPurge: "block", table: receipts, column: receipts.businessId },
+    { noun: "redemption", onPurge: "block", table: rewardRedemptions, column: rewardRedemptions.businessId },
+    { noun: "targeted survey", onPurge: "block", table: surveys, column: surveys.audienceBusinessId },
+    { noun: "promotion", onPurge: "delete", table: promotions, column: promotions.businessId },
+    { noun: "owner account", onPurge: "unlink", table: users, column: users.businessId },
+    { noun: "points award", onPurge: "unlink", table: rewards, column: rewards.businessId },
+  ],
+  event: [
+    { noun: "check-in", onPurge: "block", table: checkins, column: checkins.eventId },
+    { noun: "targeted survey", onPurge: "block", table: surveys, column: surveys.audienceEventId },
+    { noun: "RSVP", onPurge: "delete", table: eventRsvps, column: eventRsvps.eventId },
+  ],
+  survey: [
+    { noun: "response", onPurge: "block", table: surveyResponses, column: surveyResponses.surveyId },
+  ],
+  reward_item: [
+    { noun: "redemption", onPurge: "block", table: rewardRedemptions, column: rewardRedemptions.rewardItemId },
+  ],
+};
+
+// Matches the entity whether or not it's in the trash; with a businessId, only
+// within that business
+function trashRowCondition(entityType: TrashEntityType, id: number, businessId?: number): SQL | undefined {
+  const { id: idColumn, businessId: businessColumn } = TRASH_TABLES[entityType];
+  return and(
+    eq(idColumn, id),
+    businessId !== undefined && businessColumn ? eq(businessColumn, businessId) : undefined,
+  );
+}
+
+async function deleteImpact(tx: Transaction | typeof db, entityType: TrashEntityType, id: number): Promise<DeleteImpact> {
+  const dependents: DeleteDependent[] = [];
+  for (const { table, column, ...rule } of DEPENDENT_RULES[entityType]) {
+    const [{ total }] = await tx.select({ total: count() }).from(table).where(eq(column, id));
+    if (total > 0) dependents.push({ ...rule, count: total });
+  }
+  return { dependents, canPurge: dependents.every(dependent => dependent.onPurge !== "block") };
+}
+
+const displayName = (firstName: string | null, lastName: string | null) =>
+  [firstName, lastName].filter(Boolean).join(" ") || null;
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(query: UserListQuery): Promise<PaginatedResult<UserDirectoryEntry>>;
+  getUserActivity(id: string): Promise<UserActivity>;
+  updateUser(id: string, user: UpdateUserAdmin): Promise<User>;
+
+  // Sign-in sessions
+  createSession(sid: string, userId: string, data: SessionData, expire: Date): Promise<void>;
+  getSession(sid: string): Promise<StoredSession | undefined>;
+  rotateSessionToken(sid: string, tokenHash: string, nextTokenHash: string, expire: Date): Promise<StoredSession & { rotated: boolean }>;
+  getUserSessions(userId: string): Promise<ActiveSession[]>;
+  deleteSession(sid: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<number>;
+
+  // Audit log
+  createAuditLogEntries(entries: InsertAuditLogEntry[]): Promise<void>;
+  getAuditLog(filters?: AuditLogFilters): Promise<PaginatedResult<AuditLogEntry>>;
+  getAuditActors(): Promise<AuditActor[]>;
+
+  // Trash
+  getDeleteImpact(entityType: TrashEntityType, id: number, businessId?: number): Promise<DeleteImpact | undefined>;
+  getTrash(filters: { entityTypes: readonly TrashEntityType[]; businessId?: number }): Promise<TrashItem[]>;
+  restoreFromTrash(entityType: TrashEntityType, id: number, businessId?: number): Promise<boolean>;
+  purgeFromTrash(entityType: TrashEntityType, id: number, businessId?: number): Promise<Business | Event | Survey | RewardItem>;
+
+  // Points ledger
+  getUserPointsBalance(userId: string): Promise<PointsBalance>;
+  getUserPointsLedger(userId: string): Promise<PointsLedgerEntry[]>;
+  createPointsAdjustment(userId: string, points: number, reason: string, actorEmail?: string): Promise<Reward>;
 
   // Businesses
-  getBusinesses(): Promise<Business[]>;
-  getBusiness(id: number): Promise<Business | undefined>;
+  getBusinesses(filters?: { q?: string; category?: string }): Promise<BusinessWithStatus[]>;
+  listBusinesses(query: BusinessListQuery, businessId?: number): Promise<PaginatedResult<BusinessWithStatus>>;
+  getBusinessCategories(): Promise<string[]>;
+  getBusiness(id: number): Promise<BusinessWithStatus | undefined>;
   createBusiness(business: InsertBusiness): Promise<Business>;
   updateBusiness(id: number, business: Partial<InsertBusiness>): Promise<Business>;
   deleteBusiness(id: number): Promise<void>;
+  importBusinesses(plan: BusinessImportRowResult[]): Promise<BusinessImportSummary>;
 
   // Events
-  getEvents(): Promise<Event[]>;
+  getEvents(filters?: { q?: string; includeTrashed?: boolean }): Promise<Event[]>;
+  listEvents(query: EventListQuery): Promise<PaginatedResult<Event>>;
   getEvent(id: number): Promise<Event | undefined>;
   createEvent(event: InsertEvent): Promise<Event>;
   updateEvent(id: number, event: Partial<InsertEvent>): Promise<Event>;
   deleteEvent(id: number): Promise<void>;
+  getEventSeries(): Promise<EventSeries[]>;
+  createEventSeries(rrule: string, occurrences: InsertEvent[]): Promise<Event[]>;
+  updateEventOccurrences(id: number, event: Partial<InsertEvent>, scope: EventEditScope): Promise<Event[]>;
+  deleteEventOccurrences(id: number, scope: EventEditScope): Promise<Event[]>;
+  getEventAttendees(eventId: number): Promise<EventAttendeeRoster | undefined>;
+  checkInToEvent(eventId: number, userId: string): Promise<EventCheckinResult>;
+  rsvpToEvent(eventId: number, userId: string): Promise<EventRsvp>;
+  cancelEventRsvp(eventId: number, userId: string): Promise<RsvpCancellation>;
 
   // Surveys
-  getSurveys(): Promise<Survey[]>;
+  getSurveys(): Promise<SurveyListItem[]>;
+  listSurveys(query: SurveyListQuery): Promise<PaginatedResult<SurveyListItem>>;
+  getAvailableSurveys(userId: string): Promise<Survey[]>;
   getSurvey(id: number): Promise<Survey | undefined>;
   createSurvey(survey: InsertSurvey): Promise<Survey>;
   updateSurvey(id: number, survey: Partial<InsertSurvey>): Promise<Survey>;
   deleteSurvey(id: number): Promise<void>;
+  getSurveyVersionHistory(id: number): Promise<SurveyVersionHistory | undefined>;
+  submitSurveyResponse(surveyId: number, userId: string, answers: SurveyAnswers): Promise<SurveyResponse>;
 
   // Reward Items
-  getRewardItems(): Promise<RewardItem[]>;
+  getRewardItems(filters?: { businessId?: number }): Promise<RewardItem[]>;
+  listRewardItems(query: RewardItemListQuery): Promise<PaginatedResult<RewardItem>>;
   getRewardItem(id: number): Promise<RewardItem | undefined>;
   createRewardItem(rewardItem: InsertRewardItem): Promise<RewardItem>;
   updateRewardItem(id: number, rewardItem: Partial<InsertRewardItem>): Promise<RewardItem>;
   deleteRewardItem(id: number): Promise<void>;
 
+  // Activity detail (exports)
+  getEventRsvps(filters?: { eventId?: number; range?: DateRange; batch?: RowBatch }): Promise<EventRsvpDetail[]>;
+  getRewardRedemptions(filters?: { range?: DateRange; rewardItemId?: number; businessId?: number; status?: RedemptionStatus; batch?: RowBatch }): Promise<RedemptionDetail[]>;
+  redeemRewardItem(rewardItemId: number, userId: string): Promise<RewardRedemption>;
+  resolveRedemption(id: number, resolution: RedemptionResolution, businessId?: number): Promise<RewardRedemption>;
+  getRewardItemStock(filters?: { businessId?: number }): Promise<RewardItemStock[]>;
+  getSurveyResponses(filters?: { surveyId?: number; range?: DateRange; batch?: RowBatch }): Promise<SurveyResponseDetail[]>;
+
+  // Promotions
+  getPromotions(filters?: { businessId?: number; status?: PromotionStatus }): Promise<Promotion[]>;
+  listPromotions(query: PromotionListQuery): Promise<PaginatedResult<Promotion>>;
+  getPromotion(id: number): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion>;
+  deletePromotion(id: number): Promise<void>;
+  setPromotionsActive(ids: number[], isActive: boolean): Promise<Promotion[]>;
+
+  // Sales
+  createReceipt(receipt: InsertReceipt): Promise<Receipt>;
+  getSalesSummary(range: DateRange): Promise<SalesSummary>;
+  getDailyRevenue(range: AnalyticsRange): Promise<DailyRevenue[]>;
+  getRevenueByCategory(range: DateRange): Promise<CategoryRevenue[]>;
+  getTopBusinessesByRevenue(range: DateRange, limit?: number): Promise<BusinessRevenue[]>;
+  getRevenueByPaymentMethod(range: DateRange): Promise<PaymentMethodRevenue[]>;
+  getHourlySpending(range: DateRange): Promise<HourlySpending[]>;
+
+  // Geographic analytics
+  getCheckinsByHour(range: DateRange): Promise<HourlyCheckins[]>;
+  getCheckinsByWeekday(range: DateRange): Promise<WeekdayCheckins[]>;
+  getVisitorOrigins(range: DateRange): Promise<VisitorOrigin[]>;
+  getHotspots(range: DateRange): Promise<Hotspot[]>;
+
   // Analytics
-  getDashboardStats(): Promise<{
-    totalCheckins: number;
-    activeEvents: number;
-    surveyResponses: number;
-    rewardsRedeemed: number;
-  }>;
-  getEventRsvpTrends(): Promise<{ date: string; rsvps: number }[]>;
-  getRewardRedemptionTrends(): Promise<{ date: string; redemptions: number }[]>;
-  getSurveyResponseDistribution(): Promise<{ surveyTitle: string; responses: number }[]>;
-  getCheckinsByEvent(): Promise<{ eventName: string; checkins: number }[]>;
+  getDashboardStats(range: DateRange): Promise<DashboardStats>;
+  getEventRsvpTrends(range: AnalyticsRange): Promise<RsvpTrend[]>;
+  getRewardRedemptionTrends(range: AnalyticsRange, businessId?: number): Promise<RedemptionTrend[]>;
+  getSurveyResponseDistribution(range: DateRange): Promise<SurveyResponseCount[]>;
+  getCheckinsByEvent(range: DateRange): Promise<EventCheckinCount[]>;
   getRecentActivity(): Promise<{ type: string; description: string; timestamp: Date; icon: string }[]>;
-  getEventRsvpCounts(): Promise<{ eventId: number; rsvpCount: number }[]>;
+  getEventRsvpCounts(): Promise<EventRsvpCounts[]>;
   getSurveyAnalytics(surveyId: number): Promise<{
     survey: Survey;
     totalResponses: number;
-    questionAnalytics: Array<{
-      questionId: string;
-      questionText: string;
-      questionType: string;
-      options?: string[];
-      responses: Array<{ answer: string; count: number }>;
-      textResponses?: string[];
-    }>;
+    questionAnalytics: SurveyQuestionAnalytics[];
   }>;
 }
 
@@ -126,13 +726,438 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getBusinesses(): Promise<Business[]> {
-    return await db.select().from(businesses).orderBy(desc(businesses.createdAt));
+  // Email addresses don't break into words, so users are searched by
+  // substring rather than full text
+  async getUsers(query: UserListQuery): Promise<PaginatedResult<UserDirectoryEntry>> {
+    const { page, pageSize, ...filters } = query;
+
+    const conditions = [];
+    if (filters.q) {
+      const pattern = `%${filters.q}%`;
+      conditions.push(or(
+        ilike(users.email, pattern),
+        ilike(users.firstName, pattern),
+        ilike(users.lastName, pattern),
+      ));
+    }
+    if (filters.role) {
+      conditions.push(eq(users.role, filters.role));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+
+    const rows = await db
+      .select({
+        user: users,
+        pointsBalance: pointsBalanceSql(users.id),
+        rsvpCount: sql<number>`(SELECT COUNT(*) FROM ${eventRsvps} WHERE ${eventRsvps.userId} = ${users.id})::int`,
+        checkinCount: sql<number>`(SELECT COUNT(*) FROM ${checkins} WHERE ${checkins.userId} = ${users.id})::int`,
+        redemptionCount: sql<number>`(SELECT COUNT(*) FROM ${rewardRedemptions} WHERE ${rewardRedemptions.userId} = ${users.id} AND ${liveRedemption})::int`,
+      })
+      .from(users)
+      .where(where)
+      .orderBy(...listOrder(filters.sort, userSortColumns, undefined, desc(users.createdAt), users.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      items: rows.map(({ user, ...totals }) => ({ ...user, ...totals })),
+      total,
+      page,
+      pageSize,
+    };
   }
 
-  async getBusiness(id: number): Promise<Business | undefined> {
-    const result = await db.select().from(businesses).where(eq(businesses.id, id)).limit(1);
-    return result[0];
+  async getUserActivity(id: string): Promise<UserActivity> {
+    const rsvps = await db
+      .select({ eventId: eventRsvps.eventId, eventName: events.name, createdAt: eventRsvps.createdAt })
+      .from(eventRsvps)
+      .leftJoin(events, eq(eventRsvps.eventId, events.id))
+      .where(eq(eventRsvps.userId, id))
+      .orderBy(desc(eventRsvps.createdAt));
+
+    const userCheckins = await db
+      .select({ eventId: checkins.eventId, eventName: events.name, createdAt: checkins.createdAt })
+      .from(checkins)
+      .leftJoin(events, eq(checkins.eventId, events.id))
+      .where(eq(checkins.userId, id))
+      .orderBy(desc(checkins.createdAt));
+
+    const redemptions = await db
+      .select({
+        rewardItemId: rewardRedemptions.rewardItemId,
+        rewardItemName: rewardItems.name,
+        pointsRedeemed: rewardRedemptions.pointsRedeemed,
+        status: rewardRedemptions.status,
+        createdAt: rewardRedemptions.createdAt,
+      })
+      .from(rewardRedemptions)
+      .leftJoin(rewardItems, eq(rewardRedemptions.rewardItemId, rewardItems.id))
+      .where(eq(rewardRedemptions.userId, id))
+      .orderBy(desc(rewardRedemptions.createdAt));
+
+    return { rsvps, checkins: userCheckins, redemptions };
+  }
+
+  async updateUser(id: string, user: UpdateUserAdmin): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(users)
+        .set({ ...user, updatedAt: new Date() })
+        .where(eq(users.id, id))
+        .returning();
+      if (!result[0]) {
+        throw new Error(`User with ID ${id} not found`);
+      }
+
+      // Linking a business account also records the user as that business's owner
+      if (user.businessId) {
+        await tx.update(businesses)
+          .set({ ownerId: id, updatedAt: new Date() })
+          .where(eq(businesses.id, user.businessId));
+      }
+      return result[0];
+    });
+  }
+
+  // Expired sessions are swept whenever a new one starts
+  async createSession(sid: string, userId: string, data: SessionData, expire: Date): Promise<void> {
+    await db.delete(sessions).where(lte(sessions.expire, new Date()));
+    await db.insert(sessions).values({ sid, userId, sess: JSON.stringify(data), expire });
+  }
+
+  // Unexpired sessions only
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    const [row] = await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())));
+    return row && storedSession(row);
+  }
+
+  // Swaps the session's refresh token for nextTokenHash and extends it to
+  // expire. The token it replaced moments ago is still accepted, without
+  // rotating again; any older token means the refresh token was copied, so the
+  // session is deleted.
+  async rotateSessionToken(sid: string, tokenHash: string, nextTokenHash: string, expire: Date): Promise<StoredSession & { rotated: boolean }> {
+    const outcome = await db.transaction(async (tx) => {
+      const [row] = await tx.select().from(sessions).where(eq(sessions.sid, sid)).for("update");
+      if (!row || row.expire <= new Date()) return "expired";
+      const session = storedSession(row);
+      const { data } = session;
+
+      if (tokenHash !== data.tokenHash) {
+        const rotatedAgo = data.rotatedAt ? Date.now() - new Date(data.rotatedAt).getTime() : Infinity;
+        if (tokenHash === data.previousTokenHash && rotatedAgo < REFRESH_REUSE_GRACE_MS) {
+          return { ...session, rotated: false };
+        }
+        await tx.delete(sessions).where(eq(sessions.sid, sid));
+        return "reused";
+      }
+
+      const now = new Date().toISOString();
+      const next: SessionData = {
+        ...data,
+        tokenHash: nextTokenHash,
+        previousTokenHash: data.tokenHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+      };
+      await tx.update(sessions).set({ sess: JSON.stringify(next), expire }).where(eq(sessions.sid, sid));
+      return { ...session, data: next, expire, rotated: true };
+    });
+
+    if (outcome === "expired") {
+      throw new SessionError("Session has expired");
+    }
+    if (outcome === "reused") {
+      throw new SessionError("Refresh token was already used; the session has been signed out");
+    }
+    return outcome;
+  }
+
+  async getUserSessions(userId: string): Promise<ActiveSession[]> {
+    const rows = await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+    return rows.map(row => {
+      const { data } = storedSession(row);
+      return {
+        sid: row.sid,
+        userAgent: data.userAgent,
+        ip: data.ip,
+        createdAt: data.createdAt,
+        lastUsedAt: data.lastUsedAt,
+        expire: row.expire,
+      };
+    });
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  // Signs the user out everywhere; returns how many sessions ended
+  async deleteUserSessions(userId: string): Promise<number> {
+    const deleted = await db.delete(sessions).where(eq(sessions.userId, userId)).returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  async createAuditLogEntries(entries: InsertAuditLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLog).values(entries.map(({ changes, ...entry }) => ({
+      ...entry,
+      changes: JSON.stringify(changes),
+    })));
+  }
+
+  // Newest first
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<PaginatedResult<AuditLogEntry>> {
+    const page = Math.max(filters.page ?? 1, 1);
+    const pageSize = Math.min(Math.max(filters.pageSize ?? 50, 1), 100);
+
+    const conditions = [];
+    if (filters.actorId) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(auditLog.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(auditLog).where(where);
+
+    const rows = await db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      items: rows.map(({ changes, ...row }) => ({ ...row, changes: JSON.parse(changes) })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async getAuditActors(): Promise<AuditActor[]> {
+    const rows = await db
+      .selectDistinctOn([auditLog.actorId], { actorId: auditLog.actorId, actorEmail: auditLog.actorEmail })
+      .from(auditLog)
+      .where(isNotNull(auditLog.actorId))
+      .orderBy(auditLog.actorId, desc(auditLog.createdAt));
+    return rows
+      .map(row => ({ actorId: row.actorId!, actorEmail: row.actorEmail }))
+      .sort((a, b) => (a.actorEmail ?? a.actorId).localeCompare(b.actorEmail ?? b.actorId));
+  }
+
+  // What deleting the entity would affect, whether it's live or in the trash
+  async getDeleteImpact(entityType: TrashEntityType, id: number, businessId?: number): Promise<DeleteImpact | undefined> {
+    const { table, id: idColumn } = TRASH_TABLES[entityType];
+    const [row] = await db.select({ id: idColumn }).from(table).where(trashRowCondition(entityType, id, businessId)).limit(1);
+    return row && await deleteImpact(db, entityType, id);
+  }
+
+  // Most recently deleted first
+  async getTrash(filters: { entityTypes: readonly TrashEntityType[]; businessId?: number }): Promise<TrashItem[]> {
+    const items: TrashItem[] = [];
+    for (const entityType of filters.entityTypes) {
+      const { table, id, name, deletedAt, businessId } = TRASH_TABLES[entityType];
+      const rows = await db
+        .select({ id, name, deletedAt })
+        .from(table)
+        .where(and(
+          isNotNull(deletedAt),
+          filters.businessId !== undefined && businessId ? eq(businessId, filters.businessId) : undefined,
+        ));
+      items.push(...rows.map(row => ({
+        entityType,
+        id: row.id as number,
+        name: row.name as string,
+        deletedAt: row.deletedAt as Date,
+      })));
+    }
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  // False when the entity isn't in the trash
+  async restoreFromTrash(entityType: TrashEntityType, id: number, businessId?: number): Promise<boolean> {
+    const { table, id: idColumn, deletedAt } = TRASH_TABLES[entityType];
+    const restored = await db
+      .update(table)
+      .set({ deletedAt: null })
+      .where(and(trashRowCondition(entityType, id, businessId), isNotNull(deletedAt)))
+      .returning({ id: idColumn });
+    return restored.length > 0;
+  }
+
+  // Deletes the entity for good, applying its dependent rules, and returns the
+  // row so stored images can be removed. The last occurrence of a series takes
+  // the series with it.
+  async purgeFromTrash(entityType: TrashEntityType, id: number, businessId?: number): Promise<Business | Event | Survey | RewardItem> {
+    const { table, id: idColumn, deletedAt } = TRASH_TABLES[entityType];
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(table)
+        .where(and(trashRowCondition(entityType, id, businessId), isNotNull(deletedAt)))
+        .for("update");
+      if (!row) throw new TrashError("Not found in the trash", 404);
+
+      const { dependents, canPurge } = await deleteImpact(tx, entityType, id);
+      if (!canPurge) {
+        const blocking = dependents.filter(dependent => dependent.onPurge === "block");
+        throw new TrashError(`Can't delete permanently while it has ${describeDependents(blocking)}`, 409);
+      }
+
+      for (const rule of DEPENDENT_RULES[entityType]) {
+        if (rule.onPurge === "delete") {
+          await tx.delete(rule.table).where(eq(rule.column, id));
+        } else if (rule.onPurge === "unlink") {
+          await tx.execute(sql`UPDATE ${rule.table} SET ${sql.identifier(rule.column.name)} = NULL WHERE ${rule.column} = ${id}`);
+        }
+      }
+      if (entityType === "survey") {
+        await tx.delete(surveyVersions).where(eq(surveyVersions.surveyId, id));
+      }
+      await tx.delete(table).where(eq(idColumn, id));
+
+      const seriesId = entityType === "event" ? (row as Event).seriesId : null;
+      if (seriesId !== null) {
+        const [{ remaining }] = await tx.select({ remaining: count() }).from(events).where(eq(events.seriesId, seriesId));
+        if (remaining === 0) await tx.delete(eventSeries).where(eq(eventSeries.id, seriesId));
+      }
+      return row as Business | Event | Survey | RewardItem;
+    });
+  }
+
+  async getUserPointsBalance(userId: string): Promise<PointsBalance> {
+    const [earned] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${rewards.points}), 0)::int` })
+      .from(rewards)
+      .where(eq(rewards.userId, userId));
+    const [redeemed] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${rewardRedemptions.pointsRedeemed}), 0)::int` })
+      .from(rewardRedemptions)
+      .where(and(eq(rewardRedemptions.userId, userId), liveRedemption));
+
+    return {
+      earned: earned.total,
+      redeemed: redeemed.total,
+      balance: earned.total - redeemed.total,
+    };
+  }
+
+  async getUserPointsLedger(userId: string): Promise<PointsLedgerEntry[]> {
+    const earned = await db.select().from(rewards).where(eq(rewards.userId, userId));
+    const redeemed = await db
+      .select({
+        id: rewardRedemptions.id,
+        pointsRedeemed: rewardRedemptions.pointsRedeemed,
+        rewardItemName: rewardItems.name,
+        createdAt: rewardRedemptions.createdAt,
+      })
+      .from(rewardRedemptions)
+      .leftJoin(rewardItems, eq(rewardRedemptions.rewardItemId, rewardItems.id))
+      .where(and(eq(rewardRedemptions.userId, userId), liveRedemption));
+
+    const entries = [
+      ...earned.map(reward => ({
+        id: `reward-${reward.id}`,
+        type: "reward" as const,
+        source: reward.source as RewardSource,
+        description: reward.description,
+        points: reward.points,
+        createdAt: reward.createdAt,
+      })),
+      ...redeemed.map(redemption => ({
+        id: `redemption-${redemption.id}`,
+        type: "redemption" as const,
+        source: "redemption" as const,
+        description: redemption.rewardItemName ? `Redeemed: ${redemption.rewardItemName}` : "Redeemed reward",
+        points: -redemption.pointsRedeemed,
+        createdAt: redemption.createdAt,
+      })),
+    ].sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+    // Running balance is accumulated oldest first
+    let runningBalance = 0;
+    return entries.map(entry => {
+      runningBalance += entry.points;
+      return { ...entry, runningBalance };
+    });
+  }
+
+  async createPointsAdjustment(userId: string, points: number, reason: string, actorEmail?: string): Promise<Reward> {
+    return await db.transaction(async (tx) => {
+      // Lock the user row so concurrent adjustments see each other's balance
+      const [user] = await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
+
+      if (points < 0) {
+        const [{ balance }] = await tx.select({ balance: pointsBalanceSql(userId) }).from(users).where(eq(users.id, userId));
+        if (balance + points < 0) {
+          throw new Error(`Cannot claw back ${-points} points; balance is only ${balance}`);
+        }
+      }
+
+      const result = await tx.insert(rewards).values({
+        userId,
+        points,
+        source: "adjustment",
+        description: actorEmail ? `${reason} (by ${actorEmail})` : reason,
+      }).returning();
+      return result[0];
+    });
+  }
+
+  async getBusinesses(filters: { q?: string; category?: string } = {}): Promise<BusinessWithStatus[]> {
+    const { where, search } = businessFilters(filters);
+    const result = await db
+      .select()
+      .from(businesses)
+      .where(where)
+      .orderBy(...listOrder(undefined, {}, search, desc(businesses.createdAt), businesses.id));
+    const now = new Date();
+    return result.map(business => withOpenStatus(business, now));
+  }
+
+  async listBusinesses(query: BusinessListQuery, businessId?: number): Promise<PaginatedResult<BusinessWithStatus>> {
+    const { where, search } = businessFilters({ ...query, id: businessId });
+    const rows = await db
+      .select()
+      .from(businesses)
+      .where(where)
+      .orderBy(...listOrder(query.sort, businessSortColumns, search, desc(businesses.createdAt), businesses.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const now = new Date();
+    return {
+      items: rows.map(business => withOpenStatus(business, now)),
+      total: await countRows(businesses, where),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getBusinessCategories(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ category: businesses.category })
+      .from(businesses)
+      .where(isNull(businesses.deletedAt))
+      .orderBy(businesses.category);
+    return rows.map(row => row.category);
+  }
+
+  async getBusiness(id: number): Promise<BusinessWithStatus | undefined> {
+    const result = await db.select().from(businesses).where(and(eq(businesses.id, id), isNull(businesses.deletedAt))).limit(1);
+    return result[0] && withOpenStatus(result[0], new Date());
   }
 
   async createBusiness(business: InsertBusiness): Promise<Business> {
@@ -146,15 +1171,51 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteBusiness(id: number): Promise<void> {
-    await db.delete(businesses).where(eq(businesses.id, id));
+    await db.update(businesses).set({ deletedAt: new Date() }).where(eq(businesses.id, id));
   }
 
-  async getEvents(): Promise<Event[]> {
-    return await db.select().from(events).orderBy(desc(events.eventDate));
+  // Applies a planned import atomically: either every row lands or none do
+  async importBusinesses(plan: BusinessImportRowResult[]): Promise<BusinessImportSummary> {
+    const creates = plan.filter(r => r.action === "create" && r.data).map(r => r.data!);
+    const updates = plan.filter(r => r.action === "update" && r.data && r.existingId !== undefined);
+
+    await db.transaction(async (tx) => {
+      if (creates.length > 0) {
+        await tx.insert(businesses).values(creates);
+      }
+      for (const update of updates) {
+        await tx.update(businesses)
+          .set({ ...update.data, updatedAt: new Date() })
+          .where(eq(businesses.id, update.existingId!));
+      }
+    });
+
+    return { created: creates.length, updated: updates.length, skipped: plan.length - creates.length - updates.length };
+  }
+
+  async getEvents(filters: { q?: string; includeTrashed?: boolean } = {}): Promise<Event[]> {
+    const { where, search } = eventFilters(filters);
+    return await db
+      .select()
+      .from(events)
+      .where(where)
+      .orderBy(...listOrder(undefined, {}, search, desc(events.eventDate), events.id));
+  }
+
+  async listEvents(query: EventListQuery): Promise<PaginatedResult<Event>> {
+    const { where, search } = eventFilters(query);
+    const items = await db
+      .select()
+      .from(events)
+      .where(where)
+      .orderBy(...listOrder(query.sort, eventSortColumns, search, desc(events.eventDate), events.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { items, total: await countRows(events, where), page: query.page, pageSize: query.pageSize };
   }
 
   async getEvent(id: number): Promise<Event | undefined> {
-    const result = await db.select().from(events).where(eq(events.id, id)).limit(1);
+    const result = await db.select().from(events).where(and(eq(events.id, id), isNull(events.deletedAt))).limit(1);
     return result[0];
   }
 
@@ -197,16 +1258,337 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEvent(id: number): Promise<void> {
-    await db.delete(events).where(eq(events.id, id));
+    await db.update(events).set({ deletedAt: new Date() }).where(eq(events.id, id));
+  }
+
+  async getEventSeries(): Promise<EventSeries[]> {
+    return await db.select().from(eventSeries).orderBy(eventSeries.id);
+  }
+
+  async createEventSeries(rrule: string, occurrences: InsertEvent[]): Promise<Event[]> {
+    return await db.transaction(async (tx) => {
+      const [series] = await tx.insert(eventSeries).values({ rrule }).returning();
+      return await tx
+        .insert(events)
+        .values(occurrences.map((occurrence) => ({ ...occurrence, seriesId: series.id })))
+        .returning();
+    });
+  }
+
+  // Applies an edit to one occurrence, it and the later ones, or the whole
+  // series. A new date or time moves every affected occurrence by the same
+  // number of days onto the new local time of day; an RSVP deadline keeps
+  // the same lead time before each occurrence. Raising or removing capacity
+  // promotes waitlisted RSVPs into the new seats.
+  async updateEventOccurrences(id: number, event: Partial<InsertEvent>, scope: EventEditScope): Promise<Event[]> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(events).where(and(eq(events.id, id), isNull(events.deletedAt))).limit(1);
+      if (!current) {
+        throw new Error(`Event with ID ${id} not found`);
+      }
+
+      const targets = await tx
+        .select()
+        .from(events)
+        .where(occurrencesInScope(current, scope))
+        .for("update");
+      const { eventDate, rsvpDeadline, ...fields } = event;
+      const to = eventDate ?? current.eventDate;
+
+      const updated: Event[] = [];
+      for (const target of targets) {
+        const moved =
+          target.id === current.id
+            ? eventDate
+            : eventDate && shiftOccurrence(target.eventDate, current.eventDate, eventDate);
+        const deadline =
+          !rsvpDeadline || target.id === current.id
+            ? rsvpDeadline
+            : shiftOccurrence(moved ?? target.eventDate, to, rsvpDeadline);
+        const [row] = await tx
+          .update(events)
+          .set({
+            ...fields,
+            ...(moved ? { eventDate: moved } : {}),
+            ...(deadline !== undefined ? { rsvpDeadline: deadline } : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(events.id, target.id))
+          .returning();
+        if (row.capacity === null ? target.capacity !== null : target.capacity !== null && row.capacity > target.capacity) {
+          await promoteWaitlist(tx, row);
+        }
+        updated.push(row);
+      }
+      return updated;
+    });
+  }
+
+  // Moves the occurrences in scope to the trash
+  async deleteEventOccurrences(id: number, scope: EventEditScope): Promise<Event[]> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(events).where(and(eq(events.id, id), isNull(events.deletedAt))).limit(1);
+      if (!current) return [];
+
+      return await tx
+        .update(events)
+        .set({ deletedAt: new Date() })
+        .where(and(occurrencesInScope(current, scope), isNull(events.deletedAt)))
+        .returning();
+    });
+  }
+
+  async getEventAttendees(eventId: number): Promise<EventAttendeeRoster | undefined> {
+    const event = await this.getEvent(eventId);
+    if (!event) return undefined;
+
+    const rsvpRows = await db
+      .select({
+        userId: eventRsvps.userId,
+        createdAt: sql<Date | null>`MIN(${eventRsvps.createdAt})`.mapWith(eventRsvps.createdAt),
+        confirmed: sql<boolean>`BOOL_OR(${eventRsvps.status} = 'confirmed')`,
+      })
+      .from(eventRsvps)
+      .where(eq(eventRsvps.eventId, eventId))
+      .groupBy(eventRsvps.userId)
+      .orderBy(sql`MIN(${eventRsvps.createdAt})`);
+    const checkinRows = await db
+      .select({ userId: checkins.userId, createdAt: sql<Date | null>`MIN(${checkins.createdAt})`.mapWith(checkins.createdAt) })
+      .from(checkins)
+      .where(eq(checkins.eventId, eventId))
+      .groupBy(checkins.userId);
+
+    const userIds = Array.from(new Set([...rsvpRows, ...checkinRows].map(row => row.userId)));
+    const people = userIds.length === 0 ? [] : await db
+      .select({ id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(inArray(users.id, userIds));
+
+    const rsvpByUser = new Map(rsvpRows.map(row => [row.userId, row]));
+    const waitlist = rsvpRows.filter(row => !row.confirmed).map(row => row.userId);
+    const checkedInAt = new Map(checkinRows.map(row => [row.userId, row.createdAt]));
+    const peopleById = new Map(people.map(person => [person.id, person]));
+
+    const attendees: EventAttendee[] = userIds
+      .map(userId => {
+        const person = peopleById.get(userId);
+        const rsvp = rsvpByUser.get(userId);
+        const position = waitlist.indexOf(userId);
+        return {
+          userId,
+          userEmail: person?.email ?? null,
+          userName: person ? displayName(person.firstName, person.lastName) : null,
+          rsvpAt: rsvp?.createdAt ?? null,
+          rsvpStatus: rsvp ? (rsvp.confirmed ? "confirmed" : "waitlisted") as RsvpStatus : null,
+          waitlistPosition: position === -1 ? null : position + 1,
+          checkedInAt: checkedInAt.get(userId) ?? null,
+        };
+      })
+      .sort((a, b) => (a.userName ?? a.userEmail ?? "").localeCompare(b.userName ?? b.userEmail ?? ""));
+
+    const confirmedCount = rsvpRows.length - waitlist.length;
+    const checkedInWithRsvp = attendees.filter(a => a.rsvpStatus === "confirmed" && a.checkedInAt).length;
+    return {
+      eventId,
+      capacity: event.capacity,
+      rsvpCount: confirmedCount,
+      waitlistCount: waitlist.length,
+      checkinCount: checkinRows.length,
+      checkinRate: confirmedCount > 0 ? checkedInWithRsvp / confirmedCount : null,
+      attendees,
+    };
+  }
+
+  // Records a door check-in and awards the event's check-in points. Only
+  // users with a confirmed RSVP can check in, and only once per event.
+  async checkInToEvent(eventId: number, userId: string): Promise<EventCheckinResult> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx.select().from(events).where(and(eq(events.id, eventId), isNull(events.deletedAt))).limit(1);
+      if (!event) {
+        throw new CheckinError("Event not found", 404);
+      }
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).limit(1);
+      if (!user) {
+        throw new CheckinError("User not found", 404);
+      }
+      const userName = displayName(user.firstName, user.lastName);
+
+      // Lock the RSVP so two scans of the same code can't both check in
+      const [rsvp] = await tx
+        .select()
+        .from(eventRsvps)
+        .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.userId, userId)))
+        .orderBy(desc(eq(eventRsvps.status, "confirmed")), eventRsvps.createdAt)
+        .limit(1)
+        .for("update");
+      if (!rsvp) {
+        throw new CheckinError(`${userName ?? user.email ?? "This user"} has not RSVP'd to this event`, 400);
+      }
+      if (rsvp.status !== "confirmed") {
+        throw new CheckinError(`${userName ?? user.email ?? "This user"} is on the waitlist`, 400);
+      }
+
+      const [existing] = await tx
+        .select({ id: checkins.id })
+        .from(checkins)
+        .where(and(eq(checkins.eventId, eventId), eq(checkins.userId, userId)))
+        .limit(1);
+      if (existing) {
+        throw new CheckinError(`${userName ?? user.email ?? "This user"} is already checked in`, 409);
+      }
+
+      const [checkin] = await tx.insert(checkins).values({ userId, eventId }).returning();
+      if (event.checkinPoints > 0) {
+        await tx.insert(rewards).values({
+          userId,
+          points: event.checkinPoints,
+          source: "checkin",
+          description: `Checked in to ${event.name}`,
+        });
+      }
+
+      return {
+        attendee: {
+          userId,
+          userEmail: user.email,
+          userName,
+          rsvpAt: rsvp.createdAt,
+          rsvpStatus: "confirmed",
+          waitlistPosition: null,
+          checkedInAt: checkin.createdAt,
+        },
+        pointsAwarded: event.checkinPoints,
+      };
+    });
+  }
+
+  // Takes a seat if the event has one, otherwise joins the waitlist. RSVPs
+  // close at the event's deadline, or when it starts if it has none.
+  async rsvpToEvent(eventId: number, userId: string): Promise<EventRsvp> {
+    return await db.transaction(async (tx) => {
+      // Lock the event so two last-seat RSVPs can't both be confirmed
+      const [event] = await tx
+        .select()
+        .from(events)
+        .where(and(eq(events.id, eventId), isNull(events.deletedAt)))
+        .for("update");
+      if (!event) {
+        throw new RsvpError("Event not found", 404);
+      }
+      if (new Date() > (event.rsvpDeadline ?? event.eventDate)) {
+        throw new RsvpError(event.rsvpDeadline ? "RSVPs for this event have closed" : "This event has already started", 400);
+      }
+
+      const [user] = await tx.select({ id: users.id }).from(users).where(eq(users.id, userId));
+      if (!user) {
+        throw new RsvpError("User not found", 404);
+      }
+
+      const [existing] = await tx
+        .select({ status: eventRsvps.status })
+        .from(eventRsvps)
+        .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.userId, userId)))
+        .limit(1);
+      if (existing) {
+        throw new RsvpError(
+          existing.status === "waitlisted" ? "Already on the waitlist for this event" : "Already RSVP'd to this event",
+          409
+        );
+      }
+
+      let status: RsvpStatus = "confirmed";
+      if (event.capacity !== null) {
+        const [{ confirmed }] = await tx
+          .select({ confirmed: count() })
+          .from(eventRsvps)
+          .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.status, "confirmed")));
+        if (confirmed >= event.capacity) status = "waitlisted";
+      }
+
+      const [rsvp] = await tx.insert(eventRsvps).values({ eventId, userId, status }).returning();
+      return rsvp;
+    });
+  }
+
+  // Removes a user's RSVP; a freed seat goes to the longest-waiting RSVP
+  async cancelEventRsvp(eventId: number, userId: string): Promise<RsvpCancellation> {
+    return await db.transaction(async (tx) => {
+      // A trashed event's waitlist stays put until it's restored
+      const [event] = await tx
+        .select()
+        .from(events)
+        .where(and(eq(events.id, eventId), isNull(events.deletedAt)))
+        .for("update");
+      if (!event) {
+        throw new RsvpError("Event not found", 404);
+      }
+
+      const cancelled = await tx
+        .delete(eventRsvps)
+        .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.userId, userId)))
+        .returning();
+      if (cancelled.length === 0) {
+        throw new RsvpError("No RSVP to cancel", 404);
+      }
+
+      return { cancelled: cancelled[0], promoted: await promoteWaitlist(tx, event) };
+    });
   }
 
 
-  async getSurveys(): Promise<Survey[]> {
-    return await db.select().from(surveys).orderBy(desc(surveys.createdAt));
+  async getSurveys(): Promise<SurveyListItem[]> {
+    const rows = await db.select().from(surveys).where(isNull(surveys.deletedAt)).orderBy(desc(surveys.createdAt));
+    const responseCounts = await surveyResponseCounts(db);
+    return rows.map(survey => ({ ...survey, responseCount: responseCounts.get(survey.id) ?? 0 }));
+  }
+
+  async listSurveys(query: SurveyListQuery): Promise<PaginatedResult<SurveyListItem>> {
+    const search = textSearch(query.q, surveys.title, surveys.description);
+    const where = and(
+      isNull(surveys.deletedAt),
+      search?.match,
+      query.audience ? eq(surveys.audience, query.audience) : undefined,
+    );
+    const rows = await db
+      .select()
+      .from(surveys)
+      .where(where)
+      .orderBy(...listOrder(query.sort, surveySortColumns, search, desc(surveys.createdAt), surveys.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const responseCounts = await surveyResponseCounts(db);
+    return {
+      items: rows.map(survey => ({ ...survey, responseCount: responseCounts.get(survey.id) ?? 0 })),
+      total: await countRows(surveys, where),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  // Surveys a patron can answer now: active, in their audience and not
+  // answered by them yet
+  async getAvailableSurveys(userId: string): Promise<Survey[]> {
+    const answered = db
+      .select({ surveyId: surveyResponses.surveyId })
+      .from(surveyResponses)
+      .where(eq(surveyResponses.userId, userId));
+    const candidates = await db
+      .select()
+      .from(surveys)
+      .where(and(
+        eq(surveys.status, "published"),
+        eq(surveys.isActive, true),
+        isNull(surveys.deletedAt),
+        notInArray(surveys.id, answered),
+        inSurveyAudience(userId)
+      ))
+      .orderBy(desc(surveys.createdAt));
+    const responseCounts = await surveyResponseCounts(db);
+    return candidates.filter(survey => surveyStatus(survey, responseCounts.get(survey.id) ?? 0) === "active");
   }
 
   async getSurvey(id: number): Promise<Survey | undefined> {
-    const result = await db.select().from(surveys).where(eq(surveys.id, id)).limit(1);
+    const result = await db.select().from(surveys).where(and(eq(surveys.id, id), isNull(surveys.deletedAt))).limit(1);
     return result[0];
   }
 
@@ -214,26 +1596,99 @@ export class DatabaseStorage implements IStorage {
     console.log('=== DATABASE CREATE SURVEY ===');
     console.log('Survey data to insert:', JSON.stringify(survey, null, 2));
     try {
-      const result = await db.insert(surveys).values(survey).returning();
-      console.log('Database insert result:', JSON.stringify(result[0], null, 2));
-      return result[0];
+      const questions = JSON.stringify(assignQuestionIds(survey.questions, []));
+      return await db.transaction(async (tx) => {
+        const status = survey.status ?? "published";
+        const audience = await checkSurveySettings(tx, {
+          opensAt: survey.opensAt ?? null,
+          closesAt: survey.closesAt ?? null,
+          audience: survey.audience ?? "all",
+          audienceEventId: survey.audienceEventId ?? null,
+          audienceBusinessId: survey.audienceBusinessId ?? null,
+        });
+        const [created] = await tx
+          .insert(surveys)
+          .values({ ...survey, ...audience, status, isActive: status === "published", questions })
+          .returning();
+        await tx.insert(surveyVersions).values({ surveyId: created.id, version: created.currentVersion, questions });
+        console.log('Database insert result:', JSON.stringify(created, null, 2));
+        return created;
+      });
     } catch (error) {
       console.error('Database insert error:', error);
       throw error;
     }
   }
 
+  // Changed questions become a new version; earlier versions stay as they
+  // were answered. Question ids must come from this survey, and a question
+  // with responses keeps its type.
   async updateSurvey(id: number, survey: Partial<InsertSurvey>): Promise<Survey> {
     console.log('=== DATABASE UPDATE SURVEY ===');
     console.log('Survey ID:', id);
     console.log('Survey data to update:', JSON.stringify(survey, null, 2));
     try {
-      const result = await db.update(surveys).set(survey).where(eq(surveys.id, id)).returning();
-      console.log('Database update result:', JSON.stringify(result[0], null, 2));
-      if (!result[0]) {
-        throw new Error(`Survey with ID ${id} not found`);
-      }
-      return result[0];
+      return await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select()
+          .from(surveys)
+          .where(and(eq(surveys.id, id), isNull(surveys.deletedAt)))
+          .for("update");
+        if (!current) {
+          throw new SurveyError(`Survey with ID ${id} not found`, 404);
+        }
+
+        const { questions: incoming, ...fields } = survey;
+        const audience = await checkSurveySettings(tx, {
+          opensAt: fields.opensAt !== undefined ? fields.opensAt : current.opensAt,
+          closesAt: fields.closesAt !== undefined ? fields.closesAt : current.closesAt,
+          audience: fields.audience ?? current.audience,
+          audienceEventId: fields.audienceEventId !== undefined ? fields.audienceEventId : current.audienceEventId,
+          audienceBusinessId: fields.audienceBusinessId !== undefined ? fields.audienceBusinessId : current.audienceBusinessId,
+        });
+        const changes: Partial<typeof surveys.$inferInsert> = { ...fields, ...audience, updatedAt: new Date() };
+        if (fields.status) {
+          changes.isActive = fields.status === "published";
+        }
+
+        if (incoming) {
+          const rows = await tx.select().from(surveyVersions).where(eq(surveyVersions.surveyId, id));
+          const history = surveyVersionList(current, rows);
+          const known = new Map(mergeSurveyVersions(history).map(q => [q.id, q]));
+          const answered = await answeredQuestionIds(tx, id);
+
+          for (const question of incoming) {
+            if (isDraftQuestionId(question.id)) continue;
+            const previous = known.get(question.id!);
+            if (!previous) {
+              throw new SurveyError(`Question ${question.id} does not belong to this survey`, 400);
+            }
+            if (previous.type !== question.type && answered.has(question.id!)) {
+              throw new SurveyError(`"${previous.question}" already has responses, so its type can't change`, 409);
+            }
+          }
+
+          const questions = JSON.stringify(assignQuestionIds(incoming, Array.from(known.keys())));
+          const latest = history.find(v => v.version === current.currentVersion)?.questions;
+          if (questions !== JSON.stringify(latest)) {
+            if (rows.length === 0) {
+              // Keep the pre-versioning questions as version 1 before moving on
+              await tx.insert(surveyVersions).values({
+                surveyId: id,
+                version: current.currentVersion,
+                questions: current.questions ?? "[]",
+              });
+            }
+            const version = current.currentVersion + 1;
+            await tx.insert(surveyVersions).values({ surveyId: id, version, questions });
+            Object.assign(changes, { questions, currentVersion: version });
+          }
+        }
+
+        const [updated] = await tx.update(surveys).set(changes).where(eq(surveys.id, id)).returning();
+        console.log('Database update result:', JSON.stringify(updated, null, 2));
+        return updated;
+      });
     } catch (error) {
       console.error('Database update error:', error);
       throw error;
@@ -241,15 +1696,159 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSurvey(id: number): Promise<void> {
-    await db.delete(surveys).where(eq(surveys.id, id));
+    await db.update(surveys).set({ deletedAt: new Date() }).where(eq(surveys.id, id));
+  }
+
+  async getSurveyVersionHistory(id: number): Promise<SurveyVersionHistory | undefined> {
+    const survey = await this.getSurvey(id);
+    if (!survey) return undefined;
+
+    const rows = await db
+      .select()
+      .from(surveyVersions)
+      .where(eq(surveyVersions.surveyId, id))
+      .orderBy(surveyVersions.version);
+    const counts = await db
+      .select({
+        version: sql<number>`COALESCE(${surveyResponses.surveyVersion}, 1)`.mapWith(Number),
+        responseCount: count(),
+      })
+      .from(surveyResponses)
+      .where(eq(surveyResponses.surveyId, id))
+      .groupBy(sql`COALESCE(${surveyResponses.surveyVersion}, 1)`);
+    const responsesByVersion = new Map(counts.map(row => [row.version, row.responseCount]));
+
+    const versions = rows.length > 0
+      ? rows
+      : [{ id: 0, surveyId: id, version: survey.currentVersion, questions: survey.questions ?? "[]", createdAt: survey.createdAt }];
+    return {
+      currentVersion: survey.currentVersion,
+      versions: versions.map(version => ({ ...version, responseCount: responsesByVersion.get(version.version) ?? 0 })),
+      answeredQuestionIds: Array.from(await answeredQuestionIds(db, id)),
+    };
+  }
+
+  // Records a patron's answers to the survey's current version and awards its
+  // points. The survey must be open and the patron in its audience; answers
+  // must pass the version's logic, and each user can respond once. The
+  // response that fills the quota closes the survey.
+  async submitSurveyResponse(surveyId: number, userId: string, answers: SurveyAnswers): Promise<SurveyResponse> {
+    return await db.transaction(async (tx) => {
+      // Lock the survey so a double submit can't record two responses and the
+      // last places of a quota can't be taken twice
+      const [survey] = await tx
+        .select()
+        .from(surveys)
+        .where(and(eq(surveys.id, surveyId), isNull(surveys.deletedAt)))
+        .for("update");
+      if (!survey) {
+        throw new SurveyError("Survey not found", 404);
+      }
+      const [user] = await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+      if (!user) {
+        throw new SurveyError("User not found", 404);
+      }
+
+      const [{ responseCount }] = await tx
+        .select({ responseCount: count() })
+        .from(surveyResponses)
+        .where(eq(surveyResponses.surveyId, surveyId));
+      const status = surveyStatus(survey, responseCount);
+      if (status === "draft") {
+        throw new SurveyError(`"${survey.title}" has not been published`, 400);
+      }
+      if (status === "scheduled") {
+        throw new SurveyError(`"${survey.title}" opens ${formatOrgDateTime(survey.opensAt!)}`, 400);
+      }
+      if (status === "closed") {
+        throw new SurveyError(`"${survey.title}" is closed`, 400);
+      }
+
+      const [inAudience] = await tx
+        .select({ id: surveys.id })
+        .from(surveys)
+        .where(and(eq(surveys.id, surveyId), inSurveyAudience(userId)));
+      if (!inAudience) {
+        throw new SurveyError("This user is not in the survey's audience", 403);
+      }
+
+      const [existing] = await tx
+        .select({ id: surveyResponses.id })
+        .from(surveyResponses)
+        .where(and(eq(surveyResponses.surveyId, surveyId), eq(surveyResponses.userId, userId)))
+        .limit(1);
+      if (existing) {
+        throw new SurveyError("This user has already responded to this survey", 409);
+      }
+
+      const questions = parseSurveyQuestions(survey.questions);
+      const unknown = Object.keys(answers).filter(id => !questions.some(q => q.id === id));
+      if (unknown.length > 0) {
+        throw new SurveyError(`Question ${unknown.join(", ")} is not in the current version of this survey`, 400);
+      }
+      const checked = checkSurveyAnswers(questions, answers);
+      const problems = checked.path
+        .filter(q => checked.errors[q.id])
+        .map(q => `"${q.question}": ${checked.errors[q.id]}`);
+      if (problems.length > 0) {
+        throw new SurveyError(problems.join("; "), 400);
+      }
+
+      const [response] = await tx.insert(surveyResponses).values({
+        userId,
+        surveyId,
+        surveyVersion: survey.currentVersion,
+        responses: JSON.stringify(checked.answers),
+        pointsEarned: survey.rewardPoints,
+      }).returning();
+      if (survey.rewardPoints > 0) {
+        await tx.insert(rewards).values({
+          userId,
+          points: survey.rewardPoints,
+          source: "survey",
+          description: `Completed survey "${survey.title}"`,
+        });
+      }
+      if (survey.maxResponses !== null && responseCount + 1 >= survey.maxResponses) {
+        await tx
+          .update(surveys)
+          .set({ status: "closed", isActive: false, updatedAt: new Date() })
+          .where(eq(surveys.id, surveyId));
+      }
+      return response;
+    });
   }
 
-  async getRewardItems(): Promise<RewardItem[]> {
-    return await db.select().from(rewardItems).orderBy(desc(rewardItems.createdAt));
+  async getRewardItems(filters: { businessId?: number } = {}): Promise<RewardItem[]> {
+    return await db
+      .select()
+      .from(rewardItems)
+      .where(and(
+        isNull(rewardItems.deletedAt),
+        filters.businessId !== undefined ? eq(rewardItems.businessId, filters.businessId) : undefined,
+      ))
+      .orderBy(desc(rewardItems.createdAt));
+  }
+
+  async listRewardItems(query: RewardItemListQuery): Promise<PaginatedResult<RewardItem>> {
+    const search = textSearch(query.q, rewardItems.name, rewardItems.description);
+    const where = and(
+      isNull(rewardItems.deletedAt),
+      search?.match,
+      query.businessId !== undefined ? eq(rewardItems.businessId, query.businessId) : undefined,
+    );
+    const items = await db
+      .select()
+      .from(rewardItems)
+      .where(where)
+      .orderBy(...listOrder(query.sort, rewardItemSortColumns, search, desc(rewardItems.createdAt), rewardItems.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { items, total: await countRows(rewardItems, where), page: query.page, pageSize: query.pageSize };
   }
 
   async getRewardItem(id: number): Promise<RewardItem | undefined> {
-    const result = await db.select().from(rewardItems).where(eq(rewardItems.id, id)).limit(1);
+    const result = await db.select().from(rewardItems).where(and(eq(rewardItems.id, id), isNull(rewardItems.deletedAt))).limit(1);
     return result[0];
   }
 
@@ -284,14 +1883,511 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteRewardItem(id: number): Promise<void> {
-    await db.delete(rewardItems).where(eq(rewardItems.id, id));
+    await db.update(rewardItems).set({ deletedAt: new Date() }).where(eq(rewardItems.id, id));
   }
 
-  async getDashboardStats() {
-    const [totalCheckins] = await db.select({ count: count() }).from(checkins);
-    const [activeEvents] = await db.select({ count: count() }).from(events).where(sql`${events.eventDate} > NOW()`);
-    const [surveyResponsesCount] = await db.select({ count: count() }).from(surveyResponses);
-    const [rewardsRedeemedCount] = await db.select({ count: count() }).from(rewardRedemptions);
+  async getEventRsvps(filters: { eventId?: number; range?: DateRange; batch?: RowBatch } = {}): Promise<EventRsvpDetail[]> {
+    const conditions = [];
+    if (filters.eventId !== undefined) {
+      conditions.push(eq(eventRsvps.eventId, filters.eventId));
+    }
+    if (filters.range) {
+      conditions.push(inRange(eventRsvps.createdAt, filters.range));
+    }
+
+    const query = db
+      .select({
+        id: eventRsvps.id,
+        eventId: eventRsvps.eventId,
+        eventName: events.name,
+        eventDate: events.eventDate,
+        userId: eventRsvps.userId,
+        userEmail: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        status: eventRsvps.status,
+        createdAt: eventRsvps.createdAt,
+      })
+      .from(eventRsvps)
+      .leftJoin(events, eq(eventRsvps.eventId, events.id))
+      .leftJoin(users, eq(eventRsvps.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(eventRsvps.createdAt), desc(eventRsvps.id))
+      .$dynamic();
+    const result = await inBatch(query, filters.batch);
+
+    return result.map(({ firstName, lastName, ...row }) => ({
+      ...row,
+      userName: [firstName, lastName].filter(Boolean).join(" ") || null,
+    }));
+  }
+
+  // businessId narrows to redemptions of that business's own reward items
+  async getRewardRedemptions(filters: { range?: DateRange; rewardItemId?: number; businessId?: number; status?: RedemptionStatus; batch?: RowBatch } = {}): Promise<RedemptionDetail[]> {
+    const conditions = [];
+    if (filters.range) {
+      conditions.push(inRange(rewardRedemptions.createdAt, filters.range));
+    }
+    if (filters.rewardItemId !== undefined) {
+      conditions.push(eq(rewardRedemptions.rewardItemId, filters.rewardItemId));
+    }
+    if (filters.businessId !== undefined) {
+      conditions.push(eq(rewardItems.businessId, filters.businessId));
+    }
+    if (filters.status) {
+      conditions.push(eq(rewardRedemptions.status, filters.status));
+    }
+
+    const query = db
+      .select({
+        id: rewardRedemptions.id,
+        userId: rewardRedemptions.userId,
+        userEmail: users.email,
+        rewardItemId: rewardRedemptions.rewardItemId,
+        rewardItemName: rewardItems.name,
+        pointsRedeemed: rewardRedemptions.pointsRedeemed,
+        businessName: businesses.name,
+        status: rewardRedemptions.status,
+        resolvedAt: rewardRedemptions.resolvedAt,
+        voidReason: rewardRedemptions.voidReason,
+        createdAt: rewardRedemptions.createdAt,
+      })
+      .from(rewardRedemptions)
+      .leftJoin(rewardItems, eq(rewardRedemptions.rewardItemId, rewardItems.id))
+      .leftJoin(businesses, eq(rewardRedemptions.businessId, businesses.id))
+      .leftJoin(users, eq(rewardRedemptions.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(rewardRedemptions.createdAt), desc(rewardRedemptions.id))
+      .$dynamic();
+    return await inBatch(query, filters.batch);
+  }
+
+  // Spends the item's points on a pending voucher. The user and item rows are
+  // locked so concurrent redemptions can't overdraw the balance or the stock.
+  async redeemRewardItem(rewardItemId: number, userId: string): Promise<RewardRedemption> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new RedemptionError("User not found", 404);
+      }
+      const [item] = await tx
+        .select()
+        .from(rewardItems)
+        .where(and(eq(rewardItems.id, rewardItemId), isNull(rewardItems.deletedAt)))
+        .for("update");
+      if (!item) {
+        throw new RedemptionError("Reward item not found", 404);
+      }
+      if (!item.isActive) {
+        throw new RedemptionError(`${item.name} is not available`, 400);
+      }
+      if (item.expirationDate && item.expirationDate <= new Date()) {
+        throw new RedemptionError(`${item.name} has expired`, 400);
+      }
+
+      if (item.maxRedemptions !== null) {
+        const [{ redeemed }] = await tx
+          .select({ redeemed: count() })
+          .from(rewardRedemptions)
+          .where(and(eq(rewardRedemptions.rewardItemId, item.id), liveRedemption));
+        if (redeemed >= item.maxRedemptions) {
+          throw new RedemptionError(`${item.name} is out of stock`, 409);
+        }
+      }
+
+      const [{ balance }] = await tx.select({ balance: pointsBalanceSql(userId) }).from(users).where(eq(users.id, userId));
+      if (balance < item.pointThreshold) {
+        throw new RedemptionError(`${item.name} needs ${item.pointThreshold} points; balance is only ${balance}`, 400);
+      }
+
+      const [redemption] = await tx
+        .insert(rewardRedemptions)
+        .values({ userId, rewardItemId: item.id, pointsRedeemed: item.pointThreshold })
+        .returning();
+      return redemption;
+    });
+  }
+
+  // Fulfils a pending voucher at a business or voids it, refunding its points.
+  // A business-specific reward can only be fulfilled by its own business.
+  // With businessId, only vouchers for that business's reward items are found.
+  async resolveRedemption(id: number, resolution: RedemptionResolution, businessId?: number): Promise<RewardRedemption> {
+    return await db.transaction(async (tx) => {
+      const [redemption] = await tx.select().from(rewardRedemptions).where(eq(rewardRedemptions.id, id)).for("update");
+      const [item] = redemption
+        ? await tx
+            .select({ businessId: rewardItems.businessId })
+            .from(rewardItems)
+            .where(eq(rewardItems.id, redemption.rewardItemId))
+        : [];
+      if (!redemption || (businessId !== undefined && item?.businessId !== businessId)) {
+        throw new RedemptionError("Redemption not found", 404);
+      }
+      if (redemption.status !== "pending") {
+        throw new RedemptionError(`Redemption is already ${redemption.status}`, 409);
+      }
+
+      if (resolution.status === "void") {
+        const [voided] = await tx
+          .update(rewardRedemptions)
+          .set({ status: "void", voidReason: resolution.reason || null, resolvedAt: new Date() })
+          .where(eq(rewardRedemptions.id, id))
+          .returning();
+        return voided;
+      }
+
+      const itemBusinessId = item?.businessId ?? null;
+      if (itemBusinessId !== null && resolution.businessId !== undefined && resolution.businessId !== itemBusinessId) {
+        throw new RedemptionError("This reward can only be fulfilled by the business offering it", 400);
+      }
+
+      const [fulfilled] = await tx
+        .update(rewardRedemptions)
+        .set({
+          status: "fulfilled",
+          businessId: resolution.businessId ?? itemBusinessId,
+          resolvedAt: new Date(),
+        })
+        .where(eq(rewardRedemptions.id, id))
+        .returning();
+      return fulfilled;
+    });
+  }
+
+  async getRewardItemStock(filters: { businessId?: number } = {}): Promise<RewardItemStock[]> {
+    const rows = await db
+      .select({
+        rewardItemId: rewardItems.id,
+        maxRedemptions: rewardItems.maxRedemptions,
+        pendingCount: sql<number>`COUNT(${rewardRedemptions.id}) FILTER (WHERE ${rewardRedemptions.status} = 'pending')`.mapWith(Number),
+        fulfilledCount: sql<number>`COUNT(${rewardRedemptions.id}) FILTER (WHERE ${rewardRedemptions.status} = 'fulfilled')`.mapWith(Number),
+      })
+      .from(rewardItems)
+      .leftJoin(rewardRedemptions, eq(rewardRedemptions.rewardItemId, rewardItems.id))
+      .where(and(
+        isNull(rewardItems.deletedAt),
+        filters.businessId !== undefined ? eq(rewardItems.businessId, filters.businessId) : undefined,
+      ))
+      .groupBy(rewardItems.id);
+
+    return rows.map(({ maxRedemptions, ...row }) => {
+      const redemptionCount = row.pendingCount + row.fulfilledCount;
+      return {
+        ...row,
+        redemptionCount,
+        remaining: maxRedemptions === null ? null : Math.max(0, maxRedemptions - redemptionCount),
+      };
+    });
+  }
+
+  async getSurveyResponses(filters: { surveyId?: number; range?: DateRange; batch?: RowBatch } = {}): Promise<SurveyResponseDetail[]> {
+    const conditions = [];
+    if (filters.surveyId !== undefined) {
+      conditions.push(eq(surveyResponses.surveyId, filters.surveyId));
+    }
+    if (filters.range) {
+      conditions.push(inRange(surveyResponses.createdAt, filters.range));
+    }
+
+    const query = db
+      .select({ response: surveyResponses, surveyTitle: surveys.title, userEmail: users.email })
+      .from(surveyResponses)
+      .leftJoin(surveys, eq(surveyResponses.surveyId, surveys.id))
+      .leftJoin(users, eq(surveyResponses.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(surveyResponses.createdAt), desc(surveyResponses.id))
+      .$dynamic();
+    const result = await inBatch(query, filters.batch);
+
+    return result.map(row => ({ ...row.response, surveyTitle: row.surveyTitle, userEmail: row.userEmail }));
+  }
+
+  async getPromotions(filters: { businessId?: number; status?: PromotionStatus } = {}): Promise<Promotion[]> {
+    return await db.select().from(promotions)
+      .where(promotionFilters(filters).where)
+      .orderBy(desc(promotions.createdAt));
+  }
+
+  async listPromotions(query: PromotionListQuery): Promise<PaginatedResult<Promotion>> {
+    const { where, search } = promotionFilters(query);
+    const items = await db
+      .select()
+      .from(promotions)
+      .where(where)
+      .orderBy(...listOrder(query.sort, promotionSortColumns, search, desc(promotions.createdAt), promotions.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { items, total: await countRows(promotions, where), page: query.page, pageSize: query.pageSize };
+  }
+
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    const result = await db.select().from(promotions).where(eq(promotions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const result = await db.insert(promotions).values(promotion).returning();
+    return result[0];
+  }
+
+  async updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion> {
+    const result = await db.update(promotions)
+      .set({ ...promotion, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+    if (!result[0]) {
+      throw new Error(`Promotion with ID ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async deletePromotion(id: number): Promise<void> {
+    await db.delete(promotions).where(eq(promotions.id, id));
+  }
+
+  async setPromotionsActive(ids: number[], isActive: boolean): Promise<Promotion[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.update(promotions)
+      .set({ isActive, updatedAt: new Date() })
+      .where(inArray(promotions.id, ids))
+      .returning();
+  }
+
+  async createReceipt({ pointsAwarded, rewardSource, ...receipt }: InsertReceipt): Promise<Receipt> {
+    return await db.transaction(async (tx) => {
+      let rewardId: number | null = null;
+      if (pointsAwarded > 0) {
+        const [reward] = await tx.insert(rewards).values({
+          userId: receipt.userId,
+          points: pointsAwarded,
+          source: rewardSource,
+          description: `Receipt for $${(receipt.amountCents / 100).toFixed(2)}`,
+          businessId: receipt.businessId,
+        }).returning();
+        rewardId = reward.id;
+      }
+
+      const result = await tx.insert(receipts).values({ ...receipt, rewardId }).returning();
+      return result[0];
+    });
+  }
+
+  async getSalesSummary(range: DateRange): Promise<SalesSummary> {
+    const [row] = await db
+      .select({
+        totalCents: sql<number>`COALESCE(SUM(${receipts.amountCents}), 0)::bigint`,
+        transactions: count(receipts.id),
+        activeBusinesses: sql<number>`COUNT(DISTINCT ${receipts.businessId})::int`,
+      })
+      .from(receipts)
+      .where(inRange(receipts.purchasedAt, range));
+
+    const totalRevenue = Number(row.totalCents) / 100;
+    return {
+      totalRevenue,
+      transactions: row.transactions,
+      avgTransaction: row.transactions > 0 ? totalRevenue / row.transactions : 0,
+      activeBusinesses: row.activeBusinesses,
+    };
+  }
+
+  async getDailyRevenue(range: AnalyticsRange): Promise<DailyRevenue[]> {
+    const day = periodStart(receipts.purchasedAt, range.granularity);
+    const result = await db
+      .select({
+        date: day,
+        totalCents: sql<number>`SUM(${receipts.amountCents})::bigint`,
+        transactions: count(receipts.id),
+      })
+      .from(receipts)
+      .where(inRange(receipts.purchasedAt, range))
+      .groupBy(day)
+      .orderBy(day);
+
+    return result.map(row => {
+      const revenue = Number(row.totalCents) / 100;
+      return { date: row.date, revenue, transactions: row.transactions, avgSpend: revenue / row.transactions };
+    });
+  }
+
+  async getRevenueByCategory(range: DateRange): Promise<CategoryRevenue[]> {
+    const result = await db
+      .select({
+        category: businesses.category,
+        totalCents: sql<number>`SUM(${receipts.amountCents})::bigint`,
+        transactions: count(receipts.id),
+      })
+      .from(receipts)
+      .innerJoin(businesses, eq(receipts.businessId, businesses.id))
+      .where(inRange(receipts.purchasedAt, range))
+      .groupBy(businesses.category)
+      .orderBy(desc(sql`SUM(${receipts.amountCents})`));
+
+    return result.map(row => ({ category: row.category, revenue: Number(row.totalCents) / 100, transactions: row.transactions }));
+  }
+
+  async getTopBusinessesByRevenue(range: DateRange, limit = 5): Promise<BusinessRevenue[]> {
+    const result = await db
+      .select({
+        businessId: businesses.id,
+        name: businesses.name,
+        category: businesses.category,
+        totalCents: sql<number>`SUM(${receipts.amountCents})::bigint`,
+        transactions: count(receipts.id),
+      })
+      .from(receipts)
+      .innerJoin(businesses, eq(receipts.businessId, businesses.id))
+      .where(inRange(receipts.purchasedAt, range))
+      .groupBy(businesses.id, businesses.name, businesses.category)
+      .orderBy(desc(sql`SUM(${receipts.amountCents})`))
+      .limit(limit);
+
+    return result.map(({ totalCents, ...row }) => ({ ...row, revenue: Number(totalCents) / 100 }));
+  }
+
+  async getRevenueByPaymentMethod(range: DateRange): Promise<PaymentMethodRevenue[]> {
+    const result = await db
+      .select({
+        method: receipts.paymentMethod,
+        totalCents: sql<number>`SUM(${receipts.amountCents})::bigint`,
+        transactions: count(receipts.id),
+      })
+      .from(receipts)
+      .where(inRange(receipts.purchasedAt, range))
+      .groupBy(receipts.paymentMethod)
+      .orderBy(desc(sql`SUM(${receipts.amountCents})`));
+
+    return result.map(row => ({
+      method: row.method as PaymentMethodRevenue["method"],
+      amount: Number(row.totalCents) / 100,
+      transactions: row.transactions,
+    }));
+  }
+
+  async getHourlySpending(range: DateRange): Promise<HourlySpending[]> {
+    const hour = sql<number>`EXTRACT(HOUR FROM ${localTime(receipts.purchasedAt)})::int`;
+    const result = await db
+      .select({
+        hour,
+        avgCents: sql<number>`AVG(${receipts.amountCents})::float`,
+        transactions: count(receipts.id),
+      })
+      .from(receipts)
+      .where(inRange(receipts.purchasedAt, range))
+      .groupBy(hour)
+      .orderBy(hour);
+
+    return result.map(row => ({ hour: row.hour, avgSpend: row.avgCents / 100, transactions: row.transactions }));
+  }
+
+  async getCheckinsByHour(range: DateRange): Promise<HourlyCheckins[]> {
+    const hour = sql<number>`EXTRACT(HOUR FROM ${localTime(checkins.createdAt)})::int`;
+    const result = await db
+      .select({ hour, checkins: count(checkins.id), visitors: countDistinct(checkins.userId) })
+      .from(checkins)
+      .where(inRange(checkins.createdAt, range))
+      .groupBy(hour)
+      .orderBy(hour);
+
+    return result;
+  }
+
+  async getCheckinsByWeekday(range: DateRange): Promise<WeekdayCheckins[]> {
+    const weekday = sql<number>`EXTRACT(DOW FROM ${localTime(checkins.createdAt)})::int`;
+    const result = await db
+      .select({ weekday, checkins: count(checkins.id), visitors: countDistinct(checkins.userId) })
+      .from(checkins)
+      .where(inRange(checkins.createdAt, range))
+      .groupBy(weekday)
+      .orderBy(weekday);
+
+    return result;
+  }
+
+  async getVisitorOrigins(range: DateRange): Promise<VisitorOrigin[]> {
+    const zip = sql<string>`COALESCE(${users.zipCode}, 'Unknown')`;
+    const result = await db
+      .select({ zipCode: zip, visitors: countDistinct(checkins.userId) })
+      .from(checkins)
+      .leftJoin(users, eq(checkins.userId, users.id))
+      .where(inRange(checkins.createdAt, range))
+      .groupBy(zip)
+      .orderBy(desc(countDistinct(checkins.userId)));
+
+    return result;
+  }
+
+  async getHotspots(range: DateRange): Promise<Hotspot[]> {
+    const locatedBusinesses = await db
+      .select({ name: businesses.name, address: businesses.address, latitude: businesses.latitude, longitude: businesses.longitude })
+      .from(businesses)
+      .where(and(isNotNull(businesses.latitude), isNotNull(businesses.longitude), isNull(businesses.deletedAt)));
+
+    const clusters = clusterPoints(
+      locatedBusinesses.map(b => ({ ...b, latitude: b.latitude!, longitude: b.longitude! })),
+      HOTSPOT_RADIUS_METERS,
+    );
+
+    // Check-ins only carry an event, so they are placed at the event's coordinates
+    const eventCheckins = await db
+      .select({ latitude: events.latitude, longitude: events.longitude, checkins: count(checkins.id) })
+      .from(checkins)
+      .innerJoin(events, eq(checkins.eventId, events.id))
+      .where(and(inRange(checkins.createdAt, range), isNotNull(events.latitude), isNotNull(events.longitude)))
+      .groupBy(events.id, events.latitude, events.longitude);
+
+    const clusterCheckins = clusters.map(() => 0);
+    for (const row of eventCheckins) {
+      const point = { latitude: row.latitude!, longitude: row.longitude! };
+      let nearest = -1;
+      let nearestDistance = Infinity;
+      clusters.forEach((cluster, index) => {
+        const distance = distanceMeters(cluster, point);
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      if (nearest >= 0 && nearestDistance <= HOTSPOT_RADIUS_METERS * 2) {
+        clusterCheckins[nearest] += row.checkins;
+      }
+    }
+
+    return clusters
+      .map((cluster, index) => {
+        // Label each hotspot by the street most of its businesses share
+        const streetCounts = new Map<string, number>();
+        for (const member of cluster.members) {
+          const street = streetFromAddress(member.address);
+          if (street) streetCounts.set(street, (streetCounts.get(street) || 0) + 1);
+        }
+        const topStreet = Array.from(streetCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+        return {
+          label: topStreet || cluster.members[0].name,
+          latitude: cluster.latitude,
+          longitude: cluster.longitude,
+          businessCount: cluster.members.length,
+          businesses: cluster.members.map(m => m.name),
+          checkins: clusterCheckins[index],
+        };
+      })
+      .sort((a, b) => b.checkins - a.checkins || b.businessCount - a.businessCount);
+  }
+
+  async getDashboardStats(range: DateRange): Promise<DashboardStats> {
+    const [totalCheckins] = await db.select({ count: count() }).from(checkins).where(inRange(checkins.createdAt, range));
+    const [activeEvents] = await db
+      .select({ count: count() })
+      .from(events)
+      .where(and(inRange(events.eventDate, range), isNull(events.deletedAt)));
+    const [surveyResponsesCount] = await db.select({ count: count() }).from(surveyResponses).where(inRange(surveyResponses.createdAt, range));
+    const [rewardsRedeemedCount] = await db
+      .select({ count: count() })
+      .from(rewardRedemptions)
+      .where(and(inRange(rewardRedemptions.createdAt, range), liveRedemption));
 
     return {
       totalCheckins: totalCheckins.count,
@@ -301,34 +2397,43 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getEventRsvpTrends() {
+  async getEventRsvpTrends(range: AnalyticsRange): Promise<RsvpTrend[]> {
+    const period = periodStart(events.eventDate, range.granularity);
     const result = await db
       .select({
-        date: sql<string>`DATE(${events.eventDate})`,
+        date: period,
         rsvps: count(eventRsvps.id),
       })
       .from(events)
       .leftJoin(eventRsvps, eq(events.id, eventRsvps.eventId))
-      .groupBy(sql`DATE(${events.eventDate})`)
-      .orderBy(sql`DATE(${events.eventDate})`);
+      .where(and(inRange(events.eventDate, range), isNull(events.deletedAt)))
+      .groupBy(period)
+      .orderBy(period);
 
     return result.map(row => ({ date: row.date, rsvps: row.rsvps }));
   }
 
-  async getRewardRedemptionTrends() {
+  async getRewardRedemptionTrends(range: AnalyticsRange, businessId?: number): Promise<RedemptionTrend[]> {
+    const period = periodStart(rewardRedemptions.createdAt, range.granularity);
     const result = await db
       .select({
-        date: sql<string>`DATE(${rewardRedemptions.createdAt})`,
+        date: period,
         redemptions: count(rewardRedemptions.id),
       })
       .from(rewardRedemptions)
-      .groupBy(sql`DATE(${rewardRedemptions.createdAt})`)
-      .orderBy(sql`DATE(${rewardRedemptions.createdAt})`);
+      .leftJoin(rewardItems, eq(rewardRedemptions.rewardItemId, rewardItems.id))
+      .where(and(
+        inRange(rewardRedemptions.createdAt, range),
+        liveRedemption,
+        businessId !== undefined ? eq(rewardItems.businessId, businessId) : undefined,
+      ))
+      .groupBy(period)
+      .orderBy(period);
 
     return result.map(row => ({ date: row.date, redemptions: row.redemptions }));
   }
 
-  async getSurveyResponseDistribution() {
+  async getSurveyResponseDistribution(range: DateRange): Promise<SurveyResponseCount[]> {
     const result = await db
       .select({
         surveyTitle: surveys.title,
@@ -336,13 +2441,16 @@ export class DatabaseStorage implements IStorage {
       })
       .from(surveyResponses)
       .innerJoin(surveys, eq(surveyResponses.surveyId, surveys.id))
+      .where(inRange(surveyResponses.createdAt, range))
       .groupBy(surveys.title)
       .orderBy(desc(count(surveyResponses.id)));
 
     return result.map(row => ({ surveyTitle: row.surveyTitle, responses: row.responses }));
   }
 
-  async getCheckinsByEvent() {
+  // Trashed events keep their check-ins. Only check-ins orphaned by hard
+  // deletes from before the trash existed count under "Unknown Event".
+  async getCheckinsByEvent(range: DateRange): Promise<EventCheckinCount[]> {
     const result = await db
       .select({
         eventName: events.name,
@@ -350,6 +2458,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(checkins)
       .leftJoin(events, eq(checkins.eventId, events.id))
+      .where(inRange(checkins.createdAt, range))
       .groupBy(events.name)
       .orderBy(desc(count(checkins.id)));
 
@@ -367,6 +2476,7 @@ export class DatabaseStorage implements IStorage {
         name: events.name,
         createdAt: events.createdAt,
       }).from(events)
+        .where(isNull(events.deletedAt))
         .orderBy(desc(events.createdAt))
         .limit(10);
       
@@ -391,6 +2501,7 @@ export class DatabaseStorage implements IStorage {
         pointThreshold: rewardItems.pointThreshold,
         createdAt: rewardItems.createdAt,
       }).from(rewardItems)
+        .where(isNull(rewardItems.deletedAt))
         .orderBy(desc(rewardItems.createdAt))
         .limit(10);
 
@@ -414,6 +2525,7 @@ export class DatabaseStorage implements IStorage {
         title: surveys.title,
         createdAt: surveys.createdAt,
       }).from(surveys)
+        .where(isNull(surveys.deletedAt))
         .orderBy(desc(surveys.createdAt))
         .limit(10);
 
@@ -490,62 +2602,53 @@ export class DatabaseStorage implements IStorage {
 
       console.log('Total responses found:', responses.length);
 
-      // Parse survey questions
-      let questions = [];
-      try {
-        questions = typeof survey.questions === "string"
-          ? JSON.parse(survey.questions)
-          : Array.isArray(survey.questions)
-          ? survey.questions
-          : [];
-      } catch (e) {
-        console.error('Error parsing survey questions:', e);
-        questions = [];
-      }
+      // Answers are keyed by question id, so questions merge across versions
+      const versionRows = await db.select().from(surveyVersions).where(eq(surveyVersions.surveyId, surveyId));
+      const questions = mergeSurveyVersions(surveyVersionList(survey, versionRows));
 
-      console.log('Questions parsed:', questions.length);
+      console.log('Questions merged across versions:', questions.length);
 
-      // Analyze responses for each question
-      const questionAnalytics = questions.map((question: any, index: number) => {
-        const questionId = (index + 1).toString();
-        const questionText = question.text || question.question || `Question ${questionId}`;
-        const questionType = question.type || 'text';
-        const options = question.options || [];
+      const answerSets = responses.map(response => {
+        try {
+          return typeof response.responses === 'string' ? JSON.parse(response.responses) ?? {} : {};
+        } catch (e) {
+          console.error('Error parsing response answers:', e);
+          return {};
+        }
+      });
 
-        console.log(`Analyzing question ${questionId}: ${questionText} (${questionType})`);
+      // Analyze responses for each question
+      const questionAnalytics = questions.map((question): SurveyQuestionAnalytics => {
+        const questionId = question.id;
+        const questionText = question.question || `Question ${questionId}`;
+        const questionType = question.type;
+        const options = question.options;
 
         // Collect all answers for this question
         const allAnswers: string[] = [];
         const textResponses: string[] = [];
 
-        responses.forEach(response => {
-          try {
-            const answersObj = typeof response.responses === 'string'
-              ? JSON.parse(response.responses)
-              : response.responses;
-            
-            if (answersObj && answersObj[questionId]) {
-              const answer = answersObj[questionId];
-              
-              // Handle checkbox questions - split comma-separated values
-              if (questionType === 'checkbox') {
-                const checkboxAnswers = answer.split(',').map((a: string) => a.trim());
-                checkboxAnswers.forEach((checkboxAnswer: string) => {
-                  if (checkboxAnswer) {
-                    allAnswers.push(checkboxAnswer);
-                  }
-                });
-              } else {
-                allAnswers.push(answer);
-              }
-              
-              // For text questions, keep the full text
-              if (questionType === 'text' || questionType === 'textarea') {
-                textResponses.push(answer);
+        answerSets.forEach(answersObj => {
+          const answer = answersObj[questionId];
+          if (answer === undefined || answer === null || answer === '') return;
+
+          // Checkbox answers are arrays; older rows and direct inserts from the
+          // mobile app may still join them with commas
+          if (questionType === 'checkbox') {
+            const checkboxAnswers = Array.isArray(answer) ? answer : String(answer).split(',');
+            checkboxAnswers.forEach((checkboxAnswer: unknown) => {
+              const trimmed = String(checkboxAnswer).trim();
+              if (trimmed) {
+                allAnswers.push(trimmed);
               }
-            }
-          } catch (e) {
-            console.error('Error parsing response answers:', e);
+            });
+          } else {
+            allAnswers.push(String(answer));
+          }
+
+          // For text questions, keep the full text
+          if (questionType === 'text' || questionType === 'textarea') {
+            textResponses.push(String(answer));
           }
         });
 
@@ -561,13 +2664,12 @@ export class DatabaseStorage implements IStorage {
           count
         })).sort((a, b) => b.count - a.count); // Sort by count descending
 
-        console.log(`Question ${questionId} responses:`, responseData);
-
         return {
           questionId,
           questionText,
           questionType,
           options,
+          retired: question.retired,
           responses: responseData,
           textResponses: questionType === 'text' || questionType === 'textarea' ? textResponses.slice(0, 10) : undefined // Limit text responses
         };
@@ -592,24 +2694,21 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getEventRsvpCounts() {
+  async getEventRsvpCounts(): Promise<EventRsvpCounts[]> {
     console.log('=== GET EVENT RSVP COUNTS ===');
     try {
       const result = await db
         .select({
           eventId: eventRsvps.eventId,
-          rsvpCount: count(eventRsvps.id),
+          confirmedCount: sql<number>`COUNT(*) FILTER (WHERE ${eventRsvps.status} = 'confirmed')`.mapWith(Number),
+          waitlistedCount: sql<number>`COUNT(*) FILTER (WHERE ${eventRsvps.status} = 'waitlisted')`.mapWith(Number),
         })
         .from(eventRsvps)
         .groupBy(eventRsvps.eventId);
 
       console.log('RSVP counts found:', result.length);
-      console.log('RSVP data:', JSON.stringify(result, null, 2));
 
-      return result.map(row => ({
-        eventId: row.eventId,
-        rsvpCount: row.rsvpCount
-      }));
+      return result;
     } catch (error) {
       console.error('Error fetching event RSVP counts:', error);
       throw error;
@@ -0,0 +1,121 @@
+import {
+  WEEKDAYS,
+  businessHoursSchema,
+  legacyHoursSchema,
+  type BusinessHours,
+  type HoursShift,
+  type OpenStatus,
+  type Weekday,
+} from "./schema";
+import { toWallTime } from "./timezone";
+
+export const emptyWeeklyHours = (): BusinessHours["weekly"] =>
+  Object.fromEntries(WEEKDAYS.map((day) => [day, []])) as unknown as BusinessHours["weekly"];
+
+const padTime = (time: string) => {
+  const [hours, minutes] = time.trim().split(":");
+  return `${hours.padStart(2, "0")}:${minutes}`;
+};
+
+// Reads businesses.hours in either the structured or the legacy format.
+// Returns null when no hours are set or the text can't be understood.
+export function parseBusinessHours(text: string | null | undefined): BusinessHours | null {
+  if (!text || text.trim() === "") return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const structured = businessHoursSchema.safeParse(json);
+  if (structured.success) return structured.data;
+
+  const legacy = legacyHoursSchema.safeParse(json);
+  if (!legacy.success) return null;
+
+  const weekly = emptyWeeklyHours();
+  for (const [day, value] of Object.entries(legacy.data) as [Weekday, string][]) {
+    if (/^\s*(closed)?\s*$/i.test(value)) continue;
+    weekly[day] = value.split(",").map((range) => {
+      const [open, close] = range.split("-");
+      return { open: padTime(open), close: padTime(close) };
+    });
+  }
+  return { weekly, exceptions: [] };
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const isOvernight = (shift: HoursShift) => toMinutes(shift.close) <= toMinutes(shift.open);
+
+// Calendar date, weekday and minutes past midnight of `now` in timeZone
+function localParts(now: Date, timeZone: string) {
+  const wall = toWallTime(now, timeZone);
+  return { date: wall.slice(0, 10), minutes: Number(wall.slice(11, 13)) * 60 + Number(wall.slice(14, 16)) };
+}
+
+// Shifts `days` calendar days from a YYYY-MM-DD date
+function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+const weekdayOf = (date: string): Weekday => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+// Holiday exceptions replace the regular weekly shifts for their date
+function shiftsOn(hours: BusinessHours, date: string): HoursShift[] {
+  const exception = hours.exceptions.find((e) => e.date === date);
+  return exception ? exception.shifts : hours.weekly[weekdayOf(date)];
+}
+
+// Whether a business is open at `now`, when it next closes, and if closed
+// when it next opens (looking up to a week ahead)
+export function getOpenStatus(hours: BusinessHours, now: Date, timeZone: string): OpenStatus {
+  const { date, minutes } = localParts(now, timeZone);
+
+  // Overnight shifts that started yesterday are still running this morning
+  const carriedOver = shiftsOn(hours, addDays(date, -1)).find(
+    (shift) => isOvernight(shift) && minutes < toMinutes(shift.close)
+  );
+  const current =
+    carriedOver ??
+    shiftsOn(hours, date).find((shift) =>
+      isOvernight(shift)
+        ? minutes >= toMinutes(shift.open)
+        : minutes >= toMinutes(shift.open) && minutes < toMinutes(shift.close)
+    );
+  if (current) {
+    return { isOpen: true, source: "hours", closesAt: current.close, nextOpen: null };
+  }
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = addDays(date, offset);
+    const upcoming = shiftsOn(hours, day)
+      .filter((shift) => offset > 0 || toMinutes(shift.open) > minutes)
+      .sort((a, b) => toMinutes(a.open) - toMinutes(b.open))[0];
+    if (upcoming) {
+      return {
+        isOpen: false,
+        source: "hours",
+        closesAt: null,
+        nextOpen: { weekday: weekdayOf(day), date: day, time: upcoming.open },
+      };
+    }
+  }
+
+  return { isOpen: false, source: "hours", closesAt: null, nextOpen: null };
+}
+
+// "17:00" -> "5 PM", "09:30" -> "9:30 AM"
+export function formatTimeOfDay(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const period = hours % 24 < 12 ? "AM" : "PM";
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return minutes === 0 ? `${hour12} ${period}` : `${hour12}:${minutes.toString().padStart(2, "0")} ${period}`;
+}
@@ -0,0 +1,81 @@
+import type { UserRole } from "./schema";
+
+// What each role may do in the admin app. The server guards every route with
+// one of these; the client only uses them to hide what would be refused.
+export const PERMISSIONS = [
+  "analytics:view", // platform dashboard, event/survey/sales/geographic analytics
+  "exports:download",
+  "audit:view", // the audit log and each entity's change history
+  "users:view",
+  "users:manage", // roles, suspension and points adjustments
+  "businesses:view",
+  "businesses:edit",
+  "businesses:manage", // create, delete and import
+  "receipts:create",
+  "events:view",
+  "events:manage",
+  "engagement:record", // RSVPs, check-ins and survey responses for a patron
+  "surveys:view",
+  "surveys:manage",
+  "rewards:view",
+  "rewards:manage",
+  "redemptions:view",
+  "redemptions:resolve",
+  "promotions:view",
+  "promotions:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  patron: [],
+  // Scoped to users.businessId: see businessScope
+  business: [
+    "businesses:view",
+    "businesses:edit",
+    "rewards:view",
+    "rewards:manage",
+    "redemptions:view",
+    "redemptions:resolve",
+    "promotions:view",
+    "promotions:manage",
+  ],
+  event_coordinator: [
+    "analytics:view",
+    "exports:download",
+    "users:view",
+    "businesses:view",
+    "events:view",
+    "events:manage",
+    "engagement:record",
+    "surveys:view",
+    "surveys:manage",
+  ],
+  staff: PERMISSIONS.filter((permission) => permission !== "users:manage"),
+  admin: PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  patron: "Patron",
+  business: "Business Owner",
+  event_coordinator: "Event Coordinator",
+  staff: "Staff",
+  admin: "Super Admin",
+};
+
+// Roles arrive from tokens and Supabase metadata, so anything unknown has no
+// permissions rather than throwing
+export function can(role: string | undefined, permission: Permission): boolean {
+  const permissions = ROLE_PERMISSIONS[role as UserRole] as readonly Permission[] | undefined;
+  return permissions?.includes(permission) ?? false;
+}
+
+export const canSignIn = (role: string | undefined) =>
+  PERMISSIONS.some((permission) => can(role, permission));
+
+// The business a user's data access is confined to, or null when they can
+// see every business. Business owners without a linked business see nothing.
+export function businessScope(user: { role: string; businessId?: number | null }): number | null {
+  if (user.role !== "business") return null;
+  return user.businessId ?? -1;
+}
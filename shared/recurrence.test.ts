@@ -0,0 +1,103 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { expandRecurrence, shiftOccurrence, shiftWallTime } from "./recurrence";
+import { insertEventSchema, type RecurrenceRule } from "./schema";
+
+// Organization time is America/New_York (see the test script). In 2026 the
+// clocks spring forward on March 8 and fall back on November 1.
+const iso = (date: Date) => date.toISOString();
+const weekly = (count: number): RecurrenceRule => ({ freq: "weekly", interval: 1, count });
+
+// What POST /api/events stores for each occurrence of a series
+const occurrenceInstants = (start: string, rule: RecurrenceRule) =>
+  expandRecurrence(start, rule).map((eventDate) =>
+    iso(insertEventSchema.parse({ name: "Market", location: "Downtown", eventDate }).eventDate)
+  );
+
+describe("recurring events across DST", () => {
+  test("a weekly 9 AM event stays at 9 AM local through spring forward", () => {
+    assert.deepEqual(expandRecurrence("2026-03-01T09:00:00", weekly(3)), [
+      "2026-03-01T09:00:00",
+      "2026-03-08T09:00:00",
+      "2026-03-15T09:00:00",
+    ]);
+    assert.deepEqual(occurrenceInstants("2026-03-01T09:00:00", weekly(3)), [
+      "2026-03-01T14:00:00.000Z",
+      "2026-03-08T13:00:00.000Z",
+      "2026-03-15T13:00:00.000Z",
+    ]);
+  });
+
+  test("a weekly 9 AM event stays at 9 AM local through fall back", () => {
+    assert.deepEqual(occurrenceInstants("2026-10-25T09:00:00", weekly(2)), [
+      "2026-10-25T13:00:00.000Z",
+      "2026-11-01T14:00:00.000Z",
+    ]);
+  });
+
+  test("an occurrence in the spring-forward gap moves an hour later", () => {
+    assert.deepEqual(occurrenceInstants("2026-03-01T02:30:00", weekly(3)), [
+      "2026-03-01T07:30:00.000Z",
+      "2026-03-08T07:30:00.000Z", // 3:30 AM EDT
+      "2026-03-15T06:30:00.000Z",
+    ]);
+  });
+
+  test("an occurrence in the repeated hour takes its first, daylight-time reading", () => {
+    assert.deepEqual(occurrenceInstants("2026-10-25T01:30:00", weekly(3)), [
+      "2026-10-25T05:30:00.000Z",
+      "2026-11-01T05:30:00.000Z", // 1:30 AM EDT
+      "2026-11-08T06:30:00.000Z",
+    ]);
+  });
+
+  test("monthly rules keep the local time too", () => {
+    const rule: RecurrenceRule = { freq: "monthly", interval: 1, count: 2 };
+    // Second Sunday of the month, as the first occurrence is
+    assert.deepEqual(occurrenceInstants("2026-02-08T10:00:00", rule), [
+      "2026-02-08T15:00:00.000Z",
+      "2026-03-08T14:00:00.000Z",
+    ]);
+  });
+
+  test("each occurrence's RSVP deadline keeps the first one's lead time", () => {
+    const start = "2026-03-07T18:00:00";
+    const deadline = "2026-03-06T12:00:00";
+    const [, second] = expandRecurrence(start, weekly(2));
+    const shifted = shiftWallTime(second, start, deadline);
+    assert.equal(shifted, "2026-03-13T12:00:00");
+    assert.equal(iso(insertEventSchema.shape.rsvpDeadline.parse(shifted)!), "2026-03-13T16:00:00.000Z");
+  });
+});
+
+describe("moving series occurrences", () => {
+  const at = (value: string) => new Date(value);
+
+  test("keeps later occurrences at the new local time after spring forward", () => {
+    // Sat 6 PM EST moved to Sun 7 PM; the occurrence after the change follows
+    // in local time, so its UTC hour is one earlier
+    const from = at("2026-02-28T23:00:00.000Z"); // Feb 28 6 PM EST
+    const to = at("2026-03-02T00:00:00.000Z"); // Mar 1 7 PM EST
+    const later = at("2026-03-07T23:00:00.000Z"); // Mar 7 6 PM EST
+    assert.equal(iso(shiftOccurrence(later, from, to)), "2026-03-08T23:00:00.000Z"); // Mar 8 7 PM EDT
+  });
+
+  test("keeps later occurrences at the new local time after fall back", () => {
+    const from = at("2026-10-24T13:00:00.000Z"); // Oct 24 9 AM EDT
+    const to = at("2026-10-24T14:30:00.000Z"); // Oct 24 10:30 AM EDT
+    const later = at("2026-11-07T14:00:00.000Z"); // Nov 7 9 AM EST
+    assert.equal(iso(shiftOccurrence(later, from, to)), "2026-11-07T15:30:00.000Z"); // Nov 7 10:30 AM EST
+  });
+
+  test("a move onto the gap lands after it and onto the repeated hour lands on the first", () => {
+    const from = at("2026-03-01T15:00:00.000Z"); // Mar 1 10 AM EST
+    const toGap = at("2026-03-01T07:30:00.000Z"); // Mar 1 2:30 AM EST
+    const inGap = at("2026-03-08T14:00:00.000Z"); // Mar 8 10 AM EDT
+    assert.equal(iso(shiftOccurrence(inGap, from, toGap)), "2026-03-08T07:30:00.000Z");
+
+    const fromFall = at("2026-10-25T14:00:00.000Z"); // Oct 25 10 AM EDT
+    const toRepeated = at("2026-10-25T05:30:00.000Z"); // Oct 25 1:30 AM EDT
+    const inRepeated = at("2026-11-01T15:00:00.000Z"); // Nov 1 10 AM EST
+    assert.equal(iso(shiftOccurrence(inRepeated, fromFall, toRepeated)), "2026-11-01T05:30:00.000Z");
+  });
+});
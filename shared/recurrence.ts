@@ -0,0 +1,177 @@
+import {
+  MAX_SERIES_OCCURRENCES,
+  WEEKDAYS,
+  recurrenceRuleSchema,
+  type RecurrenceRule,
+  type Weekday,
+} from "./schema";
+import { fromWallTime, toWallTime } from "./timezone";
+
+// Occurrences are handled as local wall-clock strings (YYYY-MM-DDTHH:mm:ss)
+// so a 9 AM market stays at 9 AM across daylight saving changes.
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const utcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+function addDays(date: string, days: number) {
+  const d = utcDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+const weekdayIndex = (date: string) => utcDate(date).getUTCDay();
+
+// 1-4 for the first to fourth weekday of the month, -1 for a fifth (last)
+function weekOfMonthOf(date: string) {
+  const week = Math.ceil(utcDate(date).getUTCDate() / 7);
+  return week > 4 ? -1 : week;
+}
+
+// The nth (or last, n = -1) given weekday of a month; month may overflow
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number) {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last.toISOString().slice(0, 10);
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+  return first.toISOString().slice(0, 10);
+}
+
+// Fills in the days a rule leaves implicit from the first occurrence, so the
+// stored rule means the same thing without its start date
+export function resolveRecurrence(start: string, rule: RecurrenceRule): RecurrenceRule {
+  const startDate = start.slice(0, 10);
+  const byWeekday =
+    rule.freq === "monthly"
+      ? [rule.byWeekday?.[0] ?? WEEKDAYS[weekdayIndex(startDate)]]
+      : rule.byWeekday ?? [WEEKDAYS[weekdayIndex(startDate)]];
+  return {
+    ...rule,
+    byWeekday,
+    weekOfMonth: rule.freq === "monthly" ? rule.weekOfMonth ?? weekOfMonthOf(startDate) : undefined,
+  };
+}
+
+// Expands a rule into occurrence start times, beginning on or after `start`
+// and capped at MAX_SERIES_OCCURRENCES
+export function expandRecurrence(start: string, rule: RecurrenceRule): string[] {
+  const [startDate, time] = start.split("T");
+  const resolved = resolveRecurrence(start, rule);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const withinUntil = (date: string) => !rule.until || date <= rule.until;
+  const dates: string[] = [];
+
+  if (resolved.freq === "weekly") {
+    const days = resolved.byWeekday!.map((day) => WEEKDAYS.indexOf(day)).sort((a, b) => a - b);
+    let weekStart = addDays(startDate, -weekdayIndex(startDate));
+    while (dates.length < limit) {
+      for (const day of days) {
+        const date = addDays(weekStart, day);
+        if (date < startDate) continue;
+        if (!withinUntil(date) || dates.length >= limit) return dates.map((d) => `${d}T${time}`);
+        dates.push(date);
+      }
+      weekStart = addDays(weekStart, 7 * resolved.interval);
+    }
+  } else {
+    const first = utcDate(startDate);
+    const weekday = WEEKDAYS.indexOf(resolved.byWeekday![0]);
+    for (let month = 0; dates.length < limit; month += resolved.interval) {
+      const date = nthWeekdayOfMonth(
+        first.getUTCFullYear(),
+        first.getUTCMonth() + month,
+        weekday,
+        resolved.weekOfMonth!
+      );
+      if (date < startDate) continue;
+      if (!withinUntil(date)) break;
+      dates.push(date);
+    }
+  }
+
+  return dates.map((date) => `${date}T${time}`);
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const days = (rule.byWeekday ?? []).map((day) => RRULE_DAYS[WEEKDAYS.indexOf(day)]);
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (days.length > 0) {
+    parts.push(`BYDAY=${rule.freq === "monthly" ? `${rule.weekOfMonth ?? ""}${days[0]}` : days.join(",")}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+// Reads rules written by formatRRule; anything else returns null
+export function parseRRule(text: string | null | undefined): RecurrenceRule | null {
+  if (!text) return null;
+  const fields = Object.fromEntries(
+    text.split(";").map((part) => part.split("=") as [string, string])
+  );
+
+  const rule: Record<string, unknown> = {
+    freq: fields.FREQ?.toLowerCase(),
+    interval: fields.INTERVAL ? Number(fields.INTERVAL) : 1,
+  };
+  if (fields.BYDAY) {
+    const days = fields.BYDAY.split(",").map((day) => {
+      const match = day.match(/^(-?\d)?([A-Z]{2})$/);
+      if (match?.[1]) rule.weekOfMonth = Number(match[1]);
+      return WEEKDAYS[RRULE_DAYS.indexOf(match?.[2] ?? "")];
+    });
+    rule.byWeekday = days;
+  }
+  if (fields.COUNT) rule.count = Number(fields.COUNT);
+  if (fields.UNTIL) rule.until = fields.UNTIL.replace(/^(\d{4})(\d{2})(\d{2}).*$/, "$1-$2-$3");
+
+  const parsed = recurrenceRuleSchema.safeParse(rule);
+  return parsed.success ? parsed.data : null;
+}
+
+const ORDINALS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" };
+
+const dayName = (day: Weekday) => day.charAt(0).toUpperCase() + day.slice(1);
+
+// "Weekly on Saturday, 12 times", "Every 2 months on the last Friday until Dec 31, 2026"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = rule.freq === "weekly" ? "week" : "month";
+  const every =
+    rule.interval === 1 ? (rule.freq === "weekly" ? "Weekly" : "Monthly") : `Every ${rule.interval} ${unit}s`;
+  const days = (rule.byWeekday ?? []).map(dayName);
+
+  let text = every;
+  if (rule.freq === "weekly" && days.length > 0) {
+    text += ` on ${days.join(", ")}`;
+  } else if (rule.freq === "monthly" && days.length > 0 && rule.weekOfMonth !== undefined) {
+    text += ` on the ${ORDINALS[rule.weekOfMonth]} ${days[0]}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  } else if (rule.until) {
+    text += ` until ${utcDate(rule.until).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })}`;
+  }
+  return text;
+}
+
+// Moves one occurrence the way another was moved: by the same number of
+// calendar days, onto the new time of day
+export function shiftWallTime(occurrence: string, from: string, to: string): string {
+  const days = Math.round((utcDate(to.slice(0, 10)).getTime() - utcDate(from.slice(0, 10)).getTime()) / 86_400_000);
+  return `${addDays(occurrence.slice(0, 10), days)}T${to.slice(11)}`;
+}
+
+// shiftWallTime for stored instants, read and written in the organization's
+// timezone so the result keeps its local time across a DST change
+export function shiftOccurrence(occurrence: Date, from: Date, to: Date): Date {
+  return fromWallTime(shiftWallTime(toWallTime(occurrence), toWallTime(from), toWallTime(to)));
+}
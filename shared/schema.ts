@@ -6,10 +6,13 @@ import {
   timestamp,
   boolean,
   serial,
+  unique,
+  index,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql, type SQLWrapper } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseOrgDateTime } from "./timezone";
 
 // ============================================================================
 // STUART MAIN STREET APP - COMPLETE DATABASE SCHEMA FOR ADMIN APP
@@ -17,10 +20,18 @@ import { z } from "zod";
 // This schema matches the production Supabase database for the Stuart Main Street App
 // ============================================================================
 
-// Session storage table (for Supabase Auth compatibility)
+// The text list searches match against: the given columns, English-stemmed.
+// List queries build the same expression as the GIN indexes below so Postgres
+// can use them.
+export const searchDocument = (...columns: SQLWrapper[]) =>
+  sql`to_tsvector('english', ${sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `)})`;
+
+// Admin app sign-in sessions, one per login. The row holds a hash of the
+// session's current refresh token; see server/auth.ts
 export const sessions = pgTable("sessions", {
   sid: text("sid").primaryKey(),
-  sess: text("sess").notNull(), // JSON as text
+  userId: text("user_id"),
+  sess: text("sess").notNull(), // SessionData as JSON text
   expire: timestamp("expire").notNull(),
 });
 
@@ -31,8 +42,10 @@ export const users = pgTable("users", {
   firstName: text("first_name"),
   lastName: text("last_name"),
   profileImageUrl: text("profile_image_url"),
-  role: text("role").notNull().default("patron"), // "patron", "business", or "admin"
+  role: text("role").notNull().default("patron"), // one of USER_ROLES
   businessId: integer("business_id"),
+  zipCode: text("zip_code"), // optional, patron-provided for visitor origin analytics
+  isSuspended: boolean("is_suspended").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -48,15 +61,17 @@ export const businesses = pgTable("businesses", {
   address: text("address"),
   latitude: real("latitude"),
   longitude: real("longitude"),
-  hours: text("hours"), // JSON as text: {"monday":"9:00-17:00","tuesday":"9:00-17:00",...}
+  hours: text("hours"), // BusinessHours JSON as text (legacy {"monday":"9:00-17:00",...} is still read)
   imageUrl: text("image_url"),
+  thumbnailUrl: text("thumbnail_url"),
   isOpen: boolean("is_open").default(true),
   isFeatured: boolean("is_featured").default(false),
   waitTime: integer("wait_time"), // in minutes
   ownerId: text("owner_id"),
+  deletedAt: timestamp("deleted_at"), // set while in the trash
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("businesses_search").using("gin", searchDocument(table.name, table.description, table.address, table.category))]);
 
 // Events table
 export const events = pgTable("events", {
@@ -65,10 +80,26 @@ export const events = pgTable("events", {
   description: text("description"),
   eventDate: timestamp("event_date").notNull(),
   location: text("location").notNull(),
+  latitude: real("latitude"), // optional, places check-ins on the map
+  longitude: real("longitude"),
   imageUrl: text("image_url"),
+  thumbnailUrl: text("thumbnail_url"),
   organizerId: text("organizer_id"),
+  checkinPoints: integer("checkin_points").notNull().default(10), // awarded into rewards on check-in
+  seriesId: integer("series_id"), // set on occurrences of a recurring event
+  capacity: integer("capacity"), // confirmed RSVPs allowed; null is unlimited
+  rsvpDeadline: timestamp("rsvp_deadline"), // RSVPs close here, or at the start when null
+  deletedAt: timestamp("deleted_at"), // set while in the trash
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("events_search").using("gin", searchDocument(table.name, table.description, table.location))]);
+
+// Recurring event series. Each occurrence is its own events row (so RSVPs and
+// check-ins stay per date); the series keeps the rule they were expanded from.
+export const eventSeries = pgTable("event_series", {
+  id: serial("id").primaryKey(),
+  rrule: text("rrule").notNull(), // e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=SA;COUNT=12
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Promotions table
@@ -83,7 +114,7 @@ export const promotions = pgTable("promotions", {
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("promotions_search").using("gin", searchDocument(table.title, table.description))]);
 
 // Check-ins table (for events only, requires RSVP first)
 export const checkins = pgTable("checkins", {
@@ -98,6 +129,8 @@ export const eventRsvps = pgTable("event_rsvps", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
   eventId: integer("event_id").notNull(),
+  status: text("status").notNull().default("confirmed"), // "confirmed" or "waitlisted"
+  promotedAt: timestamp("promoted_at"), // when a waitlisted RSVP was confirmed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -106,7 +139,7 @@ export const rewards = pgTable("rewards", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
   points: integer("points").notNull().default(0),
-  source: text("source").notNull(), // "rsvp", "survey", "checkin", "receipt", "purchase"
+  source: text("source").notNull(), // "rsvp", "survey", "checkin", "receipt", "purchase", "adjustment"
   description: text("description"),
   businessId: integer("business_id"), // optional, for business-specific rewards
   createdAt: timestamp("created_at").defaultNow(),
@@ -117,12 +150,31 @@ export const surveys = pgTable("surveys", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description"),
-  questions: text("questions"), // JSON as text
+  questions: text("questions"), // JSON as text; the current version's questions
+  currentVersion: integer("current_version").notNull().default(1),
   rewardPoints: integer("reward_points").notNull().default(10),
-  isActive: boolean("is_active").default(true),
+  status: text("status").notNull().default("published"), // "draft", "published" or "closed"; see surveyStatus
+  isActive: boolean("is_active").default(true), // status === "published", for the mobile app; false on older closed surveys
+  opensAt: timestamp("opens_at"),
+  closesAt: timestamp("closes_at"),
+  maxResponses: integer("max_responses"), // the survey closes once it has this many responses
+  audience: text("audience").notNull().default("all"), // "all", "event_attendees" or "business_customers"
+  audienceEventId: integer("audience_event_id"), // event_attendees: patrons checked in to this event
+  audienceBusinessId: integer("audience_business_id"), // business_customers: patrons with a reward fulfilled here
+  deletedAt: timestamp("deleted_at"), // set while in the trash
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("surveys_search").using("gin", searchDocument(table.title, table.description))]);
+
+// Every set of questions a survey has had. A version is never changed once
+// written, so each response can be read against the questions it answered.
+export const surveyVersions = pgTable("survey_versions", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull(),
+  version: integer("version").notNull(),
+  questions: text("questions").notNull(), // JSON as text
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("survey_versions_survey_version").on(table.surveyId, table.version)]);
 
 // Reward items table (defines available rewards for redemption)
 export const rewardItems = pgTable("reward_items", {
@@ -132,19 +184,22 @@ export const rewardItems = pgTable("reward_items", {
   pointThreshold: integer("point_threshold").notNull(),
   businessId: integer("business_id"), // optional, for business-specific rewards
   imageUrl: text("image_url"),
+  thumbnailUrl: text("thumbnail_url"),
   isActive: boolean("is_active").default(true),
   expirationDate: timestamp("expiration_date"),
   maxRedemptions: integer("max_redemptions"), // optional limit on total redemptions
+  deletedAt: timestamp("deleted_at"), // set while in the trash
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [index("reward_items_search").using("gin", searchDocument(table.name, table.description))]);
 
 // Survey responses table
 export const surveyResponses = pgTable("survey_responses", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
   surveyId: integer("survey_id").notNull(),
-  responses: text("responses"), // JSON as text
+  surveyVersion: integer("survey_version"), // null for responses from before versioning (version 1)
+  responses: text("responses"), // JSON as text, keyed by question id
   pointsEarned: integer("points_earned").default(5),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -156,9 +211,40 @@ export const rewardRedemptions = pgTable("reward_redemptions", {
   rewardItemId: integer("reward_item_id").notNull(), // references reward_items table
   pointsRedeemed: integer("points_redeemed").notNull(),
   businessId: integer("business_id"), // If redeemed at specific business
+  status: text("status").notNull().default("pending"), // "pending", "fulfilled" or "void"
+  resolvedAt: timestamp("resolved_at"), // when the voucher was fulfilled or voided
+  voidReason: text("void_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Receipts table (purchases submitted by patrons for sales analytics)
+export const receipts = pgTable("receipts", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  businessId: integer("business_id").notNull(),
+  amountCents: integer("amount_cents").notNull(), // purchase total in cents
+  paymentMethod: text("payment_method").notNull(), // "credit_card", "debit_card", "cash", "mobile_pay", "other"
+  purchasedAt: timestamp("purchased_at").notNull(),
+  rewardId: integer("reward_id"), // rewards row (source "receipt" or "purchase") granted for this receipt
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Audit log of admin changes, one row per audited request and entity; written
+// by the audit middleware in server/audit.ts
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: text("actor_id"),
+  actorEmail: text("actor_email"), // kept so entries stay readable if the user is removed
+  action: text("action").notNull(), // "create", "update", "delete" or a route's own verb, e.g. "redeem"
+  entityType: text("entity_type").notNull(), // one of AUDIT_ENTITY_TYPES
+  entityId: text("entity_id"), // null for changes spanning many rows, e.g. an import
+  changes: text("changes").notNull(), // AuditChanges JSON as text
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("audit_log_entity").on(table.entityType, table.entityId),
+  index("audit_log_created_at").on(table.createdAt),
+]);
+
 // ============================================================================
 // RELATIONS - Define table relationships for Drizzle ORM
 // ============================================================================
@@ -173,6 +259,7 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   rewards: many(rewards),
   surveyResponses: many(surveyResponses),
   rewardRedemptions: many(rewardRedemptions),
+  receipts: many(receipts),
 }));
 
 export const businessesRelations = relations(businesses, ({ one, many }) => ({
@@ -183,6 +270,7 @@ export const businessesRelations = relations(businesses, ({ one, many }) => ({
   promotions: many(promotions),
   rewardItems: many(rewardItems),
   rewardRedemptions: many(rewardRedemptions),
+  receipts: many(receipts),
 }));
 
 export const eventsRelations = relations(events, ({ one, many }) => ({
@@ -190,10 +278,18 @@ export const eventsRelations = relations(events, ({ one, many }) => ({
     fields: [events.organizerId],
     references: [users.id],
   }),
+  series: one(eventSeries, {
+    fields: [events.seriesId],
+    references: [eventSeries.id],
+  }),
   rsvps: many(eventRsvps),
   checkins: many(checkins),
 }));
 
+export const eventSeriesRelations = relations(eventSeries, ({ many }) => ({
+  occurrences: many(events),
+}));
+
 export const promotionsRelations = relations(promotions, ({ one }) => ({
   business: one(businesses, {
     fields: [promotions.businessId],
@@ -244,6 +340,14 @@ export const rewardsRelations = relations(rewards, ({ one }) => ({
 
 export const surveysRelations = relations(surveys, ({ many }) => ({
   responses: many(surveyResponses),
+  versions: many(surveyVersions),
+}));
+
+export const surveyVersionsRelations = relations(surveyVersions, ({ one }) => ({
+  survey: one(surveys, {
+    fields: [surveyVersions.surveyId],
+    references: [surveys.id],
+  }),
 }));
 
 export const surveyResponsesRelations = relations(surveyResponses, ({ one }) => ({
@@ -272,6 +376,21 @@ export const rewardRedemptionsRelations = relations(rewardRedemptions, ({ one })
   }),
 }));
 
+export const receiptsRelations = relations(receipts, ({ one }) => ({
+  user: one(users, {
+    fields: [receipts.userId],
+    references: [users.id],
+  }),
+  business: one(businesses, {
+    fields: [receipts.businessId],
+    references: [businesses.id],
+  }),
+  reward: one(rewards, {
+    fields: [receipts.rewardId],
+    references: [rewards.id],
+  }),
+}));
+
 // ============================================================================
 // INSERT SCHEMAS - Zod validation schemas for data insertion
 // ============================================================================
@@ -281,35 +400,179 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const USER_ROLES = ["patron", "business", "event_coordinator", "staff", "admin"] as const;
+
+// Admin-editable user fields (role changes are mirrored to Supabase app_metadata)
+export const updateUserAdminSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  businessId: z.number().int().nullable().optional(),
+  isSuspended: z.boolean().optional(),
+});
+
+// Manual point grant (positive) or clawback (negative) made by an admin
+export const pointsAdjustmentSchema = z.object({
+  points: z.number().int().refine((points) => points !== 0, "Points must not be zero"),
+  reason: z.string().trim().min(3, "A reason is required"),
+});
+
+// Weekly opening hours. Days are indexed like Date.getDay() (Sunday first).
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Use 24-hour HH:MM");
+
+// A close time at or before the open time runs past midnight
+export const hoursShiftSchema = z.object({
+  open: timeOfDaySchema,
+  close: timeOfDaySchema,
+});
+
+export const businessHoursSchema = z.object({
+  // One entry per weekday; an empty list means closed all day. Several
+  // shifts allow split hours such as 11:00-14:00 and 17:00-22:00.
+  weekly: z.object(
+    Object.fromEntries(WEEKDAYS.map((day) => [day, z.array(hoursShiftSchema)])) as Record<
+      (typeof WEEKDAYS)[number],
+      z.ZodArray<typeof hoursShiftSchema>
+    >
+  ),
+  // Date-specific overrides (holidays, special events) in local time
+  exceptions: z
+    .array(
+      z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+        label: z.string().optional(),
+        shifts: z.array(hoursShiftSchema),
+      })
+    )
+    .default([]),
+});
+
+// Original free-form format: {"monday":"9:00-17:00","sunday":"closed"}
+export const legacyHoursSchema = z.record(
+  z.enum(WEEKDAYS),
+  z.string().regex(/^\s*(closed|\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2}(\s*,\s*\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2})*)?\s*$/i)
+);
+
+const parseJsonSafe = (value: string) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+// businesses.hours as stored: JSON in either format, or empty for no set hours
+export const businessHoursTextSchema = z
+  .string()
+  .nullable()
+  .optional()
+  .refine((value) => {
+    if (!value || value.trim() === "") return true;
+    const json = parseJsonSafe(value);
+    return businessHoursSchema.safeParse(json).success || legacyHoursSchema.safeParse(json).success;
+  }, "Hours must be a valid weekly schedule");
+
 export const insertBusinessSchema = createInsertSchema(businesses).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+}).extend({
+  hours: businessHoursTextSchema,
+});
+
+// Business fields that can be mapped from an import CSV column
+export const BUSINESS_IMPORT_FIELDS = [
+  "name",
+  "category",
+  "description",
+  "website",
+  "phone",
+  "address",
+  "latitude",
+  "longitude",
+  "hours",
+  "imageUrl",
+  "isOpen",
+  "isFeatured",
+  "waitTime",
+] as const;
+
+// CSV cells arrive as strings; blank cells mean "not provided"
+const blankToNull = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? null : value;
+
+const csvText = z.preprocess(blankToNull, z.string().trim().nullable().optional());
+const csvNumber = z.preprocess(blankToNull, z.coerce.number().nullable().optional());
+const csvBoolean = z.preprocess((value) => {
+  const v = blankToNull(value);
+  if (typeof v !== "string") return v;
+  const normalized = v.trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return v;
+}, z.boolean().nullable().optional());
+
+export const businessImportRowSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  description: csvText,
+  website: csvText,
+  phone: csvText,
+  address: csvText,
+  latitude: csvNumber.refine((v) => v == null || (v >= -90 && v <= 90), "Latitude must be between -90 and 90"),
+  longitude: csvNumber.refine((v) => v == null || (v >= -180 && v <= 180), "Longitude must be between -180 and 180"),
+  hours: z.preprocess(blankToNull, businessHoursTextSchema),
+  imageUrl: csvText,
+  isOpen: csvBoolean,
+  isFeatured: csvBoolean,
+  waitTime: csvNumber.refine((v) => v == null || (Number.isInteger(v) && v >= 0), "Wait time must be a whole number of minutes"),
+});
+
+export const businessImportRequestSchema = z.object({
+  rows: z.array(z.record(z.string())).min(1, "No rows to import").max(5000, "Import at most 5000 rows at a time"),
+  onDuplicate: z.enum(["update", "skip"]).default("skip"),
+});
+
+// Local wall time in the organization's timezone (or an ISO string with an
+// offset), converted with the offset in effect on that date
+const orgDateTimeSchema = z.string().transform((str, ctx) => {
+  try {
+    return parseOrgDateTime(str);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    return z.NEVER;
+  }
 });
 
 export const insertEventSchema = createInsertSchema(events).omit({
   id: true,
+  seriesId: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 }).extend({
-  // Override eventDate to handle Eastern Time properly
-  eventDate: z.string().transform((str) => {
-    // Determine if we're in EST (-05:00) or EDT (-04:00) based on current date
-    const now = new Date();
-    const isEDT = now.getTimezoneOffset() === 240; // EDT is UTC-4 (240 minutes)
-    const offset = isEDT ? '-04:00' : '-05:00';
-    
-    // Create a Date object that represents Eastern Time by appending the timezone offset
-    const easternTimeString = str + offset;
-    console.log(`Timezone transform: ${str} -> ${easternTimeString}`);
-    return new Date(easternTimeString);
-  }),
+  eventDate: orgDateTimeSchema,
+  checkinPoints: z.number().int().min(0, "Check-in points can't be negative").optional(),
+  capacity: z.number().int().min(1, "Capacity must be at least 1").nullable().optional(),
+  rsvpDeadline: orgDateTimeSchema.nullable().optional(),
 });
 
 export const insertPromotionSchema = createInsertSchema(promotions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  // Override expiresAt to accept ISO string and convert to Date
+  expiresAt: z.string().nullable().optional().transform((str) => str ? new Date(str) : null),
 });
 
 export const insertCheckinSchema = createInsertSchema(checkins).omit({
@@ -319,9 +582,14 @@ export const insertCheckinSchema = createInsertSchema(checkins).omit({
 
 export const insertEventRsvpSchema = createInsertSchema(eventRsvps).omit({
   id: true,
+  status: true,
+  promotedAt: true,
   createdAt: true,
 });
 
+// RSVPs past an event's capacity wait in line, oldest first
+export const RSVP_STATUSES = ["confirmed", "waitlisted"] as const;
+
 export const insertRewardSchema = createInsertSchema(rewards).omit({
   id: true,
   createdAt: true,
@@ -331,43 +599,373 @@ export const insertRewardItemSchema = createInsertSchema(rewardItems).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 }).extend({
   // Override expirationDate to accept ISO string and convert to Date
   expirationDate: z.string().nullable().optional().transform((str) => str ? new Date(str) : null),
 });
 
+export const SURVEY_QUESTION_TYPES = ["text", "rating", "multiple_choice", "checkbox", "yes_no"] as const;
+
+// Branching logic tests an earlier answer. Which operators apply depends on
+// the type of the question being tested; `answered` ignores the value.
+export const SURVEY_CONDITION_OPERATORS = ["equals", "not_equals", "includes", "at_least", "at_most", "answered"] as const;
+
+export const SURVEY_CONDITION_OPERATORS_BY_TYPE: Record<string, readonly SurveyConditionOperator[]> = {
+  text: ["answered", "equals", "not_equals"],
+  rating: ["at_least", "at_most", "equals", "answered"],
+  multiple_choice: ["equals", "not_equals", "answered"],
+  checkbox: ["includes", "answered"],
+  yes_no: ["equals", "not_equals", "answered"],
+};
+
+export const SURVEY_RATING_SCALE = [1, 2, 3, 4, 5] as const;
+
+// Skip rules may jump to this instead of a question id to finish the survey
+export const SURVEY_END = "end";
+
+// The answers a question accepts, or null for free text
+export function surveyAnswerChoices(question: { type: string; options?: string[] }): string[] | null {
+  switch (question.type) {
+    case "rating":
+      return SURVEY_RATING_SCALE.map(String);
+    case "yes_no":
+      return ["Yes", "No"];
+    case "multiple_choice":
+    case "checkbox":
+      return question.options ?? [];
+    default:
+      return null;
+  }
+}
+
+const surveyConditionTestSchema = z.object({
+  operator: z.enum(SURVEY_CONDITION_OPERATORS),
+  value: z.string().default(""),
+});
+
+// Display logic: ask the question only when another question's answer passes
+export const surveyConditionSchema = surveyConditionTestSchema.extend({
+  questionId: z.string().min(1),
+});
+
+// Skip logic: once the question is answered, the first rule its answer
+// passes jumps ahead to a later question (or SURVEY_END)
+export const surveySkipRuleSchema = surveyConditionTestSchema.extend({
+  to: z.string().min(1),
+});
+
+// One question as written by the survey editor. New questions have no id, or
+// a draft id (see isDraftQuestionId) that other questions' logic can refer
+// to; the server assigns one that is never reused within the survey.
+export const surveyQuestionSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    question: z.string().trim().min(1, "Question text is required"),
+    type: z.enum(SURVEY_QUESTION_TYPES),
+    options: z.array(z.string()).default([]),
+    required: z.boolean().default(true),
+    // Checkbox questions only: how many options an answer may select
+    minSelections: z.number().int().min(1).optional(),
+    maxSelections: z.number().int().min(1).optional(),
+    showIf: surveyConditionSchema.optional(),
+    skipRules: z.array(surveySkipRuleSchema).default([]),
+  })
+  .superRefine((question, ctx) => {
+    const { minSelections, maxSelections } = question;
+    if (question.type !== "checkbox" && (minSelections !== undefined || maxSelections !== undefined)) {
+      ctx.addIssue({ code: "custom", path: ["maxSelections"], message: "Selection limits apply to checkbox questions only" });
+    } else if (minSelections !== undefined && maxSelections !== undefined && minSelections > maxSelections) {
+      ctx.addIssue({ code: "custom", path: ["maxSelections"], message: "Maximum selections must be at least the minimum" });
+    } else if (Math.max(minSelections ?? 0, maxSelections ?? 0) > question.options.length) {
+      ctx.addIssue({ code: "custom", path: ["maxSelections"], message: "Selection limits can't exceed the number of options" });
+    }
+  });
+
+// Why `condition` can't test answers to `target`, if it can't
+function surveyConditionProblem(
+  condition: z.infer<typeof surveyConditionTestSchema>,
+  target: z.infer<typeof surveyQuestionSchema>
+): string | null {
+  if (!SURVEY_CONDITION_OPERATORS_BY_TYPE[target.type].includes(condition.operator)) {
+    return `"${condition.operator}" can't be used with ${target.type.replace("_", " ")} questions`;
+  }
+  if (condition.operator === "answered") return null;
+  const choices = surveyAnswerChoices(target);
+  if (choices ? !choices.includes(condition.value) : !condition.value.trim()) {
+    return `"${condition.value}" is not a possible answer to "${target.question}"`;
+  }
+  return null;
+}
+
+// The editor's question list. Logic may only look back (display logic) or
+// jump forward (skip rules), so every branch of a survey ends.
+export const surveyQuestionListSchema = z
+  .array(surveyQuestionSchema)
+  .min(1, "At least one question is required")
+  .superRefine((questions, ctx) => {
+    const positions = new Map<string, number>();
+    questions.forEach((question, index) => {
+      if (question.id === undefined) return;
+      if (positions.has(question.id)) {
+        ctx.addIssue({ code: "custom", path: [index, "id"], message: `Question id ${question.id} is used twice` });
+      }
+      positions.set(question.id, index);
+    });
+
+    questions.forEach((question, index) => {
+      if (question.showIf) {
+        const position = positions.get(question.showIf.questionId);
+        const problem =
+          position === undefined || position >= index
+            ? "Display logic must refer to an earlier question"
+            : surveyConditionProblem(question.showIf, questions[position]);
+        if (problem) ctx.addIssue({ code: "custom", path: [index, "showIf"], message: problem });
+      }
+
+      for (const rule of question.skipRules) {
+        const position = positions.get(rule.to);
+        const problem =
+          rule.to !== SURVEY_END && (position === undefined || position <= index)
+            ? "Skip rules must jump to a later question or the end"
+            : surveyConditionProblem(rule, question);
+        if (problem) {
+          ctx.addIssue({ code: "custom", path: [index, "skipRules"], message: problem });
+          break;
+        }
+      }
+    });
+  });
+
+// Accepts the questions array or, as the column stores it, its JSON text
+export const surveyQuestionsSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  },
+  surveyQuestionListSchema
+);
+
+// What an admin sets; the state respondents see also depends on the open
+// window and response quota (see SURVEY_STATUSES)
+export const SURVEY_PUBLISH_STATUSES = ["draft", "published", "closed"] as const;
+export const SURVEY_STATUSES = ["draft", "scheduled", "active", "closed"] as const;
+export const SURVEY_AUDIENCES = ["all", "event_attendees", "business_customers"] as const;
+
 export const insertSurveySchema = createInsertSchema(surveys).omit({
   id: true,
+  currentVersion: true,
+  isActive: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+}).extend({
+  questions: surveyQuestionsSchema,
+  status: z.enum(SURVEY_PUBLISH_STATUSES).optional(),
+  opensAt: orgDateTimeSchema.nullable().optional(),
+  closesAt: orgDateTimeSchema.nullable().optional(),
+  maxResponses: z.number().int().min(1, "Response limit must be at least 1").nullable().optional(),
+  audience: z.enum(SURVEY_AUDIENCES).optional(),
 });
 
 export const insertSurveyResponseSchema = createInsertSchema(surveyResponses).omit({
   id: true,
+  surveyVersion: true,
   createdAt: true,
 });
 
+export const surveyAnswerSchema = z.union([z.string(), z.number(), z.array(z.string())]);
+
+// Answers to a survey's current version, keyed by question id. Who is
+// answering comes from the route: the signed-in user or the :id staff chose.
+export const surveyResponseRequestSchema = z.object({
+  answers: z.record(surveyAnswerSchema),
+});
+
+export const eventRsvpRequestSchema = z.object({
+  userId: z.string().trim().min(1, "userId is required"),
+});
+
+// Door check-in: staff pick an attendee (userId) or scan their signed QR code
+export const eventCheckinSchema = z
+  .object({
+    userId: z.string().trim().min(1).optional(),
+    qrPayload: z.string().trim().min(1).optional(),
+  })
+  .refine((value) => !!value.userId !== !!value.qrPayload, "Provide either userId or qrPayload");
+
+// Recurrence rules, a subset of iCalendar RRULE: weekly on one or more days,
+// or monthly on the nth (or last) weekday, ending on a date or after a count.
+export const RECURRENCE_FREQUENCIES = ["weekly", "monthly"] as const;
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export const recurrenceRuleSchema = z
+  .object({
+    freq: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z.number().int().min(1, "Repeat at least every 1").max(12).default(1),
+    // Weekly only; defaults to the first occurrence's weekday
+    byWeekday: z.array(z.enum(WEEKDAYS)).min(1, "Pick at least one day").optional(),
+    // Monthly only: 1-4, or -1 for the last; defaults to the first occurrence's
+    weekOfMonth: z
+      .number()
+      .int()
+      .refine((n) => n === -1 || (n >= 1 && n <= 4), "Use 1-4, or -1 for the last week")
+      .optional(),
+    count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+    until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  })
+  .refine((rule) => (rule.count === undefined) !== (rule.until === undefined), "Set either an end date or a number of occurrences");
+
+// Which occurrences of a series an edit or delete applies to
+export const EVENT_EDIT_SCOPES = ["this", "following", "all"] as const;
+export const eventEditScopeSchema = z.enum(EVENT_EDIT_SCOPES).default("this");
+
 export const insertRewardRedemptionSchema = createInsertSchema(rewardRedemptions).omit({
   id: true,
+  status: true,
+  resolvedAt: true,
+  voidReason: true,
+  createdAt: true,
+});
+
+// A redemption is a voucher: pending until a business hands over the reward
+// (fulfilled) or it is cancelled (void), which refunds its points
+export const REDEMPTION_STATUSES = ["pending", "fulfilled", "void"] as const;
+
+export const redemptionResolutionSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("fulfilled"),
+    businessId: z.number().int().optional(), // the business handing over the reward
+  }),
+  z.object({
+    status: z.literal("void"),
+    reason: z.string().trim().max(500).optional(),
+  }),
+]);
+
+export const insertReceiptSchema = createInsertSchema(receipts).omit({
+  id: true,
+  rewardId: true,
   createdAt: true,
+}).extend({
+  amountCents: z.number().int().positive(),
+  paymentMethod: z.enum(["credit_card", "debit_card", "cash", "mobile_pay", "other"]),
+  purchasedAt: z.string().transform((str) => new Date(str)),
+  // Points to grant into rewards for this receipt (0 for none)
+  pointsAwarded: z.number().int().min(0).default(0),
+  rewardSource: z.enum(["receipt", "purchase"]).default("receipt"),
+});
+
+export const AUDIT_ENTITY_TYPES = [
+  "business",
+  "event",
+  "survey",
+  "reward_item",
+  "reward_redemption",
+  "promotion",
+  "user",
+  "receipt",
+] as const;
+
+// Entities deleted to the trash (deletedAt set) rather than removed; they can
+// be restored or permanently deleted from there
+export const TRASH_ENTITY_TYPES = ["business", "event", "survey", "reward_item"] as const;
+
+export const PROMOTION_STATUSES = ["active", "expired", "inactive"] as const;
+
+// Largest page a list route returns
+export const MAX_PAGE_SIZE = 100;
+
+// The query string every paginated list route accepts: ?page= and ?pageSize=,
+// ?sort= naming one of the route's sortable fields ("-" in front for
+// descending) and ?q= for full-text search. Each route extends it with its own
+// field filters. Searches without a sort list the best matches first.
+export function listQuerySchema<F extends string>(sortFields: readonly [F, ...F[]]) {
+  return z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(25),
+    sort: z.string().optional().transform((value, ctx): ListSort<F> | undefined => {
+      if (!value) return undefined;
+      const field = value.replace(/^-/, "") as F;
+      if (!sortFields.includes(field)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `'sort' must be one of ${sortFields.join(", ")}, optionally preceded by -`,
+        });
+        return z.NEVER;
+      }
+      return { field, direction: value.startsWith("-") ? "desc" : "asc" };
+    }),
+    q: z.string().trim().optional().transform(value => value || undefined),
+  });
+}
+
+export const BUSINESS_SORT_FIELDS = ["name", "category", "createdAt"] as const;
+export const businessListQuerySchema = listQuerySchema(BUSINESS_SORT_FIELDS).extend({
+  category: z.string().trim().min(1).optional(),
+});
+
+export const EVENT_TIMEFRAMES = ["upcoming", "past"] as const;
+export const EVENT_SORT_FIELDS = ["eventDate", "name", "createdAt"] as const;
+export const eventListQuerySchema = listQuerySchema(EVENT_SORT_FIELDS).extend({
+  when: z.enum(EVENT_TIMEFRAMES).optional(), // upcoming includes events later today
+});
+
+export const SURVEY_SORT_FIELDS = ["title", "createdAt"] as const;
+export const surveyListQuerySchema = listQuerySchema(SURVEY_SORT_FIELDS).extend({
+  audience: z.enum(SURVEY_AUDIENCES).optional(),
+});
+
+export const REWARD_ITEM_SORT_FIELDS = ["name", "pointThreshold", "createdAt"] as const;
+export const rewardItemListQuerySchema = listQuerySchema(REWARD_ITEM_SORT_FIELDS).extend({
+  businessId: z.coerce.number().int().positive().optional(),
+});
+
+export const PROMOTION_SORT_FIELDS = ["title", "expiresAt", "createdAt"] as const;
+export const promotionListQuerySchema = listQuerySchema(PROMOTION_SORT_FIELDS).extend({
+  businessId: z.coerce.number().int().positive().optional(),
+  status: z.enum(PROMOTION_STATUSES).optional(),
+});
+
+export const USER_SORT_FIELDS = ["email", "lastName", "createdAt"] as const;
+export const userListQuerySchema = listQuerySchema(USER_SORT_FIELDS).extend({
+  role: z.enum(USER_ROLES).optional(),
 });
 
 // ============================================================================
 // TYPESCRIPT TYPES - Inferred types for TypeScript usage
 // ============================================================================
 
+export type Session = typeof sessions.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUserAdmin = z.infer<typeof updateUserAdminSchema>;
+export type PointsAdjustment = z.infer<typeof pointsAdjustmentSchema>;
+export type EventCheckinRequest = z.infer<typeof eventCheckinSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type EventEditScope = (typeof EVENT_EDIT_SCOPES)[number];
+export type Weekday = (typeof WEEKDAYS)[number];
+export type HoursShift = z.infer<typeof hoursShiftSchema>;
+export type BusinessHours = z.infer<typeof businessHoursSchema>;
+export type BusinessImportField = (typeof BUSINESS_IMPORT_FIELDS)[number];
+export type BusinessImportRow = z.infer<typeof businessImportRowSchema>;
+export type BusinessImportRequest = z.infer<typeof businessImportRequestSchema>;
 export type Business = typeof businesses.$inferSelect;
 export type InsertBusiness = z.infer<typeof insertBusinessSchema>;
 export type Event = typeof events.$inferSelect;
+export type EventSeries = typeof eventSeries.$inferSelect;
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type Promotion = typeof promotions.$inferSelect;
 export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
 export type Checkin = typeof checkins.$inferSelect;
 export type InsertCheckin = z.infer<typeof insertCheckinSchema>;
 export type EventRsvp = typeof eventRsvps.$inferSelect;
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
 export type InsertEventRsvp = z.infer<typeof insertEventRsvpSchema>;
 export type Reward = typeof rewards.$inferSelect;
 export type InsertReward = z.infer<typeof insertRewardSchema>;
@@ -375,20 +973,334 @@ export type RewardItem = typeof rewardItems.$inferSelect;
 export type InsertRewardItem = z.infer<typeof insertRewardItemSchema>;
 export type Survey = typeof surveys.$inferSelect;
 export type InsertSurvey = z.infer<typeof insertSurveySchema>;
+export type SurveyVersion = typeof surveyVersions.$inferSelect;
+export type SurveyPublishStatus = (typeof SURVEY_PUBLISH_STATUSES)[number];
+export type SurveyAudience = (typeof SURVEY_AUDIENCES)[number];
+export type SurveyQuestionInput = z.infer<typeof surveyQuestionSchema>;
+export type SurveyConditionOperator = (typeof SURVEY_CONDITION_OPERATORS)[number];
+export type SurveyCondition = z.infer<typeof surveyConditionSchema>;
+export type SurveySkipRule = z.infer<typeof surveySkipRuleSchema>;
+// A stored question. Its type is kept as written, so questions from older
+// surveys may carry types the editor no longer offers.
+export type SurveyQuestion = Omit<SurveyQuestionInput, "id" | "type"> & { id: string; type: string };
 export type SurveyResponse = typeof surveyResponses.$inferSelect;
 export type InsertSurveyResponse = z.infer<typeof insertSurveyResponseSchema>;
 export type RewardRedemption = typeof rewardRedemptions.$inferSelect;
 export type InsertRewardRedemption = z.infer<typeof insertRewardRedemptionSchema>;
+export type RedemptionStatus = (typeof REDEMPTION_STATUSES)[number];
+export type RedemptionResolution = z.infer<typeof redemptionResolutionSchema>;
+export type Receipt = typeof receipts.$inferSelect;
+export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+export type TrashEntityType = (typeof TRASH_ENTITY_TYPES)[number];
 
 // ============================================================================
 // ADMIN-SPECIFIC HELPER TYPES
 // ============================================================================
 
-// User roles for admin management
-export type UserRole = "patron" | "business" | "admin";
+// User roles. "admin" is the super-admin and "business" the business owner;
+// every role but patron can sign in to the admin app (see shared/permissions).
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Stored in sessions.sess. Dates are ISO strings. previousTokenHash is the
+// refresh token replaced at rotatedAt, still accepted briefly for tabs that
+// refreshed at the same moment.
+export type SessionData = {
+  email: string;
+  role: string;
+  businessId: number | null;
+  tokenHash: string;
+  previousTokenHash: string | null;
+  rotatedAt: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+};
+
+export type StoredSession = Omit<Session, "sess"> & { data: SessionData };
+
+// A session as listed to admins, without its token hashes
+export type ActiveSession = {
+  sid: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expire: Date;
+};
+
+// The fields an audited request changed. A side is null when the entity was
+// created or deleted, so a create lists every field with before: null.
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditLogEntry = Omit<typeof auditLog.$inferSelect, "changes"> & { changes: AuditChanges };
+
+export type InsertAuditLogEntry = Omit<AuditLogEntry, "id" | "createdAt">;
+
+// Filters for the audit log; entityId narrows to one entity's history
+export type AuditLogFilters = {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: Date;
+  to?: Date; // exclusive
+  page?: number;
+  pageSize?: number;
+};
+
+// Someone with entries in the audit log, for filtering by user
+export type AuditActor = { actorId: string; actorEmail: string | null };
+
+// Rows that refer to an entity, and what a permanent delete does to them:
+// "block" refuses the delete while any exist, "delete" removes them with the
+// entity and "unlink" clears their reference to it
+export type DeleteDependent = {
+  noun: string; // singular, e.g. "check-in"
+  count: number;
+  onPurge: "block" | "delete" | "unlink";
+};
+
+// Shown before an entity is moved to the trash or deleted permanently
+export type DeleteImpact = {
+  dependents: DeleteDependent[];
+  canPurge: boolean; // no blocking dependents
+};
+
+export type TrashItem = {
+  entityType: TrashEntityType;
+  id: number;
+  name: string;
+  deletedAt: Date;
+};
+
+// User row with engagement totals for the admin user directory
+export type UserDirectoryEntry = User & {
+  pointsBalance: number;
+  rsvpCount: number;
+  checkinCount: number;
+  redemptionCount: number;
+};
+
+// Per-user activity history shown in the user detail view
+export type UserActivity = {
+  rsvps: { eventId: number; eventName: string | null; createdAt: Date | null }[];
+  checkins: { eventId: number; eventName: string | null; createdAt: Date | null }[];
+  redemptions: { rewardItemId: number; rewardItemName: string | null; pointsRedeemed: number; status: string; createdAt: Date | null }[];
+};
+
+// Denormalized rows for spreadsheet exports
+export type EventRsvpDetail = {
+  id: number;
+  eventId: number;
+  eventName: string | null;
+  eventDate: Date | null;
+  userId: string;
+  userEmail: string | null;
+  userName: string | null;
+  status: string;
+  createdAt: Date | null;
+};
+
+// One person on an event's roster. Check-ins recorded before RSVPs were
+// required can appear without an RSVP.
+export type EventAttendee = {
+  userId: string;
+  userEmail: string | null;
+  userName: string | null;
+  rsvpAt: Date | null;
+  rsvpStatus: RsvpStatus | null;
+  waitlistPosition: number | null; // 1 is next in line
+  checkedInAt: Date | null;
+};
+
+export type EventAttendeeRoster = {
+  eventId: number;
+  capacity: number | null;
+  rsvpCount: number; // confirmed only
+  waitlistCount: number;
+  checkinCount: number;
+  checkinRate: number | null; // share of confirmed RSVPs that checked in; null without any
+  attendees: EventAttendee[];
+};
+
+export type EventRsvpCounts = {
+  eventId: number;
+  confirmedCount: number;
+  waitlistedCount: number;
+};
+
+// A cancellation frees a seat for the first waitlisted RSVP; promoted is
+// empty when nobody was waiting or the event is still over capacity
+export type RsvpCancellation = {
+  cancelled: EventRsvp;
+  promoted: EventRsvp[];
+};
+
+export type EventCheckinResult = {
+  attendee: EventAttendee;
+  pointsAwarded: number;
+};
+
+export type RedemptionDetail = {
+  id: number;
+  userId: string;
+  userEmail: string | null;
+  rewardItemId: number;
+  rewardItemName: string | null;
+  pointsRedeemed: number;
+  businessName: string | null;
+  status: string;
+  resolvedAt: Date | null;
+  voidReason: string | null;
+  createdAt: Date | null;
+};
+
+// Voided redemptions don't count against an item's stock
+export type RewardItemStock = {
+  rewardItemId: number;
+  redemptionCount: number; // pending + fulfilled
+  pendingCount: number;
+  fulfilledCount: number;
+  remaining: number | null; // null when maxRedemptions is unset
+};
+
+export type SurveyResponseDetail = SurveyResponse & {
+  surveyTitle: string | null;
+  userEmail: string | null;
+};
+
+// Open/closed state derived from a business's hours at a point in time.
+// Times are HH:MM in organization local time.
+export type OpenStatus = {
+  isOpen: boolean;
+  source: "hours" | "manual"; // "manual" when no hours are set and the isOpen toggle applies
+  closesAt: string | null;
+  nextOpen: { weekday: Weekday; date: string; time: string } | null;
+};
+
+export type BusinessWithStatus = Business & { openStatus: OpenStatus };
+
+// Outcome of one CSV row in a business import (row is 1-based, excluding the header)
+export type BusinessImportRowResult = {
+  row: number;
+  action: "create" | "update" | "skip";
+  data?: BusinessImportRow;
+  errors?: string[];
+  existingId?: number; // matching business when the row is a duplicate
+};
+
+export type BusinessImportSummary = {
+  created: number;
+  updated: number;
+  skipped: number;
+};
+
+export type ListSort<F extends string> = { field: F; direction: "asc" | "desc" };
+export type BusinessSortField = (typeof BUSINESS_SORT_FIELDS)[number];
+export type EventSortField = (typeof EVENT_SORT_FIELDS)[number];
+export type EventTimeframe = (typeof EVENT_TIMEFRAMES)[number];
+export type SurveySortField = (typeof SURVEY_SORT_FIELDS)[number];
+export type RewardItemSortField = (typeof REWARD_ITEM_SORT_FIELDS)[number];
+export type PromotionSortField = (typeof PROMOTION_SORT_FIELDS)[number];
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+export type BusinessListQuery = z.infer<typeof businessListQuerySchema>;
+export type EventListQuery = z.infer<typeof eventListQuerySchema>;
+export type SurveyListQuery = z.infer<typeof surveyListQuerySchema>;
+export type RewardItemListQuery = z.infer<typeof rewardItemListQuerySchema>;
+export type PromotionListQuery = z.infer<typeof promotionListQuerySchema>;
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+
+// Paginated list response
+export type PaginatedResult<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
 
 // Reward sources for analytics
-export type RewardSource = "rsvp" | "survey" | "checkin" | "receipt" | "purchase";
+export type RewardSource = "rsvp" | "survey" | "checkin" | "receipt" | "purchase" | "adjustment";
+
+// Point balance summary for a single user
+export type PointsBalance = {
+  earned: number;
+  redeemed: number;
+  balance: number;
+};
+
+// One line of a user's points ledger; points are negative for redemptions and clawbacks
+export type PointsLedgerEntry = {
+  id: string;
+  type: "reward" | "redemption";
+  source: RewardSource | "redemption";
+  description: string | null;
+  points: number;
+  createdAt: Date | null;
+  runningBalance: number;
+};
+
+// Payment methods recorded on receipts
+export type PaymentMethod = "credit_card" | "debit_card" | "cash" | "mobile_pay" | "other";
+
+// Date range for analytics queries (from inclusive, to exclusive)
+export type DateRange = {
+  from: Date;
+  to: Date;
+};
+
+// Bucket size for time-series analytics
+export type Granularity = "day" | "week" | "month";
+
+export type AnalyticsRange = DateRange & {
+  granularity: Granularity;
+};
+
+// Result of an analytics query alongside the same query over the preceding
+// period of equal length
+export type PeriodComparison<T> = {
+  current: T;
+  previous: T;
+  previousRange: DateRange;
+};
+
+export type DashboardStats = {
+  totalCheckins: number;
+  activeEvents: number; // events taking place within the range
+  surveyResponses: number;
+  rewardsRedeemed: number;
+};
+
+export type RsvpTrend = { date: string; rsvps: number };
+export type RedemptionTrend = { date: string; redemptions: number };
+export type SurveyResponseCount = { surveyTitle: string; responses: number };
+export type EventCheckinCount = { eventName: string; checkins: number };
+
+// Sales analytics aggregates (all amounts in dollars)
+export type SalesSummary = {
+  totalRevenue: number;
+  transactions: number;
+  avgTransaction: number;
+  activeBusinesses: number;
+};
+export type DailyRevenue = { date: string; revenue: number; transactions: number; avgSpend: number };
+export type CategoryRevenue = { category: string; revenue: number; transactions: number };
+export type BusinessRevenue = { businessId: number; name: string; category: string; revenue: number; transactions: number };
+export type PaymentMethodRevenue = { method: PaymentMethod; amount: number; transactions: number };
+export type HourlySpending = { hour: number; avgSpend: number; transactions: number };
+
+// Geographic analytics aggregates (hours and weekdays in organization local time)
+export type HourlyCheckins = { hour: number; checkins: number; visitors: number };
+export type WeekdayCheckins = { weekday: number; checkins: number; visitors: number }; // 0 = Sunday
+export type VisitorOrigin = { zipCode: string; visitors: number };
+export type Hotspot = {
+  label: string;
+  latitude: number;
+  longitude: number;
+  businessCount: number;
+  businesses: string[];
+  checkins: number;
+};
 
 // Business categories for filtering
 export type BusinessCategory = string; // Categories are dynamic based on business input
@@ -396,5 +1308,37 @@ export type BusinessCategory = string; // Categories are dynamic based on busine
 // Event status for admin dashboard
 export type EventStatus = "upcoming" | "ongoing" | "completed";
 
-// Survey status for admin management
-export type SurveyStatus = "active" | "inactive" | "draft";
+// Promotion status derived from isActive and expiresAt
+export type PromotionStatus = (typeof PROMOTION_STATUSES)[number];
+
+// A survey's question history for the editor. Questions in
+// answeredQuestionIds have responses, so their type is fixed.
+export type SurveyVersionHistory = {
+  currentVersion: number;
+  versions: (SurveyVersion & { responseCount: number })[];
+  answeredQuestionIds: string[];
+};
+
+// A question as analytics and exports see it across versions: the latest
+// wording, and whether the current version still asks it
+export type MergedSurveyQuestion = SurveyQuestion & { retired: boolean };
+
+// Answers keyed by question id: text for text, choice and yes/no questions,
+// a number for ratings and the selected options for checkboxes
+export type SurveyAnswer = z.infer<typeof surveyAnswerSchema>;
+export type SurveyAnswers = Record<string, SurveyAnswer>;
+
+export type SurveyQuestionAnalytics = {
+  questionId: string;
+  questionText: string;
+  questionType: string;
+  options?: string[];
+  retired: boolean;
+  responses: Array<{ answer: string; count: number }>;
+  textResponses?: string[];
+};
+
+// A survey's state for respondents, derived by surveyStatus
+export type SurveyStatus = (typeof SURVEY_STATUSES)[number];
+
+export type SurveyListItem = Survey & { responseCount: number };
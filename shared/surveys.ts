@@ -0,0 +1,230 @@
+import {
+  SURVEY_END,
+  surveyAnswerChoices,
+  type MergedSurveyQuestion,
+  type Survey,
+  type SurveyStatus,
+  type SurveyAnswer,
+  type SurveyAnswers,
+  type SurveyCondition,
+  type SurveyQuestion,
+  type SurveyQuestionInput,
+} from "./schema";
+
+// Survey questions are identified by id, never by position: responses are
+// keyed by question id, so reordering or deleting a question leaves earlier
+// answers attached to the question they answered.
+
+// Reads stored questions JSON. Older surveys stored questions without ids or
+// with the text under `text`; their answers were keyed by 1-based position,
+// which becomes the id so those answers still line up.
+export function parseSurveyQuestions(json: string | null | undefined): SurveyQuestion[] {
+  let raw: unknown;
+  try {
+    raw = json ? JSON.parse(json) : [];
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw.map(({ text, ...question }: any, index: number) => ({
+    ...question,
+    id: String(question.id ?? index + 1),
+    question: question.question || text || "",
+    type: question.type || "text",
+    options: Array.isArray(question.options) ? question.options : [],
+    required: question.required ?? true,
+    skipRules: Array.isArray(question.skipRules) ? question.skipRules : [],
+  }));
+}
+
+// The editor gives new questions a draft id so logic can point at them
+// before they are saved
+export const DRAFT_QUESTION_ID_PREFIX = "new:";
+
+export const isDraftQuestionId = (id: string | undefined) =>
+  id === undefined || id.startsWith(DRAFT_QUESTION_ID_PREFIX);
+
+// Gives questions without an id, or with a draft id, the next unused one and
+// points logic that referred to a draft id at its replacement. Ids are
+// numeric strings and `usedIds` should span every version, so a deleted
+// question's id is never handed to a new question.
+export function assignQuestionIds(
+  questions: SurveyQuestionInput[],
+  usedIds: Iterable<string>
+): SurveyQuestion[] {
+  let next = 1;
+  for (const id of Array.from(usedIds)) {
+    const n = Number(id);
+    if (Number.isInteger(n) && n >= next) next = n + 1;
+  }
+
+  const assigned = new Map<string, string>();
+  const withIds = questions.map((question) => {
+    const id = isDraftQuestionId(question.id) ? String(next++) : question.id!;
+    if (question.id !== undefined) assigned.set(question.id, id);
+    return { ...question, id };
+  });
+  const remap = (id: string) => assigned.get(id) ?? id;
+
+  return withIds.map((question) => ({
+    ...question,
+    showIf: question.showIf && { ...question.showIf, questionId: remap(question.showIf.questionId) },
+    skipRules: question.skipRules.map((rule) => ({ ...rule, to: remap(rule.to) })),
+  }));
+}
+
+// Every question a survey has asked, in the current version's order followed
+// by retired questions. Each takes its wording from the latest version that
+// asked it.
+export function mergeSurveyVersions(
+  versions: { version: number; questions: SurveyQuestion[] }[]
+): MergedSurveyQuestion[] {
+  const newestFirst = [...versions].sort((a, b) => b.version - a.version);
+  const current = new Set(newestFirst[0]?.questions.map((q) => q.id));
+  const merged = new Map<string, MergedSurveyQuestion>();
+  for (const { questions } of newestFirst) {
+    for (const question of questions) {
+      if (!merged.has(question.id)) {
+        merged.set(question.id, { ...question, retired: !current.has(question.id) });
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+// An answer as the options it selects. Checkbox answers from the mobile app
+// may arrive as comma-separated text; an empty list means unanswered.
+function answerValues(answer: SurveyAnswer | undefined, type: string): string[] {
+  if (answer === undefined || answer === null) return [];
+  if (Array.isArray(answer)) return answer.map(String).filter(Boolean);
+  const text = String(answer).trim();
+  if (!text) return [];
+  return type === "checkbox" ? text.split(",").map((value) => value.trim()).filter(Boolean) : [text];
+}
+
+function conditionHolds(
+  condition: Omit<SurveyCondition, "questionId">,
+  answer: SurveyAnswer | undefined,
+  type: string
+): boolean {
+  const values = answerValues(answer, type);
+  if (values.length === 0) return false;
+  switch (condition.operator) {
+    case "answered":
+      return true;
+    case "equals":
+      return values.length === 1 && values[0] === condition.value;
+    case "not_equals":
+      return !(values.length === 1 && values[0] === condition.value);
+    case "includes":
+      return values.includes(condition.value);
+    case "at_least":
+      return Number(values[0]) >= Number(condition.value);
+    case "at_most":
+      return Number(values[0]) <= Number(condition.value);
+  }
+}
+
+// The questions a respondent with these answers is asked, in order. A
+// question is shown when its display logic passes on an answer given earlier
+// in the path; after it is answered, the first skip rule its answer passes
+// jumps ahead. Answers to questions off the path are ignored.
+export function surveyPath(questions: SurveyQuestion[], answers: SurveyAnswers): SurveyQuestion[] {
+  const path: SurveyQuestion[] = [];
+  const asked = new Map<string, SurveyQuestion>();
+
+  for (let index = 0; index < questions.length; ) {
+    const question = questions[index];
+    const { showIf } = question;
+    const tested = showIf && asked.get(showIf.questionId);
+    if (showIf && !(tested && conditionHolds(showIf, answers[tested.id], tested.type))) {
+      index++;
+      continue;
+    }
+
+    path.push(question);
+    asked.set(question.id, question);
+    const rule = question.skipRules.find((r) => conditionHolds(r, answers[question.id], question.type));
+    if (rule?.to === SURVEY_END) break;
+    const target = rule ? questions.findIndex((q) => q.id === rule.to) : -1;
+    index = target > index ? target : index + 1;
+  }
+  return path;
+}
+
+// Checks a set of answers against the survey's logic: every required question
+// on the path is answered, choices are among the question's options and
+// checkbox answers select an allowed number of them. Errors are keyed by
+// question id. `answers` keeps only answers on the path, as they are stored:
+// checkbox answers as arrays and ratings as numbers.
+export function checkSurveyAnswers(
+  questions: SurveyQuestion[],
+  answers: SurveyAnswers
+): { path: SurveyQuestion[]; errors: Record<string, string>; answers: SurveyAnswers } {
+  const path = surveyPath(questions, answers);
+  const errors: Record<string, string> = {};
+  const accepted: SurveyAnswers = {};
+
+  for (const question of path) {
+    const values = answerValues(answers[question.id], question.type);
+    if (values.length === 0) {
+      if (question.required) errors[question.id] = "This question is required";
+      continue;
+    }
+    accepted[question.id] =
+      question.type === "checkbox" ? values : question.type === "rating" ? Number(values[0]) : values[0];
+
+    const choices = surveyAnswerChoices(question);
+    if (question.type !== "checkbox" && values.length > 1) {
+      errors[question.id] = "Choose one answer";
+    } else if (choices && values.some((value) => !choices.includes(value))) {
+      errors[question.id] = "Choose from the listed answers";
+    } else if (question.minSelections !== undefined && values.length < question.minSelections) {
+      errors[question.id] = `Select at least ${question.minSelections}`;
+    } else if (question.maxSelections !== undefined && values.length > question.maxSelections) {
+      errors[question.id] = `Select at most ${question.maxSelections}`;
+    }
+  }
+  return { path, errors, answers: accepted };
+}
+
+// Admins set draft, published or closed; older surveys closed by clearing
+// isActive read as closed too. A published survey is scheduled until
+// opensAt, then active until closesAt or its response quota is reached.
+export function surveyStatus(
+  survey: Pick<Survey, "status" | "isActive" | "opensAt" | "closesAt" | "maxResponses">,
+  responseCount?: number,
+  now = new Date()
+): SurveyStatus {
+  if (survey.status === "draft") return "draft";
+  if (survey.status === "closed" || survey.isActive === false) return "closed";
+  if (survey.opensAt && new Date(survey.opensAt) > now) return "scheduled";
+  if (survey.closesAt && new Date(survey.closesAt) <= now) return "closed";
+  if (survey.maxResponses !== null && responseCount !== undefined && responseCount >= survey.maxResponses) {
+    return "closed";
+  }
+  return "active";
+}
+
+// Why a survey's schedule and audience can't be saved together, and the
+// field to blame, if they can't
+export function surveySettingsProblem(settings: {
+  opensAt?: Date | string | null;
+  closesAt?: Date | string | null;
+  audience?: string;
+  audienceEventId?: number | null;
+  audienceBusinessId?: number | null;
+}): { field: keyof typeof settings; message: string } | null {
+  const { opensAt, closesAt, audience } = settings;
+  if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+    return { field: "closesAt", message: "Closing time must be after the opening time" };
+  }
+  if (audience === "event_attendees" && !settings.audienceEventId) {
+    return { field: "audienceEventId", message: "Choose the event whose attendees can respond" };
+  }
+  if (audience === "business_customers" && !settings.audienceBusinessId) {
+    return { field: "audienceBusinessId", message: "Choose the business whose customers can respond" };
+  }
+  return null;
+}
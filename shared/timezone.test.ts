@@ -0,0 +1,94 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fromWallTime, parseOrgDateTime, toWallTime } from "./timezone";
+import { insertEventSchema } from "./schema";
+
+// New York in 2026: clocks spring forward at 2:00 AM on March 8 (2:00-2:59
+// never happens) and fall back at 2:00 AM on November 1 (1:00-1:59 happens
+// twice, first in EDT and then in EST).
+const NEW_YORK = "America/New_York";
+const iso = (date: Date) => date.toISOString();
+
+describe("fromWallTime", () => {
+  test("uses the offset in effect on the date, not today's", () => {
+    assert.equal(iso(fromWallTime("2026-01-15T09:00", NEW_YORK)), "2026-01-15T14:00:00.000Z");
+    assert.equal(iso(fromWallTime("2026-07-15T09:00", NEW_YORK)), "2026-07-15T13:00:00.000Z");
+  });
+
+  test("converts the hours either side of spring forward", () => {
+    assert.equal(iso(fromWallTime("2026-03-08T01:59", NEW_YORK)), "2026-03-08T06:59:00.000Z");
+    assert.equal(iso(fromWallTime("2026-03-08T03:00", NEW_YORK)), "2026-03-08T07:00:00.000Z");
+  });
+
+  test("moves a time in the spring-forward gap an hour later", () => {
+    const instant = fromWallTime("2026-03-08T02:30", NEW_YORK);
+    assert.equal(iso(instant), "2026-03-08T07:30:00.000Z");
+    assert.equal(toWallTime(instant, NEW_YORK), "2026-03-08T03:30:00");
+  });
+
+  test("resolves the repeated fall-back hour to its first, daylight-time reading", () => {
+    assert.equal(iso(fromWallTime("2026-11-01T01:30", NEW_YORK)), "2026-11-01T05:30:00.000Z");
+    assert.equal(iso(fromWallTime("2026-11-01T00:59", NEW_YORK)), "2026-11-01T04:59:00.000Z");
+    assert.equal(iso(fromWallTime("2026-11-01T02:00", NEW_YORK)), "2026-11-01T07:00:00.000Z");
+  });
+
+  test("round-trips every half hour across both transition days", () => {
+    for (const date of ["2026-03-08", "2026-11-01"]) {
+      for (let minutes = 0; minutes < 24 * 60; minutes += 30) {
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+        const wall = `${date}T${time}:00`;
+        if (date === "2026-03-08" && time.startsWith("02:")) continue; // never shown on the clock
+        assert.equal(toWallTime(fromWallTime(wall, NEW_YORK), NEW_YORK), wall);
+      }
+    }
+  });
+
+  test("rejects anything but a local date and time", () => {
+    assert.throws(() => fromWallTime("2026-03-08", NEW_YORK));
+    assert.throws(() => fromWallTime("2026-02-30T09:00", NEW_YORK));
+  });
+});
+
+describe("parseOrgDateTime", () => {
+  test("reads wall time in the organization's timezone", () => {
+    assert.equal(iso(parseOrgDateTime("2026-03-08T02:30")), "2026-03-08T07:30:00.000Z");
+    assert.equal(iso(parseOrgDateTime("2026-11-01T01:30:00")), "2026-11-01T05:30:00.000Z");
+  });
+
+  test("takes times with an offset as given", () => {
+    assert.equal(iso(parseOrgDateTime("2026-11-01T01:30:00-05:00")), "2026-11-01T06:30:00.000Z");
+    assert.equal(iso(parseOrgDateTime("2026-03-08T02:30:00Z")), "2026-03-08T02:30:00.000Z");
+  });
+});
+
+describe("event dates", () => {
+  const event = {
+    name: "Farmers Market",
+    description: "Local produce on Osceola Street",
+    location: "Downtown Stuart",
+  };
+
+  test("creating an event in the spring-forward gap stores the next real time", () => {
+    const parsed = insertEventSchema.parse({ ...event, eventDate: "2026-03-08T02:30" });
+    assert.equal(iso(parsed.eventDate), "2026-03-08T07:30:00.000Z");
+  });
+
+  test("creating an event in the repeated hour stores its first occurrence", () => {
+    const parsed = insertEventSchema.parse({
+      ...event,
+      eventDate: "2026-11-01T01:30",
+      rsvpDeadline: "2026-10-31T01:30",
+    });
+    assert.equal(iso(parsed.eventDate), "2026-11-01T05:30:00.000Z");
+    assert.equal(iso(parsed.rsvpDeadline!), "2026-10-31T05:30:00.000Z");
+  });
+
+  test("updating an event across a transition uses the new date's offset", () => {
+    const parsed = insertEventSchema.partial().parse({ eventDate: "2026-11-02T09:00" });
+    assert.equal(iso(parsed.eventDate!), "2026-11-02T14:00:00.000Z");
+  });
+
+  test("rejects an impossible date", () => {
+    assert.equal(insertEventSchema.safeParse({ ...event, eventDate: "2026-13-01T09:00" }).success, false);
+  });
+});
@@ -0,0 +1,119 @@
+// Organization-local dates. Event times are entered and shown as wall-clock
+// time in the organization's timezone (YYYY-MM-DDTHH:mm[:ss], no offset) and
+// stored as the UTC instant, converting with the offset in effect on that
+// date rather than today's.
+
+export const DEFAULT_ORG_TIMEZONE = "America/New_York";
+
+function resolveTimeZone(zone: string | undefined): string {
+  if (!zone) return DEFAULT_ORG_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+  } catch {
+    throw new Error(`ORG_TIMEZONE "${zone}" is not a valid IANA timezone`);
+  }
+  return zone;
+}
+
+// ORG_TIMEZONE on the server; the client build receives the same value as
+// VITE_ORG_TIMEZONE (see vite.config.ts)
+export const ORG_TIMEZONE = resolveTimeZone(
+  (typeof process !== "undefined" ? process.env.ORG_TIMEZONE : undefined) ||
+    import.meta.env?.VITE_ORG_TIMEZONE
+);
+
+const WALL_TIME = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+export const isWallTime = (value: string) => WALL_TIME.test(value);
+
+// Local wall-clock time of an instant, as YYYY-MM-DDTHH:mm:ss
+export function toWallTime(date: Date, timeZone = ORG_TIMEZONE): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+// The instant at which timeZone's clocks read `wallTime`. A time skipped by
+// the spring-forward gap lands an hour later (2:30 AM becomes 3:30 AM); a
+// time repeated in the fall-back hour resolves to its first (daylight) one.
+export function fromWallTime(wallTime: string, timeZone = ORG_TIMEZONE): Date {
+  const match = wallTime.match(WALL_TIME);
+  if (!match) {
+    throw new Error(`Expected a local date and time (YYYY-MM-DDTHH:mm), got "${wallTime}"`);
+  }
+  const [, date, hours, minutes, seconds = "00"] = match;
+  const asUtc = new Date(`${date}T${hours}:${minutes}:${seconds}Z`);
+  // Date rolls days like February 30 over into the next month
+  if (isNaN(asUtc.getTime()) || asUtc.toISOString().slice(0, 10) !== date) {
+    throw new Error(`Invalid date "${wallTime}"`);
+  }
+
+  const target = `${date}T${hours}:${minutes}:${seconds}`;
+  const offsetAt = (instant: number) =>
+    new Date(`${toWallTime(new Date(instant), timeZone)}Z`).getTime() - instant;
+
+  // The offsets half a day either side cover both readings around a
+  // transition. Prefer the earlier instant whose clock shows the target.
+  const halfDay = 12 * 3_600_000;
+  const candidates = [
+    asUtc.getTime() - offsetAt(asUtc.getTime() - halfDay),
+    asUtc.getTime() - offsetAt(asUtc.getTime() + halfDay),
+  ].sort((a, b) => a - b);
+  const exact = candidates.find((instant) => toWallTime(new Date(instant), timeZone) === target);
+  // In the spring-forward gap neither matches; keep the pre-transition offset
+  return new Date(exact ?? candidates[1]);
+}
+
+// Event date input from a form or API client: local wall time is read in the
+// organization's timezone; anything with an explicit offset or Z is taken as-is
+export function parseOrgDateTime(value: string): Date {
+  if (isWallTime(value)) return fromWallTime(value);
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  return date;
+}
+
+// Values for <input type="date"> and <input type="time">
+export function toOrgDateInputs(date: Date | string): { date: string; time: string } {
+  const wall = toWallTime(new Date(date));
+  return { date: wall.slice(0, 10), time: wall.slice(11, 16) };
+}
+
+// Calendar date (YYYY-MM-DD) an instant falls on locally
+export const orgDateOf = (date: Date | string) => toWallTime(new Date(date)).slice(0, 10);
+
+export function formatOrgDate(date: Date | string, options: Intl.DateTimeFormatOptions = {}): string {
+  return new Date(date).toLocaleDateString("en-US", { timeZone: ORG_TIMEZONE, ...options });
+}
+
+export function formatOrgTime(date: Date | string): string {
+  return new Date(date).toLocaleTimeString("en-US", {
+    timeZone: ORG_TIMEZONE,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function formatOrgDateTime(date: Date | string, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(date).toLocaleString(
+    "en-US",
+    {
+      timeZone: ORG_TIMEZONE,
+      ...(options ?? { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }),
+    }
+  );
+}
@@ -0,0 +1,22 @@
+import type { DeleteDependent, TrashEntityType } from "./schema";
+import type { Permission } from "./permissions";
+
+// Restoring or permanently deleting an entity takes the permission that
+// deletes it
+export const TRASH_PERMISSIONS: Record<TrashEntityType, Permission> = {
+  business: "businesses:manage",
+  event: "events:manage",
+  survey: "surveys:manage",
+  reward_item: "rewards:manage",
+};
+
+// "1 RSVP", "30 check-ins"
+export const countNoun = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// "42 RSVPs and 30 check-ins", for delete confirmations and refusals
+export function describeDependents(dependents: DeleteDependent[]): string {
+  const parts = dependents.map(dependent => countNoun(dependent.count, dependent.noun));
+  if (parts.length <= 1) return parts.join("");
+  return `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+}
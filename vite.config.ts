@@ -4,6 +4,12 @@ import path from "path";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
 
 export default defineConfig({
+  // The client formats event dates in the same timezone the server uses
+  define: {
+    "import.meta.env.VITE_ORG_TIMEZONE": JSON.stringify(
+      process.env.ORG_TIMEZONE ?? "",
+    ),
+  },
   plugins: [
     react(),
     runtimeErrorOverlay(),